@@ -2,44 +2,40 @@
 'use client';
 
 import React, { useEffect, useState, useRef } from 'react';
-import { HiPaperAirplane } from 'react-icons/hi';
+import { HiPaperAirplane, HiPencil, HiPlus, HiTrash } from 'react-icons/hi';
 import { supabase } from '@/lib/supabase';
+import { Json } from '@/types/supabase';
+import { ChatSource, Conversation, Proposal, streamChatReply } from '@/lib/ai/client';
+import { getDocumentFileUrl } from '@/lib/storage/client';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
-
-const fetchAIResponse = async (prompt: string, caseContext: any | null = null, documentContext: string | null = null): Promise<string> => {
-  console.log('AI Request:', { prompt, caseContext, documentContext });
-  await new Promise(resolve => setTimeout(resolve, 1500));
-
-  if (prompt.toLowerCase().includes('draft') || prompt.toLowerCase().includes('write')) {
-    return 'I have drafted the document based on your requirements. Here is the suggested text...';
-  }
-
-  if (prompt.toLowerCase().includes('analyze') || prompt.toLowerCase().includes('review')) {
-    return 'Based on my analysis of the document, here are my observations...';
-  }
-
-  if (prompt.toLowerCase().includes('summarize')) {
-    return 'Summary of the document: This is a mortgage foreclosure complaint...';
-  }
-
-  if (prompt.toLowerCase().includes('deadline') || prompt.toLowerCase().includes('timeline')) {
-    return 'Key deadlines include: 21 days to file an answer, 6-month redemption period...';
-  }
-
-  return 'I\'ve analyzed your request. Please provide more specific details.';
-};
+import ProposalCard from '@/components/ai/ProposalCard';
 
 interface Message {
   id: string;
   sender: 'user' | 'ai';
   content: string;
   timestamp: Date;
+  sources?: ChatSource[];
+  proposals?: Proposal[];
+  // Id of the saved ai_messages row, once there is one
+  savedId?: string;
+}
+
+interface ConversationSummary extends Conversation {
+  case?: { case_number: string } | null;
 }
 
+const GREETING: Message = {
+  id: 'greeting',
+  sender: 'ai',
+  content: 'Hello! I\'m your AI legal assistant...',
+  timestamp: new Date()
+};
+
 interface Case {
   id: string;
   title: string;
@@ -64,31 +60,29 @@ export default function AIAssistantPage() {
   const [selectedCase, setSelectedCase] = useState<any | null>(null);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [selectedDocumentId, setSelectedDocumentId] = useState<string>('');
-  const [documentContent, setDocumentContent] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Reviews finish asynchronously, so they read the latest messages rather than a render's copy
+  const messagesRef = useRef<Message[]>([]);
+  messagesRef.current = messages;
 
   useEffect(() => {
-    setMessages([{
-      id: '1',
-      sender: 'ai',
-      content: 'Hello! I\'m your AI legal assistant...',
-      timestamp: new Date()
-    }]);
+    setMessages([GREETING]);
     fetchCases();
+    fetchConversations();
   }, []);
 
   useEffect(() => {
     if (selectedCaseId) {
       fetchCaseDetails(selectedCaseId);
       fetchCaseDocuments(selectedCaseId);
+    } else {
+      setSelectedCase(null);
+      setDocuments([]);
     }
   }, [selectedCaseId]);
 
-  useEffect(() => {
-    if (selectedDocumentId) fetchDocumentContent(selectedDocumentId);
-    else setDocumentContent(null);
-  }, [selectedDocumentId]);
-
   useEffect(() => scrollToBottom(), [messages]);
 
   const fetchCases = async () => {
@@ -104,6 +98,79 @@ export default function AIAssistantPage() {
     } catch (err) { console.error('Error fetching cases:', err); }
   };
 
+  const fetchConversations = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { data, error } = await supabase.from('ai_conversations').select('*, case:case_id(case_number)').eq('user_id', user.id).order('updated_at', { ascending: false });
+      if (error) throw error;
+      setConversations((data || []) as ConversationSummary[]);
+    } catch (err) { console.error('Error fetching conversations:', err); }
+  };
+
+  const openConversation = async (conversation: ConversationSummary) => {
+    try {
+      const { data, error } = await supabase.from('ai_messages').select('*').eq('conversation_id', conversation.id).order('created_at', { ascending: true });
+      if (error) throw error;
+      setActiveConversationId(conversation.id);
+      setSelectedCaseId(conversation.case_id || '');
+      setSelectedDocumentId('');
+      setMessages([GREETING, ...(data || []).map(msg => ({
+        id: msg.id,
+        sender: msg.role === 'user' ? 'user' as const : 'ai' as const,
+        content: msg.content,
+        timestamp: new Date(msg.created_at),
+        sources: (msg.sources as unknown as ChatSource[] | null) || undefined,
+        proposals: (msg.proposals as unknown as Proposal[] | null) || undefined,
+        savedId: msg.id
+      }))]);
+    } catch (err) { console.error('Error loading conversation:', err); }
+  };
+
+  const startNewConversation = () => {
+    setActiveConversationId(null);
+    setMessages([GREETING]);
+  };
+
+  const renameConversation = async (conversation: ConversationSummary) => {
+    const title = window.prompt('Rename conversation', conversation.title)?.trim();
+    if (!title || title === conversation.title) return;
+    try {
+      const { error } = await supabase.from('ai_conversations').update({ title }).eq('id', conversation.id);
+      if (error) throw error;
+      setConversations(prev => prev.map(c => c.id === conversation.id ? { ...c, title } : c));
+    } catch (err) {
+      console.error('Error renaming conversation:', err);
+      alert('Failed to rename the conversation. Please try again.');
+    }
+  };
+
+  const deleteConversation = async (conversation: ConversationSummary) => {
+    if (!window.confirm(`Delete "${conversation.title}"? Its messages will be removed.`)) return;
+    try {
+      const { error } = await supabase.from('ai_conversations').delete().eq('id', conversation.id);
+      if (error) throw error;
+      setConversations(prev => prev.filter(c => c.id !== conversation.id));
+      if (activeConversationId === conversation.id) startNewConversation();
+    } catch (err) {
+      console.error('Error deleting conversation:', err);
+      alert('Failed to delete the conversation. Please try again.');
+    }
+  };
+
+  const reviewProposal = async (messageId: string, proposal: Proposal) => {
+    const message = messagesRef.current.find(msg => msg.id === messageId);
+    if (!message) return;
+    const proposals = (message.proposals || []).map(p => p.id === proposal.id ? proposal : p);
+    messagesRef.current = messagesRef.current.map(msg => msg.id === messageId ? { ...msg, proposals } : msg);
+    setMessages(messagesRef.current);
+    if (!message.savedId) return;
+    try {
+      const { error } = await supabase.from('ai_messages').update({ proposals: proposals as unknown as Json }).eq('id', message.savedId);
+      if (error) throw error;
+    } catch (err) { console.error('Error saving proposal review:', err); }
+  };
+
   const fetchCaseDetails = async (caseId: string) => {
     try {
       const { data, error } = await supabase.from('cases').select(`*, client:client_id(id, first_name, last_name, organization_name), opposing_party:opposing_party_id(id, first_name, last_name, organization_name)`).eq('id', caseId).single();
@@ -114,30 +181,43 @@ export default function AIAssistantPage() {
 
   const fetchCaseDocuments = async (caseId: string) => {
     try {
-      const { data, error } = await supabase.from('documents').select('id, name, document_type, file_path').eq('case_id', caseId).eq('is_template', false).order('created_at', { ascending: false });
+      const { data, error } = await supabase.from('documents').select('id, name, document_type, file_path').eq('case_id', caseId).eq('is_template', false).eq('is_current', true).order('created_at', { ascending: false });
       if (error) throw error;
       setDocuments(data || []);
     } catch (err) { console.error('Error fetching documents:', err); }
   };
 
-  const fetchDocumentContent = async (docId: string) => {
-    setDocumentContent('MORTGAGE FORECLOSURE COMPLAINT\n\n...');
-  };
-
   const handleSendMessage = async () => {
     if (!input.trim()) return;
     const newMessage: Message = { id: Date.now().toString(), sender: 'user', content: input, timestamp: new Date() };
-    setMessages(prev => [...prev, newMessage]);
+    const replyId = (Date.now() + 1).toString();
+
+    setMessages(prev => [...prev, newMessage, { id: replyId, sender: 'ai', content: '', timestamp: new Date() }]);
     setInput('');
     setIsLoading(true);
 
+    const updateReply = (update: (content: string) => string) => {
+      setMessages(prev => prev.map(msg => msg.id === replyId ? { ...msg, content: update(msg.content) } : msg));
+    };
+
     try {
-      const aiReply = await fetchAIResponse(input, selectedCase, documentContent);
-      setMessages(prev => [...prev, { id: (Date.now() + 1).toString(), sender: 'ai', content: aiReply, timestamp: new Date() }]);
-    } catch (error) {
-      setMessages(prev => [...prev, { id: (Date.now() + 1).toString(), sender: 'ai', content: 'Error processing request.', timestamp: new Date() }]);
+      await streamChatReply(newMessage.content, {
+        onToken: (token) => updateReply(content => content + token),
+        onSources: (sources) => setMessages(prev => prev.map(msg => msg.id === replyId ? { ...msg, sources } : msg)),
+        onConversation: (conversation) => setActiveConversationId(conversation.id),
+        onProposal: (proposal) => setMessages(prev => prev.map(msg => msg.id === replyId ? { ...msg, proposals: [...(msg.proposals || []), proposal] } : msg)),
+        onDone: (messageId) => messageId && setMessages(prev => prev.map(msg => msg.id === replyId ? { ...msg, savedId: messageId } : msg))
+      }, {
+        conversationId: activeConversationId,
+        caseId: selectedCaseId,
+        documentId: selectedDocumentId
+      });
+    } catch (error: any) {
+      console.error('Error getting AI reply:', error);
+      updateReply(content => content ? `${content}\n\n[Reply interrupted: ${error.message}]` : `Error processing request: ${error.message}`);
     } finally {
       setIsLoading(false);
+      fetchConversations();
     }
   };
 
@@ -158,6 +238,23 @@ export default function AIAssistantPage() {
                 <div key={msg.id} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
                   <div className={`max-w-3/4 rounded-lg px-4 py-2 ${msg.sender === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-white'}`}>
                     <div className="whitespace-pre-line">{msg.content}</div>
+                    {msg.proposals && selectedCaseId && msg.proposals.map(proposal => (
+                      <ProposalCard key={proposal.id} proposal={proposal} caseId={selectedCaseId} onReviewed={(reviewed) => reviewProposal(msg.id, reviewed)} />
+                    ))}
+                    {msg.sources && msg.sources.length > 0 && (
+                      <div className="mt-3 pt-2 border-t border-gray-600 space-y-1">
+                        <div className="text-xs font-medium text-gray-400 uppercase tracking-wider">Sources</div>
+                        {msg.sources.map(source => (
+                          <div key={source.number} className="text-xs text-gray-300" title={source.excerpt}>
+                            [{source.number}]{' '}
+                            {source.source === 'document' ? (
+                              <a href={getDocumentFileUrl(source.source_id)} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">{source.title}</a>
+                            ) : source.title}
+                            {' '}- {source.location}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <div className={`text-xs mt-1 ${msg.sender === 'user' ? 'text-blue-200' : 'text-gray-400'}`}>{formatTimestamp(msg.timestamp)}</div>
                   </div>
                 </div>
@@ -185,6 +282,68 @@ export default function AIAssistantPage() {
             </div>
           </Card>
         </div>
+        <div className="space-y-6">
+          <Card>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-semibold text-white">Conversations</h2>
+              <Button variant="outline" size="sm" onClick={startNewConversation} title="New conversation">
+                <HiPlus className="h-4 w-4" />
+              </Button>
+            </div>
+            {conversations.length === 0 ? (
+              <p className="text-sm text-gray-400">No saved conversations yet</p>
+            ) : (
+              <ul className="space-y-1 max-h-72 overflow-y-auto">
+                {conversations.map(conversation => (
+                  <li key={conversation.id} className={`group flex items-center rounded-md px-2 py-1 ${conversation.id === activeConversationId ? 'bg-gray-700' : 'hover:bg-gray-700'}`}>
+                    <button className="flex-1 text-left min-w-0" onClick={() => openConversation(conversation)}>
+                      <div className="text-sm text-white truncate">{conversation.title}</div>
+                      <div className="text-xs text-gray-400">
+                        {conversation.case?.case_number ? `${conversation.case.case_number} - ` : ''}
+                        {new Date(conversation.updated_at).toLocaleDateString()}
+                      </div>
+                    </button>
+                    <button className="ml-1 text-gray-400 hover:text-white" onClick={() => renameConversation(conversation)} title="Rename">
+                      <HiPencil className="h-4 w-4" />
+                    </button>
+                    <button className="ml-1 text-gray-400 hover:text-red-400" onClick={() => deleteConversation(conversation)} title="Delete">
+                      <HiTrash className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+          <Card>
+            <h2 className="text-lg font-semibold text-white mb-4">Context</h2>
+            <Select
+              label="Case"
+              value={selectedCaseId}
+              onChange={(e) => {
+                // A thread stays with the case it started on, so switching cases starts a new one
+                if (activeConversationId) startNewConversation();
+                setSelectedCaseId(e.target.value);
+                setSelectedDocumentId('');
+              }}
+              options={[{ value: '', label: 'No case selected' }, ...cases.map(c => ({ value: c.id, label: `${c.case_number} - ${c.title}` }))]}
+            />
+            {selectedCaseId && (
+              <Select
+                label="Document"
+                value={selectedDocumentId}
+                onChange={(e) => setSelectedDocumentId(e.target.value)}
+                options={[{ value: '', label: 'All case documents' }, ...documents.map(d => ({ value: d.id, label: d.name }))]}
+              />
+            )}
+            {selectedCase && (
+              <div className="text-sm text-gray-400 space-y-1">
+                <p className="text-white">{selectedCase.title}</p>
+                <p>{selectedCase.case_type} - {selectedCase.status}</p>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-4">Answers cite the case documents, deadlines, financials and security interests they draw on. Text, HTML and Word documents are searched.</p>
+          </Card>
+        </div>
       </div>
     </MainLayout>
   );
@@ -0,0 +1,233 @@
+// src/app/api/ai/chat/route.ts
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import { ChatChunk, ChatMessage, ProviderError, getChatProvider } from '@/lib/ai';
+import { buildChatContext } from '@/lib/ai/context';
+import { PROPOSAL_TOOLS, Proposal, TOOL_INSTRUCTIONS, parseProposal } from '@/lib/ai/tools';
+import { Json } from '@/types/supabase';
+
+export const runtime = 'nodejs';
+
+// Earlier turns beyond this are dropped to keep the prompt bounded
+const MAX_HISTORY = 20;
+
+const TITLE_LENGTH = 60;
+
+const titleFromMessage = (content: string) => {
+  const line = content.replace(/\s+/g, ' ').trim();
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH).trim()}...` : line;
+};
+
+// Adds a user message to a conversation (starting one if no conversation_id is given)
+// and streams the reply as newline-delimited JSON events: `conversation`, then
+// `sources` listing the passages the model was given, then `token` events as the
+// provider produces text and `proposal` events for any tool calls, then `done` with
+// the saved reply's id. Both messages are saved to the thread.
+export async function POST(request: Request) {
+  const { supabase, user, profile, response } = await getRouteUser();
+  if (response) return response;
+
+  const body = await request.json().catch(() => null);
+  const content = typeof body?.content === 'string' ? body.content.trim() : '';
+
+  if (!content) {
+    return NextResponse.json({ error: 'A message is required' }, { status: 400 });
+  }
+
+  let conversation;
+
+  if (body.conversation_id) {
+    const { data } = await supabase
+      .from('ai_conversations')
+      .select('*')
+      .eq('id', body.conversation_id)
+      .eq('firm_id', profile.firm_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!data) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    conversation = data;
+  } else {
+    if (body.case_id) {
+      const { data: caseData } = await supabase
+        .from('cases')
+        .select('id')
+        .eq('id', body.case_id)
+        .eq('firm_id', profile.firm_id)
+        .maybeSingle();
+
+      if (!caseData) {
+        return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('ai_conversations')
+      .insert({
+        firm_id: profile.firm_id,
+        case_id: body.case_id || null,
+        user_id: user.id,
+        title: titleFromMessage(content),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating conversation:', error);
+      return NextResponse.json({ error: 'Failed to start the conversation' }, { status: 500 });
+    }
+    conversation = data;
+  }
+
+  const { data: previous } = await supabase
+    .from('ai_messages')
+    .select('role, content')
+    .eq('conversation_id', conversation.id)
+    .order('created_at', { ascending: false })
+    .limit(MAX_HISTORY - 1);
+
+  const history: ChatMessage[] = [
+    ...(previous || []).reverse().map((message) => ({
+      role: message.role as ChatMessage['role'],
+      content: message.content,
+    })),
+    { role: 'user', content },
+  ];
+
+  const { error: saveError } = await supabase
+    .from('ai_messages')
+    .insert({ conversation_id: conversation.id, firm_id: profile.firm_id, role: 'user', content });
+
+  if (saveError) {
+    console.error('Error saving message:', saveError);
+    return NextResponse.json({ error: 'Failed to save the message' }, { status: 500 });
+  }
+
+  // Follow-up questions lean on the one before, so both feed retrieval
+  const question = history
+    .filter((message) => message.role === 'user')
+    .slice(-2)
+    .map((message) => message.content)
+    .join('\n');
+
+  let context: Awaited<ReturnType<typeof buildChatContext>>;
+  try {
+    context = await buildChatContext(supabase, profile.firm_id, conversation.case_id, body.document_id || null, question);
+  } catch (error) {
+    console.error('Error building AI context:', error);
+    return NextResponse.json({ error: 'Failed to load the case file' }, { status: 500 });
+  }
+
+  // Proposals need a case to be written to
+  const tools = conversation.case_id ? PROPOSAL_TOOLS : [];
+  const systemPrompt = tools.length > 0 ? `${context.prompt}\n\n${TOOL_INSTRUCTIONS}` : context.prompt;
+
+  const chunks = getChatProvider().streamChat({
+    messages: [{ role: 'system', content: systemPrompt }, ...history],
+    tools,
+    signal: request.signal,
+  })[Symbol.asyncIterator]();
+
+  // Pull the first chunk before answering so provider failures still get a proper status
+  let first: IteratorResult<ChatChunk>;
+  try {
+    first = await chunks.next();
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error starting AI reply:', error);
+    return NextResponse.json({ error: 'Failed to get a reply' }, { status: 500 });
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let reply = '';
+      const proposals: Proposal[] = [];
+      let open = true;
+
+      // The browser may go away mid-reply; the reply is still saved below
+      const send = (value: object) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`));
+        } catch {
+          open = false;
+        }
+      };
+
+      send({ type: 'conversation', conversation });
+      send({ type: 'sources', sources: context.sources });
+
+      try {
+        for (let result = first; !result.done; result = await chunks.next()) {
+          const chunk = result.value;
+
+          if (chunk.type === 'text') {
+            reply += chunk.text;
+            send({ type: 'token', text: chunk.text });
+            continue;
+          }
+
+          const proposal = parseProposal(randomUUID(), chunk.name, chunk.arguments);
+
+          if (proposal) {
+            proposals.push(proposal);
+            send({ type: 'proposal', proposal });
+          } else {
+            console.error('Discarded malformed tool call:', chunk.name, chunk.arguments);
+          }
+        }
+      } catch (error) {
+        console.error('Error streaming AI reply:', error);
+        send({
+          type: 'error',
+          message: error instanceof ProviderError ? error.message : 'The reply was interrupted',
+        });
+      }
+
+      let messageId: string | null = null;
+
+      if (reply || proposals.length > 0) {
+        const { data: saved, error } = await supabase
+          .from('ai_messages')
+          .insert({
+            conversation_id: conversation.id,
+            firm_id: profile.firm_id,
+            role: 'assistant',
+            content: reply,
+            sources: context.sources as unknown as Json,
+            proposals: proposals.length > 0 ? proposals as unknown as Json : null,
+          })
+          .select('id')
+          .single();
+
+        if (error) console.error('Error saving AI reply:', error);
+        messageId = saved?.id || null;
+      }
+
+      send({ type: 'done', message_id: messageId });
+
+      await supabase
+        .from('ai_conversations')
+        .update({ updated_at: new Date().toISOString() })
+        .eq('id', conversation.id);
+
+      if (open) controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
@@ -0,0 +1,146 @@
+// src/app/api/audit/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import {
+  AuditEvent,
+  AuditFilters,
+  auditFiltersFromSearchParams,
+  getAuditActionLabel,
+  getAuditEntityName,
+  getAuditTableLabel,
+} from '@/lib/audit';
+import { toCsv } from '@/lib/csv';
+
+export const runtime = 'nodejs';
+
+const PAGE_SIZE = 50;
+const EXPORT_BATCH_SIZE = 1000;
+const EXPORT_MAX_ROWS = 100000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const validateFilters = (filters: AuditFilters) => {
+  if (filters.caseId && !UUID_PATTERN.test(filters.caseId)) return 'Invalid case';
+  if (filters.actorId && !UUID_PATTERN.test(filters.actorId)) return 'Invalid user';
+  if (filters.from && !DATE_PATTERN.test(filters.from)) return 'from must be a date (YYYY-MM-DD)';
+  if (filters.to && !DATE_PATTERN.test(filters.to)) return 'to must be a date (YYYY-MM-DD)';
+  return null;
+};
+
+// Audit events of the caller's firm, newest first, as JSON pages for the viewer or, with
+// format=csv, as one CSV file of everything matching the filters. Dates are whole UTC days.
+export async function GET(request: Request) {
+  const { supabase, response } = await getRouteUser('view_audit_log');
+  if (response) return response;
+
+  const url = new URL(request.url);
+  const filters = auditFiltersFromSearchParams(url.searchParams);
+  const filterError = validateFilters(filters);
+
+  if (filterError) {
+    return NextResponse.json({ error: filterError }, { status: 400 });
+  }
+
+  const buildQuery = () => {
+    let query = supabase
+      .from('audit_events')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true });
+
+    if (filters.caseId) query = query.eq('case_id', filters.caseId);
+    if (filters.actorId) query = query.eq('actor_id', filters.actorId);
+    if (filters.tableName) query = query.eq('table_name', filters.tableName);
+    if (filters.from) query = query.gte('created_at', `${filters.from}T00:00:00Z`);
+    if (filters.to) {
+      const dayAfter = new Date(new Date(`${filters.to}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000);
+      query = query.lt('created_at', dayAfter.toISOString());
+    }
+
+    return query;
+  };
+
+  const { data: users } = await supabase
+    .from('users')
+    .select('id, first_name, last_name, email');
+
+  const actors = new Map<string, { name: string; email: string }>(
+    (users || []).map((user) => [user.id, { name: `${user.first_name} ${user.last_name}`, email: user.email }])
+  );
+
+  if (url.searchParams.get('format') !== 'csv') {
+    const offset = Math.max(0, Number(url.searchParams.get('offset')) || 0);
+    // One extra row tells us whether there is another page
+    const { data, error } = await buildQuery().range(offset, offset + PAGE_SIZE);
+
+    if (error) {
+      console.error('Error fetching audit events:', error);
+      return NextResponse.json({ error: 'Failed to load the audit log' }, { status: 500 });
+    }
+
+    const events = (data || []).slice(0, PAGE_SIZE);
+
+    return NextResponse.json({
+      events,
+      has_more: (data || []).length > PAGE_SIZE,
+      actors: Object.fromEntries(Array.from(actors.entries()).map(([id, actor]) => [id, actor.name])),
+    });
+  }
+
+  // The export covers events up to the moment it started, and each batch continues after
+  // the last row of the one before (keyset on created_at, id) rather than at an offset,
+  // so events written while it runs can't shift rows into a second batch
+  const exportStartedAt = new Date().toISOString();
+  const events: AuditEvent[] = [];
+
+  while (events.length < EXPORT_MAX_ROWS) {
+    let query = buildQuery().lte('created_at', exportStartedAt);
+    const last = events[events.length - 1];
+
+    if (last) {
+      query = query.or(`created_at.lt."${last.created_at}",and(created_at.eq."${last.created_at}",id.gt.${last.id})`);
+    }
+
+    const { data, error } = await query.limit(EXPORT_BATCH_SIZE);
+
+    if (error) {
+      console.error('Error exporting audit events:', error);
+      return NextResponse.json({ error: 'Failed to export the audit log' }, { status: 500 });
+    }
+
+    events.push(...(data || []));
+    if (!data || data.length < EXPORT_BATCH_SIZE) break;
+  }
+
+  const csv = toCsv([
+    ['Timestamp (UTC)', 'User', 'User Email', 'Action', 'Record Type', 'Record', 'Record ID', 'Case ID', 'Changed Fields', 'Before', 'After'],
+    ...events.map((event) => {
+      const actor = event.actor_id ? actors.get(event.actor_id) : undefined;
+
+      return [
+        event.created_at,
+        actor?.name || (event.actor_id ? event.actor_id : 'System'),
+        actor?.email || '',
+        getAuditActionLabel(event.action),
+        getAuditTableLabel(event.table_name),
+        getAuditEntityName(event),
+        event.entity_id,
+        event.case_id,
+        event.changed_fields.join(' '),
+        event.before ? JSON.stringify(event.before) : '',
+        event.after ? JSON.stringify(event.after) : '',
+      ];
+    }),
+  ]);
+
+  const fileName = `audit-log-${exportStartedAt.slice(0, 10)}.csv`;
+
+  return new Response(csv, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -1,64 +1,65 @@
 // src/app/api/auth/callback/route.ts
 import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { EmailOtpType } from '@supabase/supabase-js';
 import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
+import { acceptInvitation } from '@/lib/auth/invitations';
+import { AUTH_EMAIL_NEXT_PATHS } from '@/lib/auth/emailLinks';
+import { getSafeRedirectPath } from '@/lib/auth/redirects';
+import { createAdminSupabaseClient } from '@/lib/supabase-admin';
+
+// The page where someone whose link didn't work can ask for a new one
+const getRetryPath = (type: EmailOtpType | null, redirectPath: string) => {
+  if (type === 'signup' || redirectPath === AUTH_EMAIL_NEXT_PATHS.signup) return AUTH_EMAIL_NEXT_PATHS.signup;
+  if (type === 'recovery' || redirectPath === AUTH_EMAIL_NEXT_PATHS.recovery) return '/reset-password';
+  return '/login';
+};
 
+// Signs in the user from an email link: invitations, address verification and password
+// reset. Links carry either a PKCE `code`, or a `token_hash` and `type` when the email
+// templates are set up for server-side verification.
 export async function GET(request: Request) {
   const requestUrl = new URL(request.url);
   const code = requestUrl.searchParams.get('code');
-
-  if (code) {
-    const supabase = createRouteHandlerClient({ cookies });
-    await supabase.auth.exchangeCodeForSession(code);
-  }
+  const tokenHash = requestUrl.searchParams.get('token_hash');
+  const type = requestUrl.searchParams.get('type') as EmailOtpType | null;
+  const next = requestUrl.searchParams.get('next');
 
   // URL to redirect to after sign in process completes
-  return NextResponse.redirect(requestUrl.origin);
-}
+  const redirectPath = getSafeRedirectPath(next, '/');
 
-// src/middleware.ts
-import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs';
-import { NextResponse } from 'next/server';
-import type { NextRequest } from 'next/server';
-
-export async function middleware(req: NextRequest) {
-  const res = NextResponse.next();
-  const supabase = createMiddlewareClient({ req, res });
-  
-  const {
-    data: { session },
-  } = await supabase.auth.getSession();
-
-  // Check if the user is authenticated and accessing protected routes
-  const isProtectedRoute = req.nextUrl.pathname.startsWith('/dashboard') || 
-                           req.nextUrl.pathname.startsWith('/cases') ||
-                           req.nextUrl.pathname.startsWith('/clients') ||
-                           req.nextUrl.pathname.startsWith('/documents');
-  
-  const isAuthRoute = req.nextUrl.pathname.startsWith('/login') ||
-                      req.nextUrl.pathname.startsWith('/register') ||
-                      req.nextUrl.pathname.startsWith('/reset-password');
+  // Expired or already-used links go back to where a new one can be requested
+  const retryUrl = new URL(getRetryPath(type, redirectPath), requestUrl.origin);
+  retryUrl.searchParams.set('error', 'link_expired');
 
-  // If user is not authenticated and is trying to access protected routes
-  if (!session && isProtectedRoute) {
-    return NextResponse.redirect(new URL('/login', req.url));
+  // Supabase sends expired links here with an error instead of a code
+  if (requestUrl.searchParams.has('error')) {
+    return NextResponse.redirect(retryUrl);
   }
 
-  // If user is authenticated and is trying to access auth routes
-  if (session && isAuthRoute) {
-    return NextResponse.redirect(new URL('/dashboard', req.url));
+  if (code || (tokenHash && type)) {
+    const supabase = createRouteHandlerClient({ cookies });
+    const { data: { user }, error } = code
+      ? await supabase.auth.exchangeCodeForSession(code)
+      : await supabase.auth.verifyOtp({ type: type as EmailOtpType, token_hash: tokenHash as string });
+
+    if (error || !user) {
+      console.error('Error verifying email link:', error);
+      return NextResponse.redirect(retryUrl);
+    }
+
+    // Invited colleagues arrive here from their invitation email and join the firm that
+    // invited them
+    try {
+      await acceptInvitation(createAdminSupabaseClient(), user);
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+    }
   }
 
-  return res;
+  return NextResponse.redirect(new URL(redirectPath, requestUrl.origin));
 }
 
-// Define which routes should be processed by the middleware
-export const config = {
-  matcher: [
-    '/((?!_next/static|_next/image|api/auth/callback|favicon.ico|public/).*)',
-  ],
-};
-
 // src/components/auth/LoginForm.tsx
 import { useState } from 'react';
 import { useForm } from 'react-hook-form';
@@ -66,10 +67,11 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { supabase } from '@/lib/supabase';
 import { useRouter } from 'next/navigation';
+import { getPostSignInPath } from '@/lib/auth/mfa';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  password: z.string().min(1, 'Password is required'),
 });
 
 type LoginFormValues = z.infer<typeof loginSchema>;
@@ -101,7 +103,7 @@ export default function LoginForm() {
         throw error;
       }
 
-      router.push('/dashboard');
+      router.push(await getPostSignInPath(null));
       router.refresh();
     } catch (error: any) {
       setError(error.message);
@@ -0,0 +1,42 @@
+// src/app/api/auth/password/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import { DEFAULT_SECURITY_POLICY, getPasswordProblems } from '@/lib/auth/policy';
+import { createAdminSupabaseClient } from '@/lib/supabase-admin';
+
+export const runtime = 'nodejs';
+
+// Sets the signed-in user's password after checking it against their firm's password
+// policy, which Supabase itself knows nothing about. Users with MFA have to have passed
+// the challenge this session.
+export async function POST(request: Request) {
+  const { supabase, user, response } = await getRouteUser();
+  if (response) return response;
+
+  const body = await request.json().catch(() => null);
+  const password: string = body?.password || '';
+
+  const [{ data: policy }, { data: aal }] = await Promise.all([
+    supabase.rpc('current_security_policy').maybeSingle(),
+    supabase.auth.mfa.getAuthenticatorAssuranceLevel(),
+  ]);
+
+  if (aal && aal.nextLevel === 'aal2' && aal.currentLevel !== 'aal2') {
+    return NextResponse.json({ error: 'Verify your authenticator code before changing your password' }, { status: 403 });
+  }
+
+  const problems = getPasswordProblems(password, policy || DEFAULT_SECURITY_POLICY);
+
+  if (problems.length > 0) {
+    return NextResponse.json({ error: problems.join('. '), problems }, { status: 400 });
+  }
+
+  const { error } = await createAdminSupabaseClient().auth.admin.updateUserById(user.id, { password });
+
+  if (error) {
+    console.error('Error setting password:', error);
+    return NextResponse.json({ error: error.message || 'Failed to set the password' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,40 @@
+// src/app/api/auth/registration/route.ts
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { acceptInvitation } from '@/lib/auth/invitations';
+import { completeRegistration } from '@/lib/auth/registration';
+import { createAdminSupabaseClient } from '@/lib/supabase-admin';
+
+export const runtime = 'nodejs';
+
+// Finishes setting up a newly registered account once its email address is confirmed:
+// joins the firm that invited them, or creates the firm they registered. Safe to call
+// again; it does nothing once the profile exists.
+export async function POST() {
+  const supabase = createRouteHandlerClient({ cookies });
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (!user.email_confirmed_at) {
+    return NextResponse.json({ error: 'Confirm your email address first' }, { status: 403 });
+  }
+
+  const admin = createAdminSupabaseClient();
+
+  try {
+    const isSetUp = (await acceptInvitation(admin, user)) || (await completeRegistration(admin, user));
+
+    if (!isSetUp) {
+      return NextResponse.json({ error: 'No firm details were found for this account. Please register again.' }, { status: 400 });
+    }
+  } catch (error: any) {
+    console.error('Error completing registration:', error);
+    return NextResponse.json({ error: error.message || 'Failed to set up your account' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,77 @@
+// src/app/api/auth/resend/route.ts
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { normalizeEmail } from '@/lib/auth/invitations';
+import { AUTH_EMAIL_NEXT_PATHS, RESEND_COOLDOWN_SECONDS, getResendRetryAfter, isAuthEmailType } from '@/lib/auth/emailLinks';
+import { createAdminSupabaseClient } from '@/lib/supabase-admin';
+
+export const runtime = 'nodejs';
+
+// The address the proxy in front of the app saw. Clients can send an X-Forwarded-For of
+// their own, so only the entry the proxy appended, the last one, is trusted.
+const getClientIp = (request: Request) => {
+  const forwarded = (request.headers.get('x-forwarded-for') || '').split(',').map((item) => item.trim()).filter(Boolean);
+  return forwarded[forwarded.length - 1] || request.headers.get('x-real-ip') || null;
+};
+
+// Sends a verification or password reset email, at most once a minute and a few times an
+// hour per address. Answers the same whether or not the address has an account, so it
+// can't be used to find out who does.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const email = normalizeEmail(body?.email || '');
+  const type = body?.type;
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 });
+  }
+
+  if (!isAuthEmailType(type)) {
+    return NextResponse.json({ error: 'Unknown email type' }, { status: 400 });
+  }
+
+  const admin = createAdminSupabaseClient();
+  const ipAddress = getClientIp(request);
+
+  let retryAfter: number;
+  try {
+    retryAfter = await getResendRetryAfter(admin, email, ipAddress);
+  } catch (error) {
+    console.error('Error checking auth email requests:', error);
+    return NextResponse.json({ error: 'Failed to send the email' }, { status: 500 });
+  }
+
+  if (retryAfter > 0) {
+    return NextResponse.json(
+      { error: `Please wait ${retryAfter} seconds before requesting another email`, retry_after: retryAfter },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  const { error: recordError } = await admin
+    .from('auth_email_requests')
+    .insert({ email, type, ip_address: ipAddress });
+
+  if (recordError) {
+    console.error('Error recording auth email request:', recordError);
+    return NextResponse.json({ error: 'Failed to send the email' }, { status: 500 });
+  }
+
+  const redirectTo = new URL('/api/auth/callback', process.env.APP_URL || request.url);
+  redirectTo.searchParams.set('next', AUTH_EMAIL_NEXT_PATHS[type]);
+
+  // Sent with the cookie-backed client so the PKCE verifier is stored in this browser,
+  // which is where the link will be opened
+  const supabase = createRouteHandlerClient({ cookies });
+  const { error } = type === 'signup'
+    ? await supabase.auth.resend({ type: 'signup', email, options: { emailRedirectTo: redirectTo.toString() } })
+    : await supabase.auth.resetPasswordForEmail(email, { redirectTo: redirectTo.toString() });
+
+  if (error) {
+    // Unknown or already-confirmed addresses end up here too; don't tell the caller
+    console.error(`Error sending ${type} email:`, error);
+  }
+
+  return NextResponse.json({ ok: true, retry_after: RESEND_COOLDOWN_SECONDS });
+}
@@ -0,0 +1,113 @@
+// src/app/api/calendar/[token]/route.ts
+import { NextResponse } from 'next/server';
+import { createAdminSupabaseClient } from '@/lib/supabase-admin';
+import { FeedEvent, buildCalendar } from '@/lib/deadlines/ics';
+import { getLocalTime } from '@/lib/reminders/schedule';
+
+export const runtime = 'nodejs';
+
+// How far back the feed reaches, so calendars keep recent history without every old item
+const HISTORY_DAYS = 90;
+
+// Serves a user's deadlines as an iCalendar feed at /api/calendar/<token>.ics. Calendar
+// apps can't sign in, so the unguessable token in the URL is the credential. The feed
+// has the open deadlines assigned to the user and the hearings on their cases; deadlines
+// are all-day events and hearings are timed, each with an alarm at its reminder_date.
+export async function GET(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const supabase = createAdminSupabaseClient();
+
+  const { data: feed } = await supabase
+    .from('calendar_feeds')
+    .select('user_id, firm_id')
+    .eq('token', token.replace(/\.ics$/, ''))
+    .maybeSingle();
+
+  if (!feed) {
+    return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('first_name, last_name, is_active')
+    .eq('id', feed.user_id)
+    .single();
+
+  if (!user?.is_active) {
+    return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+  }
+
+  const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const columns = 'id, case_id, title, description, due_date, priority, status, reminder_date, event_type, location';
+
+  const { data: userCases } = await supabase
+    .from('cases')
+    .select('id')
+    .eq('firm_id', feed.firm_id)
+    .eq('assigned_to', feed.user_id)
+    .is('deleted_at', null);
+
+  const [{ data: assigned }, { data: hearings }] = await Promise.all([
+    supabase
+      .from('deadlines')
+      .select(columns)
+      .eq('firm_id', feed.firm_id)
+      .eq('assigned_to', feed.user_id)
+      .neq('status', 'Completed')
+      .gte('due_date', since),
+    supabase
+      .from('deadlines')
+      .select(columns)
+      .eq('firm_id', feed.firm_id)
+      .eq('event_type', 'hearing')
+      .in('case_id', (userCases || []).map((caseRow) => caseRow.id))
+      .gte('due_date', since),
+  ]);
+
+  const items = new Map([...(assigned || []), ...(hearings || [])].map((item) => [item.id, item]));
+
+  const { data: cases } = await supabase
+    .from('cases')
+    .select('id, title, case_number')
+    .in('id', Array.from(new Set(Array.from(items.values()).map((item) => item.case_id))))
+    .is('deleted_at', null);
+
+  const casesById = new Map((cases || []).map((caseRow) => [caseRow.id, caseRow]));
+
+  // Deadlines of cases in the trash drop out of the feed
+  items.forEach((item, id) => {
+    if (!casesById.has(item.case_id)) items.delete(id);
+  });
+
+  const timeZone = process.env.REMINDER_TIME_ZONE || 'America/New_York';
+  const appUrl = process.env.APP_URL || request.url;
+
+  const events: FeedEvent[] = Array.from(items.values()).map((item) => {
+    const caseRow = casesById.get(item.case_id);
+    const isHearing = item.event_type === 'hearing';
+
+    return {
+      uid: `${item.event_type}-${item.id}@legalbeacon`,
+      summary: `${item.status === 'Overdue' ? 'OVERDUE: ' : ''}${item.title}${caseRow ? ` (${caseRow.case_number})` : ''}`,
+      description: [
+        caseRow ? `Case: ${caseRow.title}` : null,
+        `Priority: ${item.priority}`,
+        item.description,
+      ].filter(Boolean).join('\n'),
+      location: item.location,
+      url: new URL(`/cases/${item.case_id}?tab=deadlines`, appUrl).toString(),
+      ...(isHearing
+        ? { start: item.due_date }
+        : { date: getLocalTime(new Date(item.due_date), timeZone).date }),
+      alarmAt: item.reminder_date,
+    };
+  });
+
+  return new Response(buildCalendar(`${user.first_name} ${user.last_name} – LegalBeacon`, events), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="deadlines.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+}
@@ -0,0 +1,43 @@
+// src/app/api/calendar/route.ts
+import { randomBytes } from 'crypto';
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+
+export const runtime = 'nodejs';
+
+const feedUrl = (request: Request, token: string) => {
+  return new URL(`/api/calendar/${token}.ics`, process.env.APP_URL || request.url).toString();
+};
+
+// Returns the signed-in user's deadline feed URL, or null if they haven't created one
+export async function GET(request: Request) {
+  const { supabase, user, response } = await getRouteUser();
+  if (response) return response;
+
+  const { data: feed } = await supabase
+    .from('calendar_feeds')
+    .select('token')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  return NextResponse.json({ url: feed ? feedUrl(request, feed.token) : null });
+}
+
+// Creates the user's feed, or replaces its token so the old URL stops working
+export async function POST(request: Request) {
+  const { supabase, user, profile, response } = await getRouteUser();
+  if (response) return response;
+
+  const token = randomBytes(24).toString('base64url');
+
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .upsert({ user_id: user.id, firm_id: profile.firm_id, token }, { onConflict: 'user_id' });
+
+  if (error) {
+    console.error('Error saving calendar feed:', error);
+    return NextResponse.json({ error: 'Failed to create the calendar feed' }, { status: 500 });
+  }
+
+  return NextResponse.json({ url: feedUrl(request, token) });
+}
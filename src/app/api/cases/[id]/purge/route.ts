@@ -0,0 +1,23 @@
+// src/app/api/cases/[id]/purge/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import { purgeCase } from '@/lib/cases/purge';
+
+export const runtime = 'nodejs';
+
+// Permanently removes a case from the trash, with all of its records and files. The
+// purge is logged in case_purges.
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { supabase, response } = await getRouteUser('manage_firm');
+  if (response) return response;
+
+  try {
+    const purge = await purgeCase(supabase, id);
+    return NextResponse.json(purge);
+  } catch (error: any) {
+    console.error('Error purging case:', error);
+    const status = /not found/i.test(error.message || '') ? 404 : 500;
+    return NextResponse.json({ error: error.message || 'Failed to purge the case' }, { status });
+  }
+}
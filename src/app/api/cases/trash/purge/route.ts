@@ -0,0 +1,32 @@
+// src/app/api/cases/trash/purge/route.ts
+import { NextResponse } from 'next/server';
+import { createAdminSupabaseClient } from '@/lib/supabase-admin';
+import { purgeExpiredCases } from '@/lib/cases/purge';
+
+export const runtime = 'nodejs';
+
+// Purges cases that have been in the trash longer than the retention window. Meant for a
+// scheduler, e.g. nightly:
+//   curl -X POST -H "Authorization: Bearer $CRON_SECRET" https://<app>/api/cases/trash/purge
+async function handle(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 500 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Not authorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await purgeExpiredCases(createAdminSupabaseClient());
+    return NextResponse.json(result, { status: result.failed > 0 ? 207 : 200 });
+  } catch (error: any) {
+    console.error('Error purging expired cases:', error);
+    return NextResponse.json({ error: error.message || 'Failed to purge expired cases' }, { status: 500 });
+  }
+}
+
+// Vercel Cron sends GET requests with the same bearer token
+export const GET = handle;
+export const POST = handle;
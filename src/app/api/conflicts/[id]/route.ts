@@ -0,0 +1,64 @@
+// src/app/api/conflicts/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import {
+  CONFLICT_DECISIONS,
+  ConflictDecision,
+  ConflictHit,
+  hasBlockingConflict,
+} from '@/lib/conflicts';
+
+export const runtime = 'nodejs';
+
+// Records an attorney's clearance or waiver of a conflicts check. The database trigger on
+// conflict_checks enforces the same rules; these checks give clearer errors.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { supabase, profile, response } = await getRouteUser('clear_conflicts');
+  if (response) return response;
+
+  const body = await request.json().catch(() => null);
+  const decision = body?.decision as ConflictDecision;
+  const notes: string = (body?.notes || '').trim();
+
+  if (!CONFLICT_DECISIONS.includes(decision)) {
+    return NextResponse.json({ error: 'decision must be cleared or waived' }, { status: 400 });
+  }
+
+  const { data: check } = await supabase
+    .from('conflict_checks')
+    .select('id, results, decision')
+    .eq('id', id)
+    .eq('firm_id', profile.firm_id)
+    .maybeSingle();
+
+  if (!check) {
+    return NextResponse.json({ error: 'Conflicts check not found' }, { status: 404 });
+  }
+
+  if (check.decision) {
+    return NextResponse.json({ error: 'This conflicts check has already been decided' }, { status: 409 });
+  }
+
+  if (decision === 'cleared' && hasBlockingConflict(check.results as unknown as ConflictHit[])) {
+    return NextResponse.json({ error: 'Conflicts were found, so the check can only be waived' }, { status: 400 });
+  }
+
+  if (decision === 'waived' && !notes) {
+    return NextResponse.json({ error: 'A waiver needs notes recording the consent obtained' }, { status: 400 });
+  }
+
+  const { data: updated, error } = await supabase
+    .from('conflict_checks')
+    .update({ decision, decision_notes: notes || null })
+    .eq('id', id)
+    .select('id, created_at, requested_by, client_id, opposing_party_id, results, decision, decision_notes, decided_by, decided_at')
+    .single();
+
+  if (error) {
+    console.error('Error recording conflicts decision:', error);
+    return NextResponse.json({ error: error.message || 'Failed to record the decision' }, { status: 500 });
+  }
+
+  return NextResponse.json({ check: updated });
+}
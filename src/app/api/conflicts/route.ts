@@ -0,0 +1,116 @@
+// src/app/api/conflicts/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import { ConflictSubject, runConflictCheck } from '@/lib/conflicts';
+import { Json } from '@/types/supabase';
+
+export const runtime = 'nodejs';
+
+const CHECK_COLUMNS = 'id, created_at, requested_by, client_id, opposing_party_id, results, decision, decision_notes, decided_by, decided_at';
+
+// Returns the latest conflicts check for a client and opposing party that hasn't opened a
+// case yet, so an attorney can decide a check someone else ran
+export async function GET(request: Request) {
+  const { supabase, profile, response } = await getRouteUser();
+  if (response) return response;
+
+  const { searchParams } = new URL(request.url);
+  const clientId = searchParams.get('client_id');
+  const opposingPartyId = searchParams.get('opposing_party_id');
+
+  if (!clientId) {
+    return NextResponse.json({ error: 'client_id is required' }, { status: 400 });
+  }
+
+  let query = supabase
+    .from('conflict_checks')
+    .select(CHECK_COLUMNS)
+    .eq('firm_id', profile.firm_id)
+    .eq('client_id', clientId)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  query = opposingPartyId ? query.eq('opposing_party_id', opposingPartyId) : query.is('opposing_party_id', null);
+
+  const { data: check, error } = await query.maybeSingle();
+
+  if (error) {
+    console.error('Error fetching conflicts check:', error);
+    return NextResponse.json({ error: 'Failed to load the conflicts check' }, { status: 500 });
+  }
+
+  if (!check) {
+    return NextResponse.json({ check: null });
+  }
+
+  const { data: usedBy } = await supabase
+    .from('cases')
+    .select('id')
+    .eq('conflict_check_id', check.id)
+    .maybeSingle();
+
+  return NextResponse.json({ check: usedBy ? null : check });
+}
+
+// Runs a conflicts check for the proposed client and opposing party and records it
+export async function POST(request: Request) {
+  const { supabase, user, profile, response } = await getRouteUser('edit_records');
+  if (response) return response;
+
+  const body = await request.json().catch(() => null);
+  const clientId: string | undefined = body?.client_id;
+  const opposingPartyId: string | null = body?.opposing_party_id || null;
+
+  if (!clientId) {
+    return NextResponse.json({ error: 'client_id is required' }, { status: 400 });
+  }
+
+  const { data: parties } = await supabase
+    .from('parties')
+    .select('id, first_name, last_name, organization_name, email')
+    .eq('firm_id', profile.firm_id)
+    .in('id', opposingPartyId ? [clientId, opposingPartyId] : [clientId]);
+
+  const client = parties?.find((party) => party.id === clientId);
+  const opposingParty = opposingPartyId ? parties?.find((party) => party.id === opposingPartyId) : null;
+
+  if (!client || (opposingPartyId && !opposingParty)) {
+    return NextResponse.json({ error: 'Party not found' }, { status: 404 });
+  }
+
+  const toSubject = (party: typeof client, role: ConflictSubject['role']): ConflictSubject => ({
+    role,
+    party_id: party.id,
+    first_name: party.first_name,
+    last_name: party.last_name,
+    organization_name: party.organization_name,
+    email: party.email,
+  });
+
+  const subjects = [toSubject(client, 'client')];
+  if (opposingParty) subjects.push(toSubject(opposingParty, 'opposing_party'));
+
+  try {
+    const results = await runConflictCheck(supabase, profile.firm_id, subjects);
+
+    const { data: check, error } = await supabase
+      .from('conflict_checks')
+      .insert({
+        firm_id: profile.firm_id,
+        requested_by: user.id,
+        client_id: clientId,
+        opposing_party_id: opposingPartyId,
+        subjects: subjects as unknown as Json,
+        results: results as unknown as Json,
+      })
+      .select(CHECK_COLUMNS)
+      .single();
+
+    if (error) throw error;
+
+    return NextResponse.json({ check });
+  } catch (error) {
+    console.error('Error running conflicts check:', error);
+    return NextResponse.json({ error: 'Failed to run the conflicts check' }, { status: 500 });
+  }
+}
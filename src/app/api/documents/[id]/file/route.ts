@@ -0,0 +1,52 @@
+// src/app/api/documents/[id]/file/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import { getStorageBackend, isFirmFilePath } from '@/lib/storage';
+
+export const runtime = 'nodejs';
+
+// Streams a document's (or template's) stored file. ?download=1 forces a download.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { supabase, profile, response } = await getRouteUser();
+  if (response) return response;
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('name, file_path, mime_type')
+    .eq('id', id)
+    .eq('firm_id', profile.firm_id)
+    .maybeSingle();
+
+  if (!document || !isFirmFilePath(profile.firm_id, document.file_path)) {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+  }
+
+  const stored = await getStorageBackend().get(document.file_path);
+
+  if (!stored) {
+    return NextResponse.json({ error: 'The file for this document is missing' }, { status: 404 });
+  }
+
+  const extension = document.file_path.split('.').pop() || '';
+  const fileName = document.name.toLowerCase().endsWith(`.${extension}`)
+    ? document.name
+    : `${document.name}.${extension}`;
+
+  const download = new URL(request.url).searchParams.get('download') === '1';
+
+  const headers: Record<string, string> = {
+    'Content-Type': document.mime_type || stored.contentType,
+    'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    'Cache-Control': 'private, no-store',
+    'X-Content-Type-Options': 'nosniff',
+    // Uploaded HTML must not run scripts on our origin when viewed inline
+    'Content-Security-Policy': 'sandbox',
+  };
+
+  if (stored.size !== null) {
+    headers['Content-Length'] = String(stored.size);
+  }
+
+  return new NextResponse(stored.stream, { headers });
+}
@@ -0,0 +1,78 @@
+// src/app/api/files/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import { hasCapability } from '@/lib/auth/permissions';
+import { MAX_UPLOAD_BYTES, UploadError, sanitizeFileName, storeUpload } from '@/lib/storage';
+
+export const runtime = 'nodejs';
+
+const FOLDERS = ['documents', 'templates'];
+
+// Streams a raw request body into storage. The client sends the file itself as the body
+// (not multipart) so nothing is buffered in memory on the way through.
+export async function POST(request: Request) {
+  const { supabase, profile, response } = await getRouteUser();
+  if (response) return response;
+
+  const url = new URL(request.url);
+  const folder = url.searchParams.get('folder') || '';
+  const caseId = url.searchParams.get('case_id');
+  const fileName = url.searchParams.get('file_name') || '';
+
+  if (!FOLDERS.includes(folder)) {
+    return NextResponse.json({ error: 'Unknown upload folder' }, { status: 400 });
+  }
+
+  if (!hasCapability(profile.role, folder === 'templates' ? 'manage_templates' : 'edit_records')) {
+    return NextResponse.json({ error: 'Your role does not allow this' }, { status: 403 });
+  }
+
+  if (!fileName || !request.body) {
+    return NextResponse.json({ error: 'A file is required' }, { status: 400 });
+  }
+
+  if (Number(request.headers.get('content-length') || 0) > MAX_UPLOAD_BYTES) {
+    return NextResponse.json(
+      { error: `Files must be smaller than ${Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))} MB` },
+      { status: 413 }
+    );
+  }
+
+  if (folder === 'documents') {
+    const { data: caseData } = await supabase
+      .from('cases')
+      .select('id')
+      .eq('id', caseId || '')
+      .eq('firm_id', profile.firm_id)
+      .maybeSingle();
+
+    if (!caseData) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+  }
+
+  const key = [
+    profile.firm_id,
+    folder,
+    folder === 'documents' ? caseId : null,
+    `${Date.now()}_${sanitizeFileName(fileName)}`,
+  ].filter(Boolean).join('/');
+
+  try {
+    const stored = await storeUpload(key, request.body, fileName, request.headers.get('content-type'));
+
+    return NextResponse.json({
+      file_path: stored.key,
+      file_size: stored.size,
+      checksum: stored.checksum,
+      mime_type: stored.contentType,
+    });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error storing upload:', error);
+    return NextResponse.json({ error: 'Failed to store file' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+// src/app/api/invoices/[id]/pdf/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import { renderInvoicePdf } from '@/lib/invoices/pdf';
+
+export const runtime = 'nodejs';
+
+// The invoice as a PDF on the firm's letterhead. ?download=1 forces a download.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { supabase, profile, response } = await getRouteUser('view_financials');
+  if (response) return response;
+
+  const { data: invoice } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('id', id)
+    .eq('firm_id', profile.firm_id)
+    .maybeSingle();
+
+  if (!invoice) {
+    return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+  }
+
+  const [{ data: lines }, { data: firm }, { data: client }, { data: caseRow }] = await Promise.all([
+    supabase
+      .from('invoice_line_items')
+      .select('*')
+      .eq('invoice_id', id)
+      .order('position', { ascending: true }),
+    supabase
+      .from('firms')
+      .select('name, address, phone, email, logo_url')
+      .eq('id', profile.firm_id)
+      .single(),
+    supabase
+      .from('parties')
+      .select('first_name, last_name, organization_name, email, address')
+      .eq('id', invoice.client_id)
+      .single(),
+    invoice.case_id
+      ? supabase.from('cases').select('case_number, title').eq('id', invoice.case_id).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  if (!firm || !client) {
+    return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+  }
+
+  try {
+    const pdf = await renderInvoicePdf({ invoice, lines: lines || [], firm, client, caseRow });
+    const download = new URL(request.url).searchParams.get('download') === '1';
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename="${invoice.invoice_number}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering invoice PDF:', error);
+    return NextResponse.json({ error: 'Failed to render the invoice' }, { status: 500 });
+  }
+}
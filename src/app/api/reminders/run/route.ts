@@ -0,0 +1,39 @@
+// src/app/api/reminders/run/route.ts
+import { NextResponse } from 'next/server';
+import { createAdminSupabaseClient } from '@/lib/supabase-admin';
+import { getReminderChannels } from '@/lib/reminders';
+import { runReminders } from '@/lib/reminders/run';
+
+export const runtime = 'nodejs';
+
+// Sends due deadline reminders. Meant for a scheduler, e.g. every 15 minutes:
+//   curl -X POST -H "Authorization: Bearer $CRON_SECRET" https://<app>/api/reminders/run
+// Safe to call as often as you like; reminders already sent are skipped.
+async function handle(request: Request) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 500 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Not authorized' }, { status: 401 });
+  }
+
+  const supabase = createAdminSupabaseClient();
+
+  try {
+    const result = await runReminders(supabase, getReminderChannels(supabase), {
+      timeZone: process.env.REMINDER_TIME_ZONE || 'America/New_York',
+      morningHour: Number(process.env.REMINDER_MORNING_HOUR || 7),
+    });
+
+    return NextResponse.json(result, { status: result.failed > 0 ? 207 : 200 });
+  } catch (error: any) {
+    console.error('Error running reminders:', error);
+    return NextResponse.json({ error: error.message || 'Failed to run reminders' }, { status: 500 });
+  }
+}
+
+// Vercel Cron sends GET requests with the same bearer token
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,32 @@
+// src/app/api/team/invitations/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+
+export const runtime = 'nodejs';
+
+// Revokes an open invitation; its link then no longer adds anyone to the firm
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { supabase, profile, response } = await getRouteUser('invite_users');
+  if (response) return response;
+
+  const { data: revoked, error } = await supabase
+    .from('user_invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('firm_id', profile.firm_id)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('Error revoking invitation:', error);
+    return NextResponse.json({ error: 'Failed to revoke the invitation' }, { status: 500 });
+  }
+
+  if (!revoked || revoked.length === 0) {
+    return NextResponse.json({ error: 'Invitation not found or already used' }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
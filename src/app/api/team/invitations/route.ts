@@ -0,0 +1,87 @@
+// src/app/api/team/invitations/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import { isUserRole } from '@/lib/auth/permissions';
+import { INVITATION_TTL_DAYS, normalizeEmail } from '@/lib/auth/invitations';
+import { createAdminSupabaseClient } from '@/lib/supabase-admin';
+
+export const runtime = 'nodejs';
+
+// Invites a colleague to the admin's firm. Supabase emails them a sign-up link that lands
+// on /api/auth/callback, where the invitation is accepted and their users row created.
+export async function POST(request: Request) {
+  const { supabase, profile, response } = await getRouteUser('invite_users');
+  if (response) return response;
+
+  const body = await request.json().catch(() => null);
+  const email = normalizeEmail(body?.email || '');
+  const role = body?.role;
+  const firstName: string = (body?.first_name || '').trim();
+  const lastName: string = (body?.last_name || '').trim();
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 });
+  }
+
+  if (!isUserRole(role)) {
+    return NextResponse.json({ error: 'Unknown role' }, { status: 400 });
+  }
+
+  const admin = createAdminSupabaseClient();
+
+  // users.email is unique across firms, so someone already in any firm cannot be invited
+  const { data: existingUser } = await admin
+    .from('users')
+    .select('id, firm_id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (existingUser) {
+    return NextResponse.json(
+      { error: existingUser.firm_id === profile.firm_id ? 'This person is already on your team' : 'This email address belongs to another firm' },
+      { status: 409 }
+    );
+  }
+
+  // A new invitation replaces any open one for the same address
+  await supabase
+    .from('user_invitations')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('firm_id', profile.firm_id)
+    .eq('email', email)
+    .is('accepted_at', null)
+    .is('revoked_at', null);
+
+  const { data: invitation, error } = await supabase
+    .from('user_invitations')
+    .insert({
+      firm_id: profile.firm_id,
+      email,
+      role,
+      invited_by: profile.id,
+      expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .select('id, created_at, email, role, invited_by, expires_at')
+    .single();
+
+  if (error) {
+    console.error('Error creating invitation:', error);
+    return NextResponse.json({ error: 'Failed to create the invitation' }, { status: 500 });
+  }
+
+  const redirectTo = new URL('/api/auth/callback', process.env.APP_URL || request.url);
+  redirectTo.searchParams.set('next', '/settings/security?welcome=1');
+
+  const { error: inviteError } = await admin.auth.admin.inviteUserByEmail(email, {
+    redirectTo: redirectTo.toString(),
+    data: { first_name: firstName || undefined, last_name: lastName || undefined },
+  });
+
+  if (inviteError) {
+    console.error('Error sending invitation email:', inviteError);
+    await supabase.from('user_invitations').update({ revoked_at: new Date().toISOString() }).eq('id', invitation.id);
+    return NextResponse.json({ error: inviteError.message || 'Failed to send the invitation email' }, { status: 502 });
+  }
+
+  return NextResponse.json({ invitation });
+}
@@ -0,0 +1,92 @@
+// src/app/api/team/users/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import { isUserRole } from '@/lib/auth/permissions';
+import { createAdminSupabaseClient } from '@/lib/supabase-admin';
+
+export const runtime = 'nodejs';
+
+// Long enough to mean "until reactivated"; Supabase has no permanent ban
+const DEACTIVATED_BAN = '876000h';
+
+// Changes a colleague's role or deactivates/reactivates them. Deactivation also bans the
+// auth account so their existing sessions stop refreshing. Admins cannot change their own
+// account, and the firm always keeps at least one active admin.
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { supabase, profile, response } = await getRouteUser('invite_users');
+  if (response) return response;
+
+  if (id === profile.id) {
+    return NextResponse.json({ error: 'You cannot change your own role or status' }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const updates: { role?: string; is_active?: boolean } = {};
+
+  if (body?.role !== undefined) {
+    if (!isUserRole(body.role)) {
+      return NextResponse.json({ error: 'Unknown role' }, { status: 400 });
+    }
+    updates.role = body.role;
+  }
+
+  if (body?.is_active !== undefined) {
+    updates.is_active = !!body.is_active;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+  }
+
+  const { data: member } = await supabase
+    .from('users')
+    .select('id, role, is_active')
+    .eq('id', id)
+    .eq('firm_id', profile.firm_id)
+    .maybeSingle();
+
+  if (!member) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  const losesAdmin = member.role === 'admin' && member.is_active
+    && ((updates.role && updates.role !== 'admin') || updates.is_active === false);
+
+  if (losesAdmin) {
+    const { count } = await supabase
+      .from('users')
+      .select('id', { count: 'exact', head: true })
+      .eq('firm_id', profile.firm_id)
+      .eq('role', 'admin')
+      .eq('is_active', true);
+
+    if ((count || 0) <= 1) {
+      return NextResponse.json({ error: 'The firm needs at least one active admin' }, { status: 400 });
+    }
+  }
+
+  const { data: updated, error } = await supabase
+    .from('users')
+    .update(updates)
+    .eq('id', id)
+    .select('id, email, first_name, last_name, role, is_active, last_sign_in')
+    .single();
+
+  if (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json({ error: 'Failed to update the user' }, { status: 500 });
+  }
+
+  if (updates.is_active !== undefined && updates.is_active !== member.is_active) {
+    const { error: banError } = await createAdminSupabaseClient().auth.admin.updateUserById(id, {
+      ban_duration: updates.is_active ? 'none' : DEACTIVATED_BAN,
+    });
+
+    if (banError) {
+      console.error('Error updating sign-in access:', banError);
+    }
+  }
+
+  return NextResponse.json({ user: updated });
+}
@@ -0,0 +1,99 @@
+// src/app/api/trust/statements/[id]/reconciliation/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import { Json } from '@/types/supabase';
+import { buildTrustReconciliation } from '@/lib/trust/reconciliation';
+
+export const runtime = 'nodejs';
+
+// The three-way reconciliation for a statement: the signed-off one when there is one,
+// otherwise as it stands now
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { supabase, response } = await getRouteUser('view_financials');
+  if (response) return response;
+
+  const { data: statement } = await supabase
+    .from('trust_bank_statements')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (!statement) {
+    return NextResponse.json({ error: 'Statement not found' }, { status: 404 });
+  }
+
+  const { data: signedOff } = await supabase
+    .from('trust_reconciliations')
+    .select('*')
+    .eq('statement_id', id)
+    .maybeSingle();
+
+  if (signedOff) {
+    return NextResponse.json({ statement, reconciliation: signedOff });
+  }
+
+  try {
+    const reconciliation = await buildTrustReconciliation(supabase, statement);
+    return NextResponse.json({ statement, reconciliation: null, preview: reconciliation });
+  } catch (error) {
+    console.error('Error building trust reconciliation:', error);
+    return NextResponse.json({ error: 'Failed to reconcile the statement' }, { status: 500 });
+  }
+}
+
+// Signs off the reconciliation as it stands now. When the balances don't agree the
+// difference has to be explained in notes.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { supabase, user, profile, response } = await getRouteUser('edit_financials');
+  if (response) return response;
+
+  const body = await request.json().catch(() => ({}));
+  const notes = typeof body?.notes === 'string' ? body.notes.trim() : '';
+
+  const { data: statement } = await supabase
+    .from('trust_bank_statements')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (!statement) {
+    return NextResponse.json({ error: 'Statement not found' }, { status: 404 });
+  }
+
+  try {
+    const reconciliation = await buildTrustReconciliation(supabase, statement);
+
+    if (!reconciliation.is_balanced && !notes) {
+      return NextResponse.json(
+        { error: 'The balances don\'t agree. Explain the difference in the notes to sign off.' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('trust_reconciliations')
+      .insert({
+        ...reconciliation,
+        report: reconciliation.report as unknown as Json,
+        firm_id: profile.firm_id,
+        trust_account_id: statement.trust_account_id,
+        statement_id: statement.id,
+        notes: notes || null,
+        reconciled_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'This statement has already been reconciled' }, { status: 409 });
+    }
+    if (error) throw error;
+
+    return NextResponse.json({ statement, reconciliation: data });
+  } catch (error) {
+    console.error('Error signing off trust reconciliation:', error);
+    return NextResponse.json({ error: 'Failed to sign off the reconciliation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,145 @@
+// src/app/api/trust/statements/route.ts
+import { NextResponse } from 'next/server';
+import { getRouteUser } from '@/lib/auth/route';
+import { roundMoney } from '@/lib/trust';
+import { fetchClearedEntryIds, fetchTrustEntries } from '@/lib/trust/reconciliation';
+import { StatementImportError, getStatementFormat, matchStatementLines, parseBankStatement } from '@/lib/trust/statements';
+
+export const runtime = 'nodejs';
+
+const MAX_STATEMENT_BYTES = 5 * 1024 * 1024;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Imports a bank statement for a trust account from the text of a CSV or OFX file and
+// matches its lines to ledger entries that no earlier statement cleared. The period and
+// closing balance sent with the file override what the file says; CSV exports without a
+// running balance need the closing balance sent.
+export async function POST(request: Request) {
+  const { supabase, user, profile, response } = await getRouteUser('edit_financials');
+  if (response) return response;
+
+  if (Number(request.headers.get('content-length') || 0) > MAX_STATEMENT_BYTES) {
+    return NextResponse.json({ error: 'Statements must be smaller than 5 MB' }, { status: 413 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const fileName = typeof body?.file_name === 'string' ? body.file_name : '';
+  const content = typeof body?.content === 'string' ? body.content : '';
+
+  if (!body?.trust_account_id || !fileName || !content) {
+    return NextResponse.json({ error: 'A trust account and a statement file are required' }, { status: 400 });
+  }
+
+  const format = getStatementFormat(fileName);
+  if (!format) {
+    return NextResponse.json({ error: 'Statements must be CSV, OFX or QFX files' }, { status: 400 });
+  }
+
+  for (const field of ['period_start', 'period_end']) {
+    if (body[field] && !DATE_PATTERN.test(body[field])) {
+      return NextResponse.json({ error: `${field} must be a date (YYYY-MM-DD)` }, { status: 400 });
+    }
+  }
+
+  const { data: account } = await supabase
+    .from('trust_accounts')
+    .select('id')
+    .eq('id', body.trust_account_id)
+    .eq('firm_id', profile.firm_id)
+    .maybeSingle();
+
+  if (!account) {
+    return NextResponse.json({ error: 'Trust account not found' }, { status: 404 });
+  }
+
+  let parsed;
+  try {
+    parsed = parseBankStatement(fileName, content);
+  } catch (error) {
+    if (error instanceof StatementImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const periodStart = body.period_start || parsed.period_start;
+  const periodEnd = body.period_end || parsed.period_end;
+  const closingBalance = body.closing_balance !== undefined && body.closing_balance !== null && body.closing_balance !== ''
+    ? Number(body.closing_balance)
+    : parsed.closing_balance;
+
+  if (!periodStart || !periodEnd || periodStart > periodEnd) {
+    return NextResponse.json({ error: 'Enter the statement period' }, { status: 400 });
+  }
+
+  if (closingBalance === null || !Number.isFinite(closingBalance)) {
+    return NextResponse.json({ error: 'The file has no closing balance; enter the one on the statement' }, { status: 400 });
+  }
+
+  const outsidePeriod = parsed.lines.find((line) => line.posted_date < periodStart || line.posted_date > periodEnd);
+  if (outsidePeriod) {
+    return NextResponse.json(
+      { error: `The statement has a transaction dated ${outsidePeriod.posted_date}, outside ${periodStart} to ${periodEnd}` },
+      { status: 400 }
+    );
+  }
+
+  const { data: statement, error: statementError } = await supabase
+    .from('trust_bank_statements')
+    .insert({
+      firm_id: profile.firm_id,
+      trust_account_id: account.id,
+      period_start: periodStart,
+      period_end: periodEnd,
+      closing_balance: roundMoney(closingBalance),
+      file_name: fileName,
+      file_format: format,
+      imported_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (statementError || !statement) {
+    if (statementError?.code === '23505') {
+      return NextResponse.json({ error: `A statement ending ${periodEnd} was already imported` }, { status: 409 });
+    }
+
+    console.error('Error saving bank statement:', statementError);
+    return NextResponse.json({ error: 'Failed to import the statement' }, { status: 500 });
+  }
+
+  try {
+    const { data: lines, error: linesError } = parsed.lines.length > 0
+      ? await supabase
+        .from('trust_bank_statement_lines')
+        .insert(parsed.lines.map((line) => ({ ...line, firm_id: profile.firm_id, statement_id: statement.id })))
+        .select()
+      : { data: [], error: null };
+
+    if (linesError) throw linesError;
+
+    const [entries, cleared] = await Promise.all([
+      fetchTrustEntries(supabase, account.id),
+      fetchClearedEntryIds(supabase, account.id),
+    ]);
+
+    const matches = matchStatementLines(lines || [], entries.filter((entry) => !cleared.has(entry.id)));
+
+    for (const [lineId, entryId] of Array.from(matches.entries())) {
+      const { error } = await supabase
+        .from('trust_bank_statement_lines')
+        .update({ trust_transaction_id: entryId })
+        .eq('id', lineId);
+
+      if (error) throw error;
+    }
+
+    return NextResponse.json({ statement, line_count: (lines || []).length, matched_count: matches.size });
+  } catch (error) {
+    // Don't leave a half-imported statement behind; its lines go with it
+    await supabase.from('trust_bank_statements').delete().eq('id', statement.id);
+
+    console.error('Error importing bank statement lines:', error);
+    return NextResponse.json({ error: 'Failed to import the statement' }, { status: 500 });
+  }
+}
@@ -0,0 +1,660 @@
+// src/app/cases/[id]/deadlines/new/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { CalculatorIcon, ArrowUpTrayIcon } from 'react-icons/hi2';
+import { supabase } from '@/lib/supabase';
+import {
+  CalculatedDeadline,
+  RULE_SETS,
+  calculateDeadlines,
+  findRuleSet,
+  getCourtCalendar,
+} from '@/lib/deadlines/rules';
+import { formatCourtDate } from '@/lib/deadlines/calendar';
+import { parseIcs } from '@/lib/deadlines/ics';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+
+const deadlineSchema = z.object({
+  event_type: z.enum(['deadline', 'hearing']),
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().optional(),
+  due_date: z.string().min(1, 'Due date is required'),
+  due_time: z.string().optional(),
+  location: z.string().optional(),
+  priority: z.enum(['High', 'Medium', 'Low']),
+  assigned_to: z.string().optional(),
+  reminder_date: z.string().optional(),
+}).refine(data => data.event_type !== 'hearing' || !!data.due_time, {
+  message: 'Hearing time is required',
+  path: ['due_time'],
+}).refine(data => !data.reminder_date || data.reminder_date <= data.due_date, {
+  message: 'Reminder must be on or before the due date',
+  path: ['reminder_date'],
+});
+
+type DeadlineFormValues = z.infer<typeof deadlineSchema>;
+
+// Deadlines are stored at local midnight of their day; hearings keep their time
+const toTimestamp = (date: string, time: string | null = null) => new Date(`${date}T${time || '00:00'}:00`).toISOString();
+
+const HEARING_PATTERN = /\b(hearing|conference|trial|argument|mediation|status call|calendar call)\b/i;
+
+interface ImportedEvent {
+  key: string;
+  title: string;
+  description: string | null;
+  date: string;
+  time: string | null;
+  location: string | null;
+  event_type: 'deadline' | 'hearing';
+  priority: 'High' | 'Medium' | 'Low';
+  reminder_date: string | null;
+  // Already on the case with the same title and day, so unchecked by default
+  duplicate: boolean;
+}
+
+export default function NewDeadlinePage() {
+  const params = useParams();
+  const router = useRouter();
+  const caseId = Array.isArray(params.id) ? params.id[0] : params.id;
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [caseData, setCaseData] = useState<any>(null);
+  const [users, setUsers] = useState<any[]>([]);
+  const [firmId, setFirmId] = useState<string | null>(null);
+
+  // Court-rule calculator state
+  const [ruleSetId, setRuleSetId] = useState('');
+  const [triggerId, setTriggerId] = useState('');
+  const [triggerDate, setTriggerDate] = useState('');
+  const [serviceMethodId, setServiceMethodId] = useState('');
+  const [calculated, setCalculated] = useState<CalculatedDeadline[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [calculationError, setCalculationError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Calendar file import state
+  const [imported, setImported] = useState<ImportedEvent[]>([]);
+  const [importSelected, setImportSelected] = useState<Set<string>>(new Set());
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<DeadlineFormValues>({
+    resolver: zodResolver(deadlineSchema),
+    defaultValues: { event_type: 'deadline', priority: 'Medium' },
+  });
+
+  const isHearing = watch('event_type') === 'hearing';
+
+  useEffect(() => {
+    async function fetchData() {
+      // Get current user's firm_id
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (user) {
+        const { data: userData } = await supabase
+          .from('users')
+          .select('firm_id')
+          .eq('id', user.id)
+          .single();
+
+        if (userData?.firm_id) {
+          setFirmId(userData.firm_id);
+
+          // Fetch case data
+          const { data: caseData } = await supabase
+            .from('cases')
+            .select('*')
+            .eq('id', caseId)
+            .eq('firm_id', userData.firm_id)
+            .single();
+
+          setCaseData(caseData);
+
+          // Default to the rule set for the case's court
+          const ruleSet = findRuleSet(caseData?.court_name || null, caseData?.court_location || null);
+          if (ruleSet) {
+            setRuleSetId(ruleSet.id);
+          }
+
+          // Fetch firm users for assignment
+          const { data: usersData } = await supabase
+            .from('users')
+            .select('id, first_name, last_name')
+            .eq('firm_id', userData.firm_id)
+            .order('last_name', { ascending: true });
+
+          setUsers(usersData || []);
+        }
+      }
+    }
+
+    if (caseId) {
+      fetchData();
+    }
+  }, [caseId]);
+
+  const ruleSet = RULE_SETS.find(item => item.id === ruleSetId) || null;
+  const trigger = ruleSet?.triggers.find(item => item.id === triggerId) || null;
+  const usesService = !!trigger?.deadlines.some(rule => rule.service_extension);
+
+  // Recalculate whenever an input changes; every computed deadline starts selected
+  useEffect(() => {
+    setCalculationError(null);
+
+    if (!ruleSet || !triggerId || !triggerDate) {
+      setCalculated([]);
+      setSelected(new Set());
+      return;
+    }
+
+    try {
+      const results = calculateDeadlines(
+        ruleSet,
+        getCourtCalendar(ruleSet),
+        triggerId,
+        triggerDate,
+        usesService && serviceMethodId ? serviceMethodId : null
+      );
+      setCalculated(results);
+      setSelected(new Set(results.map(result => result.rule_id)));
+    } catch (error: any) {
+      setCalculated([]);
+      setSelected(new Set());
+      setCalculationError(error.message || 'Could not calculate deadlines');
+    }
+  }, [ruleSetId, triggerId, triggerDate, serviceMethodId]);
+
+  const handleRuleSetChange = (value: string) => {
+    setRuleSetId(value);
+    setTriggerId('');
+    setServiceMethodId('');
+  };
+
+  const toggleSelected = (ruleId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(ruleId)) {
+        next.delete(ruleId);
+      } else {
+        next.add(ruleId);
+      }
+      return next;
+    });
+  };
+
+  const onSubmit = async (data: DeadlineFormValues) => {
+    if (!firmId || !caseId) return;
+
+    setIsLoading(true);
+
+    try {
+      const { error } = await supabase
+        .from('deadlines')
+        .insert({
+          firm_id: firmId,
+          case_id: caseId,
+          title: data.title,
+          description: data.description || null,
+          due_date: toTimestamp(data.due_date, isHearing ? data.due_time || null : null),
+          priority: data.priority,
+          status: 'Pending',
+          assigned_to: data.assigned_to || null,
+          reminder_date: data.reminder_date ? toTimestamp(data.reminder_date) : null,
+          event_type: data.event_type,
+          location: isHearing ? data.location || null : null,
+        });
+
+      if (error) throw error;
+
+      // Redirect back to case
+      router.push(`/cases/${caseId}?tab=deadlines`);
+    } catch (error: any) {
+      console.error('Error creating deadline:', error);
+      alert(error.message || 'Failed to create deadline. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddCalculated = async () => {
+    if (!firmId || !caseId || !ruleSet || !trigger) return;
+
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('deadlines')
+        .insert(
+          calculated
+            .filter(result => selected.has(result.rule_id))
+            .map(result => ({
+              firm_id: firmId,
+              case_id: caseId,
+              title: result.title,
+              // Keep the reasoning with the deadline so it can be checked later
+              description: `Calculated under ${ruleSet.name} from ${trigger.label.toLowerCase()}: ${result.explanation}`,
+              due_date: toTimestamp(result.due_date),
+              priority: result.priority,
+              status: 'Pending',
+            }))
+        );
+
+      if (error) throw error;
+
+      router.push(`/cases/${caseId}?tab=deadlines`);
+    } catch (error: any) {
+      console.error('Error creating deadlines:', error);
+      alert(error.message || 'Failed to create deadlines. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !caseId) return;
+
+    setImportError(null);
+
+    try {
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const events = parseIcs(await file.text(), timeZone);
+
+      if (events.length === 0) {
+        throw new Error('No calendar events were found in this file');
+      }
+
+      const { data: existing } = await supabase
+        .from('deadlines')
+        .select('title, due_date')
+        .eq('case_id', caseId);
+
+      const existingKeys = new Set((existing || []).map(item =>
+        `${item.title.toLowerCase()}|${new Date(item.due_date).toLocaleDateString('en-CA')}`
+      ));
+
+      const proposals: ImportedEvent[] = events.map((event, index) => {
+        const isHearingEvent = !event.allDay && HEARING_PATTERN.test(`${event.summary} ${event.description || ''}`);
+
+        return {
+          key: `${event.uid || 'event'}-${index}`,
+          title: event.summary,
+          description: event.description,
+          date: event.date,
+          time: isHearingEvent ? event.time : null,
+          location: event.location,
+          event_type: isHearingEvent ? 'hearing' : 'deadline',
+          priority: isHearingEvent ? 'High' : 'Medium',
+          reminder_date: event.alarmAt,
+          duplicate: existingKeys.has(`${event.summary.toLowerCase()}|${event.date}`),
+        };
+      });
+
+      setImported(proposals);
+      setImportSelected(new Set(proposals.filter(item => !item.duplicate).map(item => item.key)));
+    } catch (error: any) {
+      console.error('Error reading calendar file:', error);
+      setImported([]);
+      setImportSelected(new Set());
+      setImportError(error.message || 'Could not read this calendar file');
+    }
+  };
+
+  const toggleImported = (key: string) => {
+    setImportSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleAddImported = async () => {
+    if (!firmId || !caseId) return;
+
+    setIsImporting(true);
+
+    try {
+      const { error } = await supabase
+        .from('deadlines')
+        .insert(
+          imported
+            .filter(item => importSelected.has(item.key))
+            .map(item => ({
+              firm_id: firmId,
+              case_id: caseId,
+              title: item.title,
+              description: item.description,
+              due_date: toTimestamp(item.date, item.time),
+              priority: item.priority,
+              status: 'Pending',
+              reminder_date: item.reminder_date,
+              event_type: item.event_type,
+              location: item.location,
+            }))
+        );
+
+      if (error) throw error;
+
+      router.push(`/cases/${caseId}?tab=deadlines`);
+    } catch (error: any) {
+      console.error('Error importing deadlines:', error);
+      alert(error.message || 'Failed to import deadlines. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!caseData) {
+    return (
+      <MainLayout title="Loading...">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout title="Add Deadline">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-white">Add Deadline</h1>
+        <p className="text-gray-400 mt-1">Case: {caseData.title}</p>
+      </div>
+
+      <Card className="max-w-3xl mx-auto mb-6">
+        <div className="flex items-center mb-2">
+          <CalculatorIcon className="h-5 w-5 text-gray-400 mr-2" />
+          <h2 className="text-xl font-semibold text-white">Calculate from Court Rules</h2>
+        </div>
+        <p className="text-gray-400 text-sm mb-4">
+          {caseData.court_name || 'No court set'}{caseData.court_location ? `, ${caseData.court_location}` : ''}
+          {!findRuleSet(caseData.court_name, caseData.court_location) && ' (no matching rule set; choose one below)'}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Select
+            label="Rules"
+            value={ruleSetId}
+            onChange={(e) => handleRuleSetChange(e.target.value)}
+            options={[
+              { value: '', label: 'Select rule set' },
+              ...RULE_SETS.map(item => ({ value: item.id, label: item.name })),
+            ]}
+          />
+
+          <Select
+            label="Trigger Event"
+            value={triggerId}
+            onChange={(e) => setTriggerId(e.target.value)}
+            options={[
+              { value: '', label: 'Select trigger event' },
+              ...(ruleSet?.triggers || []).map(item => ({ value: item.id, label: item.label })),
+            ]}
+          />
+
+          <Input
+            label="Trigger Date"
+            id="trigger_date"
+            type="date"
+            value={triggerDate}
+            onChange={(e) => setTriggerDate(e.target.value)}
+          />
+
+          {usesService && (
+            <Select
+              label="Service Method"
+              value={serviceMethodId}
+              onChange={(e) => setServiceMethodId(e.target.value)}
+              options={[
+                { value: '', label: 'Select service method' },
+                ...(ruleSet?.service_methods || []).map(method => ({
+                  value: method.id,
+                  label: method.extra_days > 0 ? `${method.label} (+${method.extra_days} days)` : method.label,
+                })),
+              ]}
+            />
+          )}
+        </div>
+
+        {calculationError && (
+          <p className="text-red-500 text-sm mt-2">{calculationError}</p>
+        )}
+
+        {calculated.length > 0 && (
+          <>
+            <ul className="divide-y divide-gray-700 mt-4">
+              {calculated.map(result => (
+                <li key={result.rule_id} className="py-3">
+                  <label className="flex items-start cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1 mr-3"
+                      checked={selected.has(result.rule_id)}
+                      onChange={() => toggleSelected(result.rule_id)}
+                    />
+                    <div>
+                      <div className="flex flex-wrap items-baseline gap-x-3">
+                        <span className="text-white font-medium">{result.title}</span>
+                        <span className="text-blue-400">{formatCourtDate(result.due_date)}</span>
+                      </div>
+                      <p className="text-gray-400 text-sm mt-1">{result.explanation}</p>
+                    </div>
+                  </label>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex justify-between items-center pt-4">
+              <p className="text-gray-500 text-xs">
+                Calculated dates are a starting point. Confirm them against the court's local rules and any order in the case.
+              </p>
+              <Button
+                type="button"
+                isLoading={isSaving}
+                disabled={selected.size === 0}
+                onClick={handleAddCalculated}
+              >
+                Add {selected.size} Deadline{selected.size === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </>
+        )}
+      </Card>
+
+      <Card className="max-w-3xl mx-auto mb-6">
+        <div id="import" className="flex items-center mb-2">
+          <ArrowUpTrayIcon className="h-5 w-5 text-gray-400 mr-2" />
+          <h2 className="text-xl font-semibold text-white">Import from Calendar File</h2>
+        </div>
+        <p className="text-gray-400 text-sm mb-4">
+          Upload the .ics file from a court e-filing notice. Its events are proposed below; nothing is added until you confirm.
+        </p>
+
+        <input
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={handleImportFile}
+          className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-white"
+        />
+
+        {importError && (
+          <p className="text-red-500 text-sm mt-2">{importError}</p>
+        )}
+
+        {imported.length > 0 && (
+          <>
+            <ul className="divide-y divide-gray-700 mt-4">
+              {imported.map(item => (
+                <li key={item.key} className="py-3">
+                  <label className="flex items-start cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1 mr-3"
+                      checked={importSelected.has(item.key)}
+                      onChange={() => toggleImported(item.key)}
+                    />
+                    <div>
+                      <div className="flex flex-wrap items-baseline gap-x-3">
+                        <span className="text-white font-medium">{item.title}</span>
+                        <span className="text-blue-400">
+                          {formatCourtDate(item.date)}{item.time ? ` at ${item.time}` : ''}
+                        </span>
+                        <span className="text-xs text-gray-400 uppercase">{item.event_type}</span>
+                        {item.duplicate && <span className="text-xs text-yellow-400">Already on this case</span>}
+                      </div>
+                      {item.location && <p className="text-gray-400 text-sm mt-1">{item.location}</p>}
+                      {item.description && <p className="text-gray-400 text-sm mt-1 whitespace-pre-line">{item.description}</p>}
+                    </div>
+                  </label>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex justify-end pt-4">
+              <Button
+                type="button"
+                isLoading={isImporting}
+                disabled={importSelected.size === 0}
+                onClick={handleAddImported}
+              >
+                Add {importSelected.size} Item{importSelected.size === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </>
+        )}
+      </Card>
+
+      <Card className="max-w-3xl mx-auto">
+        <h2 className="text-xl font-semibold text-white mb-4">Enter Manually</h2>
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <div className="space-y-4">
+            <Select
+              label="Type"
+              id="event_type"
+              {...register('event_type')}
+              error={errors.event_type?.message}
+              options={[
+                { value: 'deadline', label: 'Deadline' },
+                { value: 'hearing', label: 'Hearing' },
+              ]}
+            />
+
+            <Input
+              label="Title"
+              id="title"
+              {...register('title')}
+              error={errors.title?.message}
+            />
+
+            <Input
+              label="Description"
+              id="description"
+              {...register('description')}
+              error={errors.description?.message}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label={isHearing ? 'Hearing Date' : 'Due Date'}
+                id="due_date"
+                type="date"
+                {...register('due_date')}
+                error={errors.due_date?.message}
+              />
+
+              {isHearing && (
+                <>
+                  <Input
+                    label="Hearing Time"
+                    id="due_time"
+                    type="time"
+                    {...register('due_time')}
+                    error={errors.due_time?.message}
+                  />
+
+                  <Input
+                    label="Location"
+                    id="location"
+                    {...register('location')}
+                    error={errors.location?.message}
+                  />
+                </>
+              )}
+
+              <Input
+                label="Reminder Date"
+                id="reminder_date"
+                type="date"
+                {...register('reminder_date')}
+                error={errors.reminder_date?.message}
+              />
+
+              <Select
+                label="Priority"
+                id="priority"
+                {...register('priority')}
+                error={errors.priority?.message}
+                options={[
+                  { value: 'High', label: 'High' },
+                  { value: 'Medium', label: 'Medium' },
+                  { value: 'Low', label: 'Low' },
+                ]}
+              />
+
+              <Select
+                label="Assigned To"
+                id="assigned_to"
+                {...register('assigned_to')}
+                error={errors.assigned_to?.message}
+                options={[
+                  { value: '', label: 'Unassigned' },
+                  ...users.map(user => ({
+                    value: user.id,
+                    label: `${user.first_name} ${user.last_name}`
+                  }))
+                ]}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-4 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => router.back()}
+              >
+                Cancel
+              </Button>
+
+              <Button
+                type="submit"
+                isLoading={isLoading}
+              >
+                Add Deadline
+              </Button>
+            </div>
+          </div>
+        </form>
+      </Card>
+    </MainLayout>
+  );
+}
@@ -7,6 +7,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { supabase } from '@/lib/supabase';
+import { uploadFile } from '@/lib/storage/client';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
@@ -97,10 +98,7 @@ export default function NewDocumentPage() {
       
       const file = data.file[0];
       
-      // In a real app, this would upload to Supabase Storage
-      // For this demo, we'll simulate it
-      const fileName = `${Date.now()}_${file.name}`;
-      const filePath = `documents/${caseId}/${fileName}`;
+      const uploaded = await uploadFile(file, file.name, 'documents', caseId);
       
       // Create document record
       const { data: documentData, error } = await supabase
@@ -110,8 +108,10 @@ export default function NewDocumentPage() {
           case_id: caseId,
           name: data.name,
           document_type: data.document_type,
-          file_path: filePath,
-          file_size: file.size,
+          file_path: uploaded.file_path,
+          file_size: uploaded.file_size,
+          mime_type: uploaded.mime_type,
+          checksum: uploaded.checksum,
           uploaded_by: user.id,
           related_party_id: data.related_party_id || null,
         })
@@ -121,9 +121,9 @@ export default function NewDocumentPage() {
       
       // Redirect back to case
       router.push(`/cases/${caseId}?tab=documents`);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error creating document:', error);
-      alert('Failed to upload document. Please try again.');
+      alert(error.message || 'Failed to upload document. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -249,6 +249,7 @@ import {
   FunnelIcon
 } from 'react-icons/hi2';
 import { supabase } from '@/lib/supabase';
+import { getDocumentFileUrl } from '@/lib/storage/client';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
@@ -346,6 +347,7 @@ export default function DocumentsPage() {
           case_id
         `)
         .eq('firm_id', firmId)
+        .eq('is_current', true)
         .order('created_at', { ascending: false });
       
       // Apply filters
@@ -571,9 +573,11 @@ export default function DocumentsPage() {
                         {formatDate(doc.created_at)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <Button variant="outline" size="sm">
-                          View
-                        </Button>
+                        <a href={getDocumentFileUrl(doc.id)} target="_blank" rel="noopener noreferrer">
+                          <Button variant="outline" size="sm">
+                            View
+                          </Button>
+                        </a>
                       </td>
                     </tr>
                   ))}
@@ -12,18 +12,32 @@ import {
   UserIcon,
   HomeIcon,
   PlusIcon,
-  TrashIcon
+  TrashIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon
 } from 'react-icons/hi2';
 import { supabase } from '@/lib/supabase';
+import { getDocumentFileUrl } from '@/lib/storage/client';
+import { markOverdueDeadlines } from '@/lib/deadlines/status';
+import { CASE_TRASH_RETENTION_DAYS, deleteCase } from '@/lib/cases/trash';
+import { BILLABLE_FINANCIAL_TYPES, Invoice } from '@/lib/invoices';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/Tabs';
+import DocumentVersions from '@/components/documents/DocumentVersions';
+import CaseParticipants from '@/components/parties/CaseParticipants';
+import AuditLog from '@/components/audit/AuditLog';
+import CaseTimer from '@/components/time/CaseTimer';
+import CaseTimeEntries from '@/components/time/CaseTimeEntries';
+import BillingRates from '@/components/time/BillingRates';
+import { usePermissions } from '@/lib/auth/usePermissions';
 
 // Define types
 interface Case {
   id: string;
+  firm_id: string;
   title: string;
   case_number: string;
   case_type: string;
@@ -37,17 +51,15 @@ interface Case {
   filing_date: string | null;
   closure_date: string | null;
   assigned_to: string | null;
+  conflict_check_id: string | null;
 }
 
-interface Party {
-  id: string;
-  first_name: string | null;
-  last_name: string | null;
-  organization_name: string | null;
-  email: string | null;
-  phone: string | null;
-  address: string | null;
-  type: string;
+interface ConflictCheckRecord {
+  decision: string | null;
+  decision_notes: string | null;
+  decided_at: string | null;
+  results: { severity: string }[];
+  decided_by_name?: string;
 }
 
 interface User {
@@ -82,6 +94,7 @@ interface Document {
   file_size: number;
   uploaded_by: string;
   version: number;
+  parent_document_id: string | null;
   created_at: string;
   uploader_name?: string;
 }
@@ -95,6 +108,8 @@ interface Deadline {
   status: string;
   assigned_to: string | null;
   reminder_date: string | null;
+  event_type: string;
+  location: string | null;
   assignee_name?: string;
 }
 
@@ -109,24 +124,27 @@ interface Financial {
   party_id: string | null;
   recorder_name?: string;
   party_name?: string;
+  invoice_number?: string;
 }
 
 export default function CaseDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const { can } = usePermissions();
   const caseId = Array.isArray(params.id) ? params.id[0] : params.id;
   
   const [caseData, setCaseData] = useState<Case | null>(null);
-  const [client, setClient] = useState<Party | null>(null);
-  const [opposingParty, setOpposingParty] = useState<Party | null>(null);
   const [assignedUser, setAssignedUser] = useState<User | null>(null);
+  const [conflictCheck, setConflictCheck] = useState<ConflictCheckRecord | null>(null);
   const [securityInterests, setSecurityInterests] = useState<SecurityInterest[]>([]);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [deadlines, setDeadlines] = useState<Deadline[]>([]);
   const [financials, setFinancials] = useState<Financial[]>([]);
+  const [openHistoryId, setOpenHistoryId] = useState<string | null>(null);
   
   const [isLoading, setIsLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('overview');
+  const [timeVersion, setTimeVersion] = useState(0);
   
   useEffect(() => {
     if (caseId) {
@@ -150,8 +168,8 @@ export default function CaseDetailPage() {
       
       // Fetch related data in parallel
       await Promise.all([
-        fetchParties(caseData),
         fetchAssignedUser(caseData),
+        fetchConflictCheck(caseData),
         fetchSecurityInterests(caseData),
         fetchDocuments(caseData),
         fetchDeadlines(caseData),
@@ -166,30 +184,6 @@ export default function CaseDetailPage() {
     }
   };
   
-  const fetchParties = async (caseData: Case) => {
-    // Fetch client
-    if (caseData.client_id) {
-      const { data: clientData } = await supabase
-        .from('parties')
-        .select('*')
-        .eq('id', caseData.client_id)
-        .single();
-      
-      setClient(clientData || null);
-    }
-    
-    // Fetch opposing party if exists
-    if (caseData.opposing_party_id) {
-      const { data: opposingPartyData } = await supabase
-        .from('parties')
-        .select('*')
-        .eq('id', caseData.opposing_party_id)
-        .single();
-      
-      setOpposingParty(opposingPartyData || null);
-    }
-  };
-  
   const fetchAssignedUser = async (caseData: Case) => {
     if (caseData.assigned_to) {
       const { data: userData } = await supabase
@@ -202,6 +196,39 @@ export default function CaseDetailPage() {
     }
   };
   
+  const fetchConflictCheck = async (caseData: Case) => {
+    if (!caseData.conflict_check_id) return;
+
+    const { data: checkData } = await supabase
+      .from('conflict_checks')
+      .select('decision, decision_notes, decided_at, decided_by, results')
+      .eq('id', caseData.conflict_check_id)
+      .single();
+
+    if (!checkData) return;
+
+    let decidedByName;
+    if (checkData.decided_by) {
+      const { data: userData } = await supabase
+        .from('users')
+        .select('first_name, last_name')
+        .eq('id', checkData.decided_by)
+        .single();
+
+      if (userData) {
+        decidedByName = `${userData.first_name} ${userData.last_name}`;
+      }
+    }
+
+    setConflictCheck({
+      decision: checkData.decision,
+      decision_notes: checkData.decision_notes,
+      decided_at: checkData.decided_at,
+      results: (checkData.results as { severity: string }[] | null) || [],
+      decided_by_name: decidedByName,
+    });
+  };
+  
   const fetchSecurityInterests = async (caseData: Case) => {
     // Only fetch security interests for foreclosure cases
     if (caseData.case_type.toLowerCase() === 'foreclosure') {
@@ -248,6 +275,7 @@ export default function CaseDetailPage() {
       .from('documents')
       .select('*')
       .eq('case_id', caseData.id)
+      .eq('is_current', true)
       .order('created_at', { ascending: false });
     
     if (documentsData && documentsData.length > 0) {
@@ -274,6 +302,8 @@ export default function CaseDetailPage() {
   };
   
   const fetchDeadlines = async (caseData: Case) => {
+    await markOverdueDeadlines(caseData.firm_id);
+
     const { data: deadlinesData } = await supabase
       .from('deadlines')
       .select('*')
@@ -318,6 +348,12 @@ export default function CaseDetailPage() {
       .order('transaction_date', { ascending: false });
     
     if (financialsData && financialsData.length > 0) {
+      const invoiceIds = Array.from(new Set(financialsData.map((financial) => financial.invoice_id).filter(Boolean)));
+      const { data: invoicesData } = invoiceIds.length > 0
+        ? await supabase.from('invoices').select('id, invoice_number').in('id', invoiceIds)
+        : { data: [] };
+      const invoiceNumbers = new Map(((invoicesData || []) as Pick<Invoice, 'id' | 'invoice_number'>[]).map((invoice) => [invoice.id, invoice.invoice_number]));
+
       // Get recorder and party names
       const financialsWithNames = await Promise.all(
         financialsData.map(async (financial) => {
@@ -342,7 +378,8 @@ export default function CaseDetailPage() {
           return {
             ...financial,
             recorder_name: userData ? `${userData.first_name} ${userData.last_name}` : 'Unknown',
-            party_name: partyName
+            party_name: partyName,
+            invoice_number: financial.invoice_id ? invoiceNumbers.get(financial.invoice_id) : undefined
           };
         })
       );
@@ -416,32 +453,18 @@ export default function CaseDetailPage() {
   const handleDeleteCase = async () => {
     if (!caseData) return;
     
-    if (window.confirm('Are you sure you want to delete this case? This action cannot be undone.')) {
+    if (window.confirm(`Move this case to the trash? An admin can restore it, with all of its documents, deadlines and financials, for ${CASE_TRASH_RETENTION_DAYS} days.`)) {
       try {
         setIsLoading(true);
         
-        // Delete all related records first
-        await Promise.all([
-          supabase.from('security_interests').delete().eq('case_id', caseData.id),
-          supabase.from('documents').delete().eq('case_id', caseData.id),
-          supabase.from('deadlines').delete().eq('case_id', caseData.id),
-          supabase.from('financials').delete().eq('case_id', caseData.id)
-        ]);
-        
-        // Then delete the case itself
-        const { error } = await supabase
-          .from('cases')
-          .delete()
-          .eq('id', caseData.id);
-        
-        if (error) throw error;
+        // The case and its records are hidden together in one step
+        await deleteCase(caseData.id);
         
         // Redirect back to cases list
         router.push('/cases');
-      } catch (error) {
+      } catch (error: any) {
         console.error('Error deleting case:', error);
-        alert('Failed to delete the case. Please try again.');
-      } finally {
+        alert(error.message || 'Failed to delete the case. Please try again.');
         setIsLoading(false);
       }
     }
@@ -487,17 +510,29 @@ export default function CaseDetailPage() {
         </div>
         
         <div className="flex items-center gap-3 mt-4 md:mt-0">
-          <Link href={`/cases/${caseId}/edit`}>
-            <Button variant="outline" className="flex items-center">
-              <PencilIcon className="h-4 w-4 mr-2" />
-              Edit
-            </Button>
-          </Link>
+          {can('record_time') && (
+            <CaseTimer
+              caseId={caseData.id}
+              firmId={caseData.firm_id}
+              onChange={() => setTimeVersion((version) => version + 1)}
+            />
+          )}
+
+          {can('edit_records') && (
+            <Link href={`/cases/${caseId}/edit`}>
+              <Button variant="outline" className="flex items-center">
+                <PencilIcon className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            </Link>
+          )}
           
-          <Button variant="danger" className="flex items-center" onClick={handleDeleteCase}>
-            <TrashIcon className="h-4 w-4 mr-2" />
-            Delete
-          </Button>
+          {can('delete_case') && (
+            <Button variant="danger" className="flex items-center" onClick={handleDeleteCase}>
+              <TrashIcon className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          )}
         </div>
       </div>
       
@@ -506,10 +541,18 @@ export default function CaseDetailPage() {
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="documents">Documents</TabsTrigger>
           <TabsTrigger value="deadlines">Deadlines</TabsTrigger>
-          <TabsTrigger value="financials">Financials</TabsTrigger>
+          {can('view_financials') && (
+            <TabsTrigger value="financials">Financials</TabsTrigger>
+          )}
+          {(can('record_time') || can('view_financials')) && (
+            <TabsTrigger value="time">Time</TabsTrigger>
+          )}
           {caseData.case_type.toLowerCase() === 'foreclosure' && (
             <TabsTrigger value="security">Security Interests</TabsTrigger>
           )}
+          {can('view_audit_log') && (
+            <TabsTrigger value="history">History</TabsTrigger>
+          )}
         </TabsList>
         
         <TabsContent value="overview">
@@ -585,39 +628,7 @@ export default function CaseDetailPage() {
             </div>
             
             <div className="lg:col-span-1">
-              <Card className="mb-6">
-                <h2 className="text-xl font-semibold text-white mb-4">Parties</h2>
-                
-                <div className="mb-4">
-                  <p className="text-sm text-gray-400 mb-1">Client</p>
-                  {client ? (
-                    <div className="bg-gray-700 p-3 rounded-md">
-                      <p className="text-white font-medium">
-                        {getPartyDisplayName(client)}
-                      </p>
-                      {client.email && <p className="text-gray-300 text-sm">{client.email}</p>}
-                      {client.phone && <p className="text-gray-300 text-sm">{client.phone}</p>}
-                    </div>
-                  ) : (
-                    <p className="text-gray-400">No client information</p>
-                  )}
-                </div>
-                
-                <div>
-                  <p className="text-sm text-gray-400 mb-1">Opposing Party</p>
-                  {opposingParty ? (
-                    <div className="bg-gray-700 p-3 rounded-md">
-                      <p className="text-white font-medium">
-                        {getPartyDisplayName(opposingParty)}
-                      </p>
-                      {opposingParty.email && <p className="text-gray-300 text-sm">{opposingParty.email}</p>}
-                      {opposingParty.phone && <p className="text-gray-300 text-sm">{opposingParty.phone}</p>}
-                    </div>
-                  ) : (
-                    <p className="text-gray-400">No opposing party information</p>
-                  )}
-                </div>
-              </Card>
+              <CaseParticipants caseId={caseData.id} firmId={caseData.firm_id} clientId={caseData.client_id} />
               
               <Card className="mb-6">
                 <h2 className="text-xl font-semibold text-white mb-4">Assignment</h2>
@@ -634,41 +645,71 @@ export default function CaseDetailPage() {
                 )}
               </Card>
               
-              <Card>
-                <h2 className="text-xl font-semibold text-white mb-4">Quick Actions</h2>
-                
-                <div className="space-y-2">
-                  <Link href={`/cases/${caseId}/documents/new`}>
-                    <Button variant="outline" className="w-full justify-center">
-                      <DocumentIcon className="h-5 w-5 mr-2" />
-                      Add Document
-                    </Button>
-                  </Link>
+              {conflictCheck && (
+                <Card className="mb-6">
+                  <h2 className="text-xl font-semibold text-white mb-4">Conflicts Check</h2>
                   
-                  <Link href={`/cases/${caseId}/deadlines/new`}>
-                    <Button variant="outline" className="w-full justify-center">
-                      <ClockIcon className="h-5 w-5 mr-2" />
-                      Add Deadline
-                    </Button>
-                  </Link>
-                  
-                  <Link href={`/cases/${caseId}/financials/new`}>
-                    <Button variant="outline" className="w-full justify-center">
-                      <CurrencyDollarIcon className="h-5 w-5 mr-2" />
-                      Add Financial Record
-                    </Button>
-                  </Link>
-                  
-                  {caseData.case_type.toLowerCase() === 'foreclosure' && (
-                    <Link href={`/cases/${caseId}/security/new`}>
-                      <Button variant="outline" className="w-full justify-center">
-                        <HomeIcon className="h-5 w-5 mr-2" />
-                        Add Security Interest
-                      </Button>
-                    </Link>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={conflictCheck.decision === 'waived' ? 'warning' : 'success'}>
+                      {conflictCheck.decision === 'waived' ? 'Waived' : 'Cleared'}
+                    </Badge>
+                    <span className="text-gray-400 text-sm">
+                      {conflictCheck.results.filter((hit) => hit.severity === 'conflict').length} conflicts,{' '}
+                      {conflictCheck.results.filter((hit) => hit.severity === 'warning').length} warnings
+                    </span>
+                  </div>
+                  <p className="text-gray-300 text-sm mt-2">
+                    {conflictCheck.decided_by_name || 'Unknown'} on {formatDate(conflictCheck.decided_at)}
+                  </p>
+                  {conflictCheck.decision_notes && (
+                    <p className="text-gray-300 text-sm mt-2 whitespace-pre-line">{conflictCheck.decision_notes}</p>
                   )}
-                </div>
-              </Card>
+                </Card>
+              )}
+              
+              {(can('edit_records') || can('edit_financials')) && (
+                <Card>
+                  <h2 className="text-xl font-semibold text-white mb-4">Quick Actions</h2>
+                  
+                  <div className="space-y-2">
+                    {can('edit_records') && (
+                      <Link href={`/cases/${caseId}/documents/new`}>
+                        <Button variant="outline" className="w-full justify-center">
+                          <DocumentIcon className="h-5 w-5 mr-2" />
+                          Add Document
+                        </Button>
+                      </Link>
+                    )}
+                    
+                    {can('edit_records') && (
+                      <Link href={`/cases/${caseId}/deadlines/new`}>
+                        <Button variant="outline" className="w-full justify-center">
+                          <ClockIcon className="h-5 w-5 mr-2" />
+                          Add Deadline
+                        </Button>
+                      </Link>
+                    )}
+                    
+                    {can('edit_financials') && (
+                      <Link href={`/cases/${caseId}/financials/new`}>
+                        <Button variant="outline" className="w-full justify-center">
+                          <CurrencyDollarIcon className="h-5 w-5 mr-2" />
+                          Add Financial Record
+                        </Button>
+                      </Link>
+                    )}
+                    
+                    {can('edit_records') && caseData.case_type.toLowerCase() === 'foreclosure' && (
+                      <Link href={`/cases/${caseId}/security/new`}>
+                        <Button variant="outline" className="w-full justify-center">
+                          <HomeIcon className="h-5 w-5 mr-2" />
+                          Add Security Interest
+                        </Button>
+                      </Link>
+                    )}
+                  </div>
+                </Card>
+              )}
             </div>
           </div>
         </TabsContent>
@@ -677,23 +718,27 @@ export default function CaseDetailPage() {
           <Card>
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl font-semibold text-white">Documents</h2>
-              <Link href={`/cases/${caseId}/documents/new`}>
-                <Button className="flex items-center">
-                  <PlusIcon className="h-4 w-4 mr-2" />
-                  Add Document
-                </Button>
-              </Link>
+              {can('edit_records') && (
+                <Link href={`/cases/${caseId}/documents/new`}>
+                  <Button className="flex items-center">
+                    <PlusIcon className="h-4 w-4 mr-2" />
+                    Add Document
+                  </Button>
+                </Link>
+              )}
             </div>
             
             {documents.length === 0 ? (
               <div className="text-center py-12">
                 <p className="text-gray-400 mb-6">No documents found for this case</p>
-                <Link href={`/cases/${caseId}/documents/new`}>
-                  <Button>
-                    <PlusIcon className="h-5 w-5 mr-2" />
-                    Add Document
-                  </Button>
-                </Link>
+                {can('edit_records') && (
+                  <Link href={`/cases/${caseId}/documents/new`}>
+                    <Button>
+                      <PlusIcon className="h-5 w-5 mr-2" />
+                      Add Document
+                    </Button>
+                  </Link>
+                )}
               </div>
             ) : (
               <div className="overflow-x-auto">
@@ -706,6 +751,9 @@ export default function CaseDetailPage() {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                         Type
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Version
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                         Size
                       </th>
@@ -721,8 +769,13 @@ export default function CaseDetailPage() {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-700">
-                    {documents.map((doc) => (
-                      <tr key={doc.id} className="hover:bg-gray-700">
+                    {documents.map((doc) => {
+                      // Versions share the first version's id, which stays stable across uploads
+                      const historyId = doc.parent_document_id || doc.id;
+                      
+                      return (
+                      <React.Fragment key={historyId}>
+                      <tr className="hover:bg-gray-700">
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center">
                             <DocumentIcon className="h-5 w-5 text-gray-400 mr-3" />
@@ -732,6 +785,9 @@ export default function CaseDetailPage() {
                         <td className="px-6 py-4 whitespace-nowrap text-gray-300">
                           {doc.document_type}
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                          v{doc.version}
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-gray-300">
                           {formatFileSize(doc.file_size)}
                         </td>
@@ -742,12 +798,41 @@ export default function CaseDetailPage() {
                           {formatDate(doc.created_at)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <Button variant="outline" size="sm">
-                            View
-                          </Button>
+                          <div className="flex space-x-2">
+                            <a href={getDocumentFileUrl(doc.id)} target="_blank" rel="noopener noreferrer">
+                              <Button variant="outline" size="sm">
+                                View
+                              </Button>
+                            </a>
+                            <a href={getDocumentFileUrl(doc.id, true)}>
+                              <Button variant="outline" size="sm">
+                                <ArrowDownTrayIcon className="h-4 w-4" />
+                              </Button>
+                            </a>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setOpenHistoryId(openHistoryId === historyId ? null : historyId)}
+                            >
+                              History
+                            </Button>
+                          </div>
                         </td>
                       </tr>
-                    ))}
+                      {openHistoryId === historyId && (
+                        <tr>
+                          <td colSpan={7} className="px-6 py-4 bg-gray-900/50">
+                            <DocumentVersions
+                              documentId={doc.id}
+                              caseId={caseData.id}
+                              onVersionAdded={() => fetchDocuments(caseData)}
+                            />
+                          </td>
+                        </tr>
+                      )}
+                      </React.Fragment>
+                      );
+                    })}
                   </tbody>
                 </table>
               </div>
@@ -759,23 +844,37 @@ export default function CaseDetailPage() {
           <Card>
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-xl font-semibold text-white">Deadlines</h2>
-              <Link href={`/cases/${caseId}/deadlines/new`}>
-                <Button className="flex items-center">
-                  <PlusIcon className="h-4 w-4 mr-2" />
-                  Add Deadline
-                </Button>
-              </Link>
+              <div className="flex items-center space-x-2">
+                {can('edit_records') && (
+                  <Link href={`/cases/${caseId}/deadlines/new#import`}>
+                    <Button variant="outline" className="flex items-center">
+                      <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+                      Import .ics
+                    </Button>
+                  </Link>
+                )}
+                {can('edit_records') && (
+                  <Link href={`/cases/${caseId}/deadlines/new`}>
+                    <Button className="flex items-center">
+                      <PlusIcon className="h-4 w-4 mr-2" />
+                      Add Deadline
+                    </Button>
+                  </Link>
+                )}
+              </div>
             </div>
             
             {deadlines.length === 0 ? (
               <div className="text-center py-12">
                 <p className="text-gray-400 mb-6">No deadlines found for this case</p>
-                <Link href={`/cases/${caseId}/deadlines/new`}>
-                  <Button>
-                    <PlusIcon className="h-5 w-5 mr-2" />
-                    Add Deadline
-                  </Button>
-                </Link>
+                {can('edit_records') && (
+                  <Link href={`/cases/${caseId}/deadlines/new`}>
+                    <Button>
+                      <PlusIcon className="h-5 w-5 mr-2" />
+                      Add Deadline
+                    </Button>
+                  </Link>
+                )}
               </div>
             ) : (
               <div className="overflow-x-auto">
@@ -808,11 +907,24 @@ export default function CaseDetailPage() {
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center">
                             <ClockIcon className="h-5 w-5 text-gray-400 mr-3" />
-                            <span className="text-white">{deadline.title}</span>
+                            <div>
+                              <span className="text-white">{deadline.title}</span>
+                              {deadline.event_type === 'hearing' && (
+                                <Badge variant="info" className="ml-2">Hearing</Badge>
+                              )}
+                              {deadline.location && (
+                                <p className="text-sm text-gray-400">{deadline.location}</p>
+                              )}
+                            </div>
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-gray-300">
                           {formatDate(deadline.due_date)}
+                          {deadline.event_type === 'hearing' && (
+                            <span className="block text-sm text-gray-400">
+                              {new Date(deadline.due_date).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <Badge variant={getPriorityBadgeVariant(deadline.priority)}>
@@ -828,9 +940,11 @@ export default function CaseDetailPage() {
                           {deadline.assignee_name}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <Button variant="outline" size="sm">
-                            Edit
-                          </Button>
+                          {can('edit_records') && (
+                            <Button variant="outline" size="sm">
+                              Edit
+                            </Button>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -841,116 +955,161 @@ export default function CaseDetailPage() {
           </Card>
         </TabsContent>
         
-        <TabsContent value="financials">
-          <Card>
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-semibold text-white">Financial Records</h2>
-              <Link href={`/cases/${caseId}/financials/new`}>
-                <Button className="flex items-center">
-                  <PlusIcon className="h-4 w-4 mr-2" />
-                  Add Financial Record
-                </Button>
-              </Link>
-            </div>
-            
-            {financials.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-gray-400 mb-6">No financial records found for this case</p>
-                <Link href={`/cases/${caseId}/financials/new`}>
-                  <Button>
-                    <PlusIcon className="h-5 w-5 mr-2" />
-                    Add Financial Record
-                  </Button>
-                </Link>
+        {can('view_financials') && (
+          <TabsContent value="financials">
+            <Card>
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold text-white">Financial Records</h2>
+                {can('edit_financials') && (
+                  <div className="flex space-x-2">
+                    <Link href={`/invoices/new?case_id=${caseId}`}>
+                      <Button variant="outline">Create Invoice</Button>
+                    </Link>
+                    <Link href={`/cases/${caseId}/financials/new`}>
+                      <Button className="flex items-center">
+                        <PlusIcon className="h-4 w-4 mr-2" />
+                        Add Financial Record
+                      </Button>
+                    </Link>
+                  </div>
+                )}
               </div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-700">
-                  <thead>
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                        Type
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                        Amount
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                        Description
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                        Date
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                        Related Party
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                        Recorded By
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                        Actions
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-gray-700">
-                    {financials.map((financial) => (
-                      <tr key={financial.id} className="hover:bg-gray-700">
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center">
-                            <CurrencyDollarIcon className="h-5 w-5 text-gray-400 mr-3" />
-                            <span className="text-white">{financial.transaction_type}</span>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-gray-300">
-                          ${financial.amount.toFixed(2)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-gray-300">
-                          {financial.description || '-'}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-gray-300">
-                          {formatDate(financial.transaction_date)}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-gray-300">
-                          {financial.party_name || '-'}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-gray-300">
-                          {financial.recorder_name}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <Button variant="outline" size="sm">
-                            Edit
-                          </Button>
-                        </td>
+              
+              {financials.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-gray-400 mb-6">No financial records found for this case</p>
+                  {can('edit_financials') && (
+                    <Link href={`/cases/${caseId}/financials/new`}>
+                      <Button>
+                        <PlusIcon className="h-5 w-5 mr-2" />
+                        Add Financial Record
+                      </Button>
+                    </Link>
+                  )}
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-700">
+                    <thead>
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                          Type
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                          Amount
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                          Description
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                          Date
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                          Related Party
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                          Recorded By
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                          Invoice
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                          Actions
+                        </th>
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                      {financials.map((financial) => (
+                        <tr key={financial.id} className="hover:bg-gray-700">
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center">
+                              <CurrencyDollarIcon className="h-5 w-5 text-gray-400 mr-3" />
+                              <span className="text-white">{financial.transaction_type}</span>
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                            ${financial.amount.toFixed(2)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                            {financial.description || '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                            {formatDate(financial.transaction_date)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                            {financial.party_name || '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                            {financial.recorder_name}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                            {financial.invoice_id ? (
+                              <Link href={`/invoices/${financial.invoice_id}`} className="text-blue-400 hover:text-blue-300">
+                                {financial.invoice_number || 'View'}
+                              </Link>
+                            ) : BILLABLE_FINANCIAL_TYPES.includes(financial.transaction_type) ? (
+                              <Badge variant="warning">Unbilled</Badge>
+                            ) : (
+                              '-'
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {can('edit_financials') && (
+                              <Button variant="outline" size="sm">
+                                Edit
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+          </TabsContent>
+        )}
+        
+        {(can('record_time') || can('view_financials')) && (
+          <TabsContent value="time">
+            <Card className="mb-6">
+              <CaseTimeEntries caseId={caseData.id} firmId={caseData.firm_id} refreshKey={timeVersion} />
+            </Card>
+            {can('view_financials') && (
+              <Card>
+                <h2 className="text-xl font-semibold text-white mb-4">Rates on This Case</h2>
+                <BillingRates firmId={caseData.firm_id} caseId={caseData.id} />
+              </Card>
             )}
-          </Card>
-        </TabsContent>
+          </TabsContent>
+        )}
         
         {caseData.case_type.toLowerCase() === 'foreclosure' && (
           <TabsContent value="security">
             <Card>
               <div className="flex justify-between items-center mb-4">
                 <h2 className="text-xl font-semibold text-white">Security Interests</h2>
-                <Link href={`/cases/${caseId}/security/new`}>
-                  <Button className="flex items-center">
-                    <PlusIcon className="h-4 w-4 mr-2" />
-                    Add Security Interest
-                  </Button>
-                </Link>
+                {can('edit_records') && (
+                  <Link href={`/cases/${caseId}/security/new`}>
+                    <Button className="flex items-center">
+                      <PlusIcon className="h-4 w-4 mr-2" />
+                      Add Security Interest
+                    </Button>
+                  </Link>
+                )}
               </div>
               
               {securityInterests.length === 0 ? (
                 <div className="text-center py-12">
                   <p className="text-gray-400 mb-6">No security interests found for this case</p>
-                  <Link href={`/cases/${caseId}/security/new`}>
-                    <Button>
-                      <PlusIcon className="h-5 w-5 mr-2" />
-                      Add Security Interest
-                    </Button>
-                  </Link>
+                  {can('edit_records') && (
+                    <Link href={`/cases/${caseId}/security/new`}>
+                      <Button>
+                        <PlusIcon className="h-5 w-5 mr-2" />
+                        Add Security Interest
+                      </Button>
+                    </Link>
+                  )}
                 </div>
               ) : (
                 <div className="overflow-x-auto">
@@ -1005,9 +1164,11 @@ export default function CaseDetailPage() {
                             {interest.borrower_name}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <Button variant="outline" size="sm">
-                              Edit
-                            </Button>
+                            {can('edit_records') && (
+                              <Button variant="outline" size="sm">
+                                Edit
+                              </Button>
+                            )}
                           </td>
                         </tr>
                       ))}
@@ -1018,6 +1179,15 @@ export default function CaseDetailPage() {
             </Card>
           </TabsContent>
         )}
+        
+        {can('view_audit_log') && (
+          <TabsContent value="history">
+            <Card>
+              <h2 className="text-xl font-semibold text-white mb-4">History</h2>
+              <AuditLog caseId={caseData.id} />
+            </Card>
+          </TabsContent>
+        )}
       </Tabs>
     </MainLayout>
   );
@@ -15,6 +15,7 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
 import { Textarea } from '@/components/ui/Textarea';
+import ConflictCheckPanel, { ConflictCheck } from '@/components/conflicts/ConflictCheckPanel';
 
 // Define types for parties and users
 interface Party {
@@ -55,12 +56,14 @@ export default function NewCasePage() {
   const [clients, setClients] = useState<Party[]>([]);
   const [opposingParties, setOpposingParties] = useState<Party[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const [conflictCheck, setConflictCheck] = useState<ConflictCheck | null>(null);
   const router = useRouter();
   
   const {
     register,
     handleSubmit,
     control,
+    watch,
     formState: { errors },
   } = useForm<NewCaseFormValues>({
     resolver: zodResolver(newCaseSchema),
@@ -98,7 +101,8 @@ export default function NewCasePage() {
       .from('parties')
       .select('id, first_name, last_name, organization_name')
       .eq('firm_id', firmId)
-      .eq('is_client', true);
+      .eq('is_client', true)
+      .is('merged_into', null);
     
     if (clientsData) {
       setClients(clientsData);
@@ -109,7 +113,8 @@ export default function NewCasePage() {
       .from('parties')
       .select('id, first_name, last_name, organization_name')
       .eq('firm_id', firmId)
-      .eq('is_client', false);
+      .eq('is_client', false)
+      .is('merged_into', null);
     
     if (opposingPartiesData) {
       setOpposingParties(opposingPartiesData);
@@ -127,8 +132,16 @@ export default function NewCasePage() {
     }
   };
 
+  const clientId = watch('client_id');
+  const opposingPartyId = watch('opposing_party_id');
+
   const onSubmit = async (data: NewCaseFormValues) => {
     if (!firmId) return;
+
+    if (!conflictCheck?.decision) {
+      alert('The conflicts check must be cleared or waived before the case can be created.');
+      return;
+    }
     
     setIsLoading(true);
     
@@ -150,6 +163,7 @@ export default function NewCasePage() {
           court_location: data.court_location || null,
           judge_name: data.judge_name || null,
           filing_date: data.filing_date ? data.filing_date.toISOString() : null,
+          conflict_check_id: conflictCheck.id,
         })
         .select()
         .single();
@@ -175,9 +189,9 @@ export default function NewCasePage() {
       
       // Redirect to the case page
       router.push(`/cases/${newCase?.id || ''}`);
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error creating case:', error);
-      alert('Failed to create case. Please try again.');
+      alert(error.message || 'Failed to create case. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -345,6 +359,12 @@ export default function NewCasePage() {
               </div>
             </Card>
             
+            <ConflictCheckPanel
+              clientId={clientId || ''}
+              opposingPartyId={opposingPartyId || ''}
+              onChange={setConflictCheck}
+            />
+            
             <Card className="mb-6">
               <h2 className="text-xl font-semibold text-white mb-4">Assignment</h2>
               
@@ -378,6 +398,7 @@ export default function NewCasePage() {
               <Button
                 type="submit"
                 isLoading={isLoading}
+                disabled={!conflictCheck?.decision}
               >
                 Create Case
               </Button>
@@ -3,7 +3,7 @@
 
 import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
-import { PlusIcon, MagnifyingGlassIcon, FunnelIcon } from 'react-icons/hi2';
+import { PlusIcon, MagnifyingGlassIcon, FunnelIcon, TrashIcon } from 'react-icons/hi2';
 import { supabase } from '@/lib/supabase';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card } from '@/components/ui/Card';
@@ -11,6 +11,7 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
 import { Badge } from '@/components/ui/Badge';
+import { usePermissions } from '@/lib/auth/usePermissions';
 
 interface Case {
   id: string;
@@ -26,6 +27,7 @@ interface Case {
 }
 
 export default function CasesPage() {
+  const { can } = usePermissions();
   const [cases, setCases] = useState<Case[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [firmId, setFirmId] = useState<string | null>(null);
@@ -182,12 +184,24 @@ export default function CasesPage() {
     <MainLayout title="Cases">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-white">Cases</h1>
-        <Link href="/cases/new">
-          <Button className="flex items-center">
-            <PlusIcon className="h-5 w-5 mr-2" />
-            New Case
-          </Button>
-        </Link>
+        <div className="flex space-x-2">
+          {can('manage_firm') && (
+            <Link href="/cases/trash">
+              <Button variant="outline" className="flex items-center">
+                <TrashIcon className="h-5 w-5 mr-2" />
+                Trash
+              </Button>
+            </Link>
+          )}
+          {can('edit_records') && (
+            <Link href="/cases/new">
+              <Button className="flex items-center">
+                <PlusIcon className="h-5 w-5 mr-2" />
+                New Case
+              </Button>
+            </Link>
+          )}
+        </div>
       </div>
       
       <Card className="mb-6">
@@ -250,7 +264,7 @@ export default function CasesPage() {
                 ? 'Try adjusting your filters'
                 : 'Get started by creating your first case'}
             </p>
-            {!(searchTerm || statusFilter !== 'all' || typeFilter !== 'all') && (
+            {can('edit_records') && !(searchTerm || statusFilter !== 'all' || typeFilter !== 'all') && (
               <Link href="/cases/new">
                 <Button>
                   <PlusIcon className="h-5 w-5 mr-2" />
@@ -0,0 +1,276 @@
+// src/app/cases/trash/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { getPartyName } from '@/lib/conflicts';
+import {
+  CASE_TRASH_RETENTION_DAYS,
+  canRestore,
+  describeRecordCounts,
+  fetchTrashedCases,
+  getPurgeDate,
+  restoreCase,
+} from '@/lib/cases/trash';
+
+interface TrashedCase {
+  id: string;
+  case_number: string;
+  title: string;
+  client_name: string;
+  deleted_at: string;
+  deleted_by_name: string;
+}
+
+interface CasePurge {
+  id: string;
+  created_at: string;
+  case_number: string;
+  title: string;
+  purged_by_name: string;
+  record_counts: unknown;
+}
+
+export default function CaseTrashPage() {
+  const { can, isLoading: isLoadingPermissions } = usePermissions();
+  const canManage = can('manage_firm');
+
+  const [cases, setCases] = useState<TrashedCase[]>([]);
+  const [purges, setPurges] = useState<CasePurge[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isLoadingPermissions) return;
+
+    if (canManage) {
+      fetchTrash();
+    } else {
+      setIsLoading(false);
+    }
+  }, [isLoadingPermissions, canManage]);
+
+  const fetchTrash = async () => {
+    try {
+      const [trashed, { data: purgeRows }] = await Promise.all([
+        fetchTrashedCases(),
+        supabase
+          .from('case_purges')
+          .select('id, created_at, case_number, title, purged_by, record_counts')
+          .order('created_at', { ascending: false })
+          .limit(20),
+      ]);
+
+      const userIds = Array.from(new Set([
+        ...trashed.map((caseRow) => caseRow.deleted_by),
+        ...(purgeRows || []).map((purge) => purge.purged_by),
+      ].filter(Boolean))) as string[];
+      const clientIds = Array.from(new Set(trashed.map((caseRow) => caseRow.client_id)));
+
+      const [{ data: users }, { data: clients }] = await Promise.all([
+        userIds.length > 0
+          ? supabase.from('users').select('id, first_name, last_name').in('id', userIds)
+          : Promise.resolve({ data: [] as { id: string; first_name: string; last_name: string }[] }),
+        clientIds.length > 0
+          ? supabase.from('parties').select('id, first_name, last_name, organization_name').in('id', clientIds)
+          : Promise.resolve({ data: [] as { id: string; first_name: string | null; last_name: string | null; organization_name: string | null }[] }),
+      ]);
+
+      const userNames = new Map((users || []).map((user) => [user.id, `${user.first_name} ${user.last_name}`]));
+      const clientNames = new Map((clients || []).map((client) => [client.id, getPartyName(client)]));
+
+      setCases(trashed.map((caseRow) => ({
+        id: caseRow.id,
+        case_number: caseRow.case_number,
+        title: caseRow.title,
+        client_name: clientNames.get(caseRow.client_id) || 'Unknown',
+        deleted_at: caseRow.deleted_at as string,
+        deleted_by_name: (caseRow.deleted_by && userNames.get(caseRow.deleted_by)) || 'Unknown',
+      })));
+
+      setPurges((purgeRows || []).map((purge) => ({
+        id: purge.id,
+        created_at: purge.created_at,
+        case_number: purge.case_number,
+        title: purge.title,
+        purged_by_name: purge.purged_by ? userNames.get(purge.purged_by) || 'Unknown' : 'Automatic',
+        record_counts: purge.record_counts,
+      })));
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (caseItem: TrashedCase) => {
+    setBusyId(caseItem.id);
+
+    try {
+      await restoreCase(caseItem.id);
+      await fetchTrash();
+    } catch (error: any) {
+      console.error('Error restoring case:', error);
+      alert(error.message || 'Failed to restore the case. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (caseItem: TrashedCase) => {
+    const message = `Permanently delete ${caseItem.case_number} and all of its documents, deadlines, unbilled financials and other records? Invoices and what they billed are kept. This cannot be undone.`;
+    if (!window.confirm(message)) return;
+
+    setBusyId(caseItem.id);
+
+    try {
+      const response = await fetch(`/api/cases/${caseItem.id}/purge`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      await fetchTrash();
+    } catch (error: any) {
+      console.error('Error purging case:', error);
+      alert(error.message || 'Failed to purge the case. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isLoadingPermissions && !canManage) {
+    return (
+      <MainLayout title="Trash">
+        <Card>
+          <p className="text-gray-400">Only admins can view deleted cases.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout title="Trash">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Trash</h1>
+          <p className="text-gray-400 text-sm mt-1">
+            Deleted cases can be restored, with all of their records, for {CASE_TRASH_RETENTION_DAYS} days. After that
+            they are purged for good.
+          </p>
+        </div>
+        <Link href="/cases">
+          <Button variant="outline">Back to Cases</Button>
+        </Link>
+      </div>
+
+      <Card className="mb-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : cases.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">The trash is empty.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Case
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Client
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Deleted
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Restorable Until
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {cases.map((caseItem) => {
+                  const restorable = canRestore(caseItem.deleted_at);
+
+                  return (
+                    <tr key={caseItem.id}>
+                      <td className="px-6 py-4">
+                        <div className="text-white">{caseItem.title}</div>
+                        <div className="text-gray-400 text-sm">{caseItem.case_number}</div>
+                      </td>
+                      <td className="px-6 py-4 text-gray-300">{caseItem.client_name}</td>
+                      <td className="px-6 py-4">
+                        <div className="text-gray-300">{new Date(caseItem.deleted_at).toLocaleString()}</div>
+                        <div className="text-gray-400 text-sm">by {caseItem.deleted_by_name}</div>
+                      </td>
+                      <td className="px-6 py-4">
+                        {restorable ? (
+                          <span className="text-gray-300">{getPurgeDate(caseItem.deleted_at).toLocaleDateString()}</span>
+                        ) : (
+                          <Badge variant="danger">Awaiting purge</Badge>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right whitespace-nowrap">
+                        <div className="flex justify-end space-x-2">
+                          {restorable && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={busyId !== null}
+                              isLoading={busyId === caseItem.id}
+                              onClick={() => handleRestore(caseItem)}
+                            >
+                              Restore
+                            </Button>
+                          )}
+                          <Button
+                            variant="danger"
+                            size="sm"
+                            disabled={busyId !== null}
+                            onClick={() => handlePurge(caseItem)}
+                          >
+                            Delete Forever
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {purges.length > 0 && (
+        <Card>
+          <h2 className="text-xl font-semibold text-white mb-4">Purge Log</h2>
+          <ul className="divide-y divide-gray-700">
+            {purges.map((purge) => (
+              <li key={purge.id} className="py-3">
+                <div className="flex justify-between">
+                  <span className="text-white">
+                    {purge.case_number} &middot; {purge.title}
+                  </span>
+                  <span className="text-gray-400 text-sm">{new Date(purge.created_at).toLocaleString()}</span>
+                </div>
+                <p className="text-gray-400 text-sm">
+                  Purged by {purge.purged_by_name}. {describeRecordCounts(purge.record_counts)}.
+                </p>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+    </MainLayout>
+  );
+}
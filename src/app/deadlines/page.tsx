@@ -0,0 +1,404 @@
+// src/app/deadlines/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  ClockIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ListBulletIcon,
+  CalendarDaysIcon,
+  CalendarIcon
+} from 'react-icons/hi2';
+import { supabase } from '@/lib/supabase';
+import { DEADLINE_PRIORITIES, DEADLINE_STATUSES, markOverdueDeadlines } from '@/lib/deadlines/status';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Select } from '@/components/ui/Select';
+import DeadlineCalendar, { CalendarView, DeadlineItem, getViewRange } from '@/components/deadlines/DeadlineCalendar';
+import CalendarFeed from '@/components/deadlines/CalendarFeed';
+
+type View = 'list' | CalendarView;
+
+const VIEWS: { value: View; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { value: 'list', label: 'List', icon: ListBulletIcon },
+  { value: 'week', label: 'Week', icon: CalendarDaysIcon },
+  { value: 'month', label: 'Month', icon: CalendarIcon },
+];
+
+export default function DeadlinesPage() {
+  const [deadlines, setDeadlines] = useState<DeadlineItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [firmId, setFirmId] = useState<string | null>(null);
+
+  const [view, setView] = useState<View>('list');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [showFeed, setShowFeed] = useState(false);
+
+  // Filter states
+  const [assigneeFilter, setAssigneeFilter] = useState('all');
+  const [caseFilter, setCaseFilter] = useState('all');
+  const [priorityFilter, setPriorityFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('open');
+
+  // Options for filter dropdowns, also used to name each deadline's case and assignee
+  const [cases, setCases] = useState<{ id: string; title: string }[]>([]);
+  const [users, setUsers] = useState<{ id: string; first_name: string; last_name: string }[]>([]);
+
+  useEffect(() => {
+    async function fetchFirmData() {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (user) {
+        const { data } = await supabase
+          .from('users')
+          .select('firm_id')
+          .eq('id', user.id)
+          .single();
+
+        if (data?.firm_id) {
+          const [{ data: casesData }, { data: usersData }] = await Promise.all([
+            supabase.from('cases').select('id, title').eq('firm_id', data.firm_id).order('title', { ascending: true }),
+            supabase.from('users').select('id, first_name, last_name').eq('firm_id', data.firm_id).order('last_name', { ascending: true }),
+          ]);
+
+          setCases(casesData || []);
+          setUsers(usersData || []);
+
+          await markOverdueDeadlines(data.firm_id);
+          setFirmId(data.firm_id);
+        }
+      }
+    }
+
+    fetchFirmData();
+  }, []);
+
+  useEffect(() => {
+    if (firmId) {
+      fetchDeadlines();
+    }
+  }, [firmId, view, cursor, assigneeFilter, caseFilter, priorityFilter, statusFilter]);
+
+  const fetchDeadlines = async () => {
+    setIsLoading(true);
+
+    try {
+      let query = supabase
+        .from('deadlines')
+        .select('id, title, due_date, priority, status, case_id, assigned_to')
+        .eq('firm_id', firmId)
+        .order('due_date', { ascending: true });
+
+      // Calendar views only load the days on screen
+      if (view !== 'list') {
+        const { start, end } = getViewRange(view, cursor);
+        query = query.gte('due_date', start.toISOString()).lt('due_date', end.toISOString());
+      }
+
+      // Apply filters
+      if (assigneeFilter === 'unassigned') {
+        query = query.is('assigned_to', null);
+      } else if (assigneeFilter !== 'all') {
+        query = query.eq('assigned_to', assigneeFilter);
+      }
+
+      if (caseFilter !== 'all') {
+        query = query.eq('case_id', caseFilter);
+      }
+
+      if (priorityFilter !== 'all') {
+        query = query.eq('priority', priorityFilter);
+      }
+
+      if (statusFilter === 'open') {
+        query = query.in('status', ['Pending', 'Overdue']);
+      } else if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      const caseTitles = new Map(cases.map(c => [c.id, c.title]));
+      const userNames = new Map(users.map(u => [u.id, `${u.first_name} ${u.last_name}`]));
+
+      setDeadlines((data || []).map(deadline => ({
+        ...deadline,
+        case_title: caseTitles.get(deadline.case_id) || 'Unknown Case',
+        assignee_name: (deadline.assigned_to && userNames.get(deadline.assigned_to)) || 'Unassigned',
+      })));
+    } catch (error) {
+      console.error('Error fetching deadlines:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleComplete = async (deadline: DeadlineItem) => {
+    const { error } = await supabase
+      .from('deadlines')
+      .update({ status: 'Completed' })
+      .eq('id', deadline.id);
+
+    if (error) {
+      console.error('Error completing deadline:', error);
+      alert(error.message || 'Failed to update deadline. Please try again.');
+      return;
+    }
+
+    fetchDeadlines();
+  };
+
+  // Moves the calendar by one week or month
+  const moveCursor = (direction: 1 | -1) => {
+    const next = new Date(cursor);
+    if (view === 'month') {
+      next.setDate(1);
+      next.setMonth(next.getMonth() + direction);
+    } else {
+      next.setDate(next.getDate() + 7 * direction);
+    }
+    setCursor(next);
+  };
+
+  const getPeriodLabel = () => {
+    if (view === 'month') {
+      return cursor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+    }
+
+    const { start, end } = getViewRange('week', cursor);
+    const last = new Date(end);
+    last.setDate(last.getDate() - 1);
+    return `${start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${last.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  };
+
+  // Helper to format date
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  // Helper for status badges
+  const getStatusBadgeVariant = (status: string) => {
+    switch(status.toLowerCase()) {
+      case 'pending':
+        return 'warning';
+      case 'completed':
+        return 'success';
+      case 'overdue':
+        return 'danger';
+      default:
+        return 'info';
+    }
+  };
+
+  // Helper for priority badges
+  const getPriorityBadgeVariant = (priority: string) => {
+    switch(priority.toLowerCase()) {
+      case 'high':
+        return 'danger';
+      case 'medium':
+        return 'warning';
+      case 'low':
+        return 'info';
+      default:
+        return 'default';
+    }
+  };
+
+  const hasFilters = assigneeFilter !== 'all' || caseFilter !== 'all' || priorityFilter !== 'all' || statusFilter !== 'open';
+  const overdueCount = deadlines.filter(deadline => deadline.status === 'Overdue').length;
+
+  return (
+    <MainLayout title="Deadlines">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Deadlines</h1>
+          {overdueCount > 0 && (
+            <p className="text-red-400 mt-1">
+              {overdueCount} overdue deadline{overdueCount === 1 ? '' : 's'} shown
+            </p>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={() => setShowFeed(!showFeed)}>
+            Subscribe
+          </Button>
+          <div className="flex rounded-md border border-gray-700 overflow-hidden">
+            {VIEWS.map(item => (
+              <button
+                key={item.value}
+                onClick={() => setView(item.value)}
+                className={`flex items-center px-3 py-2 text-sm font-medium ${
+                  view === item.value ? 'bg-gray-700 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                <item.icon className="h-4 w-4 mr-2" />
+                {item.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {showFeed && <CalendarFeed />}
+
+      <Card className="mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Select
+            label="Assignee"
+            value={assigneeFilter}
+            onChange={(e) => setAssigneeFilter(e.target.value)}
+            options={[
+              { value: 'all', label: 'All Assignees' },
+              { value: 'unassigned', label: 'Unassigned' },
+              ...users.map(u => ({ value: u.id, label: `${u.first_name} ${u.last_name}` }))
+            ]}
+          />
+
+          <Select
+            label="Case"
+            value={caseFilter}
+            onChange={(e) => setCaseFilter(e.target.value)}
+            options={[
+              { value: 'all', label: 'All Cases' },
+              ...cases.map(c => ({ value: c.id, label: c.title }))
+            ]}
+          />
+
+          <Select
+            label="Priority"
+            value={priorityFilter}
+            onChange={(e) => setPriorityFilter(e.target.value)}
+            options={[
+              { value: 'all', label: 'All Priorities' },
+              ...DEADLINE_PRIORITIES.map(priority => ({ value: priority, label: priority }))
+            ]}
+          />
+
+          <Select
+            label="Status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            options={[
+              { value: 'open', label: 'Open (Pending and Overdue)' },
+              { value: 'all', label: 'All Statuses' },
+              ...DEADLINE_STATUSES.map(status => ({ value: status, label: status }))
+            ]}
+          />
+        </div>
+      </Card>
+
+      <Card>
+        {view !== 'list' && (
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-white">{getPeriodLabel()}</h2>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={() => moveCursor(-1)}>
+                <ChevronLeftIcon className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setCursor(new Date())}>
+                Today
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => moveCursor(1)}>
+                <ChevronRightIcon className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : view !== 'list' ? (
+          <DeadlineCalendar deadlines={deadlines} view={view} cursor={cursor} />
+        ) : deadlines.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-white mb-2">No deadlines found</h3>
+            <p className="text-gray-400">
+              {hasFilters ? 'Try adjusting your filters' : 'Deadlines added to cases will appear here'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Title
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Case
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Due Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Priority
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Assigned To
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {deadlines.map((deadline) => (
+                  <tr
+                    key={deadline.id}
+                    className={deadline.status === 'Overdue' ? 'bg-red-950 hover:bg-red-900' : 'hover:bg-gray-700'}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        <ClockIcon className={`h-5 w-5 mr-3 ${deadline.status === 'Overdue' ? 'text-red-400' : 'text-gray-400'}`} />
+                        <span className="text-white">{deadline.title}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Link href={`/cases/${deadline.case_id}?tab=deadlines`} className="text-blue-400 hover:text-blue-300">
+                        {deadline.case_title}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                      {formatDate(deadline.due_date)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Badge variant={getPriorityBadgeVariant(deadline.priority)}>
+                        {deadline.priority}
+                      </Badge>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Badge variant={getStatusBadgeVariant(deadline.status)}>
+                        {deadline.status}
+                      </Badge>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                      {deadline.assignee_name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {deadline.status !== 'Completed' && (
+                        <Button variant="outline" size="sm" onClick={() => handleComplete(deadline)}>
+                          Complete
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </MainLayout>
+  );
+}
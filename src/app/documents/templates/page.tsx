@@ -10,10 +10,12 @@ import {
   ArrowDownTrayIcon
 } from 'react-icons/hi2';
 import { supabase } from '@/lib/supabase';
+import { getDocumentFileUrl } from '@/lib/storage/client';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { usePermissions } from '@/lib/auth/usePermissions';
 
 interface Template {
   id: string;
@@ -27,6 +29,7 @@ interface Template {
 }
 
 export default function TemplatesPage() {
+  const { can } = usePermissions();
   const [templates, setTemplates] = useState<Template[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [firmId, setFirmId] = useState<string | null>(null);
@@ -132,12 +135,14 @@ export default function TemplatesPage() {
     <MainLayout title="Document Templates">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-white">Document Templates</h1>
-        <Link href="/documents/templates/new">
-          <Button className="flex items-center">
-            <PlusIcon className="h-5 w-5 mr-2" />
-            New Template
-          </Button>
-        </Link>
+        {can('manage_templates') && (
+          <Link href="/documents/templates/new">
+            <Button className="flex items-center">
+              <PlusIcon className="h-5 w-5 mr-2" />
+              New Template
+            </Button>
+          </Link>
+        )}
       </div>
       
       <Card className="mb-6">
@@ -168,12 +173,14 @@ export default function TemplatesPage() {
                 ? 'Try adjusting your search'
                 : 'Create document templates to streamline your workflow'}
             </p>
-            <Link href="/documents/templates/new">
-              <Button>
-                <PlusIcon className="h-5 w-5 mr-2" />
-                Create Template
-              </Button>
-            </Link>
+            {can('manage_templates') && (
+              <Link href="/documents/templates/new">
+                <Button>
+                  <PlusIcon className="h-5 w-5 mr-2" />
+                  Create Template
+                </Button>
+              </Link>
+            )}
           </div>
         ) : (
           <div className="overflow-x-auto">
@@ -228,9 +235,11 @@ export default function TemplatesPage() {
                             Use
                           </Button>
                         </Link>
-                        <Button variant="outline" size="sm">
-                          <ArrowDownTrayIcon className="h-4 w-4" />
-                        </Button>
+                        <a href={getDocumentFileUrl(template.id, true)}>
+                          <Button variant="outline" size="sm">
+                            <ArrowDownTrayIcon className="h-4 w-4" />
+                          </Button>
+                        </a>
                       </div>
                     </td>
                   </tr>
@@ -253,6 +262,8 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { supabase } from '@/lib/supabase';
+import { uploadFile } from '@/lib/storage/client';
+import { checkTemplateFile, detectTemplateFormat } from '@/lib/templates/files';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
@@ -264,7 +275,9 @@ const templateSchema = z.object({
   name: z.string().min(1, 'Template name is required'),
   document_type: z.string().min(1, 'Document type is required'),
   description: z.string().optional(),
-  file: z.instanceof(FileList).refine(files => files.length > 0, 'File is required'),
+  file: z.instanceof(FileList)
+    .refine(files => files.length > 0, 'File is required')
+    .refine(files => !!detectTemplateFormat(files[0]?.name || ''), 'Templates must be plain text, HTML or DOCX files'),
 });
 
 type TemplateFormValues = z.infer<typeof templateSchema>;
@@ -316,10 +329,15 @@ export default function NewTemplatePage() {
       
       const file = data.file[0];
       
-      // In a real app, this would upload to Supabase Storage
-      // For this demo, we'll simulate it
-      const fileName = `${Date.now()}_${file.name}`;
-      const filePath = `templates/${fileName}`;
+      // Catch template syntax mistakes now rather than when someone tries to use it
+      const syntaxError = await checkTemplateFile(await file.arrayBuffer(), detectTemplateFormat(file.name)!);
+      
+      if (syntaxError) {
+        alert(`This template has an error: ${syntaxError}`);
+        return;
+      }
+      
+      const uploaded = await uploadFile(file, file.name, 'templates');
       
       // Create template record
       const { error } = await supabase
@@ -329,8 +347,10 @@ export default function NewTemplatePage() {
           name: data.name,
           document_type: data.document_type,
           description: data.description || null,
-          file_path: filePath,
-          file_size: file.size,
+          file_path: uploaded.file_path,
+          file_size: uploaded.file_size,
+          mime_type: uploaded.mime_type,
+          checksum: uploaded.checksum,
           uploaded_by: user.id,
           is_template: true,
           // For templates, we don't need case_id or other case-specific fields
@@ -342,9 +362,9 @@ export default function NewTemplatePage() {
       
       // Redirect to templates page
       router.push('/documents/templates');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error creating template:', error);
-      alert('Failed to create template. Please try again.');
+      alert(error.message || 'Failed to create template. Please try again.');
     } finally {
       setIsLoading(false);
     }
@@ -401,14 +421,31 @@ export default function NewTemplatePage() {
                 id="file"
                 type="file"
                 className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                accept=".txt,.html,.htm,.docx"
                 {...register('file')}
               />
               {errors.file && (
                 <p className="text-red-500 text-sm mt-1">{errors.file.message}</p>
               )}
-              <p className="text-gray-400 text-sm mt-2">
-                Upload a document with placeholders in format: {'{{case_number}}'}, {'{{client_name}}'}, {'{{court_name}}'}, etc.
-              </p>
+              <div className="text-gray-400 text-sm mt-2 space-y-1">
+                <p>
+                  Upload a plain text, HTML or DOCX document with placeholders in format: {'{{case_number}}'}, {'{{client_name}}'}, {'{{court_name}}'}, etc.
+                </p>
+                <p>
+                  Formatters: {'{{filing_date | long_date}}'}, {'{{amount | currency}}'}, {'{{client_name | upper}}'}, {'{{judge_name | default: "TBD"}}'}.
+                  Also available: lower, title, short_date, iso_date, number, ordinal, count.
+                </p>
+                <p>
+                  Optional sections: {'{{#if opposing_party}}'}...{'{{else}}'}...{'{{/if}}'}, or {'{{#unless ...}}'}...{'{{/unless}}'}.
+                </p>
+                <p>
+                  Loops: {'{{#each security_interests}}'}{'{{@number}}'}. {'{{type}}'} held by {'{{lender_name}}'} for {'{{amount | currency}}'}{'{{/each}}'}.
+                </p>
+                <p>
+                  Parties by role: {'{{defendants}}'}, {'{{plaintiffs}}'}, {'{{lienholders}}'}, {'{{tenants}}'}, etc. list everyone in the role;
+                  {' '}{'{{#each case_parties}}'}{'{{name}}'} ({'{{role_label}}'}){'{{/each}}'} lists everyone on the case.
+                </p>
+              </div>
             </div>
             
             <div className="flex justify-end space-x-4 pt-4">
@@ -444,6 +481,16 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import DatePicker from 'react-datepicker';
 import { supabase } from '@/lib/supabase';
+import { fetchDocumentFile, uploadFile } from '@/lib/storage/client';
+import { MergeData } from '@/lib/templates/engine';
+import { buildMergeData, getUnresolvedFields } from '@/lib/templates/merge';
+import {
+  detectTemplateFormat,
+  mergeTemplateFile,
+  readTemplateFields,
+  TEMPLATE_EXTENSIONS,
+  TemplateFormat,
+} from '@/lib/templates/files';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
@@ -462,6 +509,7 @@ interface Template {
   name: string;
   document_type: string;
   description: string | null;
+  file_path: string;
 }
 
 interface Party {
@@ -495,7 +543,14 @@ export default function UseTemplatePage() {
   const [parties, setParties] = useState<Party[]>([]);
   const [firmId, setFirmId] = useState<string | null>(null);
   
-  // For custom fields that might be in the template
+  // Template file contents and the placeholders found in it
+  const [templateFile, setTemplateFile] = useState<ArrayBuffer | null>(null);
+  const [templateFormat, setTemplateFormat] = useState<TemplateFormat | null>(null);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [placeholders, setPlaceholders] = useState<string[]>([]);
+  
+  // Values resolved from the selected case; anything left over is a custom field
+  const [mergeData, setMergeData] = useState<MergeData>({});
   const [customFieldKeys, setCustomFieldKeys] = useState<string[]>([]);
   
   const {
@@ -542,10 +597,17 @@ export default function UseTemplatePage() {
     }
   }, [watchCaseId, firmId]);
   
+  useEffect(() => {
+    // Filing date has its own picker, and nested paths can't be typed in by hand
+    setCustomFieldKeys(
+      getUnresolvedFields(placeholders, mergeData).filter(key => key !== 'filing_date' && !key.includes('.'))
+    );
+  }, [placeholders, mergeData]);
+  
   const fetchTemplate = async (firmId: string) => {
     const { data, error } = await supabase
       .from('documents')
-      .select('id, name, document_type, description')
+      .select('id, name, document_type, description, file_path')
       .eq('id', templateId)
       .eq('firm_id', firmId)
       .eq('is_template', true)
@@ -559,9 +621,22 @@ export default function UseTemplatePage() {
     
     setTemplate(data);
     
-    // For this demo, we'll just use some example custom fields
-    // In a real app, you would parse the template file to extract placeholders
-    setCustomFieldKeys(['judge_name', 'opposing_counsel', 'property_address', 'loan_amount']);
+    try {
+      const format = detectTemplateFormat(data.file_path);
+      
+      if (!format) {
+        throw new Error('Templates must be plain text, HTML or DOCX files');
+      }
+      
+      const buffer = await fetchDocumentFile(data.id);
+      
+      setTemplateFile(buffer);
+      setTemplateFormat(format);
+      setPlaceholders(await readTemplateFields(buffer, format));
+    } catch (error: any) {
+      console.error('Error reading template file:', error);
+      setTemplateError(error.message || 'The template file could not be read');
+    }
     
     setIsLoading(false);
   };
@@ -602,6 +677,56 @@ export default function UseTemplatePage() {
       if (partiesData) {
         setParties(partiesData);
       }
+      
+      // Fetch everything else the merge fields can draw from
+      const { data: { user } } = await supabase.auth.getUser();
+      
+      const { data: attorneyData } = caseData.assigned_to
+        ? await supabase.from('users').select('*').eq('id', caseData.assigned_to).single()
+        : { data: null };
+      
+      const { data: authorData } = user
+        ? await supabase.from('users').select('*').eq('id', user.id).single()
+        : { data: null };
+      
+      const { data: firmData } = await supabase
+        .from('firms')
+        .select('*')
+        .eq('id', firmId)
+        .single();
+      
+      const { data: interestsData } = await supabase
+        .from('security_interests')
+        .select('*')
+        .eq('case_id', caseData.id);
+      
+      const { data: casePartiesData } = await supabase
+        .from('case_parties')
+        .select('*')
+        .eq('case_id', caseData.id);
+      
+      // Lenders and borrowers for {{#each security_interests}} loops, and everyone on the case
+      // for role lists like {{defendants}}
+      const relatedPartyIds = Array.from(new Set([
+        ...(interestsData || []).flatMap(interest => [interest.lender_id, interest.borrower_id]),
+        ...(casePartiesData || []).flatMap(caseParty => [caseParty.party_id, caseParty.represents_party_id]),
+      ].filter((id): id is string => !!id)));
+      
+      const { data: relatedPartiesData } = relatedPartyIds.length > 0
+        ? await supabase.from('parties').select('*').in('id', relatedPartyIds)
+        : { data: [] };
+      
+      setMergeData(buildMergeData({
+        caseData,
+        client: partiesData?.find(party => party.id === caseData.client_id) || null,
+        opposingParty: partiesData?.find(party => party.id === caseData.opposing_party_id) || null,
+        attorney: attorneyData,
+        author: authorData,
+        firm: firmData,
+        securityInterests: interestsData || [],
+        relatedParties: relatedPartiesData || [],
+        caseParties: casePartiesData || [],
+      }));
     }
   };
   
@@ -617,14 +742,29 @@ export default function UseTemplatePage() {
         throw new Error('User not authenticated');
       }
       
-      // In a real app, this would:
-      // 1. Fetch the template file
-      // 2. Replace placeholders with actual data
-      // 3. Upload the generated document
-      // 4. Create a document record
+      if (!templateFile || !templateFormat) {
+        throw new Error('Template file is not available');
+      }
+      
+      // Case data first, then anything the user entered by hand
+      const values: MergeData = { ...mergeData };
+      
+      if (data.filing_date) {
+        values.filing_date = data.filing_date;
+      }
       
-      // For this demo, we'll simulate it
-      const filePath = `documents/${selectedCase.id}/${Date.now()}_${data.document_name}.docx`;
+      Object.entries(data.custom_fields || {}).forEach(([key, value]) => {
+        if (value) values[key] = value;
+      });
+      
+      const generated = await mergeTemplateFile(templateFile, templateFormat, values);
+      
+      const uploaded = await uploadFile(
+        generated,
+        `${data.document_name}.${TEMPLATE_EXTENSIONS[templateFormat]}`,
+        'documents',
+        data.case_id
+      );
       
       // Create document record
       const { data: documentData, error } = await supabase
@@ -634,8 +774,10 @@ export default function UseTemplatePage() {
           case_id: data.case_id,
           name: data.document_name,
           document_type: template.document_type,
-          file_path: filePath,
-          file_size: 150000, // Dummy size
+          file_path: uploaded.file_path,
+          file_size: uploaded.file_size,
+          mime_type: uploaded.mime_type,
+          checksum: uploaded.checksum,
           uploaded_by: user.id,
           is_template: false,
           version: 1,
@@ -697,6 +839,12 @@ export default function UseTemplatePage() {
         <Card className="lg:col-span-2">
           <form onSubmit={handleSubmit(onSubmit)}>
             <div className="space-y-6">
+              {templateError && (
+                <div className="bg-red-500 text-white p-3 rounded">
+                  {templateError}
+                </div>
+              )}
+              
               <div>
                 <h2 className="text-xl font-semibold text-white mb-4">Document Information</h2>
                 
@@ -775,7 +923,7 @@ export default function UseTemplatePage() {
                 <Button
                   type="submit"
                   isLoading={processingDocument}
-                  disabled={!watchCaseId}
+                  disabled={!watchCaseId || !templateFile}
                 >
                   Generate Document
                 </Button>
@@ -805,6 +953,24 @@ export default function UseTemplatePage() {
                   <p className="text-white">{template.description}</p>
                 </div>
               )}
+              
+              {placeholders.length > 0 && (
+                <div>
+                  <p className="text-sm text-gray-400">Placeholders</p>
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {placeholders.map(key => (
+                      <span
+                        key={key}
+                        className={`px-2 py-0.5 rounded text-xs ${
+                          customFieldKeys.includes(key) ? 'bg-yellow-600 text-yellow-100' : 'bg-gray-700 text-gray-200'
+                        }`}
+                      >
+                        {key}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </Card>
           
@@ -0,0 +1,631 @@
+// src/app/invoices/[id]/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { getPartyName } from '@/lib/conflicts';
+import { formatMoney, roundMoney } from '@/lib/trust';
+import {
+  Invoice,
+  InvoiceLineItem,
+  getInvoiceBalance,
+  getInvoiceStatusLabel,
+  getInvoiceStatusVariant,
+  isInvoiceOpen,
+  isInvoiceOverdue,
+} from '@/lib/invoices';
+
+interface InvoiceDetail extends Invoice {
+  client: { first_name: string | null; last_name: string | null; organization_name: string | null } | null;
+  case: { id: string; case_number: string; title: string } | null;
+}
+
+interface Payment {
+  id: string;
+  amount: number;
+  description: string | null;
+  transaction_date: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const EMPTY_LINE = {
+  description: '',
+  service_date: '',
+  quantity: '1',
+  unit_price: '',
+  taxable: true,
+};
+
+export default function InvoicePage() {
+  const params = useParams();
+  const router = useRouter();
+  const invoiceId = params.id as string;
+  const { can, isLoading: isLoadingPermissions } = usePermissions();
+  const canView = can('view_financials');
+  const canEdit = can('edit_financials');
+
+  const [invoice, setInvoice] = useState<InvoiceDetail | null>(null);
+  const [lines, setLines] = useState<InvoiceLineItem[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [profile, setProfile] = useState<{ id: string; firm_id: string } | null>(null);
+  const [details, setDetails] = useState({ due_date: '', tax_rate: '', notes: '' });
+  const [newLine, setNewLine] = useState(EMPTY_LINE);
+  const [payment, setPayment] = useState({ amount: '', transaction_date: today(), description: '' });
+  const [voidReason, setVoidReason] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isLoadingPermissions) return;
+
+    if (canView) {
+      fetchInvoice();
+    } else {
+      setIsLoading(false);
+    }
+  }, [isLoadingPermissions, canView, invoiceId]);
+
+  const fetchInvoice = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (user) {
+        const { data } = await supabase
+          .from('users')
+          .select('id, firm_id')
+          .eq('id', user.id)
+          .single();
+
+        setProfile(data);
+      }
+
+      const [{ data: invoiceData }, { data: lineData }, { data: paymentData }] = await Promise.all([
+        supabase
+          .from('invoices')
+          .select('*, client:client_id(first_name, last_name, organization_name), case:case_id(id, case_number, title)')
+          .eq('id', invoiceId)
+          .maybeSingle(),
+        supabase
+          .from('invoice_line_items')
+          .select('*')
+          .eq('invoice_id', invoiceId)
+          .order('position', { ascending: true }),
+        supabase
+          .from('financials')
+          .select('id, amount, description, transaction_date')
+          .eq('invoice_id', invoiceId)
+          .eq('transaction_type', 'Payment')
+          .order('transaction_date', { ascending: true }),
+      ]);
+
+      const current = invoiceData as InvoiceDetail | null;
+
+      setInvoice(current);
+      setLines((lineData || []) as InvoiceLineItem[]);
+      setPayments((paymentData || []) as Payment[]);
+
+      if (current) {
+        setDetails({ due_date: current.due_date, tax_rate: String(Number(current.tax_rate)), notes: current.notes || '' });
+        setPayment((value) => ({ ...value, amount: String(getInvoiceBalance(current)) }));
+      }
+    } catch (error) {
+      console.error('Error fetching invoice:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Runs one change and reloads the invoice, whose totals and status the database keeps
+  const runChange = async (change: () => PromiseLike<{ error: any }>, failure: string) => {
+    setIsSaving(true);
+
+    try {
+      const { error } = await change();
+      if (error) throw error;
+
+      await fetchInvoice();
+      return true;
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      alert(error.message || `${failure}. Please try again.`);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    await runChange(
+      () => supabase
+        .from('invoices')
+        .update({
+          due_date: details.due_date,
+          tax_rate: Number(details.tax_rate || 0),
+          notes: details.notes.trim() || null,
+        })
+        .eq('id', invoiceId),
+      'Failed to save the invoice'
+    );
+  };
+
+  const handleAddLine = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !newLine.description.trim()) return;
+
+    const quantity = Number(newLine.quantity);
+    const unitPrice = Number(newLine.unit_price);
+    if (!Number.isFinite(quantity) || quantity <= 0 || !Number.isFinite(unitPrice)) {
+      alert('Enter a quantity greater than zero and a price.');
+      return;
+    }
+
+    const saved = await runChange(
+      () => supabase.from('invoice_line_items').insert({
+        firm_id: profile.firm_id,
+        invoice_id: invoiceId,
+        line_type: 'other',
+        description: newLine.description.trim(),
+        service_date: newLine.service_date || null,
+        quantity,
+        unit_price: roundMoney(unitPrice),
+        taxable: newLine.taxable,
+        position: lines.reduce((max, line) => Math.max(max, line.position), 0) + 1,
+      }),
+      'Failed to add the line'
+    );
+
+    if (saved) setNewLine(EMPTY_LINE);
+  };
+
+  const handleToggleTaxable = (line: InvoiceLineItem) => {
+    runChange(
+      () => supabase.from('invoice_line_items').update({ taxable: !line.taxable }).eq('id', line.id),
+      'Failed to update the line'
+    );
+  };
+
+  const handleRemoveLine = (line: InvoiceLineItem) => {
+    const note = line.financial_id
+      ? ' The fee or expense goes back to unbilled.'
+      : line.time_entry_id ? ' The time goes back to unbilled.' : '';
+    if (!window.confirm(`Remove "${line.description}" from the invoice?${note}`)) return;
+
+    runChange(
+      () => supabase.from('invoice_line_items').delete().eq('id', line.id),
+      'Failed to remove the line'
+    );
+  };
+
+  const handleSend = () => {
+    if (!window.confirm('Mark the invoice as sent? Its lines and totals can no longer be changed afterwards.')) return;
+
+    runChange(
+      () => supabase.from('invoices').update({ status: 'sent' }).eq('id', invoiceId),
+      'Failed to send the invoice'
+    );
+  };
+
+  const handleDeleteDraft = async () => {
+    if (!window.confirm('Delete this draft? Its fees, expenses and time go back to unbilled.')) return;
+
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase.from('invoices').delete().eq('id', invoiceId);
+      if (error) throw error;
+
+      router.push('/invoices');
+    } catch (error: any) {
+      console.error('Error deleting invoice:', error);
+      alert(error.message || 'Failed to delete the invoice. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !invoice) return;
+
+    const amount = Number(payment.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      alert('Enter an amount greater than zero.');
+      return;
+    }
+
+    if (roundMoney(amount) > getInvoiceBalance(invoice)) {
+      alert(`Only ${formatMoney(getInvoiceBalance(invoice))} is owing on this invoice.`);
+      return;
+    }
+
+    const saved = await runChange(
+      () => supabase.from('financials').insert({
+        firm_id: profile.firm_id,
+        case_id: invoice.case_id,
+        transaction_type: 'Payment',
+        amount: roundMoney(amount),
+        description: payment.description.trim() || `Payment on ${invoice.invoice_number}`,
+        transaction_date: payment.transaction_date,
+        recorded_by: profile.id,
+        invoice_id: invoiceId,
+        party_id: invoice.client_id,
+      }),
+      'Failed to record the payment'
+    );
+
+    if (saved) setPayment((value) => ({ ...value, description: '' }));
+  };
+
+  const handleVoid = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!voidReason.trim()) return;
+    if (!window.confirm('Void this invoice? Its fees, expenses and time go back to unbilled.')) return;
+
+    await runChange(
+      () => supabase
+        .from('invoices')
+        .update({ status: 'void', void_reason: voidReason.trim() })
+        .eq('id', invoiceId),
+      'Failed to void the invoice'
+    );
+  };
+
+  if (!isLoadingPermissions && !canView) {
+    return (
+      <MainLayout title="Invoice">
+        <Card>
+          <p className="text-gray-400">Your role does not have access to invoices.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <MainLayout title="Invoice">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!invoice) {
+    return (
+      <MainLayout title="Invoice">
+        <Card>
+          <p className="text-gray-400">Invoice not found.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  const isDraft = invoice.status === 'draft';
+  const currentDate = today();
+  const balance = getInvoiceBalance(invoice);
+
+  return (
+    <MainLayout title={invoice.invoice_number}>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">
+            {invoice.invoice_number}
+            <span className="ml-3 align-middle">
+              <Badge variant={getInvoiceStatusVariant(invoice, currentDate)}>
+                {isInvoiceOverdue(invoice, currentDate) ? 'Overdue' : getInvoiceStatusLabel(invoice.status)}
+              </Badge>
+            </span>
+          </h1>
+          <p className="text-gray-400 text-sm mt-1">
+            {invoice.client ? getPartyName(invoice.client) : 'Unknown client'}
+            {invoice.case && (
+              <>
+                {' · '}
+                <Link href={`/cases/${invoice.case.id}`} className="text-blue-400 hover:text-blue-300">
+                  {invoice.case.case_number} · {invoice.case.title}
+                </Link>
+              </>
+            )}
+            {' · '}Issued {invoice.issue_date}, due {invoice.due_date}
+          </p>
+          {invoice.status === 'void' && (
+            <p className="text-red-400 text-sm mt-1">Voided: {invoice.void_reason}</p>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          <Link href="/invoices">
+            <Button variant="outline">All Invoices</Button>
+          </Link>
+          <a href={`/api/invoices/${invoiceId}/pdf`} target="_blank" rel="noopener noreferrer">
+            <Button variant="outline">View PDF</Button>
+          </a>
+          <a href={`/api/invoices/${invoiceId}/pdf?download=1`}>
+            <Button variant="outline">Download</Button>
+          </a>
+          {canEdit && isDraft && (
+            <>
+              <Button variant="danger" onClick={handleDeleteDraft} disabled={isSaving}>
+                Delete Draft
+              </Button>
+              <Button onClick={handleSend} disabled={isSaving || lines.length === 0}>
+                Mark as Sent
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <h2 className="text-xl font-semibold text-white mb-4">Lines</h2>
+        {lines.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">This invoice has no lines yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Description
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Qty
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Rate
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Taxable
+                  </th>
+                  {canEdit && isDraft && <th className="px-6 py-3"></th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {lines.map((line) => (
+                  <tr key={line.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-300">{line.service_date || '-'}</td>
+                    <td className="px-6 py-4 text-white">
+                      {line.description}
+                      <div className="text-gray-400 text-sm capitalize">{line.line_type}</div>
+                    </td>
+                    <td className="px-6 py-4 text-right text-gray-300">{Number(line.quantity)}</td>
+                    <td className="px-6 py-4 text-right text-gray-300">{formatMoney(Number(line.unit_price))}</td>
+                    <td className="px-6 py-4 text-right text-white">{formatMoney(Number(line.amount))}</td>
+                    <td className="px-6 py-4 text-gray-300">
+                      {canEdit && isDraft ? (
+                        <input
+                          type="checkbox"
+                          checked={line.taxable}
+                          disabled={isSaving}
+                          onChange={() => handleToggleTaxable(line)}
+                        />
+                      ) : line.taxable ? 'Yes' : 'No'}
+                    </td>
+                    {canEdit && isDraft && (
+                      <td className="px-6 py-4 text-right">
+                        <Button variant="outline" size="sm" onClick={() => handleRemoveLine(line)} disabled={isSaving}>
+                          Remove
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end mt-4">
+          <dl className="w-72 text-sm">
+            <div className="flex justify-between py-1">
+              <dt className="text-gray-400">Subtotal</dt>
+              <dd className="text-gray-300">{formatMoney(Number(invoice.subtotal))}</dd>
+            </div>
+            <div className="flex justify-between py-1">
+              <dt className="text-gray-400">Tax ({Number(invoice.tax_rate)}%)</dt>
+              <dd className="text-gray-300">{formatMoney(Number(invoice.tax_amount))}</dd>
+            </div>
+            <div className="flex justify-between py-1 font-semibold">
+              <dt className="text-white">Total</dt>
+              <dd className="text-white">{formatMoney(Number(invoice.total))}</dd>
+            </div>
+            <div className="flex justify-between py-1">
+              <dt className="text-gray-400">Paid</dt>
+              <dd className="text-gray-300">{formatMoney(Number(invoice.amount_paid))}</dd>
+            </div>
+            {invoice.status !== 'void' && (
+              <div className="flex justify-between py-1 font-semibold">
+                <dt className="text-white">Balance Due</dt>
+                <dd className="text-white">{formatMoney(balance)}</dd>
+              </div>
+            )}
+          </dl>
+        </div>
+
+        {canEdit && isDraft && (
+          <form onSubmit={handleAddLine} className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end mt-6 border-t border-gray-700 pt-4">
+            <div className="md:col-span-2">
+              <Input
+                label="Description"
+                id="line-description"
+                placeholder="e.g. Courtesy discount"
+                value={newLine.description}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewLine({ ...newLine, description: e.target.value })}
+              />
+            </div>
+            <Input
+              label="Date"
+              id="line-date"
+              type="date"
+              value={newLine.service_date}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewLine({ ...newLine, service_date: e.target.value })}
+            />
+            <Input
+              label="Qty"
+              id="line-quantity"
+              type="number"
+              step="0.01"
+              min="0.01"
+              value={newLine.quantity}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewLine({ ...newLine, quantity: e.target.value })}
+            />
+            <Input
+              label="Rate"
+              id="line-unit-price"
+              type="number"
+              step="0.01"
+              value={newLine.unit_price}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewLine({ ...newLine, unit_price: e.target.value })}
+            />
+            <div className="mb-4 flex items-center justify-between">
+              <label className="flex items-center text-sm text-gray-400">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={newLine.taxable}
+                  onChange={(e) => setNewLine({ ...newLine, taxable: e.target.checked })}
+                />
+                Taxable
+              </label>
+              <Button type="submit" size="sm" isLoading={isSaving} disabled={!newLine.description.trim() || !newLine.unit_price}>
+                Add Line
+              </Button>
+            </div>
+          </form>
+        )}
+      </Card>
+
+      {canEdit && isDraft && (
+        <Card className="mb-6">
+          <h2 className="text-xl font-semibold text-white mb-4">Invoice Details</h2>
+          <form onSubmit={handleSaveDetails} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <Input
+              label="Due Date"
+              id="invoice-due-date"
+              type="date"
+              value={details.due_date}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDetails({ ...details, due_date: e.target.value })}
+            />
+            <Input
+              label="Tax Rate (%)"
+              id="invoice-tax-rate"
+              type="number"
+              step="0.001"
+              min="0"
+              value={details.tax_rate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDetails({ ...details, tax_rate: e.target.value })}
+            />
+            <Input
+              label="Notes"
+              id="invoice-notes"
+              value={details.notes}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDetails({ ...details, notes: e.target.value })}
+            />
+            <div className="mb-4">
+              <Button type="submit" className="w-full" isLoading={isSaving}>
+                Save
+              </Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      {!isDraft && (
+        <Card className="mb-6">
+          <h2 className="text-xl font-semibold text-white mb-4">Payments</h2>
+          {payments.length === 0 ? (
+            <p className="text-gray-400 mb-4">No payments have been recorded.</p>
+          ) : (
+            <ul className="divide-y divide-gray-700 mb-4">
+              {payments.map((item) => (
+                <li key={item.id} className="flex justify-between py-2">
+                  <span className="text-gray-300">
+                    {item.transaction_date} · {item.description || 'Payment'}
+                  </span>
+                  <span className="text-white">{formatMoney(Number(item.amount))}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {canEdit && isInvoiceOpen(invoice) && (
+            <form onSubmit={handleRecordPayment} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <Input
+                label="Amount"
+                id="payment-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={payment.amount}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPayment({ ...payment, amount: e.target.value })}
+              />
+              <Input
+                label="Date Received"
+                id="payment-date"
+                type="date"
+                value={payment.transaction_date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPayment({ ...payment, transaction_date: e.target.value })}
+              />
+              <Input
+                label="Description"
+                id="payment-description"
+                placeholder="e.g. Check 1042"
+                value={payment.description}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPayment({ ...payment, description: e.target.value })}
+              />
+              <div className="mb-4">
+                <Button type="submit" className="w-full" isLoading={isSaving} disabled={!payment.amount}>
+                  Record Payment
+                </Button>
+              </div>
+            </form>
+          )}
+          {canEdit && isInvoiceOpen(invoice) && (
+            <p className="text-gray-500 text-xs">
+              To pay from the client&apos;s trust funds, record a transfer to operating on their trust ledger instead.
+            </p>
+          )}
+        </Card>
+      )}
+
+      {canEdit && invoice.status === 'sent' && Number(invoice.amount_paid) === 0 && (
+        <Card>
+          <h2 className="text-xl font-semibold text-white mb-2">Void Invoice</h2>
+          <p className="text-gray-400 text-sm mb-4">
+            A sent invoice can&apos;t be edited. Void it to correct it; its fees, expenses and time can then be billed again.
+          </p>
+          <form onSubmit={handleVoid} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="md:col-span-3">
+              <Input
+                label="Reason"
+                id="void-reason"
+                value={voidReason}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVoidReason(e.target.value)}
+              />
+            </div>
+            <div className="mb-4">
+              <Button type="submit" variant="danger" className="w-full" isLoading={isSaving} disabled={!voidReason.trim()}>
+                Void
+              </Button>
+            </div>
+          </form>
+        </Card>
+      )}
+    </MainLayout>
+  );
+}
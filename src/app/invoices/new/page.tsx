@@ -0,0 +1,393 @@
+// src/app/invoices/new/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import { Database } from '@/types/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { getPartyName } from '@/lib/conflicts';
+import { addDays } from '@/lib/deadlines/calendar';
+import { formatMoney, roundMoney } from '@/lib/trust';
+import { BILLABLE_FINANCIAL_TYPES, DEFAULT_PAYMENT_TERMS_DAYS } from '@/lib/invoices';
+import { formatHours, getActivityLabel } from '@/lib/time';
+
+type ClientParty = Pick<Database['public']['Tables']['parties']['Row'], 'id' | 'first_name' | 'last_name' | 'organization_name'>;
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+interface ClientCase {
+  id: string;
+  case_number: string;
+  title: string;
+}
+
+interface UnbilledEntry {
+  id: string;
+  case_id: string;
+  transaction_type: string;
+  amount: number;
+  description: string | null;
+  transaction_date: string;
+}
+
+interface UnbilledTime {
+  id: string;
+  case_id: string;
+  started_at: string;
+  billed_hours: number;
+  hourly_rate: number;
+  amount: number;
+  activity_code: string | null;
+  narrative: string | null;
+  user: { first_name: string; last_name: string } | null;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function NewInvoicePage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { can, isLoading: isLoadingPermissions } = usePermissions();
+  const canEdit = can('edit_financials');
+
+  const [clients, setClients] = useState<Client[]>([]);
+  const [clientCases, setClientCases] = useState<ClientCase[]>([]);
+  const [entries, setEntries] = useState<UnbilledEntry[]>([]);
+  const [timeEntries, setTimeEntries] = useState<UnbilledTime[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [clientId, setClientId] = useState('');
+  const [caseId, setCaseId] = useState(searchParams.get('case_id') || '');
+  const [issueDate, setIssueDate] = useState(today());
+  const [dueDate, setDueDate] = useState(addDays(today(), DEFAULT_PAYMENT_TERMS_DAYS));
+  const [taxRate, setTaxRate] = useState('0');
+  const [notes, setNotes] = useState('');
+  const [isLoadingEntries, setIsLoadingEntries] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isLoadingPermissions || !canEdit) return;
+    fetchClients();
+  }, [isLoadingPermissions, canEdit]);
+
+  useEffect(() => {
+    fetchClientCases();
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchUnbilled();
+  }, [clientCases, caseId]);
+
+  const fetchClients = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('parties')
+        .select('id, first_name, last_name, organization_name')
+        .eq('is_client', true)
+        .is('merged_into', null);
+
+      if (error) throw error;
+
+      setClients(((data || []) as ClientParty[])
+        .map((party) => ({ id: party.id, name: getPartyName(party) }))
+        .sort((a, b) => a.name.localeCompare(b.name)));
+
+      // Coming from a case's financials tab, bill that case's client
+      const fromCase = searchParams.get('case_id');
+      if (fromCase) {
+        const { data: caseData } = await supabase.from('cases').select('client_id').eq('id', fromCase).maybeSingle();
+        if (caseData) setClientId(caseData.client_id);
+      }
+    } catch (error) {
+      console.error('Error fetching clients:', error);
+    }
+  };
+
+  const fetchClientCases = async () => {
+    if (!clientId) {
+      setClientCases([]);
+      return;
+    }
+
+    const { data } = await supabase
+      .from('cases')
+      .select('id, case_number, title')
+      .eq('client_id', clientId)
+      .order('case_number', { ascending: true });
+
+    const cases = (data || []) as ClientCase[];
+    setClientCases(cases);
+    if (caseId && !cases.some((caseItem) => caseItem.id === caseId)) setCaseId('');
+  };
+
+  const fetchUnbilled = async () => {
+    const caseIds = caseId ? [caseId] : clientCases.map((caseItem) => caseItem.id);
+
+    if (caseIds.length === 0) {
+      setEntries([]);
+      setTimeEntries([]);
+      setSelected(new Set());
+      return;
+    }
+
+    setIsLoadingEntries(true);
+
+    try {
+      const [financialsResult, timeResult] = await Promise.all([
+        supabase
+          .from('financials')
+          .select('id, case_id, transaction_type, amount, description, transaction_date')
+          .in('case_id', caseIds)
+          .in('transaction_type', BILLABLE_FINANCIAL_TYPES)
+          .is('invoice_id', null)
+          .order('transaction_date', { ascending: true }),
+        supabase
+          .from('time_entries')
+          .select('*, user:user_id(first_name, last_name)')
+          .in('case_id', caseIds)
+          .eq('is_billable', true)
+          .not('stopped_at', 'is', null)
+          .gt('billed_hours', 0)
+          .is('invoice_id', null)
+          .order('started_at', { ascending: true }),
+      ]);
+
+      if (financialsResult.error) throw financialsResult.error;
+      if (timeResult.error) throw timeResult.error;
+
+      const unbilled = (financialsResult.data || []) as UnbilledEntry[];
+      const unbilledTime = (timeResult.data || []) as UnbilledTime[];
+      setEntries(unbilled);
+      setTimeEntries(unbilledTime);
+      setSelected(new Set([...unbilled.map((entry) => entry.id), ...unbilledTime.map((entry) => entry.id)]));
+    } catch (error) {
+      console.error('Error fetching unbilled entries:', error);
+    } finally {
+      setIsLoadingEntries(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleIssueDateChange = (value: string) => {
+    setIssueDate(value);
+    if (value) setDueDate(addDays(value, DEFAULT_PAYMENT_TERMS_DAYS));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!clientId || selected.size === 0) return;
+
+    const rate = Number(taxRate || 0);
+    if (!Number.isFinite(rate) || rate < 0 || rate >= 100) {
+      alert('Enter a tax rate between 0 and 100 percent.');
+      return;
+    }
+
+    if (dueDate < issueDate) {
+      alert('The due date cannot be before the issue date.');
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const { data, error } = await supabase.rpc('create_invoice', {
+        p_client_id: clientId,
+        p_case_id: caseId || null,
+        p_financial_ids: entries.filter((entry) => selected.has(entry.id)).map((entry) => entry.id),
+        p_time_entry_ids: timeEntries.filter((entry) => selected.has(entry.id)).map((entry) => entry.id),
+        p_due_date: dueDate,
+        p_issue_date: issueDate,
+        p_tax_rate: rate,
+        p_notes: notes.trim() || null,
+      });
+
+      if (error) throw error;
+
+      router.push(`/invoices/${data.id}`);
+    } catch (error: any) {
+      console.error('Error creating invoice:', error);
+      alert(error.message || 'Failed to create the invoice. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  if (!isLoadingPermissions && !canEdit) {
+    return (
+      <MainLayout title="New Invoice">
+        <Card>
+          <p className="text-gray-400">Your role cannot create invoices.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  const caseLabels = new Map(clientCases.map((caseItem) => [caseItem.id, caseItem.case_number]));
+  const selectedTotal = roundMoney(
+    [...entries, ...timeEntries]
+      .filter((entry) => selected.has(entry.id))
+      .reduce((sum, entry) => sum + Number(entry.amount), 0)
+  );
+
+  return (
+    <MainLayout title="New Invoice">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">New Invoice</h1>
+          <p className="text-gray-400 text-sm mt-1">
+            Bill a client&apos;s unbilled fees, expenses and time. The invoice starts as a draft you can review before sending.
+          </p>
+        </div>
+        <Link href="/invoices">
+          <Button variant="outline">All Invoices</Button>
+        </Link>
+      </div>
+
+      <form onSubmit={handleSubmit}>
+        <Card className="mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+            <Select
+              label="Client"
+              value={clientId}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setClientId(e.target.value)}
+              options={[
+                { value: '', label: 'Select client' },
+                ...clients.map((client) => ({ value: client.id, label: client.name })),
+              ]}
+            />
+            <Select
+              label="Case"
+              value={caseId}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCaseId(e.target.value)}
+              options={[
+                { value: '', label: 'All of the client\'s cases' },
+                ...clientCases.map((caseItem) => ({ value: caseItem.id, label: `${caseItem.case_number} · ${caseItem.title}` })),
+              ]}
+            />
+            <Input
+              label="Issue Date"
+              id="invoice-issue-date"
+              type="date"
+              value={issueDate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleIssueDateChange(e.target.value)}
+            />
+            <Input
+              label="Due Date"
+              id="invoice-due-date"
+              type="date"
+              value={dueDate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDueDate(e.target.value)}
+            />
+            <Input
+              label="Tax Rate (%)"
+              id="invoice-tax-rate"
+              type="number"
+              step="0.001"
+              min="0"
+              value={taxRate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTaxRate(e.target.value)}
+            />
+            <Input
+              label="Notes"
+              id="invoice-notes"
+              placeholder="Printed at the foot of the invoice, e.g. payment instructions"
+              value={notes}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNotes(e.target.value)}
+            />
+          </div>
+        </Card>
+
+        <Card>
+          <h2 className="text-xl font-semibold text-white mb-4">Unbilled Fees, Expenses and Time</h2>
+          {!clientId ? (
+            <p className="text-gray-400 text-center py-8">Choose a client to see what is unbilled.</p>
+          ) : isLoadingEntries ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : entries.length === 0 && timeEntries.length === 0 ? (
+            <p className="text-gray-400 text-center py-8">Everything has been billed.</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {timeEntries.map((entry) => (
+                <li key={entry.id} className="py-3">
+                  <label className="flex items-start cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1 mr-3"
+                      checked={selected.has(entry.id)}
+                      onChange={() => toggleSelected(entry.id)}
+                    />
+                    <div className="flex-1 flex justify-between">
+                      <div>
+                        <span className="text-white">{entry.narrative || getActivityLabel(entry.activity_code) || 'Time'}</span>
+                        <p className="text-gray-400 text-sm">
+                          Time · {entry.started_at.slice(0, 10)}
+                          {entry.user && ` · ${entry.user.first_name} ${entry.user.last_name}`}
+                          {` · ${formatHours(Number(entry.billed_hours))} at ${formatMoney(Number(entry.hourly_rate))}/h`}
+                          {!caseId && ` · ${caseLabels.get(entry.case_id) || ''}`}
+                        </p>
+                      </div>
+                      <span className="text-gray-300">{formatMoney(Number(entry.amount))}</span>
+                    </div>
+                  </label>
+                </li>
+              ))}
+              {entries.map((entry) => (
+                <li key={entry.id} className="py-3">
+                  <label className="flex items-start cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1 mr-3"
+                      checked={selected.has(entry.id)}
+                      onChange={() => toggleSelected(entry.id)}
+                    />
+                    <div className="flex-1 flex justify-between">
+                      <div>
+                        <span className="text-white">{entry.description || entry.transaction_type}</span>
+                        <p className="text-gray-400 text-sm">
+                          {entry.transaction_type} · {entry.transaction_date}
+                          {!caseId && ` · ${caseLabels.get(entry.case_id) || ''}`}
+                        </p>
+                      </div>
+                      <span className="text-gray-300">{formatMoney(Number(entry.amount))}</span>
+                    </div>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-between items-center pt-4">
+            <p className="text-gray-300">
+              {selected.size} selected · {formatMoney(selectedTotal)} before tax
+            </p>
+            <Button type="submit" isLoading={isSaving} disabled={!clientId || selected.size === 0 || !dueDate}>
+              Create Draft
+            </Button>
+          </div>
+        </Card>
+      </form>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,200 @@
+// src/app/invoices/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { Badge } from '@/components/ui/Badge';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { getPartyName } from '@/lib/conflicts';
+import { formatMoney, roundMoney } from '@/lib/trust';
+import {
+  INVOICE_STATUSES,
+  Invoice,
+  OPEN_INVOICE_STATUSES,
+  getInvoiceBalance,
+  getInvoiceStatusLabel,
+  getInvoiceStatusVariant,
+  isInvoiceOpen,
+  isInvoiceOverdue,
+} from '@/lib/invoices';
+
+interface InvoiceRow extends Invoice {
+  client: { first_name: string | null; last_name: string | null; organization_name: string | null } | null;
+  case: { case_number: string; title: string } | null;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function InvoicesPage() {
+  const { can, isLoading: isLoadingPermissions } = usePermissions();
+  const canView = can('view_financials');
+  const canEdit = can('edit_financials');
+
+  const [invoices, setInvoices] = useState<InvoiceRow[]>([]);
+  const [status, setStatus] = useState('open');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (isLoadingPermissions) return;
+
+    if (canView) {
+      fetchInvoices();
+    } else {
+      setIsLoading(false);
+    }
+  }, [isLoadingPermissions, canView, status]);
+
+  const fetchInvoices = async () => {
+    setIsLoading(true);
+
+    try {
+      let query = supabase
+        .from('invoices')
+        .select('*, client:client_id(first_name, last_name, organization_name), case:case_id(case_number, title)')
+        .order('sequence_number', { ascending: false });
+
+      if (status === 'open') {
+        query = query.in('status', OPEN_INVOICE_STATUSES);
+      } else if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setInvoices((data || []) as InvoiceRow[]);
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isLoadingPermissions && !canView) {
+    return (
+      <MainLayout title="Invoices">
+        <Card>
+          <p className="text-gray-400">Your role does not have access to invoices.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  const currentDate = today();
+  const outstanding = roundMoney(
+    invoices
+      .filter(isInvoiceOpen)
+      .reduce((sum, invoice) => sum + getInvoiceBalance(invoice), 0)
+  );
+
+  return (
+    <MainLayout title="Invoices">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Invoices</h1>
+          <p className="text-gray-400 text-sm mt-1">
+            Bills to clients for their unbilled fees, expenses and time. Payments, including transfers from trust, are
+            applied to the invoice they pay.
+          </p>
+        </div>
+        {canEdit && (
+          <Link href="/invoices/new">
+            <Button>New Invoice</Button>
+          </Link>
+        )}
+      </div>
+
+      <Card>
+        <div className="flex justify-between items-end mb-2">
+          <div className="w-64">
+            <Select
+              label="Status"
+              value={status}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setStatus(e.target.value)}
+              options={[
+                { value: 'open', label: 'Awaiting payment' },
+                { value: '', label: 'All invoices' },
+                ...INVOICE_STATUSES,
+              ]}
+            />
+          </div>
+          {outstanding > 0 && (
+            <p className="text-gray-300 mb-4">Outstanding {formatMoney(outstanding)}</p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : invoices.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">No invoices found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Invoice
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Client
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Case
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Issued
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Due
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Total
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Balance
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {invoices.map((invoice) => (
+                  <tr key={invoice.id} className="hover:bg-gray-700">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Link href={`/invoices/${invoice.id}`} className="text-white hover:text-blue-400">
+                        {invoice.invoice_number}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 text-gray-300">{invoice.client ? getPartyName(invoice.client) : '-'}</td>
+                    <td className="px-6 py-4 text-gray-300">
+                      {invoice.case ? `${invoice.case.case_number} · ${invoice.case.title}` : 'Several cases'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-300">{invoice.issue_date}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-300">{invoice.due_date}</td>
+                    <td className="px-6 py-4 text-right text-gray-300">{formatMoney(Number(invoice.total))}</td>
+                    <td className="px-6 py-4 text-right text-white">
+                      {invoice.status === 'void' ? '-' : formatMoney(getInvoiceBalance(invoice))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Badge variant={getInvoiceStatusVariant(invoice, currentDate)}>
+                        {isInvoiceOverdue(invoice, currentDate) ? 'Overdue' : getInvoiceStatusLabel(invoice.status)}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,118 @@
+// src/app/login/mfa/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import { safeNextPath } from '@/lib/auth/mfa';
+
+export default function MfaChallengePage() {
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  useEffect(() => {
+    async function fetchFactor() {
+      const { data, error } = await supabase.auth.mfa.listFactors();
+
+      if (error) {
+        setError(error.message);
+        return;
+      }
+
+      const factor = data.totp[0];
+
+      if (!factor) {
+        // Nothing to challenge; the middleware sends users on from here
+        router.replace(safeNextPath(searchParams.get('next')));
+        return;
+      }
+
+      setFactorId(factor.id);
+    }
+
+    fetchFactor();
+  }, [router, searchParams]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!factorId) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.trim() });
+
+      if (error) {
+        throw error;
+      }
+
+      router.push(safeNextPath(searchParams.get('next')));
+      router.refresh();
+    } catch (error: any) {
+      setError(error.message);
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    router.push('/login');
+    router.refresh();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-950 p-8">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-white">Two-factor authentication</h2>
+          <p className="text-gray-400 mt-2">Enter the six-digit code from your authenticator app.</p>
+        </div>
+
+        {error && (
+          <div className="bg-red-500 text-white p-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label htmlFor="code" className="block text-sm font-medium text-gray-300 mb-1">
+              Code
+            </label>
+            <input
+              id="code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-white tracking-widest text-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isLoading || !factorId || code.trim().length !== 6}
+            className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition duration-200 disabled:opacity-50"
+          >
+            {isLoading ? 'Verifying...' : 'Verify'}
+          </button>
+        </form>
+
+        <div className="mt-6 text-center">
+          <button onClick={handleSignOut} className="text-sm font-medium text-blue-500 hover:text-blue-400">
+            Sign in as someone else
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,15 +4,16 @@
 import React from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { supabase } from '@/lib/supabase';
+import { getPostSignInPath } from '@/lib/auth/mfa';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  password: z.string().min(1, 'Password is required'),
 });
 
 type LoginFormValues = z.infer<typeof loginSchema>;
@@ -21,6 +22,7 @@ export default function LoginPage() {
   const [error, setError] = React.useState<string | null>(null);
   const [isLoading, setIsLoading] = React.useState(false);
   const router = useRouter();
+  const searchParams = useSearchParams();
   
   const {
     register,
@@ -44,7 +46,7 @@ export default function LoginPage() {
         throw error;
       }
 
-      router.push('/dashboard');
+      router.push(await getPostSignInPath(searchParams.get('next')));
       router.refresh();
     } catch (error: any) {
       setError(error.message);
@@ -70,6 +72,18 @@ export default function LoginPage() {
             <h2 className="text-3xl font-bold text-white">Sign in to your account</h2>
           </div>
           
+          {searchParams.get('reason') === 'idle' && !error && (
+            <div className="bg-yellow-900/50 border border-yellow-700 text-yellow-200 p-3 rounded mb-4">
+              You were signed out after a period of inactivity. Sign in again to continue.
+            </div>
+          )}
+
+          {searchParams.get('error') === 'link_expired' && !error && (
+            <div className="bg-yellow-900/50 border border-yellow-700 text-yellow-200 p-3 rounded mb-4">
+              That sign-in link has expired or was already used. Sign in with your password, or ask for a new invitation.
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-500 text-white p-3 rounded mb-4">
               {error}
@@ -160,15 +174,18 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { supabase } from '@/lib/supabase';
+import { DEFAULT_SECURITY_POLICY, getPasswordProblems } from '@/lib/auth/policy';
+import { AUTH_EMAIL_NEXT_PATHS } from '@/lib/auth/emailLinks';
 
 const registerSchema = z.object({
   firstName: z.string().min(2, 'First name is required'),
   lastName: z.string().min(2, 'Last name is required'),
   email: z.string().email('Invalid email address'),
-  password: z.string().min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least 1 uppercase letter')
-    .regex(/[0-9]/, 'Password must contain at least 1 number')
-    .regex(/[!@#$%^&*(),.?":{}|<>]/, 'Password must contain at least 1 special character'),
+  // The firm doesn't exist yet, so its password policy starts out as the default
+  password: z.string().superRefine((password, ctx) => {
+    const [problem] = getPasswordProblems(password, DEFAULT_SECURITY_POLICY);
+    if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+  }),
   confirmPassword: z.string(),
   firmName: z.string().min(2, 'Firm name is required'),
   acceptTerms: z.literal(true, {
@@ -199,14 +216,17 @@ export default function RegisterPage() {
       setIsLoading(true);
       setError(null);
       
-      // 1. Create the user in auth
+      // Create the user in auth. The firm and profile are created from these details
+      // once the email address is confirmed (see /register/confirmation).
       const { data: authData, error: authError } = await supabase.auth.signUp({
         email: data.email,
         password: data.password,
         options: {
+          emailRedirectTo: `${window.location.origin}/api/auth/callback?next=${encodeURIComponent(AUTH_EMAIL_NEXT_PATHS.signup)}`,
           data: {
             first_name: data.firstName,
             last_name: data.lastName,
+            firm_name: data.firmName,
           },
         },
       });
@@ -214,37 +234,8 @@ export default function RegisterPage() {
       if (authError) throw authError;
       if (!authData.user) throw new Error('User creation failed');
 
-      // 2. Create the firm
-      const { data: firmData, error: firmError } = await supabase
-        .from('firms')
-        .insert({
-          name: data.firmName,
-          address: '', // These would be filled in later
-          phone: '',
-          email: data.email,
-          subscription_tier: 'basic',
-        })
-        .select();
-
-      if (firmError) throw firmError;
-      if (!firmData || firmData.length === 0) throw new Error('Firm creation failed');
-
-      // 3. Create the user profile linked to the firm
-      const { error: userError } = await supabase
-        .from('users')
-        .insert({
-          id: authData.user.id,
-          email: data.email,
-          first_name: data.firstName,
-          last_name: data.lastName,
-          role: 'admin', // First user is an admin
-          firm_id: firmData[0].id,
-        });
-
-      if (userError) throw userError;
-
       // Success - redirect to confirmation page
-      router.push('/register/confirmation');
+      router.push(`/register/confirmation?email=${encodeURIComponent(data.email)}`);
     } catch (error: any) {
       setError(error.message);
     } finally {
@@ -431,6 +422,7 @@ import {
   PlusIcon
 } from 'react-icons/hi2';
 import { supabase } from '@/lib/supabase';
+import { markOverdueDeadlines } from '@/lib/deadlines/status';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
@@ -446,6 +438,16 @@ interface Case {
   client_name?: string;
 }
 
+interface UpcomingDeadline {
+  id: string;
+  title: string;
+  due_date: string;
+  priority: string;
+  status: string;
+  case_id: string;
+  case_title?: string;
+}
+
 interface DashboardStats {
   totalCases: number;
   activeCases: number;
@@ -457,6 +459,7 @@ interface DashboardStats {
 export default function DashboardPage() {
   const [user, setUser] = useState<any>(null);
   const [recentCases, setRecentCases] = useState<Case[]>([]);
+  const [upcomingDeadlines, setUpcomingDeadlines] = useState<UpcomingDeadline[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [stats, setStats] = useState<DashboardStats>({
     totalCases: 0,
@@ -485,6 +488,9 @@ export default function DashboardPage() {
         if (userData?.firm_id) {
           const firmId = userData.firm_id;
           
+          // Roll missed deadlines to Overdue before counting and listing them
+          await markOverdueDeadlines(firmId);
+          
           // Fetch recent cases
           const { data: casesData } = await supabase
             .from('cases')
@@ -526,6 +532,30 @@ export default function DashboardPage() {
             setRecentCases(casesWithClients);
           }
           
+          // Fetch open deadlines due within the week, overdue ones first
+          const { data: deadlinesData } = await supabase
+            .from('deadlines')
+            .select('id, title, due_date, priority, status, case_id')
+            .eq('firm_id', firmId)
+            .in('status', ['Pending', 'Overdue'])
+            .lte('due_date', new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString())
+            .order('due_date', { ascending: true })
+            .limit(8);
+          
+          if (deadlinesData && deadlinesData.length > 0) {
+            const { data: deadlineCases } = await supabase
+              .from('cases')
+              .select('id, title')
+              .in('id', Array.from(new Set(deadlinesData.map((deadline) => deadline.case_id))));
+            
+            const caseTitles = new Map((deadlineCases || []).map((caseItem) => [caseItem.id, caseItem.title]));
+            
+            setUpcomingDeadlines(deadlinesData.map((deadline) => ({
+              ...deadline,
+              case_title: caseTitles.get(deadline.case_id) || 'Unknown Case'
+            })));
+          }
+          
           // Fetch dashboard stats
           const [
             { count: totalCases },
@@ -537,7 +567,7 @@ export default function DashboardPage() {
             supabase.from('cases').select('*', { count: 'exact', head: true }).eq('firm_id', firmId),
             supabase.from('cases').select('*', { count: 'exact', head: true }).eq('firm_id', firmId).eq('status', 'active'),
             supabase.from('deadlines').select('*', { count: 'exact', head: true }).eq('firm_id', firmId).gte('due_date', new Date().toISOString()).lte('due_date', new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()),
-            supabase.from('parties').select('*', { count: 'exact', head: true }).eq('firm_id', firmId),
+            supabase.from('parties').select('*', { count: 'exact', head: true }).eq('firm_id', firmId).is('merged_into', null),
             supabase.from('documents').select('*', { count: 'exact', head: true }).eq('firm_id', firmId)
           ]);
           
@@ -565,11 +595,18 @@ export default function DashboardPage() {
         return 'warning';
       case 'closed':
         return 'default';
+      case 'overdue':
+        return 'danger';
       default:
         return 'info';
     }
   };
 
+  // Helper to format date
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString();
+  };
+
   if (isLoading) {
     return (
       <MainLayout title="Dashboard">
@@ -774,9 +811,39 @@ export default function DashboardPage() {
         
         <Card className="col-span-2">
           <h3 className="text-lg font-medium text-white mb-4">Upcoming Deadlines</h3>
-          {/* Placeholder for upcoming deadlines */}
-          <div className="text-center py-8">
-            <p className="text-gray-400">No upcoming deadlines</p>
+          {upcomingDeadlines.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-gray-400">No upcoming deadlines</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {upcomingDeadlines.map((deadline) => (
+                <li key={deadline.id} className="flex items-center justify-between py-3">
+                  <div className="flex items-center min-w-0">
+                    <ClockIcon className={`h-5 w-5 mr-3 flex-shrink-0 ${deadline.status === 'Overdue' ? 'text-red-400' : 'text-gray-400'}`} />
+                    <div className="min-w-0">
+                      <p className="text-white truncate">{deadline.title}</p>
+                      <Link href={`/cases/${deadline.case_id}?tab=deadlines`} className="text-sm text-blue-400 hover:text-blue-300">
+                        {deadline.case_title}
+                      </Link>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3 ml-4 flex-shrink-0">
+                    <span className={`text-sm ${deadline.status === 'Overdue' ? 'text-red-400' : 'text-gray-300'}`}>
+                      {formatDate(deadline.due_date)}
+                    </span>
+                    <Badge variant={getStatusBadgeVariant(deadline.status)}>
+                      {deadline.status}
+                    </Badge>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-4 text-right">
+            <Link href="/deadlines" className="text-blue-400 hover:text-blue-300 text-sm">
+              View all deadlines →
+            </Link>
           </div>
         </Card>
       </div>
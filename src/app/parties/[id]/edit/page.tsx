@@ -0,0 +1,93 @@
+// src/app/parties/[id]/edit/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import PartyForm, { PartyFormValues, toPartyRow } from '@/components/parties/PartyForm';
+
+export default function EditPartyPage() {
+  const params = useParams();
+  const partyId = Array.isArray(params.id) ? params.id[0] : params.id;
+  const [defaultValues, setDefaultValues] = useState<PartyFormValues | null>(null);
+  const [isFetching, setIsFetching] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+
+  useEffect(() => {
+    async function fetchParty() {
+      const { data, error } = await supabase
+        .from('parties')
+        .select('type, is_client, first_name, last_name, organization_name, email, phone, address, notes')
+        .eq('id', partyId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching party:', error);
+      } else if (data) {
+        setDefaultValues({
+          type: data.type,
+          is_client: data.is_client,
+          first_name: data.first_name || '',
+          last_name: data.last_name || '',
+          organization_name: data.organization_name || '',
+          email: data.email || '',
+          phone: data.phone || '',
+          address: data.address || '',
+          notes: data.notes || '',
+        });
+      }
+
+      setIsFetching(false);
+    }
+
+    fetchParty();
+  }, [partyId]);
+
+  const onSubmit = async (values: PartyFormValues) => {
+    setIsLoading(true);
+
+    try {
+      const { error } = await supabase
+        .from('parties')
+        .update(toPartyRow(values))
+        .eq('id', partyId);
+
+      if (error) throw error;
+
+      router.push(`/parties/${partyId}`);
+    } catch (error: any) {
+      console.error('Error updating party:', error);
+      alert(error.message || 'Failed to update party. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <MainLayout title="Edit Party">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-white">Edit Party</h1>
+      </div>
+
+      {isFetching ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : defaultValues ? (
+        <PartyForm
+          defaultValues={defaultValues}
+          submitLabel="Save Changes"
+          isLoading={isLoading}
+          onSubmit={onSubmit}
+        />
+      ) : (
+        <Card>
+          <p className="text-gray-400">Party not found.</p>
+        </Card>
+      )}
+    </MainLayout>
+  );
+}
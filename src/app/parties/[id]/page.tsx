@@ -0,0 +1,502 @@
+// src/app/parties/[id]/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { PencilIcon } from 'react-icons/hi2';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { compareRoles, getCasePartyRole } from '@/lib/parties/roles';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import type { Json } from '@/types/supabase';
+
+interface Party {
+  id: string;
+  created_at: string;
+  type: string;
+  first_name: string | null;
+  last_name: string | null;
+  organization_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  notes: string | null;
+  is_client: boolean;
+  merged_into: string | null;
+  merged_at: string | null;
+}
+
+interface PartyCase {
+  id: string;
+  title: string;
+  case_number: string;
+  status: string;
+  roles: string[];
+}
+
+interface PartyDocument {
+  id: string;
+  created_at: string;
+  name: string;
+  document_type: string;
+  case_id: string;
+  version: number;
+}
+
+interface Lien {
+  id: string;
+  case_id: string;
+  type: string;
+  description: string;
+  amount: number;
+  recorded_date: string | null;
+  lien_position: number | null;
+  lender_id: string;
+  borrower_id: string;
+}
+
+interface PartyChange {
+  id: string;
+  created_at: string;
+  action: string;
+  changes: Json;
+  changed_by: string | null;
+  changed_by_name?: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  type: 'Type',
+  is_client: 'Client',
+  first_name: 'First name',
+  last_name: 'Last name',
+  organization_name: 'Organization',
+  email: 'Email',
+  phone: 'Phone',
+  address: 'Address',
+  notes: 'Notes',
+  merged_into: 'Merged into',
+  merged_at: 'Merged at',
+};
+
+export default function PartyDetailPage() {
+  const { can } = usePermissions();
+  const params = useParams();
+  const partyId = Array.isArray(params.id) ? params.id[0] : params.id;
+
+  const [party, setParty] = useState<Party | null>(null);
+  const [cases, setCases] = useState<PartyCase[]>([]);
+  const [documents, setDocuments] = useState<PartyDocument[]>([]);
+  const [liens, setLiens] = useState<Lien[]>([]);
+  const [caseTitles, setCaseTitles] = useState<Record<string, string>>({});
+  const [history, setHistory] = useState<PartyChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (partyId) {
+      fetchParty();
+    }
+  }, [partyId]);
+
+  const fetchParty = async () => {
+    setIsLoading(true);
+
+    try {
+      const { data: partyData, error } = await supabase
+        .from('parties')
+        .select('*')
+        .eq('id', partyId)
+        .single();
+
+      if (error) throw error;
+      setParty(partyData);
+
+      const [rolesResult, documentsResult, liensResult, historyResult] = await Promise.all([
+        supabase
+          .from('case_parties')
+          .select('case_id, role')
+          .eq('party_id', partyId),
+        supabase
+          .from('documents')
+          .select('id, created_at, name, document_type, case_id, version')
+          .eq('related_party_id', partyId)
+          .eq('is_current', true)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('security_interests')
+          .select('id, case_id, type, description, amount, recorded_date, lien_position, lender_id, borrower_id')
+          .or(`lender_id.eq.${partyId},borrower_id.eq.${partyId}`)
+          .order('recorded_date', { ascending: false }),
+        supabase
+          .from('party_changes')
+          .select('id, created_at, action, changes, changed_by')
+          .eq('party_id', partyId)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      // A party can hold several roles on one case; show the case once with all of them
+      const rolesByCase: Record<string, string[]> = {};
+      (rolesResult.data || []).forEach((row) => {
+        const roles = rolesByCase[row.case_id] || (rolesByCase[row.case_id] = []);
+        if (!roles.includes(row.role)) roles.push(row.role);
+      });
+
+      let casesData: PartyCase[] = [];
+      const roleCaseIds = Object.keys(rolesByCase);
+
+      if (roleCaseIds.length > 0) {
+        const { data: partyCases } = await supabase
+          .from('cases')
+          .select('id, title, case_number, status')
+          .in('id', roleCaseIds)
+          .order('created_at', { ascending: false });
+
+        casesData = (partyCases || []).map((caseItem) => ({
+          ...caseItem,
+          roles: rolesByCase[caseItem.id].sort(compareRoles),
+        }));
+      }
+
+      const documentsData = documentsResult.data || [];
+      const liensData = liensResult.data || [];
+      const historyData = historyResult.data || [];
+
+      setCases(casesData);
+      setDocuments(documentsData);
+      setLiens(liensData);
+
+      // Documents and liens link to their case, which may not be one the party is on
+      const titles: Record<string, string> = {};
+      casesData.forEach((caseItem) => {
+        titles[caseItem.id] = caseItem.title;
+      });
+
+      const missingCaseIds = Array.from(
+        new Set([...documentsData, ...liensData].map((item) => item.case_id).filter((id) => !titles[id]))
+      );
+
+      if (missingCaseIds.length > 0) {
+        const { data: otherCases } = await supabase
+          .from('cases')
+          .select('id, title')
+          .in('id', missingCaseIds);
+
+        (otherCases || []).forEach((caseItem) => {
+          titles[caseItem.id] = caseItem.title;
+        });
+      }
+
+      setCaseTitles(titles);
+
+      const userIds = Array.from(
+        new Set(historyData.map((change) => change.changed_by).filter((id): id is string => !!id))
+      );
+      const userNames: Record<string, string> = {};
+
+      if (userIds.length > 0) {
+        const { data: usersData } = await supabase
+          .from('users')
+          .select('id, first_name, last_name')
+          .in('id', userIds);
+
+        (usersData || []).forEach((user) => {
+          userNames[user.id] = `${user.first_name} ${user.last_name}`;
+        });
+      }
+
+      setHistory(
+        historyData.map((change) => ({
+          ...change,
+          changed_by_name: change.changed_by ? userNames[change.changed_by] : undefined,
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching party:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getPartyDisplayName = (item: Party) => {
+    const personName = `${item.first_name || ''} ${item.last_name || ''}`.trim();
+    if (item.organization_name) {
+      return personName ? `${item.organization_name} (${personName})` : item.organization_name;
+    }
+    return personName;
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  const formatValue = (field: string, value: Json | undefined) => {
+    if (value === null || value === undefined || value === '') return 'empty';
+    if (field === 'is_client') return value ? 'Yes' : 'No';
+    return String(value);
+  };
+
+  const getStatusBadgeVariant = (status: string) => {
+    switch (status.toLowerCase()) {
+      case 'active':
+        return 'success';
+      case 'pending':
+        return 'warning';
+      case 'closed':
+        return 'default';
+      default:
+        return 'info';
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <MainLayout title="Party">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!party) {
+    return (
+      <MainLayout title="Party">
+        <Card>
+          <p className="text-gray-400">Party not found.</p>
+          <Link href="/parties" className="text-blue-400 hover:text-blue-300 text-sm">
+            Back to parties
+          </Link>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout title={getPartyDisplayName(party)}>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">{getPartyDisplayName(party)}</h1>
+          <div className="flex items-center gap-2 mt-2">
+            <Badge variant="info">{party.type}</Badge>
+            {party.is_client && <Badge variant="success">Client</Badge>}
+          </div>
+        </div>
+        {can('edit_records') && (
+          <Link href={`/parties/${party.id}/edit`}>
+            <Button variant="outline" className="flex items-center">
+              <PencilIcon className="h-5 w-5 mr-2" />
+              Edit
+            </Button>
+          </Link>
+        )}
+      </div>
+
+      {party.merged_into && (
+        <Card className="mb-6 border border-yellow-600">
+          <p className="text-yellow-400">
+            This party was merged into{' '}
+            <Link href={`/parties/${party.merged_into}`} className="underline">
+              another party
+            </Link>{' '}
+            on {formatDate(party.merged_at)}. It can be restored by undoing the merge on the{' '}
+            <Link href="/parties/duplicates" className="underline">
+              duplicates page
+            </Link>.
+          </p>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <Card className="mb-6">
+            <h2 className="text-xl font-semibold text-white mb-4">Cases</h2>
+            {cases.length === 0 ? (
+              <p className="text-gray-400">Not a party to any case.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-700">
+                <thead>
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Case</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Case Number</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Role</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {cases.map((caseItem) => (
+                    <tr key={caseItem.id}>
+                      <td className="px-4 py-3">
+                        <Link href={`/cases/${caseItem.id}`} className="text-blue-400 hover:text-blue-300">
+                          {caseItem.title}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 text-gray-300">{caseItem.case_number}</td>
+                      <td className="px-4 py-3 text-gray-300">
+                        {caseItem.roles.map((role) => getCasePartyRole(role).label).join(', ')}
+                      </td>
+                      <td className="px-4 py-3">
+                        <Badge variant={getStatusBadgeVariant(caseItem.status)}>{caseItem.status}</Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Card>
+
+          <Card className="mb-6">
+            <h2 className="text-xl font-semibold text-white mb-4">Documents</h2>
+            {documents.length === 0 ? (
+              <p className="text-gray-400">No documents relate to this party.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-700">
+                <thead>
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Document</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Type</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Case</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Updated</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {documents.map((document) => (
+                    <tr key={document.id}>
+                      <td className="px-4 py-3 text-white">
+                        {document.name}
+                        {document.version > 1 && <span className="text-gray-400 text-sm ml-2">v{document.version}</span>}
+                      </td>
+                      <td className="px-4 py-3 text-gray-300">{document.document_type}</td>
+                      <td className="px-4 py-3">
+                        <Link href={`/cases/${document.case_id}`} className="text-blue-400 hover:text-blue-300">
+                          {caseTitles[document.case_id] || 'View case'}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 text-gray-300">{formatDate(document.created_at)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Card>
+
+          <Card className="mb-6">
+            <h2 className="text-xl font-semibold text-white mb-4">Liens</h2>
+            {liens.length === 0 ? (
+              <p className="text-gray-400">Not a lender or borrower on any lien.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-700">
+                <thead>
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Lien</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Role</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Amount</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Recorded</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Case</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {liens.map((lien) => (
+                    <tr key={lien.id}>
+                      <td className="px-4 py-3">
+                        <p className="text-white">
+                          {lien.type}
+                          {lien.lien_position && <span className="text-gray-400 text-sm ml-2">Position {lien.lien_position}</span>}
+                        </p>
+                        <p className="text-gray-400 text-sm">{lien.description}</p>
+                      </td>
+                      <td className="px-4 py-3 text-gray-300">
+                        {lien.lender_id === party.id && lien.borrower_id === party.id
+                          ? 'Lender and Borrower'
+                          : lien.lender_id === party.id ? 'Lender' : 'Borrower'}
+                      </td>
+                      <td className="px-4 py-3 text-gray-300">${lien.amount.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-gray-300">{formatDate(lien.recorded_date)}</td>
+                      <td className="px-4 py-3">
+                        <Link href={`/cases/${lien.case_id}`} className="text-blue-400 hover:text-blue-300">
+                          {caseTitles[lien.case_id] || 'View case'}
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Card>
+        </div>
+
+        <div className="lg:col-span-1">
+          <Card className="mb-6">
+            <h2 className="text-xl font-semibold text-white mb-4">Contact</h2>
+
+            <div className="space-y-4">
+              <div>
+                <p className="text-sm text-gray-400">Email</p>
+                {party.email ? (
+                  <a href={`mailto:${party.email}`} className="text-blue-400 hover:text-blue-300">{party.email}</a>
+                ) : (
+                  <p className="text-white">-</p>
+                )}
+              </div>
+
+              <div>
+                <p className="text-sm text-gray-400">Phone</p>
+                <p className="text-white">{party.phone || '-'}</p>
+              </div>
+
+              <div>
+                <p className="text-sm text-gray-400">Address</p>
+                <p className="text-white whitespace-pre-line">{party.address || '-'}</p>
+              </div>
+
+              {party.notes && (
+                <div>
+                  <p className="text-sm text-gray-400">Notes</p>
+                  <p className="text-white whitespace-pre-line">{party.notes}</p>
+                </div>
+              )}
+            </div>
+          </Card>
+
+          <Card className="mb-6">
+            <h2 className="text-xl font-semibold text-white mb-4">Edit History</h2>
+            {history.length === 0 ? (
+              <p className="text-gray-400">No changes recorded.</p>
+            ) : (
+              <ul className="space-y-4">
+                {history.map((change) => {
+                  const fields = change.changes && typeof change.changes === 'object' && !Array.isArray(change.changes)
+                    ? Object.entries(change.changes as Record<string, { from?: Json; to?: Json }>)
+                    : [];
+
+                  return (
+                    <li key={change.id} className="border-l-2 border-gray-700 pl-3">
+                      <p className="text-white text-sm">
+                        {change.action === 'created' ? 'Created' : 'Updated'} by {change.changed_by_name || 'the system'}
+                      </p>
+                      <p className="text-gray-500 text-xs">{new Date(change.created_at).toLocaleString()}</p>
+                      {fields.length > 0 && (
+                        <ul className="mt-1 space-y-1">
+                          {fields.map(([field, values]) => (
+                            <li key={field} className="text-gray-300 text-sm">
+                              <span className="text-gray-400">{FIELD_LABELS[field] || field}:</span>{' '}
+                              <span className="line-through text-gray-500">{formatValue(field, values.from)}</span>{' '}
+                              → {formatValue(field, values.to)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </Card>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
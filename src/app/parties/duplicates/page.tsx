@@ -0,0 +1,342 @@
+// src/app/parties/duplicates/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { DuplicateCandidate, DuplicateGroup, findDuplicates } from '@/lib/parties/duplicates';
+import { describeMovedReferences, mergeParties, undoPartyMerge } from '@/lib/parties/merge';
+
+interface PartyMerge {
+  id: string;
+  created_at: string;
+  survivor_id: string;
+  duplicate_id: string;
+  merged_by: string | null;
+  moved_references: Record<string, string[]>;
+  undone_at: string | null;
+}
+
+interface GroupSelection {
+  survivorId: string;
+  duplicateIds: string[];
+}
+
+export default function DuplicatePartiesPage() {
+  const [firmId, setFirmId] = useState<string | null>(null);
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [selections, setSelections] = useState<GroupSelection[]>([]);
+  const [merges, setMerges] = useState<PartyMerge[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchFirmId() {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (user) {
+        const { data } = await supabase
+          .from('users')
+          .select('firm_id')
+          .eq('id', user.id)
+          .single();
+
+        if (data?.firm_id) {
+          setFirmId(data.firm_id);
+        }
+      }
+    }
+
+    fetchFirmId();
+  }, []);
+
+  useEffect(() => {
+    if (firmId) {
+      fetchData();
+    }
+  }, [firmId]);
+
+  const fetchData = async () => {
+    setIsLoading(true);
+
+    try {
+      const [partiesResult, mergesResult] = await Promise.all([
+        supabase
+          .from('parties')
+          .select('id, created_at, type, first_name, last_name, organization_name, email, phone, address, is_client')
+          .eq('firm_id', firmId)
+          .is('merged_into', null),
+        supabase
+          .from('party_merges')
+          .select('id, created_at, survivor_id, duplicate_id, merged_by, moved_references, undone_at')
+          .eq('firm_id', firmId)
+          .order('created_at', { ascending: false })
+          .limit(20),
+      ]);
+
+      if (partiesResult.error) throw partiesResult.error;
+
+      const found = findDuplicates(partiesResult.data || []);
+      setGroups(found);
+      setSelections(found.map((group) => ({
+        // The oldest record is kept by default; it is most likely the one people link to
+        survivorId: group.parties[0].id,
+        duplicateIds: group.parties.slice(1).map((party) => party.id),
+      })));
+
+      const mergeRows = (mergesResult.data || []) as PartyMerge[];
+      setMerges(mergeRows);
+
+      // Merged duplicates are hidden from the parties list, so look their names up here
+      const partyIds = Array.from(new Set(mergeRows.flatMap((merge) => [merge.survivor_id, merge.duplicate_id])));
+      const userIds = Array.from(new Set(mergeRows.map((merge) => merge.merged_by).filter((id): id is string => !!id)));
+      const lookup: Record<string, string> = {};
+
+      if (partyIds.length > 0) {
+        const { data: mergedParties } = await supabase
+          .from('parties')
+          .select('id, first_name, last_name, organization_name')
+          .in('id', partyIds);
+
+        (mergedParties || []).forEach((party) => {
+          lookup[party.id] = getPartyDisplayName(party);
+        });
+      }
+
+      if (userIds.length > 0) {
+        const { data: usersData } = await supabase
+          .from('users')
+          .select('id, first_name, last_name')
+          .in('id', userIds);
+
+        (usersData || []).forEach((user) => {
+          lookup[user.id] = `${user.first_name} ${user.last_name}`;
+        });
+      }
+
+      setNames(lookup);
+    } catch (error) {
+      console.error('Error finding duplicate parties:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getPartyDisplayName = (party: Pick<DuplicateCandidate, 'first_name' | 'last_name' | 'organization_name'>) => {
+    if (party.organization_name) {
+      return party.organization_name;
+    }
+    return `${party.first_name || ''} ${party.last_name || ''}`.trim();
+  };
+
+  const setSurvivor = (groupIndex: number, survivorId: string) => {
+    setSelections((prev) => prev.map((selection, index) => {
+      if (index !== groupIndex) return selection;
+      return {
+        survivorId,
+        duplicateIds: groups[groupIndex].parties.map((party) => party.id).filter((id) => id !== survivorId),
+      };
+    }));
+  };
+
+  const toggleDuplicate = (groupIndex: number, partyId: string) => {
+    setSelections((prev) => prev.map((selection, index) => {
+      if (index !== groupIndex) return selection;
+      return {
+        ...selection,
+        duplicateIds: selection.duplicateIds.includes(partyId)
+          ? selection.duplicateIds.filter((id) => id !== partyId)
+          : [...selection.duplicateIds, partyId],
+      };
+    }));
+  };
+
+  const handleMerge = async (groupIndex: number) => {
+    const { survivorId, duplicateIds } = selections[groupIndex];
+    const survivor = groups[groupIndex].parties.find((party) => party.id === survivorId)!;
+
+    if (duplicateIds.length === 0) return;
+    if (!window.confirm(`Merge ${duplicateIds.length} ${duplicateIds.length === 1 ? 'party' : 'parties'} into ${getPartyDisplayName(survivor)}? Their cases, documents, financials and liens will move to it.`)) {
+      return;
+    }
+
+    setBusyId(survivorId);
+
+    try {
+      await mergeParties(survivorId, duplicateIds);
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error merging parties:', error);
+      alert(error.message || 'Failed to merge parties. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUndo = async (merge: PartyMerge) => {
+    if (!window.confirm(`Undo the merge of ${names[merge.duplicate_id] || 'this party'}? Records moved by the merge will point at it again.`)) {
+      return;
+    }
+
+    setBusyId(merge.id);
+
+    try {
+      await undoPartyMerge(merge.id);
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error undoing merge:', error);
+      alert(error.message || 'Failed to undo the merge. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <MainLayout title="Duplicate Parties">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Duplicate Parties</h1>
+          <p className="text-gray-400 text-sm mt-1">
+            Parties with similar names, or the same email, phone or address. Pick the record to keep and merge the others into it.
+          </p>
+        </div>
+        <Link href="/parties">
+          <Button variant="outline">Back to Parties</Button>
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : (
+        <>
+          {groups.length === 0 ? (
+            <Card className="mb-6">
+              <p className="text-gray-400 text-center py-8">No likely duplicates found.</p>
+            </Card>
+          ) : (
+            groups.map((group, groupIndex) => {
+              const selection = selections[groupIndex];
+
+              return (
+                <Card key={group.parties.map((party) => party.id).join(':')} className="mb-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div>
+                      <h2 className="text-lg font-medium text-white">
+                        {getPartyDisplayName(group.parties[0])}
+                        <span className="text-gray-400 text-sm ml-2">{group.parties.length} records</span>
+                      </h2>
+                      <ul className="mt-1">
+                        {group.pairs.map((pair) => (
+                          <li key={`${pair.a}:${pair.b}`} className="text-gray-400 text-xs">
+                            {Math.round(pair.score * 100)}% — {pair.reasons.join(', ')}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <Button
+                      size="sm"
+                      isLoading={busyId === selection.survivorId}
+                      disabled={selection.duplicateIds.length === 0}
+                      onClick={() => handleMerge(groupIndex)}
+                    >
+                      Merge
+                    </Button>
+                  </div>
+
+                  <table className="min-w-full divide-y divide-gray-700">
+                    <thead>
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Keep</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Merge</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Name</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Email</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Phone</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Address</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Added</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                      {group.parties.map((party) => (
+                        <tr key={party.id}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="radio"
+                              name={`survivor-${groupIndex}`}
+                              checked={selection.survivorId === party.id}
+                              onChange={() => setSurvivor(groupIndex, party.id)}
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              disabled={selection.survivorId === party.id}
+                              checked={selection.duplicateIds.includes(party.id)}
+                              onChange={() => toggleDuplicate(groupIndex, party.id)}
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <Link href={`/parties/${party.id}`} target="_blank" className="text-blue-400 hover:text-blue-300">
+                              {getPartyDisplayName(party)}
+                            </Link>
+                            <p className="text-gray-400 text-xs">
+                              {party.type}
+                              {party.organization_name && (party.first_name || party.last_name) && ` · ${party.first_name || ''} ${party.last_name || ''}`}
+                            </p>
+                          </td>
+                          <td className="px-3 py-2 text-gray-300 text-sm">{party.email || '-'}</td>
+                          <td className="px-3 py-2 text-gray-300 text-sm">{party.phone || '-'}</td>
+                          <td className="px-3 py-2 text-gray-300 text-sm">{party.address || '-'}</td>
+                          <td className="px-3 py-2 text-gray-300 text-sm">{new Date(party.created_at).toLocaleDateString()}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </Card>
+              );
+            })
+          )}
+
+          <Card>
+            <h2 className="text-lg font-medium text-white mb-4">Recent Merges</h2>
+            {merges.length === 0 ? (
+              <p className="text-gray-400 text-sm">No parties have been merged.</p>
+            ) : (
+              <ul className="divide-y divide-gray-700">
+                {merges.map((merge) => (
+                  <li key={merge.id} className="flex justify-between items-center py-3">
+                    <div>
+                      <p className="text-white text-sm">
+                        {names[merge.duplicate_id] || 'Unknown party'} merged into{' '}
+                        <Link href={`/parties/${merge.survivor_id}`} className="text-blue-400 hover:text-blue-300">
+                          {names[merge.survivor_id] || 'Unknown party'}
+                        </Link>
+                      </p>
+                      <p className="text-gray-400 text-xs">
+                        {new Date(merge.created_at).toLocaleString()}
+                        {merge.merged_by && ` by ${names[merge.merged_by] || 'Unknown'}`} · {describeMovedReferences(merge.moved_references)}
+                      </p>
+                    </div>
+                    {merge.undone_at ? (
+                      <Badge>Undone</Badge>
+                    ) : (
+                      <Button variant="outline" size="sm" isLoading={busyId === merge.id} onClick={() => handleUndo(merge)}>
+                        Undo
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        </>
+      )}
+    </MainLayout>
+  );
+}
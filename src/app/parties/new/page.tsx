@@ -0,0 +1,67 @@
+// src/app/parties/new/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import PartyForm, { PartyFormValues, toPartyRow } from '@/components/parties/PartyForm';
+
+export default function NewPartyPage() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [firmId, setFirmId] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    async function fetchFirmId() {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (user) {
+        const { data } = await supabase
+          .from('users')
+          .select('firm_id')
+          .eq('id', user.id)
+          .single();
+
+        if (data?.firm_id) {
+          setFirmId(data.firm_id);
+        }
+      }
+    }
+
+    fetchFirmId();
+  }, []);
+
+  const onSubmit = async (values: PartyFormValues) => {
+    if (!firmId) return;
+
+    setIsLoading(true);
+
+    try {
+      const { data: party, error } = await supabase
+        .from('parties')
+        .insert({ firm_id: firmId, ...toPartyRow(values) })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      router.push(`/parties/${party.id}`);
+    } catch (error: any) {
+      console.error('Error creating party:', error);
+      alert(error.message || 'Failed to create party. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <MainLayout title="New Party">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-white">Create New Party</h1>
+      </div>
+
+      <PartyForm submitLabel="Create Party" isLoading={isLoading} onSubmit={onSubmit} />
+    </MainLayout>
+  );
+}
@@ -0,0 +1,311 @@
+// src/app/parties/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { PlusIcon, MagnifyingGlassIcon } from 'react-icons/hi2';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Badge } from '@/components/ui/Badge';
+import { PARTY_TYPES } from '@/components/parties/PartyForm';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { getPartyName } from '@/lib/conflicts';
+
+interface Party {
+  id: string;
+  type: string;
+  first_name: string | null;
+  last_name: string | null;
+  organization_name: string | null;
+  email: string | null;
+  phone: string | null;
+  is_client: boolean;
+}
+
+const SEARCH_FIELDS = ['first_name', 'last_name', 'organization_name', 'email', 'phone'];
+
+export default function PartiesPage() {
+  const { can } = usePermissions();
+  const [parties, setParties] = useState<Party[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [firmId, setFirmId] = useState<string | null>(null);
+
+  // Filter states
+  const [searchTerm, setSearchTerm] = useState('');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [clientFilter, setClientFilter] = useState('all');
+
+  // Pagination states
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+  const itemsPerPage = 20;
+
+  useEffect(() => {
+    async function fetchFirmId() {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (user) {
+        const { data } = await supabase
+          .from('users')
+          .select('firm_id')
+          .eq('id', user.id)
+          .single();
+
+        if (data?.firm_id) {
+          setFirmId(data.firm_id);
+        }
+      }
+    }
+
+    fetchFirmId();
+  }, []);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchTerm, typeFilter, clientFilter]);
+
+  useEffect(() => {
+    if (firmId) {
+      fetchParties();
+    }
+  }, [firmId, searchTerm, typeFilter, clientFilter, currentPage]);
+
+  const fetchParties = async () => {
+    setIsLoading(true);
+
+    try {
+      const from = (currentPage - 1) * itemsPerPage;
+
+      let query = supabase
+        .from('parties')
+        .select('id, type, first_name, last_name, organization_name, email, phone, is_client', { count: 'exact' })
+        .eq('firm_id', firmId)
+        .is('merged_into', null)
+        .order('organization_name', { ascending: true, nullsFirst: false })
+        .order('last_name', { ascending: true })
+        .order('first_name', { ascending: true })
+        .range(from, from + itemsPerPage - 1);
+
+      // Every word has to match one of the fields, so "jane smith" finds Jane Smith.
+      // Characters that are part of the filter syntax are dropped from the search.
+      const words = searchTerm.replace(/[,()%*\\]/g, ' ').split(/\s+/).filter(Boolean);
+      words.forEach((word) => {
+        query = query.or(SEARCH_FIELDS.map((field) => `${field}.ilike.%${word}%`).join(','));
+      });
+
+      if (typeFilter !== 'all') {
+        query = query.eq('type', typeFilter);
+      }
+
+      if (clientFilter !== 'all') {
+        query = query.eq('is_client', clientFilter === 'clients');
+      }
+
+      const { data, count, error } = await query;
+
+      if (error) throw error;
+
+      setParties(data || []);
+      setTotalCount(count || 0);
+    } catch (error) {
+      console.error('Error fetching parties:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / itemsPerPage));
+  const isFiltered = searchTerm || typeFilter !== 'all' || clientFilter !== 'all';
+
+  return (
+    <MainLayout title="Parties">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-white">Parties</h1>
+        <div className="flex gap-2">
+          {can('edit_records') && (
+            <>
+              <Link href="/parties/duplicates">
+                <Button variant="outline">Find Duplicates</Button>
+              </Link>
+              <Link href="/parties/new">
+                <Button className="flex items-center">
+                  <PlusIcon className="h-5 w-5 mr-2" />
+                  New Party
+                </Button>
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1">
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+              </div>
+              <Input
+                type="text"
+                placeholder="Search by name, organization, email or phone..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-4">
+            <div className="w-44">
+              <Select
+                label="Type"
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value)}
+                options={[
+                  { value: 'all', label: 'All Types' },
+                  ...PARTY_TYPES.map((type) => ({ value: type, label: type })),
+                ]}
+              />
+            </div>
+
+            <div className="w-44">
+              <Select
+                label="Clients"
+                value={clientFilter}
+                onChange={(e) => setClientFilter(e.target.value)}
+                options={[
+                  { value: 'all', label: 'Clients and Others' },
+                  { value: 'clients', label: 'Clients Only' },
+                  { value: 'non-clients', label: 'Non-Clients Only' },
+                ]}
+              />
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      <Card>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : parties.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-white mb-2">No parties found</h3>
+            <p className="text-gray-400 mb-6">
+              {isFiltered ? 'Try adjusting your search or filters' : 'Get started by adding your first client'}
+            </p>
+            {can('edit_records') && !isFiltered && (
+              <Link href="/parties/new">
+                <Button>
+                  <PlusIcon className="h-5 w-5 mr-2" />
+                  New Party
+                </Button>
+              </Link>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-700">
+                <thead>
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Name
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Type
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Email
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Phone
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {parties.map((party) => (
+                    <tr key={party.id} className="hover:bg-gray-700">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Link href={`/parties/${party.id}`} className="text-blue-400 hover:text-blue-300">
+                          {getPartyName(party)}
+                        </Link>
+                        {party.organization_name && (party.first_name || party.last_name) && (
+                          <p className="text-gray-400 text-sm">
+                            {`${party.first_name || ''} ${party.last_name || ''}`.trim()}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                        {party.type}
+                        {party.is_client && (
+                          <Badge variant="success" className="ml-2">Client</Badge>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                        {party.email || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                        {party.phone || '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        {can('edit_records') && (
+                          <Link href={`/parties/${party.id}/edit`} className="mr-2">
+                            <Button variant="ghost" size="sm">
+                              Edit
+                            </Button>
+                          </Link>
+                        )}
+                        <Link href={`/parties/${party.id}`}>
+                          <Button variant="outline" size="sm">
+                            View
+                          </Button>
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-between items-center border-t border-gray-700 px-4 py-3 sm:px-6">
+              <p className="text-sm text-gray-400">
+                Showing <span className="font-medium">{(currentPage - 1) * itemsPerPage + 1}</span> to{' '}
+                <span className="font-medium">{(currentPage - 1) * itemsPerPage + parties.length}</span> of{' '}
+                <span className="font-medium">{totalCount}</span> parties
+              </p>
+              {totalPages > 1 && (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={currentPage === 1}
+                    onClick={() => setCurrentPage(currentPage - 1)}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={currentPage === totalPages}
+                    onClick={() => setCurrentPage(currentPage + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </Card>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,140 @@
+// src/app/register/confirmation/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import { RESEND_COOLDOWN_SECONDS } from '@/lib/auth/emailLinks';
+import ResendEmailButton from '@/components/auth/ResendEmailButton';
+
+type SetupState = 'checking' | 'awaiting_email' | 'setting_up' | 'ready' | 'failed';
+
+// Registration lands here twice: straight after signing up, to wait for the
+// verification email, and again from the link in that email, signed in, to create the
+// firm and profile.
+export default function RegisterConfirmationPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [state, setState] = useState<SetupState>('checking');
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState(searchParams.get('email') || '');
+
+  const isLinkExpired = searchParams.get('error') === 'link_expired';
+
+  useEffect(() => {
+    async function finishSetup() {
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        setState('awaiting_email');
+        return;
+      }
+
+      setState('setting_up');
+
+      try {
+        const response = await fetch('/api/auth/registration', { method: 'POST' });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error);
+
+        setState('ready');
+      } catch (error: any) {
+        console.error('Error completing registration:', error);
+        setError(error.message || 'Failed to set up your account.');
+        setState('failed');
+      }
+    }
+
+    finishSetup();
+  }, []);
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    router.push('/register');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-950 p-8">
+      <div className="w-full max-w-md text-center">
+        {(state === 'checking' || state === 'setting_up') && (
+          <>
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+            {state === 'setting_up' && <p className="text-gray-300">Setting up your firm...</p>}
+          </>
+        )}
+
+        {state === 'ready' && (
+          <>
+            <h2 className="text-3xl font-bold text-white mb-4">You&apos;re all set</h2>
+            <p className="text-gray-300 mb-8">Your email address is confirmed and your firm is ready.</p>
+            <Link
+              href="/dashboard"
+              className="inline-block w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md transition duration-200"
+            >
+              Go to Dashboard
+            </Link>
+          </>
+        )}
+
+        {state === 'failed' && (
+          <>
+            <h2 className="text-3xl font-bold text-white mb-4">We couldn&apos;t finish setting up your account</h2>
+            <div className="bg-red-500 text-white p-3 rounded mb-6">{error}</div>
+            <button onClick={handleSignOut} className="text-sm font-medium text-blue-500 hover:text-blue-400">
+              Sign out and register again
+            </button>
+          </>
+        )}
+
+        {state === 'awaiting_email' && (
+          <>
+            <h2 className="text-3xl font-bold text-white mb-4">Check your email</h2>
+
+            {isLinkExpired ? (
+              <div className="bg-yellow-900/50 border border-yellow-700 text-yellow-200 p-3 rounded mb-6">
+                That verification link has expired or was already used. Request a new one below.
+              </div>
+            ) : (
+              <p className="text-gray-300 mb-6">
+                We sent a verification link to {email ? <span className="text-white">{email}</span> : 'your email address'}.
+                Open it to confirm your address and finish setting up your firm.
+              </p>
+            )}
+
+            {!searchParams.get('email') && (
+              <div className="text-left mb-4">
+                <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-1">
+                  Email
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            )}
+
+            <ResendEmailButton
+              email={email}
+              type="signup"
+              label="Resend Verification Email"
+              initialCooldown={isLinkExpired ? 0 : RESEND_COOLDOWN_SECONDS}
+            />
+
+            <p className="text-sm text-gray-400 mt-6">
+              Already confirmed?{' '}
+              <Link href="/login" className="font-medium text-blue-500 hover:text-blue-400">
+                Sign in
+              </Link>
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+// src/app/reset-password/page.tsx
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { RESEND_COOLDOWN_SECONDS } from '@/lib/auth/emailLinks';
+import ResendEmailButton from '@/components/auth/ResendEmailButton';
+
+const resetSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+type ResetFormValues = z.infer<typeof resetSchema>;
+
+// First step of a password reset. The emailed link signs the user in through
+// /api/auth/callback and takes them to /settings/security to choose a new password.
+export default function ResetPasswordPage() {
+  const searchParams = useSearchParams();
+  const [error, setError] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [sentTo, setSentTo] = React.useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetFormValues>({
+    resolver: zodResolver(resetSchema),
+  });
+
+  const onSubmit = async (data: ResetFormValues) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/auth/resend', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: data.email, type: 'recovery' }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      setSentTo(data.email);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-950 p-8">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h2 className="text-3xl font-bold text-white">Reset your password</h2>
+        </div>
+
+        {sentTo ? (
+          <>
+            <p className="text-gray-300 text-center mb-6">
+              If an account exists for <span className="text-white">{sentTo}</span>, we sent it a link to choose a new
+              password. The link can only be used once.
+            </p>
+            <ResendEmailButton
+              email={sentTo}
+              type="recovery"
+              label="Resend Email"
+              initialCooldown={RESEND_COOLDOWN_SECONDS}
+            />
+          </>
+        ) : (
+          <>
+            {searchParams.get('error') === 'link_expired' && !error && (
+              <div className="bg-yellow-900/50 border border-yellow-700 text-yellow-200 p-3 rounded mb-4">
+                That reset link has expired or was already used. Request a new one below.
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-red-500 text-white p-3 rounded mb-4">
+                {error}
+              </div>
+            )}
+
+            <p className="text-gray-400 text-sm mb-6">
+              Enter the email address you sign in with and we&apos;ll send you a link to choose a new password.
+            </p>
+
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-1">
+                  Email
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  {...register('email')}
+                />
+                {errors.email && (
+                  <p className="text-red-500 text-sm mt-1">{errors.email.message}</p>
+                )}
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition duration-200 disabled:opacity-50"
+              >
+                {isLoading ? 'Sending...' : 'Send Reset Link'}
+              </button>
+            </form>
+          </>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link href="/login" className="text-sm font-medium text-blue-500 hover:text-blue-400">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
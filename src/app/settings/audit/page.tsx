@@ -0,0 +1,38 @@
+// src/app/settings/audit/page.tsx
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import AuditLog from '@/components/audit/AuditLog';
+import { usePermissions } from '@/lib/auth/usePermissions';
+
+export default function AuditLogPage() {
+  const { can, isLoading } = usePermissions();
+
+  return (
+    <MainLayout title="Audit Log">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Audit Log</h1>
+          <p className="text-gray-400 text-sm mt-1">
+            Every change to your firm&apos;s records: who made it, when, and what it was before and after.
+          </p>
+        </div>
+        <Link href="/settings">
+          <Button variant="outline">Back to Settings</Button>
+        </Link>
+      </div>
+
+      <Card>
+        {isLoading ? null : can('view_audit_log') ? (
+          <AuditLog />
+        ) : (
+          <p className="text-gray-400">Your role does not allow viewing the audit log.</p>
+        )}
+      </Card>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,156 @@
+// src/app/settings/billing/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import BillingRates from '@/components/time/BillingRates';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { formatMoney, roundMoney } from '@/lib/trust';
+
+const INCREMENT_OPTIONS = [
+  { value: '6', label: 'Tenth of an hour (6 minutes)' },
+  { value: '15', label: 'Quarter hour (15 minutes)' },
+  { value: '30', label: 'Half hour (30 minutes)' },
+  { value: '60', label: 'Whole hour' },
+  { value: '1', label: 'Whole minutes' },
+];
+
+export default function BillingSettingsPage() {
+  const { can, isLoading: isLoadingPermissions } = usePermissions();
+  const canView = can('view_financials');
+  const canManageFirm = can('manage_firm');
+
+  const [firmId, setFirmId] = useState<string | null>(null);
+  const [defaultRate, setDefaultRate] = useState('');
+  const [increment, setIncrement] = useState('6');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isLoadingPermissions || !canView) return;
+    fetchFirm();
+  }, [isLoadingPermissions, canView]);
+
+  const fetchFirm = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data: profile } = await supabase.from('users').select('firm_id').eq('id', user.id).single();
+    if (!profile?.firm_id) return;
+
+    const { data: firm, error } = await supabase
+      .from('firms')
+      .select('default_hourly_rate, time_increment_minutes')
+      .eq('id', profile.firm_id)
+      .single();
+
+    if (error) {
+      console.error('Error fetching billing settings:', error);
+      return;
+    }
+
+    setFirmId(profile.firm_id);
+    setDefaultRate(Number(firm.default_hourly_rate).toFixed(2));
+    setIncrement(String(firm.time_increment_minutes));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!firmId) return;
+
+    const rate = Number(defaultRate);
+    if (defaultRate === '' || !Number.isFinite(rate) || rate < 0) {
+      alert('Enter a default hourly rate of zero or more.');
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('firms')
+        .update({ default_hourly_rate: roundMoney(rate), time_increment_minutes: Number(increment) })
+        .eq('id', firmId);
+
+      if (error) throw error;
+
+      alert('Billing settings saved.');
+    } catch (error: any) {
+      console.error('Error saving billing settings:', error);
+      alert(error.message || 'Failed to save the billing settings. Please try again.');
+    }
+
+    setIsSaving(false);
+  };
+
+  if (!isLoadingPermissions && !canView) {
+    return (
+      <MainLayout title="Billing">
+        <Card>
+          <p className="text-gray-400">Your role does not have access to billing settings.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  const incrementLabel = INCREMENT_OPTIONS.find((option) => option.value === increment)?.label || `${increment} minutes`;
+
+  return (
+    <MainLayout title="Billing">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Billing</h1>
+          <p className="text-gray-400 text-sm mt-1">
+            Time is priced at the timekeeper&apos;s rate on the case, else the case&apos;s rate, else their own rate,
+            else the firm default. Rates on a case are set from its Time tab.
+          </p>
+        </div>
+        <Link href="/settings">
+          <Button variant="outline">Back to Settings</Button>
+        </Link>
+      </div>
+
+      <Card className="mb-6">
+        <h2 className="text-xl font-semibold text-white mb-4">Firm Defaults</h2>
+        {canManageFirm ? (
+          <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-3 gap-x-4 items-end">
+            <Input
+              label="Default Hourly Rate"
+              id="firm-default-rate"
+              type="number"
+              step="0.01"
+              min="0"
+              value={defaultRate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDefaultRate(e.target.value)}
+            />
+            <Select
+              label="Round Time Up To"
+              value={increment}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setIncrement(e.target.value)}
+              options={INCREMENT_OPTIONS}
+            />
+            <div className="mb-4">
+              <Button type="submit" isLoading={isSaving} disabled={!firmId}>
+                Save
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <p className="text-gray-300">
+            {formatMoney(Number(defaultRate || 0))}/h, rounded up to the {incrementLabel.toLowerCase()}
+          </p>
+        )}
+      </Card>
+
+      <Card>
+        <h2 className="text-xl font-semibold text-white mb-4">User Rates</h2>
+        {firmId && <BillingRates firmId={firmId} />}
+      </Card>
+    </MainLayout>
+  );
+}
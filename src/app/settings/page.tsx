@@ -0,0 +1,387 @@
+// src/app/settings/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Badge } from '@/components/ui/Badge';
+import { USER_ROLES, getRoleLabel } from '@/lib/auth/permissions';
+import { usePermissions } from '@/lib/auth/usePermissions';
+
+interface TeamMember {
+  id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  role: string;
+  is_active: boolean;
+  last_sign_in: string | null;
+}
+
+interface Invitation {
+  id: string;
+  created_at: string;
+  email: string;
+  role: string;
+  invited_by: string | null;
+  expires_at: string;
+}
+
+const inviteSchema = z.object({
+  first_name: z.string().optional(),
+  last_name: z.string().optional(),
+  email: z.string().email('Invalid email address'),
+  role: z.enum(['admin', 'attorney', 'paralegal', 'billing', 'read_only']),
+});
+
+type InviteFormValues = z.infer<typeof inviteSchema>;
+
+export default function SettingsPage() {
+  const { can } = usePermissions();
+  const canManage = can('invite_users');
+
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [firmId, setFirmId] = useState<string | null>(null);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isInviting, setIsInviting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: { role: 'attorney' },
+  });
+
+  useEffect(() => {
+    async function fetchFirmId() {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (user) {
+        setCurrentUserId(user.id);
+
+        const { data } = await supabase
+          .from('users')
+          .select('firm_id')
+          .eq('id', user.id)
+          .single();
+
+        if (data?.firm_id) {
+          setFirmId(data.firm_id);
+        }
+      }
+    }
+
+    fetchFirmId();
+  }, []);
+
+  useEffect(() => {
+    if (firmId) {
+      fetchTeam();
+    }
+  }, [firmId, canManage]);
+
+  const fetchTeam = async () => {
+    setIsLoading(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, email, first_name, last_name, role, is_active, last_sign_in')
+        .eq('firm_id', firmId)
+        .order('last_name', { ascending: true })
+        .order('first_name', { ascending: true });
+
+      if (error) throw error;
+      setMembers(data || []);
+
+      // Only users who can invite can see invitations
+      if (canManage) {
+        const { data: invitationsData } = await supabase
+          .from('user_invitations')
+          .select('id, created_at, email, role, invited_by, expires_at')
+          .eq('firm_id', firmId)
+          .is('accepted_at', null)
+          .is('revoked_at', null)
+          .order('created_at', { ascending: false });
+
+        setInvitations(invitationsData || []);
+      }
+    } catch (error) {
+      console.error('Error fetching team:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onInvite = async (values: InviteFormValues) => {
+    setIsInviting(true);
+
+    try {
+      const response = await fetch('/api/team/invitations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      reset({ first_name: '', last_name: '', email: '', role: values.role });
+      setInvitations((prev) => [result.invitation, ...prev.filter((item) => item.email !== result.invitation.email)]);
+    } catch (error: any) {
+      console.error('Error inviting user:', error);
+      alert(error.message || 'Failed to send the invitation. Please try again.');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}?`)) return;
+
+    setBusyId(invitation.id);
+
+    try {
+      const response = await fetch(`/api/team/invitations/${invitation.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      setInvitations((prev) => prev.filter((item) => item.id !== invitation.id));
+    } catch (error: any) {
+      console.error('Error revoking invitation:', error);
+      alert(error.message || 'Failed to revoke the invitation. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const updateMember = async (member: TeamMember, updates: Partial<Pick<TeamMember, 'role' | 'is_active'>>) => {
+    setBusyId(member.id);
+
+    try {
+      const response = await fetch(`/api/team/users/${member.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      setMembers((prev) => prev.map((item) => (item.id === member.id ? result.user : item)));
+    } catch (error: any) {
+      console.error('Error updating user:', error);
+      alert(error.message || 'Failed to update the user. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggleActive = (member: TeamMember) => {
+    const name = `${member.first_name} ${member.last_name}`.trim() || member.email;
+    const message = member.is_active
+      ? `Deactivate ${name}? They will be signed out and unable to sign in until reactivated.`
+      : `Reactivate ${name}?`;
+
+    if (window.confirm(message)) {
+      updateMember(member, { is_active: !member.is_active });
+    }
+  };
+
+  const formatDateTime = (value: string | null) => {
+    return value ? new Date(value).toLocaleString() : 'Never';
+  };
+
+  return (
+    <MainLayout title="Settings">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-white">Settings</h1>
+        <div className="flex space-x-2">
+          {can('view_audit_log') && (
+            <Link href="/settings/audit">
+              <Button variant="outline">Audit Log</Button>
+            </Link>
+          )}
+          {can('view_financials') && (
+            <Link href="/settings/billing">
+              <Button variant="outline">Billing</Button>
+            </Link>
+          )}
+          <Link href="/settings/security">
+            <Button variant="outline">Security</Button>
+          </Link>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <h2 className="text-xl font-semibold text-white mb-4">Team</h2>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Name
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Last Sign-In
+                  </th>
+                  {canManage && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {members.map((member) => {
+                  const isSelf = member.id === currentUserId;
+
+                  return (
+                    <tr key={member.id}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <p className="text-white">
+                          {`${member.first_name} ${member.last_name}`.trim()}
+                          {isSelf && <span className="text-gray-400 text-sm ml-2">(you)</span>}
+                        </p>
+                        <p className="text-gray-400 text-sm">{member.email}</p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                        {canManage && !isSelf ? (
+                          <select
+                            value={member.role}
+                            disabled={busyId === member.id}
+                            onChange={(e) => updateMember(member, { role: e.target.value })}
+                            className="px-3 py-1 bg-gray-800 border border-gray-600 rounded-md text-white text-sm"
+                          >
+                            {USER_ROLES.map((role) => (
+                              <option key={role.value} value={role.value}>{role.label}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          getRoleLabel(member.role)
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge variant={member.is_active ? 'success' : 'default'}>
+                          {member.is_active ? 'Active' : 'Deactivated'}
+                        </Badge>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                        {formatDateTime(member.last_sign_in)}
+                      </td>
+                      {canManage && (
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          {!isSelf && (
+                            <Button
+                              variant={member.is_active ? 'danger' : 'outline'}
+                              size="sm"
+                              isLoading={busyId === member.id}
+                              onClick={() => handleToggleActive(member)}
+                            >
+                              {member.is_active ? 'Deactivate' : 'Reactivate'}
+                            </Button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {canManage && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <h2 className="text-xl font-semibold text-white mb-4">Invite a Colleague</h2>
+            <form onSubmit={handleSubmit(onInvite)}>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input label="First Name" id="first_name" {...register('first_name')} />
+                <Input label="Last Name" id="last_name" {...register('last_name')} />
+              </div>
+              <Input
+                label="Email"
+                id="email"
+                type="email"
+                {...register('email')}
+                error={errors.email?.message}
+              />
+              <Select
+                label="Role"
+                id="role"
+                {...register('role')}
+                error={errors.role?.message}
+                options={USER_ROLES.map((role) => ({ value: role.value, label: role.label }))}
+              />
+              <Button type="submit" isLoading={isInviting}>
+                Send Invitation
+              </Button>
+            </form>
+          </Card>
+
+          <Card>
+            <h2 className="text-xl font-semibold text-white mb-4">Pending Invitations</h2>
+            {invitations.length === 0 ? (
+              <p className="text-gray-400 text-sm">No open invitations.</p>
+            ) : (
+              <ul className="divide-y divide-gray-700">
+                {invitations.map((invitation) => {
+                  const isExpired = new Date(invitation.expires_at) < new Date();
+
+                  return (
+                    <li key={invitation.id} className="flex justify-between items-center py-3">
+                      <div>
+                        <p className="text-white text-sm">
+                          {invitation.email}
+                          {isExpired && <Badge variant="warning" className="ml-2">Expired</Badge>}
+                        </p>
+                        <p className="text-gray-400 text-xs">
+                          {getRoleLabel(invitation.role)} · Invited {new Date(invitation.created_at).toLocaleDateString()}
+                          {!isExpired && ` · Expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        isLoading={busyId === invitation.id}
+                        onClick={() => handleRevoke(invitation)}
+                      >
+                        Revoke
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </Card>
+        </div>
+      )}
+    </MainLayout>
+  );
+}
@@ -0,0 +1,215 @@
+// src/app/settings/security/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import MfaCard from '@/components/settings/MfaCard';
+import SetPasswordCard from '@/components/settings/SetPasswordCard';
+import { IDLE_TIMEOUT_OPTIONS, SecurityPolicy } from '@/lib/auth/policy';
+import { usePermissions } from '@/lib/auth/usePermissions';
+
+const policySchema = z.object({
+  mfa_required: z.boolean(),
+  idle_timeout_minutes: z.string(),
+  password_min_length: z.coerce
+    .number()
+    .int('Must be a whole number')
+    .min(8, 'Must be at least 8')
+    .max(128, 'Must be at most 128'),
+  password_require_complexity: z.boolean(),
+});
+
+type PolicyFormValues = z.infer<typeof policySchema>;
+
+export default function SecuritySettingsPage() {
+  const searchParams = useSearchParams();
+  const { can } = usePermissions();
+  const canManageFirm = can('manage_firm');
+
+  const [firmId, setFirmId] = useState<string | null>(null);
+  const [mfaRequired, setMfaRequired] = useState(false);
+  const [isSavingPolicy, setIsSavingPolicy] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<PolicyFormValues>({
+    resolver: zodResolver(policySchema),
+  });
+
+  useEffect(() => {
+    async function fetchPolicy() {
+      const { data: policy } = await supabase.rpc('current_security_policy').maybeSingle<SecurityPolicy>();
+
+      if (policy) {
+        setMfaRequired(policy.mfa_required);
+        reset({
+          mfa_required: policy.mfa_required,
+          idle_timeout_minutes: policy.idle_timeout_minutes ? String(policy.idle_timeout_minutes) : '',
+          password_min_length: policy.password_min_length,
+          password_require_complexity: policy.password_require_complexity,
+        });
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (user) {
+        const { data } = await supabase
+          .from('users')
+          .select('firm_id')
+          .eq('id', user.id)
+          .single();
+
+        if (data?.firm_id) {
+          setFirmId(data.firm_id);
+        }
+      }
+    }
+
+    fetchPolicy();
+  }, [reset]);
+
+  const onSavePolicy = async (values: PolicyFormValues) => {
+    if (!firmId) return;
+
+    setIsSavingPolicy(true);
+
+    try {
+      // Requiring MFA without an authenticator of your own would lock you out of
+      // everything except enrollment
+      if (values.mfa_required) {
+        const { data: factors } = await supabase.auth.mfa.listFactors();
+
+        if (!factors?.totp.length) {
+          throw new Error('Set up an authenticator app for your own account before requiring two-factor authentication.');
+        }
+      }
+
+      const { error } = await supabase
+        .from('firms')
+        .update({
+          mfa_required: values.mfa_required,
+          idle_timeout_minutes: values.idle_timeout_minutes ? Number(values.idle_timeout_minutes) : null,
+          password_min_length: values.password_min_length,
+          password_require_complexity: values.password_require_complexity,
+        })
+        .eq('id', firmId);
+
+      if (error) throw error;
+
+      setMfaRequired(values.mfa_required);
+      alert('Security policy saved.');
+    } catch (error: any) {
+      console.error('Error saving security policy:', error);
+      alert(error.message || 'Failed to save the security policy. Please try again.');
+    } finally {
+      setIsSavingPolicy(false);
+    }
+  };
+
+  const isWelcome = Boolean(searchParams.get('welcome'));
+  const isReset = Boolean(searchParams.get('reset'));
+
+  return (
+    <MainLayout title="Security">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-white">Security</h1>
+        <Link href="/settings">
+          <Button variant="outline">Back to Settings</Button>
+        </Link>
+      </div>
+
+      {searchParams.get('enroll') === 'required' && (
+        <div className="bg-yellow-900/50 border border-yellow-700 text-yellow-200 p-4 rounded-md mb-6">
+          Your firm requires two-factor authentication. Set up an authenticator app below to continue.
+        </div>
+      )}
+
+      {isWelcome ? (
+        <SetPasswordCard
+          title="Welcome to the team"
+          description="Choose a password so you can sign in with your email address from now on."
+        />
+      ) : isReset ? (
+        <SetPasswordCard
+          title="Choose a New Password"
+          description="You signed in with a password reset link. Choose a new password to finish resetting it."
+        />
+      ) : (
+        <SetPasswordCard
+          title="Change Password"
+          description="Choose a new password for signing in with your email address."
+        />
+      )}
+
+      <MfaCard isRequired={mfaRequired} />
+
+      {canManageFirm && (
+        <Card className="mb-6">
+          <h2 className="text-xl font-semibold text-white mb-2">Firm Security Policy</h2>
+          <p className="text-gray-400 text-sm mb-4">These rules apply to everyone in your firm.</p>
+
+          <form onSubmit={handleSubmit(onSavePolicy)} className="max-w-md">
+            <div className="flex items-center mb-4">
+              <input
+                type="checkbox"
+                id="mfa_required"
+                {...register('mfa_required')}
+                className="h-4 w-4 rounded border-gray-700 bg-gray-800 text-blue-600 focus:ring-blue-500"
+              />
+              <label htmlFor="mfa_required" className="ml-2 text-sm text-gray-300">
+                Require two-factor authentication for all users
+              </label>
+            </div>
+
+            <Select
+              label="Sign Out After Inactivity"
+              id="idle_timeout_minutes"
+              {...register('idle_timeout_minutes')}
+              error={errors.idle_timeout_minutes?.message}
+              options={IDLE_TIMEOUT_OPTIONS}
+            />
+
+            <Input
+              label="Minimum Password Length"
+              id="password_min_length"
+              type="number"
+              min={8}
+              max={128}
+              {...register('password_min_length')}
+              error={errors.password_min_length?.message}
+            />
+
+            <div className="flex items-center mb-4">
+              <input
+                type="checkbox"
+                id="password_require_complexity"
+                {...register('password_require_complexity')}
+                className="h-4 w-4 rounded border-gray-700 bg-gray-800 text-blue-600 focus:ring-blue-500"
+              />
+              <label htmlFor="password_require_complexity" className="ml-2 text-sm text-gray-300">
+                Require an uppercase letter, a number and a symbol in passwords
+              </label>
+            </div>
+
+            <Button type="submit" isLoading={isSavingPolicy} disabled={!firmId}>
+              Save Policy
+            </Button>
+          </form>
+        </Card>
+      )}
+    </MainLayout>
+  );
+}
@@ -0,0 +1,514 @@
+// src/app/trust/[id]/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import { Database } from '@/types/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Badge } from '@/components/ui/Badge';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { getPartyName } from '@/lib/conflicts';
+import {
+  TRUST_TRANSACTION_TYPES,
+  TrustAccount,
+  TrustLedgerBalance,
+  TrustTransaction,
+  TrustTransactionType,
+  formatMoney,
+  getSignedAmount,
+  getTrustTransactionTypeLabel,
+  roundMoney,
+} from '@/lib/trust';
+import { fetchTrustBalances, recordTrustTransaction } from '@/lib/trust/ledger';
+import { Invoice, OPEN_INVOICE_STATUSES, getInvoiceBalance } from '@/lib/invoices';
+
+type ClientParty = Pick<
+  Database['public']['Tables']['parties']['Row'],
+  'id' | 'first_name' | 'last_name' | 'organization_name' | 'is_client' | 'merged_into'
+>;
+
+interface Client {
+  id: string;
+  name: string;
+}
+
+interface ClientCase {
+  id: string;
+  case_number: string;
+  title: string;
+}
+
+type OpenInvoice = Pick<Invoice, 'id' | 'invoice_number' | 'due_date' | 'total' | 'amount_paid'>;
+
+interface LedgerRow extends TrustTransaction {
+  running_balance: number;
+  invoice: { invoice_number: string } | null;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const EMPTY_FORM = {
+  transaction_type: 'deposit' as TrustTransactionType,
+  case_id: '',
+  amount: '',
+  transaction_date: today(),
+  description: '',
+  payee: '',
+  reference: '',
+  invoice_id: '',
+};
+
+export default function TrustAccountPage() {
+  const params = useParams();
+  const accountId = params.id as string;
+  const { can, isLoading: isLoadingPermissions } = usePermissions();
+  const canView = can('view_financials');
+  const canRecord = can('edit_financials');
+
+  const [account, setAccount] = useState<TrustAccount | null>(null);
+  const [balances, setBalances] = useState<TrustLedgerBalance[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [clientCases, setClientCases] = useState<ClientCase[]>([]);
+  const [openInvoices, setOpenInvoices] = useState<OpenInvoice[]>([]);
+  const [ledger, setLedger] = useState<LedgerRow[]>([]);
+  const [clientId, setClientId] = useState('');
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [profile, setProfile] = useState<{ id: string; firm_id: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isLoadingPermissions) return;
+
+    if (canView) {
+      fetchAccount();
+    } else {
+      setIsLoading(false);
+    }
+  }, [isLoadingPermissions, canView, accountId]);
+
+  useEffect(() => {
+    if (account) fetchLedger();
+    fetchClientCases();
+  }, [account, clientId]);
+
+  const clientNames = new Map(clients.map((client) => [client.id, client.name]));
+  const clientBalance = balances.find((row) => row.client_id === clientId)?.balance || 0;
+
+  const fetchAccount = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (user) {
+        const { data } = await supabase
+          .from('users')
+          .select('id, firm_id')
+          .eq('id', user.id)
+          .single();
+
+        setProfile(data);
+      }
+
+      const [{ data: accountData }, accountBalances, { data: clientData }] = await Promise.all([
+        supabase.from('trust_accounts').select('*').eq('id', accountId).maybeSingle(),
+        fetchTrustBalances(accountId),
+        supabase
+          .from('parties')
+          .select('id, first_name, last_name, organization_name, is_client, merged_into'),
+      ]);
+
+      // Clients who still have a ledger here stay listed even if they were merged away
+      const ledgerClientIds = new Set(accountBalances.map((row) => row.client_id));
+
+      setAccount(accountData as TrustAccount | null);
+      setBalances(accountBalances);
+      setClients(((clientData || []) as ClientParty[])
+        .filter((party) => ledgerClientIds.has(party.id) || (party.is_client && !party.merged_into))
+        .map((party) => ({ id: party.id, name: getPartyName(party) }))
+        .sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error('Error fetching trust account:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchLedger = async () => {
+    let query = supabase
+      .from('trust_transactions')
+      .select('*, invoice:invoice_id(invoice_number)')
+      .eq('trust_account_id', accountId)
+      .order('transaction_date', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (clientId) query = query.eq('client_id', clientId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching trust ledger:', error);
+      return;
+    }
+
+    let running = 0;
+    const rows = ((data || []) as Omit<LedgerRow, 'running_balance'>[]).map((entry) => {
+      running = roundMoney(running + getSignedAmount(entry));
+      return { ...entry, running_balance: running };
+    });
+
+    setLedger(rows.reverse());
+  };
+
+  const fetchClientCases = async () => {
+    if (!clientId) {
+      setClientCases([]);
+      setOpenInvoices([]);
+      return;
+    }
+
+    const [{ data }, { data: invoiceData }] = await Promise.all([
+      supabase
+        .from('cases')
+        .select('id, case_number, title')
+        .eq('client_id', clientId)
+        .order('case_number', { ascending: true }),
+      supabase
+        .from('invoices')
+        .select('id, invoice_number, due_date, total, amount_paid')
+        .eq('client_id', clientId)
+        .in('status', OPEN_INVOICE_STATUSES)
+        .order('due_date', { ascending: true }),
+    ]);
+
+    setClientCases(data || []);
+    setOpenInvoices((invoiceData || []) as OpenInvoice[]);
+  };
+
+  const updateForm = (key: keyof typeof EMPTY_FORM, value: string) => {
+    setForm((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile || !clientId) return;
+
+    const amount = Number(form.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      alert('Enter an amount greater than zero.');
+      return;
+    }
+
+    if (form.transaction_type !== 'deposit' && roundMoney(amount) > clientBalance) {
+      alert(`${clientNames.get(clientId)} only has ${formatMoney(clientBalance)} in trust.`);
+      return;
+    }
+
+    const invoice = openInvoices.find((item) => item.id === form.invoice_id);
+    if (form.transaction_type === 'transfer_to_operating' && invoice && roundMoney(amount) > getInvoiceBalance(invoice)) {
+      alert(`Only ${formatMoney(getInvoiceBalance(invoice))} is owing on ${invoice.invoice_number}.`);
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      await recordTrustTransaction(profile.firm_id, profile.id, {
+        trust_account_id: accountId,
+        client_id: clientId,
+        case_id: form.case_id || null,
+        transaction_type: form.transaction_type,
+        amount,
+        transaction_date: form.transaction_date,
+        description: form.description.trim(),
+        payee: form.transaction_type === 'disbursement' ? form.payee.trim() || null : null,
+        reference: form.reference.trim() || null,
+        invoice_id: form.transaction_type === 'transfer_to_operating' ? form.invoice_id || null : null,
+      });
+
+      setForm({ ...EMPTY_FORM, transaction_date: form.transaction_date });
+      setBalances(await fetchTrustBalances(accountId));
+      await Promise.all([fetchLedger(), fetchClientCases()]);
+    } catch (error: any) {
+      console.error('Error recording trust transaction:', error);
+      alert(error.message || 'Failed to record the transaction. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isLoadingPermissions && !canView) {
+    return (
+      <MainLayout title="Trust Account">
+        <Card>
+          <p className="text-gray-400">Your role does not have access to trust accounting.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <MainLayout title="Trust Account">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!account) {
+    return (
+      <MainLayout title="Trust Account">
+        <Card>
+          <p className="text-gray-400">Trust account not found.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  const accountTotal = roundMoney(balances.reduce((sum, row) => sum + row.balance, 0));
+  const isOutflow = form.transaction_type !== 'deposit';
+  const canSubmit = Boolean(clientId && form.amount && form.transaction_date && form.description.trim())
+    && (form.transaction_type !== 'transfer_to_operating' || Boolean(form.invoice_id));
+
+  return (
+    <MainLayout title={account.name}>
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">
+            {account.name}
+            {!account.is_active && (
+              <span className="ml-3 align-middle">
+                <Badge variant="default">Closed</Badge>
+              </span>
+            )}
+          </h1>
+          <p className="text-gray-400 text-sm mt-1">
+            {[account.bank_name, account.account_number_last4 && `••••${account.account_number_last4}`]
+              .filter(Boolean)
+              .join(' ')}
+            {' '}Balance {formatMoney(accountTotal)}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Link href="/trust">
+            <Button variant="outline">All Accounts</Button>
+          </Link>
+          <Link href={`/trust/${accountId}/reconcile`}>
+            <Button>Reconcile</Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        <Card className="lg:col-span-1">
+          <h2 className="text-xl font-semibold text-white mb-4">Client Ledgers</h2>
+          {balances.length === 0 ? (
+            <p className="text-gray-400">No money has been held for any client yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {[...balances]
+                .sort((a, b) => (clientNames.get(a.client_id) || '').localeCompare(clientNames.get(b.client_id) || ''))
+                .map((row) => (
+                  <li key={row.client_id}>
+                    <button
+                      type="button"
+                      onClick={() => setClientId(row.client_id === clientId ? '' : row.client_id)}
+                      className={`w-full flex justify-between py-2 px-2 rounded text-left hover:bg-gray-700 ${
+                        row.client_id === clientId ? 'bg-gray-700' : ''
+                      }`}
+                    >
+                      <span className="text-white">{clientNames.get(row.client_id) || 'Unknown client'}</span>
+                      <span className={row.balance < 0 ? 'text-red-400' : 'text-gray-300'}>{formatMoney(row.balance)}</span>
+                    </button>
+                  </li>
+                ))}
+            </ul>
+          )}
+        </Card>
+
+        {canRecord && account.is_active && (
+          <Card className="lg:col-span-2">
+            <h2 className="text-xl font-semibold text-white mb-4">Record Transaction</h2>
+            <form onSubmit={handleRecord}>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+                <Select
+                  label="Client"
+                  value={clientId}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setClientId(e.target.value)}
+                  options={[
+                    { value: '', label: 'Select client' },
+                    ...clients.map((client) => ({ value: client.id, label: client.name })),
+                  ]}
+                />
+                <Select
+                  label="Type"
+                  value={form.transaction_type}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateForm('transaction_type', e.target.value)}
+                  options={TRUST_TRANSACTION_TYPES}
+                />
+                <Input
+                  label="Amount"
+                  id="trust-amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={form.amount}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateForm('amount', e.target.value)}
+                />
+                <Input
+                  label="Date"
+                  id="trust-date"
+                  type="date"
+                  value={form.transaction_date}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateForm('transaction_date', e.target.value)}
+                />
+                <Select
+                  label="Case"
+                  value={form.case_id}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateForm('case_id', e.target.value)}
+                  options={[
+                    { value: '', label: 'No specific case' },
+                    ...clientCases.map((caseItem) => ({ value: caseItem.id, label: `${caseItem.case_number} · ${caseItem.title}` })),
+                  ]}
+                />
+                <Input
+                  label="Description"
+                  id="trust-description"
+                  value={form.description}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateForm('description', e.target.value)}
+                />
+                {form.transaction_type === 'disbursement' && (
+                  <Input
+                    label="Payee"
+                    id="trust-payee"
+                    value={form.payee}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateForm('payee', e.target.value)}
+                  />
+                )}
+                {form.transaction_type === 'transfer_to_operating' && (
+                  <Select
+                    label="Invoice"
+                    value={form.invoice_id}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateForm('invoice_id', e.target.value)}
+                    options={[
+                      { value: '', label: openInvoices.length > 0 ? 'Select invoice' : 'The client has no open invoices' },
+                      ...openInvoices.map((invoice) => ({
+                        value: invoice.id,
+                        label: `${invoice.invoice_number} · ${formatMoney(getInvoiceBalance(invoice))} owing`,
+                      })),
+                    ]}
+                  />
+                )}
+                <Input
+                  label="Check or Reference Number"
+                  id="trust-reference"
+                  value={form.reference}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateForm('reference', e.target.value)}
+                />
+              </div>
+
+              <div className="flex justify-between items-center">
+                <p className="text-sm text-gray-400">
+                  {clientId
+                    ? `${clientNames.get(clientId)} has ${formatMoney(clientBalance)} in this account.`
+                    : 'Choose the client whose ledger this belongs in.'}
+                  {isOutflow && clientId && Number(form.amount) > clientBalance && (
+                    <span className="text-red-400"> This would overdraw the client.</span>
+                  )}
+                </p>
+                <Button type="submit" isLoading={isSaving} disabled={!canSubmit}>
+                  Record
+                </Button>
+              </div>
+            </form>
+          </Card>
+        )}
+      </div>
+
+      <Card>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-white">
+            {clientId ? `Ledger: ${clientNames.get(clientId)}` : 'Account Register'}
+          </h2>
+          {clientId && (
+            <Button variant="outline" size="sm" onClick={() => setClientId('')}>
+              Show All Clients
+            </Button>
+          )}
+        </div>
+
+        {ledger.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">No transactions yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Date
+                  </th>
+                  {!clientId && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Client
+                    </th>
+                  )}
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Description
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Reference
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Balance
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {ledger.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-300">{entry.transaction_date}</td>
+                    {!clientId && (
+                      <td className="px-6 py-4 text-gray-300">{clientNames.get(entry.client_id) || 'Unknown client'}</td>
+                    )}
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                      {getTrustTransactionTypeLabel(entry.transaction_type)}
+                    </td>
+                    <td className="px-6 py-4 text-gray-300">
+                      <div>{entry.description}</div>
+                      {entry.payee && <div className="text-gray-400 text-sm">Paid to {entry.payee}</div>}
+                      {entry.invoice_id && (
+                        <Link href={`/invoices/${entry.invoice_id}`} className="block text-blue-400 hover:text-blue-300 text-sm">
+                          Invoice {entry.invoice?.invoice_number || ''}
+                        </Link>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-gray-300">{entry.reference || '-'}</td>
+                    <td className={`px-6 py-4 text-right whitespace-nowrap ${getSignedAmount(entry) < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                      {formatMoney(getSignedAmount(entry))}
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap text-white">
+                      {formatMoney(entry.running_balance)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,403 @@
+// src/app/trust/[id]/reconcile/[statementId]/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import {
+  TrustBankStatement,
+  TrustBankStatementLine,
+  TrustReconciliation,
+  TrustTransaction,
+  formatMoney,
+  getSignedAmount,
+  getTrustTransactionTypeLabel,
+  roundMoney,
+} from '@/lib/trust';
+import type { ReconciliationReport, TrustReconciliationResult } from '@/lib/trust/reconciliation';
+
+export default function TrustStatementPage() {
+  const params = useParams();
+  const accountId = params.id as string;
+  const statementId = params.statementId as string;
+  const { can, isLoading: isLoadingPermissions } = usePermissions();
+  const canView = can('view_financials');
+  const canEdit = can('edit_financials');
+
+  const [statement, setStatement] = useState<TrustBankStatement | null>(null);
+  const [signedOff, setSignedOff] = useState<TrustReconciliation | null>(null);
+  const [preview, setPreview] = useState<TrustReconciliationResult | null>(null);
+  const [lines, setLines] = useState<TrustBankStatementLine[]>([]);
+  const [entries, setEntries] = useState<TrustTransaction[]>([]);
+  const [clearedIds, setClearedIds] = useState<Set<string>>(new Set());
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSigningOff, setIsSigningOff] = useState(false);
+
+  useEffect(() => {
+    if (isLoadingPermissions) return;
+
+    if (canView) {
+      fetchStatement();
+    } else {
+      setIsLoading(false);
+    }
+  }, [isLoadingPermissions, canView, statementId]);
+
+  const fetchStatement = async () => {
+    try {
+      const response = await fetch(`/api/trust/statements/${statementId}/reconciliation`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      setStatement(result.statement);
+      setSignedOff(result.reconciliation);
+      setPreview(result.preview || null);
+
+      const { data: accountStatements } = await supabase
+        .from('trust_bank_statements')
+        .select('id')
+        .eq('trust_account_id', accountId);
+
+      const [{ data: lineData }, { data: entryData }] = await Promise.all([
+        supabase
+          .from('trust_bank_statement_lines')
+          .select('*')
+          .in('statement_id', (accountStatements || []).map((row: { id: string }) => row.id)),
+        supabase
+          .from('trust_transactions')
+          .select('*')
+          .eq('trust_account_id', accountId)
+          .order('transaction_date', { ascending: true }),
+      ]);
+
+      const allLines = (lineData || []) as TrustBankStatementLine[];
+
+      setLines(allLines
+        .filter((line) => line.statement_id === statementId)
+        .sort((a, b) => a.posted_date.localeCompare(b.posted_date)));
+      setClearedIds(new Set(allLines.map((line) => line.trust_transaction_id).filter(Boolean) as string[]));
+      setEntries((entryData || []) as TrustTransaction[]);
+    } catch (error: any) {
+      console.error('Error fetching reconciliation:', error);
+      alert(error.message || 'Failed to load the reconciliation. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMatch = async (line: TrustBankStatementLine, entryId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('trust_bank_statement_lines')
+        .update({ trust_transaction_id: entryId })
+        .eq('id', line.id);
+
+      if (error) throw error;
+      await fetchStatement();
+    } catch (error: any) {
+      console.error('Error matching statement line:', error);
+      alert(error.message || 'Failed to match the line. Please try again.');
+    }
+  };
+
+  const handleSignOff = async () => {
+    setIsSigningOff(true);
+
+    try {
+      const response = await fetch(`/api/trust/statements/${statementId}/reconciliation`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      setSignedOff(result.reconciliation);
+      setPreview(null);
+    } catch (error: any) {
+      console.error('Error signing off reconciliation:', error);
+      alert(error.message || 'Failed to sign off the reconciliation. Please try again.');
+    } finally {
+      setIsSigningOff(false);
+    }
+  };
+
+  if (!isLoadingPermissions && !canView) {
+    return (
+      <MainLayout title="Reconciliation">
+        <Card>
+          <p className="text-gray-400">Your role does not have access to trust accounting.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <MainLayout title="Reconciliation">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  const reconciliation = signedOff || preview;
+
+  if (!statement || !reconciliation) {
+    return (
+      <MainLayout title="Reconciliation">
+        <Card>
+          <p className="text-gray-400">Statement not found.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  const report = reconciliation.report as unknown as ReconciliationReport;
+  const orphanedLedgers = (report.ledger_exceptions || []).filter((row) => row.kind !== 'negative_balance');
+  const entriesById = new Map(entries.map((entry) => [entry.id, entry]));
+  const canMatch = canEdit && !signedOff;
+
+  // Uncleared entries with the same signed amount, nearest in date first
+  const candidatesFor = (line: TrustBankStatementLine) => entries
+    .filter((entry) => !clearedIds.has(entry.id) && roundMoney(getSignedAmount(entry)) === roundMoney(Number(line.amount)))
+    .sort((a, b) => Math.abs(Date.parse(a.transaction_date) - Date.parse(line.posted_date))
+      - Math.abs(Date.parse(b.transaction_date) - Date.parse(line.posted_date)));
+
+  const summary = [
+    { label: 'Bank statement balance', value: reconciliation.statement_balance },
+    { label: '+ Deposits in transit', value: reconciliation.deposits_in_transit },
+    { label: '− Outstanding disbursements', value: reconciliation.outstanding_disbursements },
+    { label: 'Adjusted bank balance', value: reconciliation.adjusted_bank_balance, strong: true },
+    { label: 'Book balance (account register)', value: reconciliation.book_balance, strong: true },
+    { label: 'Total of client ledgers', value: reconciliation.client_ledger_total, strong: true },
+  ];
+
+  return (
+    <MainLayout title="Reconciliation">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">
+            Statement {statement.period_start} to {statement.period_end}
+          </h1>
+          <p className="text-gray-400 text-sm mt-1">
+            {signedOff
+              ? `Signed off ${new Date(signedOff.created_at).toLocaleString()}. The figures below are as they were then.`
+              : 'Not signed off yet. The figures below reflect the ledger as it stands now.'}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => window.print()}>Print</Button>
+          <Link href={`/trust/${accountId}/reconcile`}>
+            <Button variant="outline">All Statements</Button>
+          </Link>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <Card>
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-white">Three-Way Reconciliation</h2>
+            {reconciliation.is_balanced ? (
+              <Badge variant="success">In balance</Badge>
+            ) : (
+              <Badge variant="danger">Out of balance</Badge>
+            )}
+          </div>
+          <dl className="divide-y divide-gray-700">
+            {summary.map((row) => (
+              <div key={row.label} className="flex justify-between py-2">
+                <dt className={row.strong ? 'text-white font-medium' : 'text-gray-400'}>{row.label}</dt>
+                <dd className={row.strong ? 'text-white font-medium' : 'text-gray-300'}>{formatMoney(Number(row.value))}</dd>
+              </div>
+            ))}
+          </dl>
+          {report.differences && report.differences.length > 0 && (
+            <ul className="mt-4 space-y-1 text-sm text-yellow-300">
+              {report.differences.map((difference) => (
+                <li key={difference}>{difference}</li>
+              ))}
+            </ul>
+          )}
+          {signedOff?.notes && (
+            <p className="text-gray-300 text-sm mt-4">
+              <span className="text-gray-400">Notes: </span>{signedOff.notes}
+            </p>
+          )}
+        </Card>
+
+        <Card>
+          <h2 className="text-xl font-semibold text-white mb-4">Client Balances at {statement.period_end}</h2>
+          {report.client_balances.length === 0 ? (
+            <p className="text-gray-400">No client had money in the account.</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {report.client_balances.map((row) => (
+                <li key={row.client_id} className="flex justify-between py-2">
+                  <span className="text-white">{row.client_name}</span>
+                  <span className={row.balance < 0 ? 'text-red-400' : 'text-gray-300'}>
+                    {formatMoney(row.balance)}
+                    {row.balance < 0 && ' (negative balance)'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {orphanedLedgers.length > 0 && (
+            <>
+              <h3 className="text-white font-medium mt-4 mb-2">Not Counted as Client Money</h3>
+              <ul className="divide-y divide-gray-700">
+                {orphanedLedgers.map((row) => (
+                  <li key={row.client_id} className="flex justify-between py-2">
+                    <span className="text-white">
+                      {row.client_name}
+                      <span className="text-gray-400 text-sm">
+                        {row.kind === 'merged_client' ? ' (merged into another party)' : ' (not a client on file)'}
+                      </span>
+                    </span>
+                    <span className="text-yellow-300">{formatMoney(row.balance)}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </Card>
+      </div>
+
+      <Card className="mb-6">
+        <h2 className="text-xl font-semibold text-white mb-4">Outstanding Ledger Entries</h2>
+        {report.outstanding_entries.length === 0 ? (
+          <p className="text-gray-400">Every entry up to the end of the period has cleared the bank.</p>
+        ) : (
+          <ul className="divide-y divide-gray-700">
+            {report.outstanding_entries.map((entry) => (
+              <li key={entry.id} className="flex justify-between py-2">
+                <span className="text-gray-300">
+                  {entry.transaction_date} · {getTrustTransactionTypeLabel(entry.transaction_type)} · {entry.client_name} ·{' '}
+                  {entry.description}
+                  {entry.reference && ` (#${entry.reference})`}
+                </span>
+                <span className={entry.amount < 0 ? 'text-red-400' : 'text-green-400'}>{formatMoney(entry.amount)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      <Card className="mb-6">
+        <h2 className="text-xl font-semibold text-white mb-1">Statement Lines</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          Each bank line should be matched to the ledger entry it clears. Lines without an entry, such as bank fees,
+          put the reconciliation out of balance until they are recorded in the ledger.
+        </p>
+        {lines.length === 0 ? (
+          <p className="text-gray-400">The statement has no transactions.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Posted
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Description
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Ledger Entry
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {lines.map((line) => {
+                  const matched = line.trust_transaction_id ? entriesById.get(line.trust_transaction_id) : undefined;
+                  const candidates = matched ? [] : candidatesFor(line);
+
+                  return (
+                    <tr key={line.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-300">{line.posted_date}</td>
+                      <td className="px-6 py-4 text-gray-300">
+                        <div>{line.description || '-'}</div>
+                        {line.reference && <div className="text-gray-400 text-sm">Ref {line.reference}</div>}
+                      </td>
+                      <td className={`px-6 py-4 text-right whitespace-nowrap ${Number(line.amount) < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                        {formatMoney(Number(line.amount))}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {matched ? (
+                          <div className="flex items-center justify-between space-x-2">
+                            <span className="text-gray-300">
+                              {matched.transaction_date} · {matched.description}
+                            </span>
+                            {canMatch && (
+                              <Button variant="ghost" size="sm" onClick={() => handleMatch(line, null)}>
+                                Unmatch
+                              </Button>
+                            )}
+                          </div>
+                        ) : canMatch && candidates.length > 0 ? (
+                          <select
+                            value=""
+                            onChange={(e) => e.target.value && handleMatch(line, e.target.value)}
+                            className="w-full bg-gray-900 border border-gray-700 text-white px-2 py-1 rounded-md"
+                          >
+                            <option value="">Match to…</option>
+                            {candidates.map((entry) => (
+                              <option key={entry.id} value={entry.id}>
+                                {entry.transaction_date} · {entry.description}
+                                {entry.reference ? ` (#${entry.reference})` : ''}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <Badge variant="warning">Not in ledger</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {canEdit && !signedOff && (
+        <Card>
+          <h2 className="text-xl font-semibold text-white mb-2">Sign Off</h2>
+          <p className="text-gray-400 text-sm mb-4">
+            Signing off keeps this reconciliation as it is now for the firm&apos;s records.
+            {!reconciliation.is_balanced && ' The balances don\'t agree, so explain the difference first.'}
+          </p>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            placeholder="Notes"
+            className="w-full px-4 py-2 rounded-md bg-gray-900 text-white border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 mb-4"
+          />
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSignOff}
+              isLoading={isSigningOff}
+              disabled={!reconciliation.is_balanced && !notes.trim()}
+            >
+              Sign Off Reconciliation
+            </Button>
+          </div>
+        </Card>
+      )}
+    </MainLayout>
+  );
+}
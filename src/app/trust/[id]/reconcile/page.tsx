@@ -0,0 +1,269 @@
+// src/app/trust/[id]/reconcile/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { TrustAccount, TrustBankStatement, TrustReconciliation, formatMoney } from '@/lib/trust';
+
+type ReconciliationSummary = Pick<TrustReconciliation, 'id' | 'statement_id' | 'is_balanced' | 'created_at'>;
+
+interface StatementRow extends TrustBankStatement {
+  reconciliation: ReconciliationSummary | null;
+}
+
+export default function TrustReconcilePage() {
+  const params = useParams();
+  const router = useRouter();
+  const accountId = params.id as string;
+  const { can, isLoading: isLoadingPermissions } = usePermissions();
+  const canView = can('view_financials');
+  const canImport = can('edit_financials');
+
+  const [account, setAccount] = useState<TrustAccount | null>(null);
+  const [statements, setStatements] = useState<StatementRow[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [periodStart, setPeriodStart] = useState('');
+  const [periodEnd, setPeriodEnd] = useState('');
+  const [closingBalance, setClosingBalance] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (isLoadingPermissions) return;
+
+    if (canView) {
+      fetchStatements();
+    } else {
+      setIsLoading(false);
+    }
+  }, [isLoadingPermissions, canView, accountId]);
+
+  const fetchStatements = async () => {
+    try {
+      const [{ data: accountData }, { data: statementData }, { data: reconciliationData }] = await Promise.all([
+        supabase.from('trust_accounts').select('*').eq('id', accountId).maybeSingle(),
+        supabase
+          .from('trust_bank_statements')
+          .select('*')
+          .eq('trust_account_id', accountId)
+          .order('period_end', { ascending: false }),
+        supabase
+          .from('trust_reconciliations')
+          .select('id, statement_id, is_balanced, created_at')
+          .eq('trust_account_id', accountId),
+      ]);
+
+      const reconciliations = new Map(((reconciliationData || []) as ReconciliationSummary[]).map((row) => [row.statement_id, row]));
+
+      setAccount(accountData as TrustAccount | null);
+      setStatements(((statementData || []) as TrustBankStatement[]).map((statement) => ({
+        ...statement,
+        reconciliation: reconciliations.get(statement.id) || null,
+      })));
+    } catch (error) {
+      console.error('Error fetching bank statements:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setIsImporting(true);
+
+    try {
+      const response = await fetch('/api/trust/statements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          trust_account_id: accountId,
+          file_name: file.name,
+          content: await file.text(),
+          period_start: periodStart || null,
+          period_end: periodEnd || null,
+          closing_balance: closingBalance === '' ? null : Number(closingBalance),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      router.push(`/trust/${accountId}/reconcile/${result.statement.id}`);
+    } catch (error: any) {
+      console.error('Error importing bank statement:', error);
+      alert(error.message || 'Failed to import the statement. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async (statement: StatementRow) => {
+    if (!window.confirm(`Remove the statement ending ${statement.period_end}? Its matches to ledger entries are removed too.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('trust_bank_statements').delete().eq('id', statement.id);
+      if (error) throw error;
+
+      await fetchStatements();
+    } catch (error: any) {
+      console.error('Error deleting bank statement:', error);
+      alert(error.message || 'Failed to remove the statement. Please try again.');
+    }
+  };
+
+  if (!isLoadingPermissions && !canView) {
+    return (
+      <MainLayout title="Reconciliation">
+        <Card>
+          <p className="text-gray-400">Your role does not have access to trust accounting.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout title="Reconciliation">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Three-Way Reconciliation</h1>
+          <p className="text-gray-400 text-sm mt-1">
+            {account?.name}: each month&apos;s bank statement, the account&apos;s book balance and the sum of the client
+            ledgers must agree.
+          </p>
+        </div>
+        <Link href={`/trust/${accountId}`}>
+          <Button variant="outline">Back to Ledger</Button>
+        </Link>
+      </div>
+
+      {canImport && (
+        <Card className="mb-6">
+          <h2 className="text-xl font-semibold text-white mb-2">Import Bank Statement</h2>
+          <p className="text-gray-400 text-sm mb-4">
+            Upload the statement as CSV or OFX (QFX) from the bank. Leave the period and closing balance blank to use
+            the ones in the file; CSV files without a balance column need the closing balance entered.
+          </p>
+          <form onSubmit={handleImport} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-400 mb-1" htmlFor="statement-file">
+                Statement File
+              </label>
+              <input
+                id="statement-file"
+                type="file"
+                accept=".csv,.ofx,.qfx"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="w-full text-sm text-gray-300"
+              />
+            </div>
+            <Input
+              label="Period Start"
+              id="statement-period-start"
+              type="date"
+              value={periodStart}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPeriodStart(e.target.value)}
+            />
+            <Input
+              label="Period End"
+              id="statement-period-end"
+              type="date"
+              value={periodEnd}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPeriodEnd(e.target.value)}
+            />
+            <Input
+              label="Closing Balance"
+              id="statement-closing-balance"
+              type="number"
+              step="0.01"
+              value={closingBalance}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setClosingBalance(e.target.value)}
+            />
+            <div className="mb-4">
+              <Button type="submit" className="w-full" isLoading={isImporting} disabled={!file}>
+                Import
+              </Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      <Card>
+        <h2 className="text-xl font-semibold text-white mb-4">Statements</h2>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : statements.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">No statements have been imported for this account.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Period
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    File
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Closing Balance
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {statements.map((statement) => (
+                  <tr key={statement.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-white">
+                      {statement.period_start} to {statement.period_end}
+                    </td>
+                    <td className="px-6 py-4 text-gray-300">{statement.file_name}</td>
+                    <td className="px-6 py-4 text-right text-gray-300">{formatMoney(Number(statement.closing_balance))}</td>
+                    <td className="px-6 py-4">
+                      {!statement.reconciliation ? (
+                        <Badge variant="warning">Not signed off</Badge>
+                      ) : statement.reconciliation.is_balanced ? (
+                        <Badge variant="success">Reconciled</Badge>
+                      ) : (
+                        <Badge variant="danger">Signed off with differences</Badge>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                      <div className="flex justify-end space-x-2">
+                        <Link href={`/trust/${accountId}/reconcile/${statement.id}`}>
+                          <Button variant="outline" size="sm">Open</Button>
+                        </Link>
+                        {canImport && !statement.reconciliation && (
+                          <Button variant="danger" size="sm" onClick={() => handleDelete(statement)}>
+                            Remove
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </MainLayout>
+  );
+}
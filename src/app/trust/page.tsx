@@ -0,0 +1,257 @@
+// src/app/trust/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { supabase } from '@/lib/supabase';
+import MainLayout from '@/components/layout/MainLayout';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { TrustAccount, formatMoney, roundMoney } from '@/lib/trust';
+import { fetchTrustBalances } from '@/lib/trust/ledger';
+
+interface AccountSummary extends TrustAccount {
+  balance: number;
+  client_count: number;
+}
+
+export default function TrustAccountsPage() {
+  const { can, isLoading: isLoadingPermissions } = usePermissions();
+  const canView = can('view_financials');
+  const canManage = can('manage_firm');
+
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [firmId, setFirmId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [bankName, setBankName] = useState('');
+  const [last4, setLast4] = useState('');
+
+  useEffect(() => {
+    if (isLoadingPermissions) return;
+
+    if (canView) {
+      fetchAccounts();
+    } else {
+      setIsLoading(false);
+    }
+  }, [isLoadingPermissions, canView]);
+
+  const fetchAccounts = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: profile } = await supabase
+        .from('users')
+        .select('firm_id')
+        .eq('id', user.id)
+        .single();
+
+      setFirmId(profile?.firm_id || null);
+
+      const { data, error } = await supabase
+        .from('trust_accounts')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      const summaries = await Promise.all(((data || []) as TrustAccount[]).map(async (account) => {
+        const balances = await fetchTrustBalances(account.id);
+
+        return {
+          ...account,
+          balance: roundMoney(balances.reduce((sum, row) => sum + row.balance, 0)),
+          client_count: balances.filter((row) => roundMoney(row.balance) !== 0).length,
+        };
+      }));
+
+      setAccounts(summaries);
+    } catch (error) {
+      console.error('Error fetching trust accounts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!firmId || !name.trim()) return;
+
+    if (last4 && !/^\d{4}$/.test(last4)) {
+      alert('Enter only the last four digits of the account number.');
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase.from('trust_accounts').insert({
+        firm_id: firmId,
+        name: name.trim(),
+        bank_name: bankName.trim() || null,
+        account_number_last4: last4 || null,
+      });
+
+      if (error) throw error;
+
+      setName('');
+      setBankName('');
+      setLast4('');
+      await fetchAccounts();
+    } catch (error: any) {
+      console.error('Error adding trust account:', error);
+      alert(error.message || 'Failed to add the trust account. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (account: AccountSummary) => {
+    if (account.is_active && account.balance !== 0) {
+      alert('Only an account with no client funds in it can be closed.');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('trust_accounts')
+        .update({ is_active: !account.is_active })
+        .eq('id', account.id);
+
+      if (error) throw error;
+      await fetchAccounts();
+    } catch (error: any) {
+      console.error('Error updating trust account:', error);
+      alert(error.message || 'Failed to update the trust account. Please try again.');
+    }
+  };
+
+  if (!isLoadingPermissions && !canView) {
+    return (
+      <MainLayout title="Trust Accounting">
+        <Card>
+          <p className="text-gray-400">Your role does not have access to trust accounting.</p>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout title="Trust Accounting">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-white">Trust Accounting</h1>
+        <p className="text-gray-400 text-sm mt-1">
+          Client funds held in trust, with a ledger for each client. A disbursement can never take a client below zero.
+        </p>
+      </div>
+
+      <Card className="mb-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : accounts.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">No trust accounts have been set up yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700">
+              <thead>
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Account
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Bank
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Clients With Funds
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Balance
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {accounts.map((account) => (
+                  <tr key={account.id}>
+                    <td className="px-6 py-4">
+                      <Link href={`/trust/${account.id}`} className="text-white hover:text-blue-400">
+                        {account.name}
+                      </Link>
+                      {!account.is_active && (
+                        <span className="ml-2">
+                          <Badge variant="default">Closed</Badge>
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-gray-300">
+                      {[account.bank_name, account.account_number_last4 && `••••${account.account_number_last4}`]
+                        .filter(Boolean)
+                        .join(' ') || '-'}
+                    </td>
+                    <td className="px-6 py-4 text-gray-300">{account.client_count}</td>
+                    <td className="px-6 py-4 text-right text-white">{formatMoney(account.balance)}</td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap">
+                      <div className="flex justify-end space-x-2">
+                        <Link href={`/trust/${account.id}/reconcile`}>
+                          <Button variant="outline" size="sm">Reconcile</Button>
+                        </Link>
+                        {canManage && (
+                          <Button variant="outline" size="sm" onClick={() => handleToggleActive(account)}>
+                            {account.is_active ? 'Close' : 'Reopen'}
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {canManage && (
+        <Card>
+          <h2 className="text-xl font-semibold text-white mb-4">Add Trust Account</h2>
+          <form onSubmit={handleAddAccount} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <Input
+              label="Account Name"
+              id="trust-account-name"
+              placeholder="IOLTA Trust Account"
+              value={name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+            />
+            <Input
+              label="Bank"
+              id="trust-account-bank"
+              value={bankName}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBankName(e.target.value)}
+            />
+            <Input
+              label="Last 4 Digits"
+              id="trust-account-last4"
+              placeholder="1234"
+              value={last4}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLast4(e.target.value.trim())}
+            />
+            <div className="mb-4">
+              <Button type="submit" className="w-full" isLoading={isSaving} disabled={!name.trim()}>
+                Add Account
+              </Button>
+            </div>
+          </form>
+        </Card>
+      )}
+    </MainLayout>
+  );
+}
@@ -0,0 +1,195 @@
+// src/components/ai/ProposalCard.tsx
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { supabase } from '@/lib/supabase';
+import { uploadFile } from '@/lib/storage/client';
+import { Proposal } from '@/lib/ai/client';
+import { Button } from '@/components/ui/Button';
+
+interface ProposalCardProps {
+  proposal: Proposal;
+  caseId: string;
+  // Receives the proposal once it has been accepted or dismissed
+  onReviewed: (proposal: Proposal) => void;
+}
+
+const KIND_LABELS: Record<Proposal['kind'], string> = {
+  deadline: 'Proposed deadline',
+  financial: 'Proposed financial entry',
+  draft: 'Proposed draft document',
+};
+
+const CASE_TABS: Record<Proposal['kind'], string> = {
+  deadline: 'deadlines',
+  financial: 'financials',
+  draft: 'documents',
+};
+
+const inputClassName = 'w-full bg-gray-900 border border-gray-700 text-white px-2 py-1 rounded-md text-sm';
+
+// Review card for something the assistant proposed. Fields can be corrected before
+// accepting; nothing is written to the case until the user accepts.
+export default function ProposalCard({ proposal, caseId, onReviewed }: ProposalCardProps) {
+  const [draft, setDraft] = useState<Proposal>(proposal);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = (field: string, value: string | number) => {
+    setDraft((prev) => ({ ...prev, [field]: value }) as Proposal);
+  };
+
+  const writeRecord = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data: userData } = await supabase
+      .from('users')
+      .select('firm_id')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData?.firm_id) throw new Error('No firm found for this user');
+
+    if (draft.kind === 'deadline') {
+      const { data, error } = await supabase
+        .from('deadlines')
+        .insert({
+          firm_id: userData.firm_id,
+          case_id: caseId,
+          title: draft.title,
+          description: draft.description || null,
+          due_date: new Date(`${draft.due_date}T00:00:00`).toISOString(),
+          priority: draft.priority,
+          status: 'Pending',
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return data.id;
+    }
+
+    if (draft.kind === 'financial') {
+      const { data, error } = await supabase
+        .from('financials')
+        .insert({
+          firm_id: userData.firm_id,
+          case_id: caseId,
+          transaction_type: draft.transaction_type,
+          amount: Number(draft.amount),
+          description: draft.description || null,
+          transaction_date: draft.transaction_date,
+          recorded_by: user.id,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return data.id;
+    }
+
+    const file = new Blob([draft.content], { type: 'text/plain' });
+    const uploaded = await uploadFile(file, `${draft.name}.txt`, 'documents', caseId);
+
+    const { data, error } = await supabase
+      .from('documents')
+      .insert({
+        firm_id: userData.firm_id,
+        case_id: caseId,
+        name: draft.name,
+        document_type: draft.document_type,
+        file_path: uploaded.file_path,
+        file_size: uploaded.file_size,
+        mime_type: uploaded.mime_type,
+        checksum: uploaded.checksum,
+        uploaded_by: user.id,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  };
+
+  const handleAccept = async () => {
+    setIsSaving(true);
+
+    try {
+      const recordId = await writeRecord();
+      onReviewed({ ...draft, status: 'accepted', record_id: recordId });
+    } catch (error: any) {
+      console.error('Error saving proposal:', error);
+      alert(error.message || 'Failed to save. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isPending = proposal.status === 'pending';
+
+  return (
+    <div className="mt-3 rounded-md border border-gray-600 bg-gray-800 p-3 text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-xs font-medium text-gray-400 uppercase tracking-wider">{KIND_LABELS[proposal.kind]}</span>
+        {proposal.status === 'accepted' && (
+          <Link href={`/cases/${caseId}?tab=${CASE_TABS[proposal.kind]}`} className="text-xs text-green-400 hover:underline">
+            Added to case
+          </Link>
+        )}
+        {proposal.status === 'dismissed' && <span className="text-xs text-gray-500">Dismissed</span>}
+      </div>
+
+      <fieldset disabled={!isPending || isSaving} className="space-y-2">
+        {draft.kind === 'deadline' && (
+          <>
+            <input className={inputClassName} value={draft.title} onChange={(e) => update('title', e.target.value)} />
+            <div className="flex space-x-2">
+              <input type="date" className={inputClassName} value={draft.due_date} onChange={(e) => update('due_date', e.target.value)} />
+              <select className={inputClassName} value={draft.priority} onChange={(e) => update('priority', e.target.value)}>
+                <option value="High">High</option>
+                <option value="Medium">Medium</option>
+                <option value="Low">Low</option>
+              </select>
+            </div>
+            {draft.description && <p className="text-gray-400">{draft.description}</p>}
+          </>
+        )}
+
+        {draft.kind === 'financial' && (
+          <>
+            <div className="flex space-x-2">
+              <select className={inputClassName} value={draft.transaction_type} onChange={(e) => update('transaction_type', e.target.value)}>
+                <option value="Fee">Fee</option>
+                <option value="Expense">Expense</option>
+                <option value="Retainer">Retainer</option>
+                <option value="Payment">Payment</option>
+              </select>
+              <input type="number" step="0.01" className={inputClassName} value={draft.amount} onChange={(e) => update('amount', e.target.value)} />
+              <input type="date" className={inputClassName} value={draft.transaction_date} onChange={(e) => update('transaction_date', e.target.value)} />
+            </div>
+            <input className={inputClassName} value={draft.description || ''} placeholder="Description" onChange={(e) => update('description', e.target.value)} />
+          </>
+        )}
+
+        {draft.kind === 'draft' && (
+          <>
+            <input className={inputClassName} value={draft.name} onChange={(e) => update('name', e.target.value)} />
+            <textarea className={`${inputClassName} font-mono`} rows={8} value={draft.content} onChange={(e) => update('content', e.target.value)} />
+          </>
+        )}
+      </fieldset>
+
+      {isPending && (
+        <div className="flex justify-end space-x-2 mt-3">
+          <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => onReviewed({ ...proposal, status: 'dismissed' })}>
+            Dismiss
+          </Button>
+          <Button size="sm" isLoading={isSaving} onClick={handleAccept}>
+            Accept
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+// src/components/audit/AuditLog.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Badge } from '@/components/ui/Badge';
+import {
+  AUDITED_TABLES,
+  AuditEvent,
+  AuditFilters,
+  auditFiltersToSearchParams,
+  describeAuditChanges,
+  getAuditActionLabel,
+  getAuditEntityName,
+  getAuditTableLabel,
+} from '@/lib/audit';
+
+interface AuditLogProps {
+  // Limits the log to one case and the records that belong to it
+  caseId?: string;
+}
+
+interface FirmUser {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+const ACTION_BADGES: Record<string, 'success' | 'info' | 'danger'> = {
+  insert: 'success',
+  update: 'info',
+  delete: 'danger',
+};
+
+export default function AuditLog({ caseId }: AuditLogProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [users, setUsers] = useState<FirmUser[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>({ caseId });
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  useEffect(() => {
+    async function fetchUsers() {
+      const { data } = await supabase
+        .from('users')
+        .select('id, first_name, last_name')
+        .order('last_name', { ascending: true });
+
+      setUsers(data || []);
+    }
+
+    fetchUsers();
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchEvents(0).finally(() => setIsLoading(false));
+  }, [filters]);
+
+  const fetchEvents = async (offset: number) => {
+    try {
+      const params = auditFiltersToSearchParams(filters);
+      params.set('offset', String(offset));
+
+      const response = await fetch(`/api/audit?${params.toString()}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      setEvents((current) => (offset === 0 ? result.events : [...current, ...result.events]));
+      setActors(result.actors || {});
+      setHasMore(result.has_more);
+    } catch (error: any) {
+      console.error('Error fetching audit log:', error);
+      alert(error.message || 'Failed to load the audit log. Please try again.');
+    }
+  };
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    await fetchEvents(events.length);
+    setIsLoadingMore(false);
+  };
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value || undefined }));
+  };
+
+  const exportParams = auditFiltersToSearchParams(filters);
+  exportParams.set('format', 'csv');
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end mb-4">
+        <Select
+          label="User"
+          value={filters.actorId || ''}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateFilter('actorId', e.target.value)}
+          options={[
+            { value: '', label: 'All users' },
+            ...users.map((user) => ({ value: user.id, label: `${user.first_name} ${user.last_name}` })),
+          ]}
+        />
+        <Select
+          label="Record Type"
+          value={filters.tableName || ''}
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateFilter('tableName', e.target.value)}
+          options={[{ value: '', label: 'All records' }, ...AUDITED_TABLES]}
+        />
+        <Input
+          label="From"
+          id="audit-from"
+          type="date"
+          value={filters.from || ''}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('from', e.target.value)}
+        />
+        <Input
+          label="To"
+          id="audit-to"
+          type="date"
+          value={filters.to || ''}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('to', e.target.value)}
+        />
+        <div className="mb-4">
+          <a href={`/api/audit?${exportParams.toString()}`}>
+            <Button variant="outline" className="w-full">
+              Export CSV
+            </Button>
+          </a>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-gray-400 text-center py-8">No changes match these filters.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  When
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Record
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Changes
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {events.map((event) => (
+                <tr key={event.id} className="align-top">
+                  <td className="px-6 py-4 whitespace-nowrap text-gray-300 text-sm">
+                    {new Date(event.created_at).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-gray-300 text-sm">
+                    {event.actor_id ? actors[event.actor_id] || 'Former user' : 'System'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Badge variant={ACTION_BADGES[event.action] || 'default'}>{getAuditActionLabel(event.action)}</Badge>
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="text-gray-400">{getAuditTableLabel(event.table_name)}</div>
+                    <div className="text-white">{getAuditEntityName(event)}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-300">
+                    {describeAuditChanges(event).map((line) => (
+                      <div key={line} className="break-all">{line}</div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {hasMore && (
+            <div className="flex justify-center mt-4">
+              <Button variant="outline" isLoading={isLoadingMore} onClick={handleLoadMore}>
+                Load More
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
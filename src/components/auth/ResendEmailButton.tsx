@@ -0,0 +1,68 @@
+// src/components/auth/ResendEmailButton.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AuthEmailType } from '@/lib/auth/emailLinks';
+
+interface ResendEmailButtonProps {
+  email: string;
+  type: AuthEmailType;
+  label: string;
+  // Seconds to wait before the first click, e.g. right after an email was sent
+  initialCooldown?: number;
+  onSent?: () => void;
+}
+
+// Asks /api/auth/resend for another verification or reset email and counts down until
+// the server will accept the next request.
+export default function ResendEmailButton({ email, type, label, initialCooldown = 0, onSent }: ResendEmailButtonProps) {
+  const [cooldown, setCooldown] = useState(initialCooldown);
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+
+    const timer = setTimeout(() => setCooldown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleClick = async () => {
+    setIsSending(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/auth/resend', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, type }),
+      });
+      const result = await response.json();
+
+      if (result.retry_after) setCooldown(result.retry_after);
+      if (!response.ok) throw new Error(result.error);
+
+      setMessage(`Email sent to ${email}.`);
+      onSent?.();
+    } catch (error: any) {
+      console.error('Error sending email:', error);
+      setMessage(error.message || 'Failed to send the email. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={isSending || cooldown > 0 || !email}
+        className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 transition duration-200 disabled:opacity-50"
+      >
+        {isSending ? 'Sending...' : cooldown > 0 ? `${label} (${cooldown}s)` : label}
+      </button>
+      {message && <p className="text-sm text-gray-400 mt-2 text-center">{message}</p>}
+    </div>
+  );
+}
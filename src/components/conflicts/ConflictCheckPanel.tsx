@@ -0,0 +1,242 @@
+// src/components/conflicts/ConflictCheckPanel.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import {
+  ConflictDecision,
+  ConflictHit,
+  ConflictSeverity,
+  hasBlockingConflict,
+} from '@/lib/conflicts';
+import { getCasePartyRole } from '@/lib/parties/roles';
+import { usePermissions } from '@/lib/auth/usePermissions';
+
+export interface ConflictCheck {
+  id: string;
+  created_at: string;
+  client_id: string;
+  opposing_party_id: string | null;
+  results: ConflictHit[];
+  decision: ConflictDecision | null;
+  decision_notes: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+}
+
+interface ConflictCheckPanelProps {
+  clientId: string;
+  opposingPartyId: string;
+  onChange: (check: ConflictCheck | null) => void;
+}
+
+const SEVERITY_BADGES: Record<ConflictSeverity, 'danger' | 'warning' | 'info'> = {
+  conflict: 'danger',
+  warning: 'warning',
+  info: 'info',
+};
+
+// Runs and decides the conflicts check for a new case's client and opposing party.
+// The case can only be created once the check is cleared or waived.
+export default function ConflictCheckPanel({ clientId, opposingPartyId, onChange }: ConflictCheckPanelProps) {
+  const { can } = usePermissions();
+  const canDecide = can('clear_conflicts');
+  const [check, setCheck] = useState<ConflictCheck | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [decision, setDecision] = useState<ConflictDecision>('cleared');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    updateCheck(null);
+
+    if (clientId) {
+      fetchLatestCheck();
+    }
+  }, [clientId, opposingPartyId]);
+
+  const updateCheck = (next: ConflictCheck | null) => {
+    setCheck(next);
+    setDecision(next && hasBlockingConflict(next.results) ? 'waived' : 'cleared');
+    setNotes('');
+    onChange(next);
+  };
+
+  const fetchLatestCheck = async () => {
+    setIsLoading(true);
+
+    try {
+      const params = new URLSearchParams({ client_id: clientId });
+      if (opposingPartyId) params.set('opposing_party_id', opposingPartyId);
+
+      const response = await fetch(`/api/conflicts?${params}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+      updateCheck(result.check);
+    } catch (error) {
+      console.error('Error fetching conflicts check:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+
+    try {
+      const response = await fetch('/api/conflicts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ client_id: clientId, opposing_party_id: opposingPartyId || null }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+      updateCheck(result.check);
+    } catch (error: any) {
+      console.error('Error running conflicts check:', error);
+      alert(error.message || 'Failed to run the conflicts check. Please try again.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleDecide = async () => {
+    if (!check) return;
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/conflicts/${check.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, notes }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+      updateCheck(result.check);
+    } catch (error: any) {
+      console.error('Error recording conflicts decision:', error);
+      alert(error.message || 'Failed to record the decision. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const blocking = check ? hasBlockingConflict(check.results) : false;
+
+  return (
+    <Card className="mb-6">
+      <h2 className="text-xl font-semibold text-white mb-4">Conflicts Check</h2>
+
+      {!clientId ? (
+        <p className="text-gray-400 text-sm">Select a client to run the conflicts check.</p>
+      ) : isLoading ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : !check ? (
+        <>
+          <p className="text-gray-400 text-sm mb-4">
+            The case can be opened once a conflicts check for this client and opposing party has been
+            cleared or waived by an attorney.
+          </p>
+          <Button type="button" size="sm" isLoading={isRunning} onClick={handleRun}>
+            Run Conflicts Check
+          </Button>
+        </>
+      ) : (
+        <>
+          <p className="text-gray-400 text-xs mb-3">Run {new Date(check.created_at).toLocaleString()}</p>
+
+          {check.results.length === 0 ? (
+            <p className="text-gray-300 text-sm mb-4">No matching parties were found.</p>
+          ) : (
+            <ul className="space-y-2 mb-4">
+              {check.results.map((hit, index) => (
+                <li key={index} className="bg-gray-700 p-3 rounded-md">
+                  <Badge variant={SEVERITY_BADGES[hit.severity]}>{hit.severity}</Badge>
+                  <p className="text-gray-200 text-sm mt-1">{hit.reason}</p>
+                  {hit.case_role && (
+                    <p className="text-gray-400 text-xs">Role: {getCasePartyRole(hit.case_role).label}</p>
+                  )}
+                  {hit.case_id && (
+                    <Link href={`/cases/${hit.case_id}`} target="_blank" className="text-blue-400 hover:text-blue-300 text-xs">
+                      Open case
+                    </Link>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {check.decision ? (
+            <div className="border-t border-gray-700 pt-3">
+              <Badge variant={check.decision === 'cleared' ? 'success' : 'warning'}>
+                {check.decision === 'cleared' ? 'Cleared' : 'Waived'}
+              </Badge>
+              <p className="text-gray-400 text-xs mt-1">
+                {check.decided_at ? new Date(check.decided_at).toLocaleString() : ''}
+              </p>
+              {check.decision_notes && (
+                <p className="text-gray-300 text-sm mt-2 whitespace-pre-line">{check.decision_notes}</p>
+              )}
+            </div>
+          ) : canDecide ? (
+            <div className="border-t border-gray-700 pt-3 space-y-3">
+              <div className="flex gap-4">
+                <label className={`flex items-center text-sm ${blocking ? 'text-gray-500' : 'text-gray-300'}`}>
+                  <input
+                    type="radio"
+                    name="conflict_decision"
+                    className="mr-2"
+                    checked={decision === 'cleared'}
+                    disabled={blocking}
+                    onChange={() => setDecision('cleared')}
+                  />
+                  Clear
+                </label>
+                <label className="flex items-center text-sm text-gray-300">
+                  <input
+                    type="radio"
+                    name="conflict_decision"
+                    className="mr-2"
+                    checked={decision === 'waived'}
+                    onChange={() => setDecision('waived')}
+                  />
+                  Waive
+                </label>
+              </div>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                placeholder={decision === 'waived' ? 'Consent obtained and from whom (required)' : 'Notes (optional)'}
+                className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <div className="flex justify-between">
+                <Button type="button" variant="ghost" size="sm" isLoading={isRunning} onClick={handleRun}>
+                  Run Again
+                </Button>
+                <Button type="button" size="sm" isLoading={isSaving} onClick={handleDecide}>
+                  Record Decision
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="border-t border-gray-700 pt-3">
+              <p className="text-yellow-400 text-sm">
+                Waiting for an attorney to clear or waive this check. They can decide it from this page
+                by selecting the same client and opposing party.
+              </p>
+              <Button type="button" variant="ghost" size="sm" className="mt-2" isLoading={isRunning} onClick={handleRun}>
+                Run Again
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+// src/components/deadlines/CalendarFeed.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+
+// Shows the user's private .ics feed URL for subscribing from Outlook or Google Calendar
+export default function CalendarFeed() {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    async function fetchFeed() {
+      try {
+        const response = await fetch('/api/calendar');
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error);
+        setUrl(result.url);
+      } catch (error) {
+        console.error('Error fetching calendar feed:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchFeed();
+  }, []);
+
+  const handleCreate = async () => {
+    if (url && !window.confirm('Create a new feed link? Calendars subscribed to the current link will stop updating.')) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/calendar', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+      setUrl(result.url);
+      setCopied(false);
+    } catch (error: any) {
+      console.error('Error creating calendar feed:', error);
+      alert(error.message || 'Failed to create the calendar feed. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+  };
+
+  return (
+    <Card className="mb-6">
+      <h2 className="text-lg font-medium text-white mb-1">Calendar Feed</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        Subscribe to this link in Outlook or Google Calendar to see your assigned deadlines and
+        your cases' hearings. Anyone with the link can read the feed, so keep it private.
+      </p>
+
+      {isLoading ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : url ? (
+        <div className="flex items-center gap-2">
+          <input
+            readOnly
+            value={url}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 px-4 py-2 bg-gray-800 border border-gray-700 rounded-md text-gray-300 text-sm"
+          />
+          <Button variant="outline" size="sm" onClick={handleCopy}>
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+          <Button variant="ghost" size="sm" isLoading={isSaving} onClick={handleCreate}>
+            New Link
+          </Button>
+        </div>
+      ) : (
+        <Button size="sm" isLoading={isSaving} onClick={handleCreate}>
+          Create Feed Link
+        </Button>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+// src/components/deadlines/DeadlineCalendar.tsx
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+
+export interface DeadlineItem {
+  id: string;
+  title: string;
+  due_date: string;
+  priority: string;
+  status: string;
+  case_id: string;
+  case_title: string;
+  assigned_to: string | null;
+  assignee_name: string;
+}
+
+export type CalendarView = 'week' | 'month';
+
+interface DeadlineCalendarProps {
+  deadlines: DeadlineItem[];
+  view: CalendarView;
+  // Any date inside the week or month to show
+  cursor: Date;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const STATUS_STYLES: Record<string, string> = {
+  overdue: 'border-red-500 bg-red-900 text-red-100',
+  completed: 'border-gray-600 bg-gray-800 text-gray-400 line-through',
+  pending: 'border-yellow-600 bg-gray-800 text-white',
+};
+
+// Local calendar date, so a deadline shows on the day the user sees in the list
+export const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// First day shown and the day after the last one. Weeks start on Sunday and a month
+// is padded out to whole weeks.
+export const getViewRange = (view: CalendarView, cursor: Date) => {
+  const start = new Date(cursor.getFullYear(), cursor.getMonth(), view === 'month' ? 1 : cursor.getDate());
+  start.setDate(start.getDate() - start.getDay());
+
+  const end = new Date(start);
+  if (view === 'week') {
+    end.setDate(end.getDate() + 7);
+  } else {
+    const monthEnd = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
+    while (end < monthEnd) end.setDate(end.getDate() + 7);
+  }
+
+  return { start, end };
+};
+
+export default function DeadlineCalendar({ deadlines, view, cursor }: DeadlineCalendarProps) {
+  const { start, end } = getViewRange(view, cursor);
+  const todayKey = toDateKey(new Date());
+
+  const byDay = new Map<string, DeadlineItem[]>();
+  deadlines.forEach((deadline) => {
+    const key = toDateKey(new Date(deadline.due_date));
+    byDay.set(key, [...(byDay.get(key) || []), deadline]);
+  });
+
+  const days: Date[] = [];
+  for (const day = new Date(start); day < end; day.setDate(day.getDate() + 1)) {
+    days.push(new Date(day));
+  }
+
+  return (
+    <div className="grid grid-cols-7 border-t border-l border-gray-700">
+      {WEEKDAYS.map((weekday) => (
+        <div key={weekday} className="px-2 py-2 text-xs font-medium text-gray-400 uppercase tracking-wider border-r border-b border-gray-700">
+          {weekday}
+        </div>
+      ))}
+
+      {days.map((day) => {
+        const key = toDateKey(day);
+        const items = byDay.get(key) || [];
+        const isOtherMonth = view === 'month' && day.getMonth() !== cursor.getMonth();
+
+        return (
+          <div
+            key={key}
+            className={`border-r border-b border-gray-700 p-1 ${view === 'week' ? 'min-h-64' : 'min-h-28'} ${
+              isOtherMonth ? 'bg-gray-900 opacity-60' : ''
+            }`}
+          >
+            <div className={`text-xs mb-1 px-1 ${key === todayKey ? 'text-blue-400 font-bold' : 'text-gray-400'}`}>
+              {view === 'week' ? day.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }) : day.getDate()}
+            </div>
+
+            <div className="space-y-1">
+              {items.map((deadline) => (
+                <Link
+                  key={deadline.id}
+                  href={`/cases/${deadline.case_id}?tab=deadlines`}
+                  title={`${deadline.title} (${deadline.case_title}, ${deadline.assignee_name})`}
+                  className={`block truncate rounded border-l-4 px-1 py-0.5 text-xs hover:opacity-80 ${
+                    STATUS_STYLES[deadline.status.toLowerCase()] || STATUS_STYLES.pending
+                  }`}
+                >
+                  {deadline.title}
+                  {view === 'week' && <span className="block truncate text-gray-400">{deadline.case_title}</span>}
+                </Link>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
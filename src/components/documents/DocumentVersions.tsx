@@ -0,0 +1,375 @@
+// src/components/documents/DocumentVersions.tsx
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowUturnLeftIcon, ArrowUpTrayIcon } from 'react-icons/hi2';
+import { supabase } from '@/lib/supabase';
+import { fetchDocumentFile, getDocumentFileUrl, uploadFile } from '@/lib/storage/client';
+import { DiffLine, DocumentDiff, diffText, readDocumentText } from '@/lib/documents/diff';
+import { detectTemplateFormat } from '@/lib/templates/files';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+
+interface DocumentVersion {
+  id: string;
+  name: string;
+  file_path: string;
+  file_size: number;
+  mime_type: string | null;
+  checksum: string | null;
+  version: number;
+  is_current: boolean;
+  restored_from_id: string | null;
+  uploaded_by: string;
+  created_at: string;
+  uploader_name?: string;
+}
+
+interface DocumentVersionsProps {
+  documentId: string;
+  caseId: string;
+  // Called after a new version becomes current, so the parent can refresh its list
+  onVersionAdded: () => void;
+}
+
+// Unchanged lines kept around each change when a diff is collapsed
+const CONTEXT_LINES = 3;
+
+type DiffRow = DiffLine | { type: 'skipped'; count: number };
+
+const collapseUnchanged = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type !== 'equal') {
+      rows.push(lines[index]);
+      index += 1;
+      continue;
+    }
+
+    let end = index;
+    while (end < lines.length && lines[end].type === 'equal') end += 1;
+
+    const keepBefore = index === 0 ? 0 : CONTEXT_LINES;
+    const keepAfter = end === lines.length ? 0 : CONTEXT_LINES;
+
+    if (end - index > keepBefore + keepAfter + 1) {
+      rows.push(...lines.slice(index, index + keepBefore));
+      rows.push({ type: 'skipped', count: end - index - keepBefore - keepAfter });
+      rows.push(...lines.slice(end - keepAfter, end));
+    } else {
+      rows.push(...lines.slice(index, end));
+    }
+
+    index = end;
+  }
+
+  return rows;
+};
+
+export default function DocumentVersions({ documentId, caseId, onVersionAdded }: DocumentVersionsProps) {
+  const { can } = usePermissions();
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [baseId, setBaseId] = useState('');
+  const [compareId, setCompareId] = useState('');
+  const [diff, setDiff] = useState<DocumentDiff | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [documentId]);
+
+  const fetchVersions = async () => {
+    setIsLoading(true);
+
+    try {
+      const { data: documentData, error: documentError } = await supabase
+        .from('documents')
+        .select('id, parent_document_id')
+        .eq('id', documentId)
+        .single();
+
+      if (documentError) throw documentError;
+
+      const rootId = documentData.parent_document_id || documentData.id;
+
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, name, file_path, file_size, mime_type, checksum, version, is_current, restored_from_id, uploaded_by, created_at')
+        .or(`id.eq.${rootId},parent_document_id.eq.${rootId}`)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+
+      const uploaderIds = Array.from(new Set((data || []).map((version) => version.uploaded_by)));
+      const { data: usersData } = await supabase
+        .from('users')
+        .select('id, first_name, last_name')
+        .in('id', uploaderIds);
+
+      const versionsWithUploaders = (data || []).map((version) => {
+        const uploader = usersData?.find((user) => user.id === version.uploaded_by);
+        return {
+          ...version,
+          uploader_name: uploader ? `${uploader.first_name} ${uploader.last_name}` : 'Unknown'
+        };
+      });
+
+      setVersions(versionsWithUploaders);
+
+      // Default to comparing the two most recent versions
+      if (versionsWithUploaders.length > 1) {
+        setCompareId(versionsWithUploaders[0].id);
+        setBaseId(versionsWithUploaders[1].id);
+      }
+    } catch (error) {
+      console.error('Error fetching document versions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addVersion = async (
+    file: { file_path: string; file_size: number; mime_type: string | null; checksum: string | null },
+    restoredFromId: string | null = null
+  ) => {
+    const { error } = await supabase.rpc('add_document_version', {
+      p_document_id: documentId,
+      p_file_path: file.file_path,
+      p_file_size: file.file_size,
+      p_mime_type: file.mime_type,
+      p_checksum: file.checksum,
+      p_restored_from_id: restoredFromId,
+    });
+
+    if (error) throw error;
+
+    setDiff(null);
+    onVersionAdded();
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+
+    try {
+      const uploaded = await uploadFile(file, file.name, 'documents', caseId);
+      await addVersion(uploaded);
+    } catch (error: any) {
+      console.error('Error uploading new version:', error);
+      alert(error.message || 'Failed to upload the new version. Please try again.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRestore = async (version: DocumentVersion) => {
+    if (!window.confirm(`Restore version ${version.version} as the current version? The existing versions are kept.`)) {
+      return;
+    }
+
+    try {
+      await addVersion(version, version.id);
+    } catch (error: any) {
+      console.error('Error restoring version:', error);
+      alert(error.message || 'Failed to restore the version. Please try again.');
+    }
+  };
+
+  const handleCompare = async () => {
+    const base = versions.find((version) => version.id === baseId);
+    const compare = versions.find((version) => version.id === compareId);
+    if (!base || !compare) return;
+
+    setIsComparing(true);
+    setDiff(null);
+    setDiffError(null);
+
+    try {
+      const baseFormat = detectTemplateFormat(base.file_path);
+      const compareFormat = detectTemplateFormat(compare.file_path);
+
+      if (!baseFormat || !compareFormat) {
+        setDiffError('Comparison is available for text, HTML and Word (.docx) files.');
+        return;
+      }
+
+      const [baseText, compareText] = await Promise.all([
+        fetchDocumentFile(base.id).then((data) => readDocumentText(data, baseFormat)),
+        fetchDocumentFile(compare.id).then((data) => readDocumentText(data, compareFormat)),
+      ]);
+
+      setDiff(diffText(baseText, compareText));
+    } catch (error: any) {
+      console.error('Error comparing versions:', error);
+      setDiffError(error.message || 'Failed to compare these versions.');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const formatFileSize = (sizeInBytes: number) => {
+    if (sizeInBytes < 1024) {
+      return `${sizeInBytes} B`;
+    } else if (sizeInBytes < 1024 * 1024) {
+      return `${(sizeInBytes / 1024).toFixed(1)} KB`;
+    } else {
+      return `${(sizeInBytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+  };
+
+  const versionLabel = (id: string | null) => {
+    const version = versions.find((item) => item.id === id);
+    return version ? `v${version.version}` : 'an earlier version';
+  };
+
+  const renderLine = (line: DiffLine) => {
+    if (!line.parts) return line.text || ' ';
+
+    return line.parts.map((part, index) => (
+      <span
+        key={index}
+        className={part.type === 'equal' ? '' : line.type === 'added' ? 'bg-green-700' : 'bg-red-700 line-through'}
+      >
+        {part.value}
+      </span>
+    ));
+  };
+
+  if (isLoading) {
+    return <p className="text-gray-400 text-sm">Loading versions...</p>;
+  }
+
+  const versionOptions = versions.map((version) => ({
+    value: version.id,
+    label: `v${version.version} - ${new Date(version.created_at).toLocaleString()}`
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider">Version History</h3>
+        <input ref={fileInput} type="file" className="hidden" onChange={handleUpload} />
+        {can('edit_records') && (
+          <Button size="sm" className="flex items-center" isLoading={isUploading} onClick={() => fileInput.current?.click()}>
+            <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+            Upload New Version
+          </Button>
+        )}
+      </div>
+
+      <ol className="border-l border-gray-600 ml-2 space-y-3">
+        {versions.map((version) => (
+          <li key={version.id} className="ml-4">
+            <div className="flex justify-between items-center">
+              <div>
+                <p className="text-white">
+                  Version {version.version}
+                  {version.is_current && <span className="ml-2 text-xs text-green-400">Current</span>}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {version.uploader_name} - {new Date(version.created_at).toLocaleString()} - {formatFileSize(version.file_size)}
+                  {version.restored_from_id && ` - Restored from ${versionLabel(version.restored_from_id)}`}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <a href={getDocumentFileUrl(version.id)} target="_blank" rel="noopener noreferrer">
+                  <Button variant="outline" size="sm">
+                    View
+                  </Button>
+                </a>
+                <a href={getDocumentFileUrl(version.id, true)}>
+                  <Button variant="outline" size="sm">
+                    <ArrowDownTrayIcon className="h-4 w-4" />
+                  </Button>
+                </a>
+                {!version.is_current && can('edit_records') && (
+                  <Button variant="outline" size="sm" className="flex items-center" onClick={() => handleRestore(version)}>
+                    <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {versions.length > 1 && (
+        <div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <Select
+              label="Compare"
+              value={baseId}
+              onChange={(e) => setBaseId(e.target.value)}
+              options={versionOptions}
+            />
+            <Select
+              label="With"
+              value={compareId}
+              onChange={(e) => setCompareId(e.target.value)}
+              options={versionOptions}
+            />
+            <div className="mb-4">
+              <Button
+                variant="outline"
+                isLoading={isComparing}
+                disabled={!baseId || !compareId || baseId === compareId}
+                onClick={handleCompare}
+              >
+                Show Changes
+              </Button>
+            </div>
+          </div>
+
+          {diffError && <p className="text-red-400 text-sm">{diffError}</p>}
+
+          {diff && (
+            <div>
+              <p className="text-sm text-gray-400 mb-2">
+                <span className="text-green-400">{diff.added} added</span>,{' '}
+                <span className="text-red-400">{diff.removed} removed</span>
+              </p>
+              {diff.added === 0 && diff.removed === 0 ? (
+                <p className="text-gray-400 text-sm">The text of these versions is identical.</p>
+              ) : (
+                <div className="bg-gray-900 rounded-md overflow-x-auto max-h-[32rem] overflow-y-auto font-mono text-sm">
+                  {collapseUnchanged(diff.lines).map((row, index) =>
+                    row.type === 'skipped' ? (
+                      <div key={index} className="px-4 py-1 text-gray-500 bg-gray-800">
+                        {row.count} unchanged lines
+                      </div>
+                    ) : (
+                      <div
+                        key={index}
+                        className={`flex whitespace-pre-wrap ${
+                          row.type === 'added' ? 'bg-green-900/40' : row.type === 'removed' ? 'bg-red-900/40' : ''
+                        }`}
+                      >
+                        <span className="w-12 shrink-0 text-right pr-2 text-gray-500 select-none">{row.oldLine ?? ''}</span>
+                        <span className="w-12 shrink-0 text-right pr-2 text-gray-500 select-none">{row.newLine ?? ''}</span>
+                        <span className="w-4 shrink-0 text-gray-500 select-none">
+                          {row.type === 'added' ? '+' : row.type === 'removed' ? '-' : ''}
+                        </span>
+                        <span className="text-gray-200">{renderLine(row)}</span>
+                      </div>
+                    )
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
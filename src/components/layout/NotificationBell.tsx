@@ -0,0 +1,108 @@
+// src/components/layout/NotificationBell.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { BellIcon } from 'react-icons/hi2';
+import { supabase } from '@/lib/supabase';
+
+interface Notification {
+  id: string;
+  created_at: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+}
+
+// Header bell listing the signed-in user's in-app notifications, such as deadline reminders
+export default function NotificationBell() {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, []);
+
+  const fetchNotifications = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data } = await supabase
+      .from('notifications')
+      .select('id, created_at, title, body, link, read_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    setNotifications(data || []);
+  };
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return;
+    }
+
+    setNotifications((prev) => prev.map((item) => (ids.includes(item.id) ? { ...item, read_at: readAt } : item)));
+  };
+
+  const unread = notifications.filter((item) => !item.read_at);
+
+  return (
+    <div className="relative">
+      <button className="relative text-gray-300 hover:text-white" onClick={() => setIsOpen(!isOpen)}>
+        <BellIcon className="h-6 w-6" />
+        {unread.length > 0 && (
+          <span className="absolute -top-1 -right-1 rounded-full bg-red-600 px-1.5 text-xs text-white">
+            {unread.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-80 rounded-md border border-gray-700 bg-gray-800 shadow-lg">
+          <div className="flex justify-between items-center px-4 py-2 border-b border-gray-700">
+            <span className="text-sm font-medium text-white">Notifications</span>
+            {unread.length > 0 && (
+              <button className="text-xs text-blue-400 hover:text-blue-300" onClick={() => markRead(unread.map((item) => item.id))}>
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-gray-400">No notifications</p>
+          ) : (
+            <ul className="max-h-96 overflow-auto divide-y divide-gray-700">
+              {notifications.map((item) => (
+                <li key={item.id} className={item.read_at ? 'opacity-60' : ''}>
+                  <Link
+                    href={item.link || '/deadlines'}
+                    className="block px-4 py-3 hover:bg-gray-700"
+                    onClick={() => {
+                      markRead(item.read_at ? [] : [item.id]);
+                      setIsOpen(false);
+                    }}
+                  >
+                    <p className="text-sm text-white">{item.title}</p>
+                    {item.body && <p className="text-xs text-gray-400 mt-1">{item.body}</p>}
+                    <p className="text-xs text-gray-500 mt-1">{new Date(item.created_at).toLocaleString()}</p>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
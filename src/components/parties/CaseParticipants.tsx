@@ -0,0 +1,253 @@
+// src/components/parties/CaseParticipants.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { PlusIcon, XMarkIcon } from 'react-icons/hi2';
+import { supabase } from '@/lib/supabase';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { CASE_PARTY_ROLES, compareRoles, getCasePartyRole } from '@/lib/parties/roles';
+import { getPartyName } from '@/lib/conflicts';
+import { usePermissions } from '@/lib/auth/usePermissions';
+
+interface Party {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  organization_name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+interface Participant {
+  id: string;
+  party_id: string;
+  role: string;
+  represents_party_id: string | null;
+}
+
+interface CaseParticipantsProps {
+  caseId: string;
+  firmId: string;
+  clientId: string;
+}
+
+// Parties card on the case page: everyone on the case grouped by role, with a form to
+// add or remove participants
+export default function CaseParticipants({ caseId, firmId, clientId }: CaseParticipantsProps) {
+  const { can } = usePermissions();
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [parties, setParties] = useState<Party[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [partyId, setPartyId] = useState('');
+  const [role, setRole] = useState('defendant');
+  const [representsId, setRepresentsId] = useState('');
+
+  useEffect(() => {
+    fetchParticipants();
+  }, [caseId]);
+
+  const fetchParticipants = async () => {
+    const [participantsResult, partiesResult] = await Promise.all([
+      supabase
+        .from('case_parties')
+        .select('id, party_id, role, represents_party_id')
+        .eq('case_id', caseId)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('parties')
+        .select('id, first_name, last_name, organization_name, email, phone')
+        .eq('firm_id', firmId)
+        .is('merged_into', null),
+    ]);
+
+    if (participantsResult.error) {
+      console.error('Error fetching case parties:', participantsResult.error);
+    }
+
+    setParticipants(participantsResult.data || []);
+    setParties(partiesResult.data || []);
+  };
+
+  const partiesById = new Map(parties.map((party) => [party.id, party]));
+
+  const getNameById = (partyId: string) => {
+    const party = partiesById.get(partyId);
+    return party ? getPartyName(party) : 'Unknown party';
+  };
+
+  const handleAdd = async () => {
+    if (!partyId) return;
+
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('case_parties')
+        .insert({
+          firm_id: firmId,
+          case_id: caseId,
+          party_id: partyId,
+          role,
+          represents_party_id: getCasePartyRole(role).actsFor && representsId ? representsId : null,
+        });
+
+      if (error) throw error;
+
+      setPartyId('');
+      setRepresentsId('');
+      setIsAdding(false);
+      fetchParticipants();
+    } catch (error: any) {
+      console.error('Error adding case party:', error);
+      alert(error.message || 'Failed to add the party. Please try again.');
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleRemove = async (participant: Participant) => {
+    const name = getNameById(participant.party_id);
+    if (!window.confirm(`Remove ${name} as ${getCasePartyRole(participant.role).label.toLowerCase()}?`)) return;
+
+    const { error } = await supabase
+      .from('case_parties')
+      .delete()
+      .eq('id', participant.id);
+
+    if (error) {
+      console.error('Error removing case party:', error);
+      alert(error.message || 'Failed to remove the party. Please try again.');
+      return;
+    }
+
+    setParticipants((prev) => prev.filter((item) => item.id !== participant.id));
+  };
+
+  // A party merged into another can show up twice in one role; list it once
+  const roles = Array.from(new Set(participants.map((participant) => participant.role))).sort(compareRoles);
+  const grouped = roles.map((roleValue) => {
+    const seen = new Set<string>();
+    return {
+      role: getCasePartyRole(roleValue),
+      participants: participants.filter((participant) => {
+        const key = `${participant.party_id}:${participant.represents_party_id || ''}`;
+        if (participant.role !== roleValue || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }),
+    };
+  });
+
+  const caseParties = Array.from(new Set(participants.map((participant) => participant.party_id)));
+
+  return (
+    <Card className="mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-white">Parties</h2>
+        {!isAdding && can('edit_records') && (
+          <Button variant="ghost" size="sm" className="flex items-center" onClick={() => setIsAdding(true)}>
+            <PlusIcon className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        )}
+      </div>
+
+      {isAdding && (
+        <div className="bg-gray-700 p-3 rounded-md mb-4 space-y-2">
+          <select
+            value={partyId}
+            onChange={(e) => setPartyId(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white text-sm"
+          >
+            <option value="">Select a party</option>
+            {parties.map((party) => (
+              <option key={party.id} value={party.id}>{getPartyName(party)}</option>
+            ))}
+          </select>
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white text-sm"
+          >
+            {CASE_PARTY_ROLES.map((item) => (
+              <option key={item.value} value={item.value}>{item.label}</option>
+            ))}
+          </select>
+          {getCasePartyRole(role).actsFor && (
+            <select
+              value={representsId}
+              onChange={(e) => setRepresentsId(e.target.value)}
+              className="w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white text-sm"
+            >
+              <option value="">Acting for...</option>
+              {caseParties.map((id) => (
+                <option key={id} value={id}>{getNameById(id)}</option>
+              ))}
+            </select>
+          )}
+          <p className="text-gray-400 text-xs">
+            Not listed? <Link href="/parties/new" target="_blank" className="text-blue-400 hover:text-blue-300">Create a party</Link>
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setIsAdding(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" isLoading={isSaving} disabled={!partyId} onClick={handleAdd}>
+              Add Party
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {grouped.length === 0 ? (
+        <p className="text-gray-400">No parties on this case</p>
+      ) : (
+        <div className="space-y-4">
+          {grouped.map(({ role: roleInfo, participants: members }) => (
+            <div key={roleInfo.value}>
+              <p className="text-sm text-gray-400 mb-1">
+                {members.length > 1 ? roleInfo.plural.replace(/_/g, ' ').replace(/^\w/, (c) => c.toUpperCase()) : roleInfo.label}
+              </p>
+              <div className="space-y-2">
+                {members.map((participant) => {
+                  const party = partiesById.get(participant.party_id);
+
+                  return (
+                    <div key={participant.id} className="bg-gray-700 p-3 rounded-md flex justify-between items-start">
+                      <div>
+                        <Link href={`/parties/${participant.party_id}`} className="block text-white font-medium hover:text-blue-300">
+                          {getNameById(participant.party_id)}
+                        </Link>
+                        {participant.party_id === clientId && <Badge variant="success" className="mt-1">Our Client</Badge>}
+                        {participant.represents_party_id && (
+                          <p className="text-gray-300 text-sm">
+                            For {getNameById(participant.represents_party_id)}
+                          </p>
+                        )}
+                        {party?.email && <p className="text-gray-300 text-sm">{party.email}</p>}
+                        {party?.phone && <p className="text-gray-300 text-sm">{party.phone}</p>}
+                      </div>
+                      {can('edit_records') && (
+                        <button
+                          className="text-gray-400 hover:text-red-400"
+                          title="Remove from case"
+                          onClick={() => handleRemove(participant)}
+                        >
+                          <XMarkIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
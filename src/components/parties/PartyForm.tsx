@@ -0,0 +1,236 @@
+// src/components/parties/PartyForm.tsx
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Textarea } from '@/components/ui/Textarea';
+
+export const PARTY_TYPES = [
+  'Client',
+  'Opposing Party',
+  'Lender',
+  'Borrower',
+  'Witness',
+  'Expert',
+  'Opposing Counsel',
+  'Other',
+];
+
+const PHONE_PATTERN = /^[+\d][\d\s().-]*(\s*(x|ext\.?)\s*\d+)?$/i;
+
+// A party needs either an organization name or both a first and last name, matching the
+// valid_name check on the parties table
+export const partySchema = z
+  .object({
+    type: z.string().min(1, 'Type is required'),
+    is_client: z.boolean(),
+    first_name: z.string().trim().optional(),
+    last_name: z.string().trim().optional(),
+    organization_name: z.string().trim().optional(),
+    email: z.string().trim().email('Enter a valid email address').or(z.literal('')).optional(),
+    phone: z
+      .string()
+      .trim()
+      .refine((value) => value === '' || PHONE_PATTERN.test(value), 'Enter a valid phone number')
+      .optional(),
+    address: z.string().optional(),
+    notes: z.string().optional(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.organization_name) return;
+
+    if (!values.first_name) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['first_name'],
+        message: 'First name is required unless an organization name is given',
+      });
+    }
+
+    if (!values.last_name) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['last_name'],
+        message: 'Last name is required unless an organization name is given',
+      });
+    }
+  });
+
+export type PartyFormValues = z.infer<typeof partySchema>;
+
+// Converts form values to a parties row, storing blank fields as null
+export const toPartyRow = (values: PartyFormValues) => ({
+  type: values.type,
+  is_client: values.is_client,
+  first_name: values.first_name || null,
+  last_name: values.last_name || null,
+  organization_name: values.organization_name || null,
+  email: values.email || null,
+  phone: values.phone || null,
+  address: values.address?.trim() || null,
+  notes: values.notes?.trim() || null,
+});
+
+interface PartyFormProps {
+  defaultValues?: Partial<PartyFormValues>;
+  submitLabel: string;
+  isLoading: boolean;
+  onSubmit: (values: PartyFormValues) => void;
+}
+
+export default function PartyForm({ defaultValues, submitLabel, isLoading, onSubmit }: PartyFormProps) {
+  const router = useRouter();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    formState: { errors },
+  } = useForm<PartyFormValues>({
+    resolver: zodResolver(partySchema),
+    defaultValues: {
+      type: 'Client',
+      is_client: true,
+      ...defaultValues,
+    },
+  });
+
+  // Older parties may have a type that is no longer offered; keep it selectable
+  const typeOptions = PARTY_TYPES.includes(defaultValues?.type || 'Client')
+    ? PARTY_TYPES
+    : [...PARTY_TYPES, defaultValues!.type!];
+
+  const typeField = register('type');
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <div className="max-w-3xl">
+        <Card className="mb-6">
+          <h2 className="text-xl font-semibold text-white mb-4">Party Information</h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Select
+              label="Type"
+              id="type"
+              {...typeField}
+              onChange={(e) => {
+                typeField.onChange(e);
+                // Picking Client or Opposing Party sets the client flag to match
+                if (e.target.value === 'Client') setValue('is_client', true);
+                if (e.target.value === 'Opposing Party') setValue('is_client', false);
+              }}
+              error={errors.type?.message}
+              options={typeOptions.map((type) => ({ value: type, label: type }))}
+            />
+
+            <div className="flex items-center md:mt-6">
+              <input
+                type="checkbox"
+                id="is_client"
+                {...register('is_client')}
+                className="h-4 w-4 rounded border-gray-700 bg-gray-800 text-blue-600 focus:ring-blue-500"
+              />
+              <label htmlFor="is_client" className="ml-2 text-sm text-gray-300">
+                This party is a client of the firm
+              </label>
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <Input
+              label="Organization Name"
+              id="organization_name"
+              {...register('organization_name')}
+              error={errors.organization_name?.message}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <Input
+              label="First Name"
+              id="first_name"
+              {...register('first_name')}
+              error={errors.first_name?.message}
+            />
+
+            <Input
+              label="Last Name"
+              id="last_name"
+              {...register('last_name')}
+              error={errors.last_name?.message}
+            />
+          </div>
+          <p className="text-gray-400 text-sm mt-2">
+            Enter an organization name, a first and last name, or both for a contact at an organization.
+          </p>
+        </Card>
+
+        <Card className="mb-6">
+          <h2 className="text-xl font-semibold text-white mb-4">Contact Information</h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Email"
+              id="email"
+              type="email"
+              {...register('email')}
+              error={errors.email?.message}
+            />
+
+            <Input
+              label="Phone"
+              id="phone"
+              type="tel"
+              {...register('phone')}
+              error={errors.phone?.message}
+            />
+          </div>
+
+          <div className="mt-4">
+            <Textarea
+              label="Address"
+              id="address"
+              rows={3}
+              {...register('address')}
+              error={errors.address?.message}
+            />
+          </div>
+
+          <div className="mt-4">
+            <Textarea
+              label="Notes"
+              id="notes"
+              {...register('notes')}
+              error={errors.notes?.message}
+            />
+          </div>
+        </Card>
+
+        <div className="flex justify-end mt-6">
+          <Button
+            type="button"
+            variant="outline"
+            className="mr-4"
+            onClick={() => router.back()}
+          >
+            Cancel
+          </Button>
+
+          <Button
+            type="submit"
+            isLoading={isLoading}
+          >
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,185 @@
+// src/components/settings/MfaCard.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+
+interface Factor {
+  id: string;
+  friendly_name?: string;
+  created_at: string;
+}
+
+interface PendingEnrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+interface MfaCardProps {
+  isRequired: boolean;
+  onEnrolled?: () => void;
+}
+
+// Enrolls and removes authenticator-app (TOTP) factors for the signed-in user. A factor
+// only counts once its first code has been verified.
+export default function MfaCard({ isRequired, onEnrolled }: MfaCardProps) {
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [pending, setPending] = useState<PendingEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    fetchFactors();
+  }, []);
+
+  const fetchFactors = async () => {
+    const { data, error } = await supabase.auth.mfa.listFactors();
+
+    if (error) {
+      console.error('Error fetching MFA factors:', error);
+    }
+
+    setFactors(data?.totp || []);
+    setIsLoading(false);
+  };
+
+  const handleStart = async () => {
+    setIsBusy(true);
+
+    try {
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName: `Authenticator ${new Date().toLocaleDateString()}`,
+      });
+      if (error) throw error;
+
+      setPending({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+      setCode('');
+    } catch (error: any) {
+      console.error('Error starting MFA enrollment:', error);
+      alert(error.message || 'Failed to start enrollment. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!pending) return;
+
+    setIsBusy(true);
+
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: pending.factorId, code: code.trim() });
+      if (error) throw error;
+
+      setPending(null);
+      await fetchFactors();
+      onEnrolled?.();
+    } catch (error: any) {
+      console.error('Error verifying MFA code:', error);
+      alert(error.message || 'That code did not match. Check the time on your device and try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!pending) return;
+
+    // The unverified factor would otherwise linger and block a fresh enrollment
+    await supabase.auth.mfa.unenroll({ factorId: pending.factorId });
+    setPending(null);
+  };
+
+  const handleRemove = async (factor: Factor) => {
+    if (isRequired && factors.length === 1) {
+      alert('Your firm requires two-factor authentication, so your only authenticator cannot be removed.');
+      return;
+    }
+
+    if (!window.confirm('Remove this authenticator? You will no longer be asked for its codes.')) return;
+
+    setIsBusy(true);
+
+    try {
+      const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      if (error) throw error;
+
+      await fetchFactors();
+    } catch (error: any) {
+      console.error('Error removing MFA factor:', error);
+      alert(error.message || 'Failed to remove the authenticator. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold text-white">Two-Factor Authentication</h2>
+        {factors.length > 0 ? <Badge variant="success">On</Badge> : <Badge variant={isRequired ? 'danger' : 'default'}>Off</Badge>}
+      </div>
+      <p className="text-gray-400 text-sm mb-4">
+        Use an authenticator app such as 1Password, Authy or Google Authenticator to generate a code each time you sign in.
+        {isRequired && ' Your firm requires this.'}
+      </p>
+
+      {isLoading ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : pending ? (
+        <div className="max-w-md">
+          <p className="text-gray-300 text-sm mb-3">Scan this code with your authenticator app, then enter the six-digit code it shows.</p>
+          {/* qr_code is an SVG data URL generated by Supabase */}
+          <img src={pending.qrCode} alt="Authenticator QR code" className="bg-white p-2 rounded-md mb-3 h-48 w-48" />
+          <p className="text-gray-400 text-xs mb-3">
+            Can&apos;t scan it? Enter this key instead: <span className="font-mono text-gray-200 break-all">{pending.secret}</span>
+          </p>
+          <Input
+            label="Code"
+            id="mfa-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button isLoading={isBusy} disabled={code.trim().length !== 6} onClick={handleVerify}>
+              Verify and Turn On
+            </Button>
+            <Button variant="ghost" onClick={handleCancel}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {factors.length > 0 && (
+            <ul className="divide-y divide-gray-700 mb-4">
+              {factors.map((factor) => (
+                <li key={factor.id} className="flex justify-between items-center py-3">
+                  <div>
+                    <p className="text-white text-sm">{factor.friendly_name || 'Authenticator app'}</p>
+                    <p className="text-gray-400 text-xs">Added {new Date(factor.created_at).toLocaleDateString()}</p>
+                  </div>
+                  <Button variant="outline" size="sm" disabled={isBusy} onClick={() => handleRemove(factor)}>
+                    Remove
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <Button variant={factors.length > 0 ? 'outline' : 'primary'} isLoading={isBusy} onClick={handleStart}>
+            {factors.length > 0 ? 'Add Another Authenticator' : 'Set Up Authenticator App'}
+          </Button>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+// src/components/settings/SetPasswordCard.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/lib/supabase';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { DEFAULT_SECURITY_POLICY, SecurityPolicy, describePasswordPolicy, getPasswordProblems } from '@/lib/auth/policy';
+
+const passwordSchema = (policy: SecurityPolicy) => z
+  .object({
+    password: z.string().superRefine((password, ctx) => {
+      const [problem] = getPasswordProblems(password, policy);
+      if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    }),
+    confirm: z.string(),
+  })
+  .refine((values) => values.password === values.confirm, {
+    path: ['confirm'],
+    message: 'Passwords do not match',
+  });
+
+type PasswordFormValues = z.infer<ReturnType<typeof passwordSchema>>;
+
+interface SetPasswordCardProps {
+  title: string;
+  description?: string;
+  onSaved?: () => void;
+}
+
+// Sets a new password for the signed-in user, e.g. after accepting an invitation. The
+// firm's password policy is checked here for quick feedback and again by the API.
+export default function SetPasswordCard({ title, description, onSaved }: SetPasswordCardProps) {
+  const [policy, setPolicy] = useState<SecurityPolicy>(DEFAULT_SECURITY_POLICY);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<PasswordFormValues>({
+    resolver: zodResolver(passwordSchema(policy)),
+  });
+
+  useEffect(() => {
+    async function fetchPolicy() {
+      const { data } = await supabase.rpc('current_security_policy').maybeSingle<SecurityPolicy>();
+      if (data) setPolicy(data);
+    }
+
+    fetchPolicy();
+  }, []);
+
+  const onSubmit = async (values: PasswordFormValues) => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/auth/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: values.password }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error);
+
+      reset();
+      setIsSaved(true);
+      onSaved?.();
+    } catch (error: any) {
+      console.error('Error setting password:', error);
+      alert(error.message || 'Failed to set your password. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <h2 className="text-xl font-semibold text-white mb-2">{title}</h2>
+      {description && <p className="text-gray-400 text-sm mb-4">{description}</p>}
+
+      {isSaved ? (
+        <p className="text-green-400 text-sm">Your password has been saved.</p>
+      ) : (
+        <form onSubmit={handleSubmit(onSubmit)} className="max-w-md">
+          <p className="text-gray-400 text-xs mb-3">{describePasswordPolicy(policy)}</p>
+          <Input
+            label="New Password"
+            id="password"
+            type="password"
+            autoComplete="new-password"
+            {...register('password')}
+            error={errors.password?.message}
+          />
+          <Input
+            label="Confirm Password"
+            id="confirm"
+            type="password"
+            autoComplete="new-password"
+            {...register('confirm')}
+            error={errors.confirm?.message}
+          />
+          <Button type="submit" isLoading={isSaving}>
+            Save Password
+          </Button>
+        </form>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+// src/components/time/BillingRates.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { formatMoney, roundMoney } from '@/lib/trust';
+import { BillingRate } from '@/lib/time';
+
+interface BillingRatesProps {
+  firmId: string;
+  // With a case, the rates that apply on it; without, each user's own rate
+  caseId?: string;
+}
+
+interface FirmUser {
+  id: string;
+  first_name: string;
+  last_name: string;
+}
+
+// Hourly rates table and form. Changing a rate only prices time stopped afterwards;
+// recorded time keeps the rate it was saved with.
+export default function BillingRates({ firmId, caseId }: BillingRatesProps) {
+  const { can } = usePermissions();
+  const canEdit = can('edit_financials');
+
+  const [rates, setRates] = useState<BillingRate[]>([]);
+  const [users, setUsers] = useState<FirmUser[]>([]);
+  const [userId, setUserId] = useState('');
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRates();
+  }, [firmId, caseId]);
+
+  const fetchRates = async () => {
+    let query = supabase.from('billing_rates').select('*').eq('firm_id', firmId);
+    query = caseId ? query.eq('case_id', caseId) : query.is('case_id', null);
+
+    const [ratesResult, usersResult] = await Promise.all([
+      query,
+      supabase
+        .from('users')
+        .select('id, first_name, last_name')
+        .eq('firm_id', firmId)
+        .order('last_name', { ascending: true }),
+    ]);
+
+    if (ratesResult.error) {
+      console.error('Error fetching billing rates:', ratesResult.error);
+    }
+
+    setRates((ratesResult.data || []) as BillingRate[]);
+    setUsers((usersResult.data || []) as FirmUser[]);
+  };
+
+  const userNames = new Map(users.map((user) => [user.id, `${user.first_name} ${user.last_name}`]));
+
+  const getRateLabel = (rate: BillingRate) => {
+    if (!rate.user_id) return 'Everyone on this case';
+    return userNames.get(rate.user_id) || 'Former user';
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = Number(hourlyRate);
+    if (hourlyRate === '' || !Number.isFinite(amount) || amount < 0) {
+      alert('Enter an hourly rate of zero or more.');
+      return;
+    }
+
+    if (!caseId && !userId) {
+      alert('Choose whose rate this is.');
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const existing = rates.find((rate) => (rate.user_id || '') === userId);
+      const { error } = existing
+        ? await supabase.from('billing_rates').update({ hourly_rate: roundMoney(amount) }).eq('id', existing.id)
+        : await supabase.from('billing_rates').insert({
+            firm_id: firmId,
+            user_id: userId || null,
+            case_id: caseId || null,
+            hourly_rate: roundMoney(amount),
+          });
+
+      if (error) throw error;
+
+      setUserId('');
+      setHourlyRate('');
+      fetchRates();
+    } catch (error: any) {
+      console.error('Error saving billing rate:', error);
+      alert(error.message || 'Failed to save the rate. Please try again.');
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleRemove = async (rate: BillingRate) => {
+    if (!window.confirm(`Remove the rate for ${getRateLabel(rate).toLowerCase()}?`)) return;
+
+    const { error } = await supabase.from('billing_rates').delete().eq('id', rate.id);
+
+    if (error) {
+      console.error('Error removing billing rate:', error);
+      alert(error.message || 'Failed to remove the rate. Please try again.');
+      return;
+    }
+
+    fetchRates();
+  };
+
+  return (
+    <div>
+      {rates.length === 0 ? (
+        <p className="text-gray-400 mb-4">
+          {caseId ? 'No rates set for this case; users\' own rates apply.' : 'No user rates set; the firm default applies.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-700 mb-4">
+          {rates.map((rate) => (
+            <li key={rate.id} className="py-3 flex justify-between items-center">
+              <span className="text-white">{getRateLabel(rate)}</span>
+              <div className="flex items-center space-x-4">
+                <span className="text-gray-300">{formatMoney(Number(rate.hourly_rate))}/h</span>
+                {canEdit && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(rate)}>
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-3 gap-x-4 items-end">
+          <Select
+            label="Applies To"
+            value={userId}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setUserId(e.target.value)}
+            options={[
+              { value: '', label: caseId ? 'Everyone on this case' : 'Select user' },
+              ...users.map((user) => ({ value: user.id, label: `${user.first_name} ${user.last_name}` })),
+            ]}
+          />
+          <Input
+            label="Hourly Rate"
+            id={caseId ? 'case-hourly-rate' : 'user-hourly-rate'}
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="e.g. 250.00"
+            value={hourlyRate}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHourlyRate(e.target.value)}
+          />
+          <div className="mb-4">
+            <Button type="submit" isLoading={isSaving}>
+              Set Rate
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,378 @@
+// src/components/time/CaseTimeEntries.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { PlusIcon } from 'react-icons/hi2';
+import { supabase } from '@/lib/supabase';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Badge } from '@/components/ui/Badge';
+import { usePermissions } from '@/lib/auth/usePermissions';
+import { formatMoney, roundMoney } from '@/lib/trust';
+import {
+  ACTIVITY_CODES,
+  DEFAULT_TIME_INCREMENT_MINUTES,
+  TimeEntry,
+  formatHours,
+  getActivityLabel,
+  roundUpToIncrement,
+} from '@/lib/time';
+import { recordTime } from '@/lib/time/entries';
+
+interface CaseTimeEntriesProps {
+  caseId: string;
+  firmId: string;
+  // Changes when the header timer starts or stops, to reload the list
+  refreshKey?: number;
+}
+
+interface TimeEntryRow extends TimeEntry {
+  user: { first_name: string; last_name: string } | null;
+  invoice: { invoice_number: string } | null;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Date and time inputs work in the browser's time zone, the entries in UTC
+const toLocalDate = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const toLocalTime = (iso: string) => {
+  const date = new Date(iso);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const emptyForm = () => ({
+  date: toLocalDate(new Date().toISOString()),
+  startTime: '09:00',
+  hours: '',
+  activityCode: '',
+  narrative: '',
+  isBillable: true,
+});
+
+// Time tab on the case page: everyone's time on the case for financial roles, otherwise
+// the user's own, with a form to enter time worked without the timer
+export default function CaseTimeEntries({ caseId, firmId, refreshKey }: CaseTimeEntriesProps) {
+  const { can } = usePermissions();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<TimeEntryRow[]>([]);
+  const [incrementMinutes, setIncrementMinutes] = useState(DEFAULT_TIME_INCREMENT_MINUTES);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [caseId, refreshKey]);
+
+  const fetchEntries = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setUserId(user?.id || null);
+
+      const [entriesResult, firmResult] = await Promise.all([
+        supabase
+          .from('time_entries')
+          .select('*, user:user_id(first_name, last_name), invoice:invoice_id(invoice_number)')
+          .eq('case_id', caseId)
+          .order('started_at', { ascending: false }),
+        supabase.from('firms').select('time_increment_minutes').eq('id', firmId).maybeSingle(),
+      ]);
+
+      if (entriesResult.error) throw entriesResult.error;
+
+      setEntries((entriesResult.data || []) as TimeEntryRow[]);
+      if (firmResult.data) setIncrementMinutes(firmResult.data.time_increment_minutes);
+    } catch (error) {
+      console.error('Error fetching time entries:', error);
+    }
+  };
+
+  const canChange = (entry: TimeEntryRow) => {
+    if (entry.invoice_id || !entry.stopped_at) return false;
+    return can('edit_financials') || (entry.user_id === userId && can('record_time'));
+  };
+
+  const openForm = (entry?: TimeEntryRow) => {
+    if (entry) {
+      setEditingId(entry.id);
+      setForm({
+        date: toLocalDate(entry.started_at),
+        startTime: toLocalTime(entry.started_at),
+        hours: String(Math.round(Number(entry.duration_seconds || 0) / 36) / 100),
+        activityCode: entry.activity_code || '',
+        narrative: entry.narrative || '',
+        isBillable: entry.is_billable,
+      });
+    } else {
+      setEditingId(null);
+      setForm(emptyForm());
+    }
+
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+
+    const hours = Number(form.hours);
+    const startedAt = new Date(`${form.date}T${form.startTime || '00:00'}`);
+
+    if (!Number.isFinite(hours) || hours <= 0 || hours > 24) {
+      alert('Enter the hours worked, up to 24.');
+      return;
+    }
+
+    if (Number.isNaN(startedAt.getTime())) {
+      alert('Enter the date and time the work started.');
+      return;
+    }
+
+    const input = {
+      case_id: caseId,
+      started_at: startedAt.toISOString(),
+      stopped_at: new Date(startedAt.getTime() + Math.round(hours * 3600) * 1000).toISOString(),
+      activity_code: form.activityCode || null,
+      narrative: form.narrative.trim() || null,
+      is_billable: form.isBillable,
+    };
+
+    setIsSaving(true);
+
+    try {
+      if (editingId) {
+        const { error } = await supabase.from('time_entries').update(input).eq('id', editingId);
+        if (error) throw error;
+      } else {
+        await recordTime(firmId, userId, input);
+      }
+
+      setIsFormOpen(false);
+      setEditingId(null);
+      fetchEntries();
+    } catch (error: any) {
+      console.error('Error saving time entry:', error);
+      alert(error.message || 'Failed to save the time. Please try again.');
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleDelete = async (entry: TimeEntryRow) => {
+    if (!window.confirm(`Delete ${formatHours(Number(entry.billed_hours))} from ${toLocalDate(entry.started_at)}?`)) return;
+
+    const { error } = await supabase.from('time_entries').delete().eq('id', entry.id);
+
+    if (error) {
+      console.error('Error deleting time entry:', error);
+      alert(error.message || 'Failed to delete the time. Please try again.');
+      return;
+    }
+
+    fetchEntries();
+  };
+
+  const stopped = entries.filter((entry) => entry.stopped_at);
+  const totalHours = stopped.reduce((sum, entry) => sum + Number(entry.billed_hours), 0);
+  const unbilledAmount = roundMoney(
+    stopped
+      .filter((entry) => entry.is_billable && !entry.invoice_id)
+      .reduce((sum, entry) => sum + Number(entry.amount), 0)
+  );
+  const previewHours = Number(form.hours) > 0 ? roundUpToIncrement(Number(form.hours) * 3600, incrementMinutes) : 0;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Time</h2>
+          <p className="text-gray-400 text-sm mt-1">
+            {formatHours(totalHours)} recorded · {formatMoney(unbilledAmount)} billable time not yet invoiced
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {can('edit_financials') && unbilledAmount > 0 && (
+            <Link href={`/invoices/new?case_id=${caseId}`}>
+              <Button variant="outline">Create Invoice</Button>
+            </Link>
+          )}
+          {can('record_time') && (
+            <Button className="flex items-center" onClick={() => openForm()}>
+              <PlusIcon className="h-4 w-4 mr-2" />
+              Add Time
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isFormOpen && (
+        <form onSubmit={handleSubmit} className="border border-gray-700 rounded-lg p-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+            <Input
+              label="Date"
+              id="time-date"
+              type="date"
+              value={form.date}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, date: e.target.value })}
+            />
+            <Input
+              label="Start Time"
+              id="time-start"
+              type="time"
+              value={form.startTime}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, startTime: e.target.value })}
+            />
+            <Input
+              label="Hours"
+              id="time-hours"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="e.g. 1.5"
+              value={form.hours}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, hours: e.target.value })}
+            />
+            <Select
+              label="Activity"
+              value={form.activityCode}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setForm({ ...form, activityCode: e.target.value })}
+              options={[{ value: '', label: 'No activity code' }, ...ACTIVITY_CODES]}
+            />
+            <div className="md:col-span-2">
+              <Input
+                label="Narrative"
+                id="time-narrative"
+                placeholder="What was the time spent on?"
+                value={form.narrative}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, narrative: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-between items-center mt-4">
+            <label className="flex items-center text-gray-300">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={form.isBillable}
+                onChange={(e) => setForm({ ...form, isBillable: e.target.checked })}
+              />
+              Billable
+              {previewHours > 0 && (
+                <span className="text-gray-400 text-sm ml-4">
+                  Billed as {formatHours(previewHours)} ({incrementMinutes}-minute increments)
+                </span>
+              )}
+            </label>
+            <div className="flex space-x-2">
+              <Button type="button" variant="ghost" onClick={() => setIsFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" isLoading={isSaving}>
+                {editingId ? 'Save Changes' : 'Add Time'}
+              </Button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-gray-400 text-center py-12">No time recorded on this case yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead>
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Timekeeper
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Work
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Hours
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Billing
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {entries.map((entry) => (
+                <tr key={entry.id} className="hover:bg-gray-700">
+                  <td className="px-6 py-4 whitespace-nowrap text-gray-300">{toLocalDate(entry.started_at)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-gray-300">
+                    {entry.user ? `${entry.user.first_name} ${entry.user.last_name}` : '-'}
+                  </td>
+                  <td className="px-6 py-4 text-white">
+                    {entry.narrative || '-'}
+                    {entry.activity_code && (
+                      <div className="text-gray-400 text-sm">{getActivityLabel(entry.activity_code)}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-gray-300">
+                    {entry.stopped_at ? formatHours(Number(entry.billed_hours)) : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-gray-300">
+                    {entry.stopped_at ? (
+                      <>
+                        {formatMoney(Number(entry.amount))}
+                        <div className="text-gray-400 text-sm">at {formatMoney(Number(entry.hourly_rate))}/h</div>
+                      </>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {!entry.stopped_at ? (
+                      <Badge variant="info">Running</Badge>
+                    ) : entry.invoice_id ? (
+                      can('view_financials') ? (
+                        <Link href={`/invoices/${entry.invoice_id}`} className="text-blue-400 hover:text-blue-300">
+                          {entry.invoice?.invoice_number || 'View'}
+                        </Link>
+                      ) : (
+                        <Badge variant="success">Billed</Badge>
+                      )
+                    ) : entry.is_billable ? (
+                      <Badge variant="warning">Unbilled</Badge>
+                    ) : (
+                      <Badge variant="default">Non-billable</Badge>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {canChange(entry) && (
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => openForm(entry)}>
+                          Edit
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(entry)}>
+                          Delete
+                        </Button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
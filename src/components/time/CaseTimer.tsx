@@ -0,0 +1,160 @@
+// src/components/time/CaseTimer.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { PlayIcon, StopIcon } from 'react-icons/hi2';
+import { supabase } from '@/lib/supabase';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { ACTIVITY_CODES, formatElapsed, getElapsedSeconds } from '@/lib/time';
+import { RunningTimer, fetchRunningTimer, startTimer, stopTimer } from '@/lib/time/entries';
+
+interface CaseTimerProps {
+  caseId: string;
+  firmId: string;
+  // Called after time is started or stopped, so the case's time list can reload
+  onChange?: () => void;
+}
+
+// Timer in the case page header. The running timer is a time_entries row, so it keeps
+// going across reloads, devices and tabs; each user has one, on whichever case it was
+// started.
+export default function CaseTimer({ caseId, firmId, onChange }: CaseTimerProps) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [running, setRunning] = useState<RunningTimer | null>(null);
+  const [now, setNow] = useState(new Date());
+  const [isStopping, setIsStopping] = useState(false);
+  const [activityCode, setActivityCode] = useState('');
+  const [narrative, setNarrative] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadTimer();
+
+    // Another tab or device may have started or stopped it
+    window.addEventListener('focus', loadTimer);
+    return () => window.removeEventListener('focus', loadTimer);
+  }, []);
+
+  useEffect(() => {
+    if (!running) return;
+
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const loadTimer = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setUserId(user.id);
+      setRunning(await fetchRunningTimer(user.id));
+      setNow(new Date());
+    } catch (error) {
+      console.error('Error fetching timer:', error);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!userId) return;
+
+    if (running) {
+      const label = running.case?.case_number || 'another case';
+      if (!window.confirm(`Stop the timer running on ${label} and start one on this case?`)) return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      if (running) await stopTimer(running.id, { activity_code: running.activity_code, narrative: running.narrative });
+      await startTimer(firmId, userId, caseId);
+      await loadTimer();
+      onChange?.();
+    } catch (error: any) {
+      console.error('Error starting timer:', error);
+      alert(error.message || 'Failed to start the timer. Please try again.');
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleStop = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!running) return;
+
+    setIsSaving(true);
+
+    try {
+      await stopTimer(running.id, { activity_code: activityCode || null, narrative: narrative.trim() || null });
+      setRunning(null);
+      setIsStopping(false);
+      setActivityCode('');
+      setNarrative('');
+      onChange?.();
+    } catch (error: any) {
+      console.error('Error stopping timer:', error);
+      alert(error.message || 'Failed to stop the timer. Please try again.');
+    }
+
+    setIsSaving(false);
+  };
+
+  if (!userId) return null;
+
+  const isRunningHere = running?.case_id === caseId;
+  const elapsed = running ? formatElapsed(getElapsedSeconds(running, now)) : '';
+
+  return (
+    <div className="relative flex items-center gap-3">
+      {running && !isRunningHere && (
+        <Link href={`/cases/${running.case_id}`} className="text-sm text-gray-400 hover:text-blue-400">
+          Timer on {running.case?.case_number || 'another case'} · {elapsed}
+        </Link>
+      )}
+
+      {isRunningHere ? (
+        <Button variant="secondary" className="flex items-center" onClick={() => setIsStopping(!isStopping)}>
+          <StopIcon className="h-4 w-4 mr-2 text-red-400" />
+          <span className="font-mono">{elapsed}</span>
+        </Button>
+      ) : (
+        <Button variant="outline" className="flex items-center" onClick={handleStart} isLoading={isSaving}>
+          <PlayIcon className="h-4 w-4 mr-2" />
+          Start Timer
+        </Button>
+      )}
+
+      {isRunningHere && isStopping && (
+        <form
+          onSubmit={handleStop}
+          className="absolute right-0 top-full mt-2 w-80 z-10 bg-gray-800 border border-gray-700 p-4 rounded-xl shadow-md"
+        >
+          <Select
+            label="Activity"
+            value={activityCode}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setActivityCode(e.target.value)}
+            options={[{ value: '', label: 'No activity code' }, ...ACTIVITY_CODES]}
+          />
+          <Input
+            label="Narrative"
+            id="timer-narrative"
+            placeholder="What was the time spent on?"
+            value={narrative}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNarrative(e.target.value)}
+          />
+          <div className="flex justify-end gap-2 mt-4">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setIsStopping(false)}>
+              Keep Running
+            </Button>
+            <Button type="submit" size="sm" isLoading={isSaving}>
+              Stop and Save
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -227,6 +227,8 @@ import {
   DocumentTextIcon, 
   CalendarIcon, 
   CurrencyDollarIcon, 
+  DocumentCurrencyDollarIcon,
+  BuildingLibraryIcon,
   CogIcon 
 } from 'react-icons/hi2';
 
@@ -237,6 +239,8 @@ const navigation = [
   { name: 'Documents', href: '/documents', icon: DocumentTextIcon },
   { name: 'Deadlines', href: '/deadlines', icon: CalendarIcon },
   { name: 'Financials', href: '/financials', icon: CurrencyDollarIcon },
+  { name: 'Invoices', href: '/invoices', icon: DocumentCurrencyDollarIcon },
+  { name: 'Trust Accounting', href: '/trust', icon: BuildingLibraryIcon },
   { name: 'Settings', href: '/settings', icon: CogIcon },
 ];
 
@@ -282,10 +286,10 @@ export default function Sidebar() {
 import React from 'react';
 import { useRouter } from 'next/navigation';
 import { 
-  BellIcon, 
   UserCircleIcon 
 } from 'react-icons/hi2';
 import LogoutButton from '../auth/LogoutButton';
+import NotificationBell from './NotificationBell';
 
 interface HeaderProps {
   title?: string;
@@ -298,9 +302,7 @@ export default function Header({ title = 'Dashboard' }: HeaderProps) {
         <h1 className="text-white text-xl font-semibold">{title}</h1>
         
         <div className="flex items-center space-x-4">
-          <button className="text-gray-300 hover:text-white">
-            <BellIcon className="h-6 w-6" />
-          </button>
+          <NotificationBell />
           
           <div className="relative">
             <button className="flex items-center text-gray-300 hover:text-white">
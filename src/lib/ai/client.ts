@@ -0,0 +1,86 @@
+// src/lib/ai/client.ts
+// Browser-side helper for the chat route. Safe to import from client components.
+import type { Database } from '@/types/supabase';
+import type { ChatSource } from './context';
+import type { Proposal } from './tools';
+
+export type { ChatSource, Proposal };
+
+export type Conversation = Database['public']['Tables']['ai_conversations']['Row'];
+
+export interface ChatOptions {
+  conversationId?: string | null;
+  // Only used when starting a conversation; a thread keeps the case it began with
+  caseId?: string | null;
+  documentId?: string | null;
+  signal?: AbortSignal;
+}
+
+export interface ChatHandlers {
+  onToken: (token: string) => void;
+  onSources?: (sources: ChatSource[]) => void;
+  onConversation?: (conversation: Conversation) => void;
+  onProposal?: (proposal: Proposal) => void;
+  // Called with the saved reply's id, which proposal reviews are recorded against
+  onDone?: (messageId: string | null) => void;
+}
+
+// Sends a message and reports the thread, the reply's sources, its text and any
+// proposals as they arrive. Resolves with the full reply once the stream ends.
+export const streamChatReply = async (
+  content: string,
+  { onToken, onSources, onConversation, onProposal, onDone }: ChatHandlers,
+  { conversationId, caseId, documentId, signal }: ChatOptions = {}
+) => {
+  const response = await fetch('/api/ai/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      content,
+      conversation_id: conversationId || null,
+      case_id: caseId || null,
+      document_id: documentId || null,
+    }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || 'Failed to get a reply');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  let reply = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line);
+
+      if (event.type === 'conversation') {
+        onConversation?.(event.conversation);
+      } else if (event.type === 'sources') {
+        onSources?.(event.sources);
+      } else if (event.type === 'token') {
+        reply += event.text;
+        onToken(event.text);
+      } else if (event.type === 'proposal') {
+        onProposal?.(event.proposal);
+      } else if (event.type === 'done') {
+        onDone?.(event.message_id);
+      } else if (event.type === 'error') {
+        throw new Error(event.message);
+      }
+    }
+  }
+
+  return reply;
+};
@@ -0,0 +1,106 @@
+// src/lib/ai/context.ts
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { getPartyDisplayName } from '@/lib/templates/merge';
+import { PassageSource, retrievePassages } from './retrieval';
+
+// A passage the model was given, numbered the way the reply cites it
+export interface ChatSource {
+  number: number;
+  source: PassageSource;
+  source_id: string;
+  title: string;
+  location: string;
+  excerpt: string;
+}
+
+// Longest excerpt returned to the browser with each source
+const EXCERPT_LENGTH = 300;
+
+const BASE_PROMPT = [
+  'You are a legal assistant working inside a law firm\'s case management system.',
+  'Answer for an attorney audience. Be precise, and say so when the information you have is not enough.',
+  'You do not give advice to clients directly and you never invent case facts, citations or deadlines.',
+].join(' ');
+
+const CITATION_RULES = [
+  'Answer from the numbered passages below.',
+  'After every statement that relies on a passage, cite it with its number in square brackets, e.g. [2].',
+  'If the passages do not answer the question, say that the case file does not cover it rather than guessing.',
+].join(' ');
+
+// System prompt for a conversation, grounded in the passages of the selected case that
+// best match the question. The case and document are looked up within the caller's
+// firm, never trusted from the client.
+export const buildChatContext = async (
+  supabase: SupabaseClient<Database>,
+  firmId: string,
+  caseId: string | null,
+  documentId: string | null,
+  question: string
+) => {
+  const sections = [BASE_PROMPT];
+  const sources: ChatSource[] = [];
+
+  if (!caseId) {
+    return { prompt: sections.join('\n\n'), sources };
+  }
+
+  const { data: caseRecord } = await supabase
+    .from('cases')
+    .select('*')
+    .eq('id', caseId)
+    .eq('firm_id', firmId)
+    .maybeSingle();
+
+  if (!caseRecord) {
+    return { prompt: sections.join('\n\n'), sources };
+  }
+
+  const partyIds = [caseRecord.client_id, caseRecord.opposing_party_id].filter((id): id is string => Boolean(id));
+  const { data: parties } = await supabase
+    .from('parties')
+    .select('id, first_name, last_name, organization_name')
+    .in('id', partyIds);
+
+  const client = parties?.find((party) => party.id === caseRecord.client_id);
+  const opposingParty = parties?.find((party) => party.id === caseRecord.opposing_party_id);
+
+  sections.push([
+    `Case: ${caseRecord.title} (${caseRecord.case_number})`,
+    `Type: ${caseRecord.case_type}`,
+    `Status: ${caseRecord.status}`,
+    `Client: ${getPartyDisplayName(client) || 'Unknown'}`,
+    opposingParty && `Opposing party: ${getPartyDisplayName(opposingParty)}`,
+    caseRecord.court_name && `Court: ${caseRecord.court_name}${caseRecord.court_location ? `, ${caseRecord.court_location}` : ''}`,
+    caseRecord.judge_name && `Judge: ${caseRecord.judge_name}`,
+    caseRecord.filing_date && `Filed: ${caseRecord.filing_date}`,
+    caseRecord.description && `Description: ${caseRecord.description}`,
+  ].filter(Boolean).join('\n'));
+
+  const passages = await retrievePassages(supabase, firmId, caseId, documentId, question);
+
+  passages.forEach((passage, index) => {
+    sources.push({
+      number: index + 1,
+      source: passage.source,
+      source_id: passage.sourceId,
+      title: passage.title,
+      location: passage.location,
+      excerpt: passage.content.length > EXCERPT_LENGTH
+        ? `${passage.content.slice(0, EXCERPT_LENGTH).trim()}...`
+        : passage.content,
+    });
+  });
+
+  if (passages.length > 0) {
+    sections.push(CITATION_RULES);
+    sections.push(passages
+      .map((passage, index) => `[${index + 1}] ${passage.title}, ${passage.location}\n"""\n${passage.content}\n"""`)
+      .join('\n\n'));
+  } else {
+    sections.push('Nothing in this case file has been indexed yet. Say so if the question depends on the file.');
+  }
+
+  return { prompt: sections.join('\n\n'), sources };
+};
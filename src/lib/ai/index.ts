@@ -0,0 +1,61 @@
+// src/lib/ai/index.ts
+// Server-only: providers read API keys from the environment.
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import type { ChatTool } from './tools';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  tools?: ChatTool[];
+  signal?: AbortSignal;
+}
+
+// A piece of reply text, or a complete call to one of the request's tools
+export type ChatChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: string };
+
+export interface ChatProvider {
+  name: string;
+  // Yields the reply a piece at a time, as the model produces it
+  streamChat(request: ChatRequest): AsyncIterable<ChatChunk>;
+}
+
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+let provider: ChatProvider | null = null;
+
+// AI_PROVIDER=mock gives canned, deterministic replies for development and tests
+export const getChatProvider = (): ChatProvider => {
+  if (!provider) {
+    provider = process.env.AI_PROVIDER === 'mock'
+      ? createMockProvider(Number(process.env.AI_MOCK_DELAY_MS || 0))
+      : createOpenAIProvider({
+          baseUrl: process.env.AI_API_BASE_URL || 'https://api.openai.com/v1',
+          apiKey: process.env.AI_API_KEY || '',
+          model: process.env.AI_MODEL || 'gpt-4o-mini',
+        });
+  }
+  return provider;
+};
+
+// .env.local additions for the assistant
+// AI_PROVIDER=openai            # or mock
+// AI_API_BASE_URL=https://api.openai.com/v1
+// AI_API_KEY=your_api_key
+// AI_MODEL=gpt-4o-mini
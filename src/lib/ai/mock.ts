@@ -0,0 +1,60 @@
+// src/lib/ai/mock.ts
+import type { ChatChunk, ChatProvider } from './index';
+
+// Deterministic provider for development and tests. The reply is built only from the
+// request, so the same conversation always streams the same tokens.
+export const createMockProvider = (delayMs = 0): ChatProvider => ({
+  name: 'mock',
+
+  async *streamChat({ messages, tools, signal }) {
+    const question = [...messages].reverse().find((message) => message.role === 'user');
+    const context = messages.find((message) => message.role === 'system')?.content || '';
+    const caseLine = context.split('\n').find((line) => line.startsWith('Case:'));
+    const passages = context.split('\n').filter((line) => /^\[\d+\] /.test(line));
+    const text = question?.content.trim() || '';
+
+    const reply = [
+      `Mock reply to: "${text}"`,
+      caseLine ? `Context ${caseLine}` : 'No case selected.',
+      ...passages.map((line) => `Drawing on ${line.replace(/^\[(\d+)\] (.*)$/, '$2 [$1].')}`),
+      `Messages in conversation: ${messages.filter((message) => message.role !== 'system').length}.`,
+    ].join('\n');
+
+    for (const token of reply.split(/(\s+)/).filter(Boolean)) {
+      if (signal?.aborted) return;
+      if (delayMs > 0) await new Promise((resolve) => setTimeout(resolve, delayMs));
+      yield { type: 'text', text: token };
+    }
+
+    // Keywords in the question stand in for the model deciding to call a tool
+    const offered = new Set((tools || []).map((tool) => tool.name));
+    const calls: ChatChunk[] = [];
+
+    if (offered.has('propose_deadline') && /deadline/i.test(text)) {
+      calls.push({
+        type: 'tool_call',
+        id: 'mock-deadline',
+        name: 'propose_deadline',
+        arguments: JSON.stringify({ title: 'File answer to complaint', due_date: '2030-01-21', priority: 'High', description: 'Mock deadline' }),
+      });
+    }
+    if (offered.has('propose_financial') && /\b(fee|expense)\b/i.test(text)) {
+      calls.push({
+        type: 'tool_call',
+        id: 'mock-financial',
+        name: 'propose_financial',
+        arguments: JSON.stringify({ transaction_type: 'Expense', amount: 402, transaction_date: '2030-01-02', description: 'Mock filing fee' }),
+      });
+    }
+    if (offered.has('propose_draft') && /\bdraft\b/i.test(text)) {
+      calls.push({
+        type: 'tool_call',
+        id: 'mock-draft',
+        name: 'propose_draft',
+        arguments: JSON.stringify({ name: 'Mock Draft Letter', document_type: 'Correspondence', content: `Draft prepared for: ${text}` }),
+      });
+    }
+
+    yield* calls;
+  },
+});
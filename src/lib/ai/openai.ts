@@ -0,0 +1,101 @@
+// src/lib/ai/openai.ts
+import { ProviderError } from './index';
+import type { ChatProvider } from './index';
+
+interface OpenAIProviderOptions {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+// Adapter for any server that speaks the OpenAI chat completions API (OpenAI, Azure
+// OpenAI, vLLM, Ollama and similar). Replies are requested as server-sent events.
+export const createOpenAIProvider = ({ baseUrl, apiKey, model }: OpenAIProviderOptions): ChatProvider => ({
+  name: 'openai',
+
+  async *streamChat({ messages, tools, signal }) {
+    if (!apiKey) {
+      throw new ProviderError('AI_API_KEY is not configured', 500);
+    }
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream: true,
+        ...(tools && tools.length > 0
+          ? { tools: tools.map((tool) => ({ type: 'function', function: tool })) }
+          : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => '');
+      console.error('AI provider error:', response.status, detail);
+      throw new ProviderError(
+        response.status === 429
+          ? 'The AI service is busy. Please try again in a moment.'
+          : 'The AI service could not answer this request.',
+        response.status === 429 ? 429 : 502
+      );
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    // Tool call names and arguments arrive in fragments, keyed by their index
+    const toolCalls: PendingToolCall[] = [];
+    let buffered = '';
+
+    const flushToolCalls = function* () {
+      for (const call of toolCalls.splice(0)) {
+        if (call) yield { type: 'tool_call' as const, ...call };
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffered += value;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+
+        const payload = data.slice(5).trim();
+        if (payload === '[DONE]') {
+          yield* flushToolCalls();
+          return;
+        }
+
+        const choice = JSON.parse(payload).choices?.[0];
+        const content = choice?.delta?.content;
+        if (content) yield { type: 'text', text: content };
+
+        (choice?.delta?.tool_calls || []).forEach((fragment: any) => {
+          const call = toolCalls[fragment.index] ||= { id: '', name: '', arguments: '' };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        });
+
+        if (choice?.finish_reason) yield* flushToolCalls();
+      }
+    }
+
+    yield* flushToolCalls();
+  },
+});
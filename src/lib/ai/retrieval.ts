@@ -0,0 +1,314 @@
+// src/lib/ai/retrieval.ts
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { getStorageBackend, isFirmFilePath } from '@/lib/storage';
+import { readDocumentText } from '@/lib/documents/diff';
+import { readPdfText } from '@/lib/documents/pdf';
+import { detectTemplateFormat } from '@/lib/templates/files';
+import { formatCurrency, formatLongDate } from '@/lib/templates/engine';
+import { getPartyDisplayName } from '@/lib/templates/merge';
+
+export type PassageSource = 'document' | 'deadline' | 'financial' | 'security_interest';
+
+export interface Passage {
+  source: PassageSource;
+  sourceId: string;
+  // Document name, or a label for the record the passage describes
+  title: string;
+  // Where in the source the passage sits, e.g. "Passage 3"
+  location: string;
+  content: string;
+}
+
+// Chunks aim for this many characters, always ending on a paragraph or sentence
+const CHUNK_SIZE = 1200;
+
+// Passages sent to the model with each question
+export const MAX_PASSAGES = 6;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has',
+  'have', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'should',
+  'that', 'the', 'their', 'there', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which',
+  'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+const splitLongParagraph = (paragraph: string) => {
+  const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+
+  sentences.forEach((sentence) => {
+    if (current && current.length + sentence.length > CHUNK_SIZE) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+
+    // A single run-on "sentence" longer than a chunk is cut where it falls
+    while (current.length > CHUNK_SIZE * 1.5) {
+      pieces.push(current.slice(0, CHUNK_SIZE).trim());
+      current = current.slice(CHUNK_SIZE);
+    }
+  });
+
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+};
+
+// Splits document text into passages of roughly CHUNK_SIZE characters, keeping
+// paragraphs together wherever they fit
+export const chunkText = (text: string) => {
+  const paragraphs = text
+    .split(/\n\s*\n|\n/)
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => (paragraph.length > CHUNK_SIZE ? splitLongParagraph(paragraph) : [paragraph]));
+
+  const chunks: string[] = [];
+  let current = '';
+
+  paragraphs.forEach((paragraph) => {
+    if (current && current.length + paragraph.length + 1 > CHUNK_SIZE) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${paragraph}` : paragraph;
+  });
+
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+const tokenize = (text: string) => {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter((token) => !STOP_WORDS.has(token));
+};
+
+// Ranks passages against the question with BM25. Passages that share no terms with
+// the question are left out.
+export const rankPassages = (query: string, passages: Passage[], limit = MAX_PASSAGES) => {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0 || passages.length === 0) return [];
+
+  const documents = passages.map((passage) => tokenize(`${passage.title} ${passage.content}`));
+  const averageLength = documents.reduce((total, tokens) => total + tokens.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach((tokens) => {
+    new Set(tokens).forEach((token) => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1));
+  });
+
+  const k1 = 1.2;
+  const b = 0.75;
+
+  return documents
+    .map((tokens, index) => {
+      const counts = new Map<string, number>();
+      tokens.forEach((token) => counts.set(token, (counts.get(token) || 0) + 1));
+
+      const score = terms.reduce((total, term) => {
+        const frequency = counts.get(term) || 0;
+        if (frequency === 0) return total;
+
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+        return total + idf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * tokens.length / averageLength));
+      }, 0);
+
+      return { passage: passages[index], score };
+    })
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((result) => result.passage);
+};
+
+type Client = SupabaseClient<Database>;
+
+interface IndexedDocument {
+  id: string;
+  firm_id: string;
+  case_id: string;
+  file_path: string;
+}
+
+// Reads and chunks a document the first time it is asked about. Each document row is
+// one immutable version, so its chunks never go stale.
+const indexDocument = async (supabase: Client, document: IndexedDocument) => {
+  const format = detectTemplateFormat(document.file_path);
+  const isPdf = /\.pdf$/i.test(document.file_path);
+  if ((!format && !isPdf) || !isFirmFilePath(document.firm_id, document.file_path)) return;
+
+  const stored = await getStorageBackend().get(document.file_path);
+  if (!stored) return;
+
+  const data = await new Response(stored.stream).arrayBuffer();
+  const text = format ? await readDocumentText(data, format) : await readPdfText(data);
+  const chunks = chunkText(text);
+
+  if (chunks.length === 0) {
+    // Usually a scanned PDF, which has no text layer to read
+    console.warn(`Document ${document.id} has no text to index`);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('document_chunks')
+    .upsert(
+      chunks.map((content, index) => ({
+        firm_id: document.firm_id,
+        case_id: document.case_id,
+        document_id: document.id,
+        chunk_index: index + 1,
+        content,
+      })),
+      { onConflict: 'document_id,chunk_index', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
+
+const loadDocumentPassages = async (supabase: Client, firmId: string, caseId: string, documentId: string | null) => {
+  let query = supabase
+    .from('documents')
+    .select('id, firm_id, case_id, name, file_path')
+    .eq('firm_id', firmId)
+    .eq('case_id', caseId)
+    .eq('is_template', false)
+    .eq('is_current', true);
+
+  if (documentId) {
+    query = query.eq('id', documentId);
+  }
+
+  const { data: documents, error } = await query;
+  if (error) throw error;
+  if (!documents || documents.length === 0) return [];
+
+  const documentIds = documents.map((document) => document.id);
+
+  const { data: indexed } = await supabase
+    .from('document_chunks')
+    .select('document_id')
+    .in('document_id', documentIds)
+    .eq('chunk_index', 1);
+
+  const indexedIds = new Set((indexed || []).map((chunk) => chunk.document_id));
+
+  for (const document of documents.filter((item) => !indexedIds.has(item.id))) {
+    await indexDocument(supabase, document).catch((indexError) => {
+      console.error(`Error indexing document ${document.id}:`, indexError);
+    });
+  }
+
+  const { data: chunks, error: chunksError } = await supabase
+    .from('document_chunks')
+    .select('document_id, chunk_index, content')
+    .in('document_id', documentIds)
+    .order('chunk_index');
+
+  if (chunksError) throw chunksError;
+
+  return (chunks || []).map((chunk): Passage => ({
+    source: 'document',
+    sourceId: chunk.document_id,
+    title: documents.find((document) => document.id === chunk.document_id)?.name || 'Document',
+    location: `Passage ${chunk.chunk_index}`,
+    content: chunk.content,
+  }));
+};
+
+const formatDay = (value: string | null) => (value ? formatLongDate(value) : null);
+
+const loadRecordPassages = async (supabase: Client, firmId: string, caseId: string) => {
+  const [{ data: deadlines }, { data: financials }, { data: interests }] = await Promise.all([
+    supabase
+      .from('deadlines')
+      .select('*')
+      .eq('firm_id', firmId)
+      .eq('case_id', caseId)
+      .order('due_date'),
+    supabase
+      .from('financials')
+      .select('*')
+      .eq('firm_id', firmId)
+      .eq('case_id', caseId)
+      .order('transaction_date'),
+    supabase
+      .from('security_interests')
+      .select('*, lender:lender_id(first_name, last_name, organization_name), borrower:borrower_id(first_name, last_name, organization_name)')
+      .eq('firm_id', firmId)
+      .eq('case_id', caseId),
+  ]);
+
+  const passages: Passage[] = [];
+
+  (deadlines || []).forEach((deadline) => {
+    passages.push({
+      source: 'deadline',
+      sourceId: deadline.id,
+      title: `Deadline: ${deadline.title}`,
+      location: 'Deadlines',
+      content: [
+        `${deadline.title} is due ${formatDay(deadline.due_date)}.`,
+        `Priority: ${deadline.priority}. Status: ${deadline.status}.`,
+        deadline.description,
+      ].filter(Boolean).join(' '),
+    });
+  });
+
+  (financials || []).forEach((financial) => {
+    passages.push({
+      source: 'financial',
+      sourceId: financial.id,
+      title: `${financial.transaction_type} of ${formatCurrency(financial.amount)}`,
+      location: 'Financials',
+      content: [
+        `${financial.transaction_type} of ${formatCurrency(financial.amount)} recorded for ${formatDay(financial.transaction_date)}.`,
+        financial.invoice_id && `Invoice ${financial.invoice_id}.`,
+        financial.description,
+      ].filter(Boolean).join(' '),
+    });
+  });
+
+  (interests || []).forEach((interest: any) => {
+    passages.push({
+      source: 'security_interest',
+      sourceId: interest.id,
+      title: `${interest.type}${interest.property_address ? ` on ${interest.property_address}` : ''}`,
+      location: 'Security Interests',
+      content: [
+        `${interest.type} for ${formatCurrency(interest.amount)}: ${interest.description}.`,
+        interest.lien_position && `Lien position ${interest.lien_position}.`,
+        `Lender: ${getPartyDisplayName(interest.lender) || 'Unknown'}. Borrower: ${getPartyDisplayName(interest.borrower) || 'Unknown'}.`,
+        interest.recorded_date && `Recorded ${formatDay(interest.recorded_date)}.`,
+        interest.maturity_date && `Matures ${formatDay(interest.maturity_date)}.`,
+        interest.interest_rate !== null && `Interest rate ${interest.interest_rate}%.`,
+        interest.property_value !== null && `Property value ${formatCurrency(interest.property_value)}.`,
+      ].filter(Boolean).join(' '),
+    });
+  });
+
+  return passages;
+};
+
+// Finds the passages of a case most relevant to the question. With a document
+// selected, only that document's passages compete with the case records. When nothing
+// matches (a question like "summarize this"), the opening passages are used instead.
+export const retrievePassages = async (
+  supabase: Client,
+  firmId: string,
+  caseId: string,
+  documentId: string | null,
+  query: string
+) => {
+  const [documentPassages, recordPassages] = await Promise.all([
+    loadDocumentPassages(supabase, firmId, caseId, documentId),
+    loadRecordPassages(supabase, firmId, caseId),
+  ]);
+
+  const passages = [...documentPassages, ...recordPassages];
+  const ranked = rankPassages(query, passages);
+
+  return ranked.length > 0 ? ranked : passages.slice(0, MAX_PASSAGES);
+};
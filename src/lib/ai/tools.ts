@@ -0,0 +1,129 @@
+// src/lib/ai/tools.ts
+import { z } from 'zod';
+
+// Function definitions offered to the model when a conversation is about a case. The
+// model only proposes; nothing is written until the user accepts the proposal.
+export interface ChatTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export const PROPOSAL_TOOLS: ChatTool[] = [
+  {
+    name: 'propose_deadline',
+    description: 'Propose a deadline for the current case. The user reviews it before it is saved.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Short name of the deadline, e.g. "File answer to complaint"' },
+        due_date: { type: 'string', description: 'Due date as YYYY-MM-DD' },
+        priority: { type: 'string', enum: ['High', 'Medium', 'Low'] },
+        description: { type: 'string', description: 'How the date was worked out, including the rule or document it comes from' },
+      },
+      required: ['title', 'due_date', 'priority'],
+    },
+  },
+  {
+    name: 'propose_financial',
+    description: 'Propose a fee, expense, retainer or payment entry for the current case. The user reviews it before it is saved.',
+    parameters: {
+      type: 'object',
+      properties: {
+        transaction_type: { type: 'string', enum: ['Fee', 'Expense', 'Retainer', 'Payment'] },
+        amount: { type: 'number', description: 'Amount in US dollars' },
+        transaction_date: { type: 'string', description: 'Date as YYYY-MM-DD' },
+        description: { type: 'string' },
+      },
+      required: ['transaction_type', 'amount', 'transaction_date'],
+    },
+  },
+  {
+    name: 'propose_draft',
+    description: 'Propose a draft document for the current case, such as a letter or pleading. The user reviews it before it is saved to the case documents.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Document name' },
+        document_type: { type: 'string', enum: ['Pleading', 'Motion', 'Correspondence', 'Contract', 'Discovery', 'Other'] },
+        content: { type: 'string', description: 'Full text of the draft' },
+      },
+      required: ['name', 'document_type', 'content'],
+    },
+  },
+];
+
+export const TOOL_INSTRUCTIONS = [
+  'When the user asks you to add a deadline, record a fee or expense, or draft a document for this case,',
+  'or when your answer identifies concrete deadlines, call the matching propose_ tool once per item.',
+  'Only propose dates you can support from the passages or a rule you name in the description.',
+].join(' ');
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').refine(
+  (value) => !isNaN(new Date(`${value}T00:00:00`).getTime()),
+  'Not a real date'
+);
+
+const deadlineSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  due_date: isoDate,
+  priority: z.enum(['High', 'Medium', 'Low']).catch('Medium'),
+  description: z.string().trim().max(2000).optional(),
+});
+
+const financialSchema = z.object({
+  transaction_type: z.enum(['Fee', 'Expense', 'Retainer', 'Payment']),
+  amount: z.coerce.number().positive(),
+  transaction_date: isoDate,
+  description: z.string().trim().max(2000).optional(),
+});
+
+const draftSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  document_type: z.enum(['Pleading', 'Motion', 'Correspondence', 'Contract', 'Discovery', 'Other']).catch('Other'),
+  content: z.string().min(1),
+});
+
+export type ProposalStatus = 'pending' | 'accepted' | 'dismissed';
+
+interface ProposalBase {
+  id: string;
+  status: ProposalStatus;
+  // Id of the row written when the proposal was accepted
+  record_id?: string;
+}
+
+export type Proposal =
+  | (ProposalBase & { kind: 'deadline' } & z.infer<typeof deadlineSchema>)
+  | (ProposalBase & { kind: 'financial' } & z.infer<typeof financialSchema>)
+  | (ProposalBase & { kind: 'draft' } & z.infer<typeof draftSchema>);
+
+// Turns a tool call from the model into a proposal, or null if the arguments don't
+// hold up. Models occasionally send malformed JSON or invented enum values.
+export const parseProposal = (id: string, name: string, rawArguments: string): Proposal | null => {
+  let args: unknown;
+  try {
+    args = JSON.parse(rawArguments || '{}');
+  } catch {
+    return null;
+  }
+
+  const base = { id, status: 'pending' as const };
+
+  switch (name) {
+    case 'propose_deadline': {
+      const result = deadlineSchema.safeParse(args);
+      return result.success ? { ...base, kind: 'deadline', ...result.data } : null;
+    }
+    case 'propose_financial': {
+      const result = financialSchema.safeParse(args);
+      return result.success ? { ...base, kind: 'financial', ...result.data } : null;
+    }
+    case 'propose_draft': {
+      const result = draftSchema.safeParse(args);
+      return result.success ? { ...base, kind: 'draft', ...result.data } : null;
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,114 @@
+// src/lib/audit/index.ts
+// Audit log of changes to firm data. Events are written by the record_audit_event
+// trigger in the database; this module only reads and describes them.
+import { Database } from '@/types/supabase';
+
+export type AuditEvent = Database['public']['Tables']['audit_events']['Row'];
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// Tables with the audit trigger. Keep in step with the trigger list in the schema.
+export const AUDITED_TABLES = [
+  { value: 'cases', label: 'Cases' },
+  { value: 'case_parties', label: 'Case roles' },
+  { value: 'parties', label: 'Parties' },
+  { value: 'documents', label: 'Documents' },
+  { value: 'deadlines', label: 'Deadlines' },
+  { value: 'financials', label: 'Financials' },
+  { value: 'invoices', label: 'Invoices' },
+  { value: 'invoice_line_items', label: 'Invoice lines' },
+  { value: 'time_entries', label: 'Time entries' },
+  { value: 'billing_rates', label: 'Billing rates' },
+  { value: 'trust_accounts', label: 'Trust accounts' },
+  { value: 'trust_transactions', label: 'Trust transactions' },
+  { value: 'trust_bank_statements', label: 'Bank statements' },
+  { value: 'trust_reconciliations', label: 'Trust reconciliations' },
+  { value: 'security_interests', label: 'Liens' },
+  { value: 'conflict_checks', label: 'Conflicts checks' },
+  { value: 'users', label: 'Users' },
+  { value: 'user_invitations', label: 'Invitations' },
+  { value: 'firms', label: 'Firm' },
+];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+export const getAuditTableLabel = (tableName: string) => {
+  return AUDITED_TABLES.find((table) => table.value === tableName)?.label || tableName;
+};
+
+export const getAuditActionLabel = (action: string) => {
+  return AUDIT_ACTION_LABELS[action as AuditAction] || action;
+};
+
+export interface AuditFilters {
+  caseId?: string;
+  actorId?: string;
+  tableName?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export const AUDIT_FILTER_PARAMS: Record<keyof AuditFilters, string> = {
+  caseId: 'case_id',
+  actorId: 'actor_id',
+  tableName: 'table',
+  from: 'from',
+  to: 'to',
+};
+
+export const auditFiltersToSearchParams = (filters: AuditFilters) => {
+  const params = new URLSearchParams();
+
+  (Object.keys(AUDIT_FILTER_PARAMS) as (keyof AuditFilters)[]).forEach((key) => {
+    const value = filters[key];
+    if (value) params.set(AUDIT_FILTER_PARAMS[key], value);
+  });
+
+  return params;
+};
+
+export const auditFiltersFromSearchParams = (params: URLSearchParams): AuditFilters => {
+  const filters: AuditFilters = {};
+
+  (Object.keys(AUDIT_FILTER_PARAMS) as (keyof AuditFilters)[]).forEach((key) => {
+    const value = params.get(AUDIT_FILTER_PARAMS[key]);
+    if (value) filters[key] = value;
+  });
+
+  return filters;
+};
+
+// A readable name for the record an event is about, from whichever row it has
+export const getAuditEntityName = (event: AuditEvent) => {
+  const row = (event.after || event.before || {}) as Record<string, any>;
+
+  if (event.table_name === 'users') return `${row.first_name || ''} ${row.last_name || ''}`.trim() || row.email;
+  if (event.table_name === 'cases') return [row.case_number, row.title].filter(Boolean).join(' · ');
+  if (event.table_name === 'parties') return row.organization_name || `${row.first_name || ''} ${row.last_name || ''}`.trim();
+  if (event.table_name === 'invoices') return row.invoice_number;
+  if (event.table_name === 'time_entries') return row.narrative || row.activity_code || event.entity_id;
+
+  return row.name || row.title || row.email || row.description || event.entity_id;
+};
+
+const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '(blank)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// One line per changed field, e.g. "status: Open → Closed"
+export const describeAuditChanges = (event: AuditEvent) => {
+  if (event.action !== 'update') return [];
+
+  const before = (event.before || {}) as Record<string, unknown>;
+  const after = (event.after || {}) as Record<string, unknown>;
+
+  return event.changed_fields.map(
+    (field) => `${field}: ${formatAuditValue(before[field])} → ${formatAuditValue(after[field])}`
+  );
+};
@@ -0,0 +1,66 @@
+// src/lib/auth/emailLinks.ts
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+
+// Emails carrying a sign-in link: address verification after registration and password
+// reset. Both land on /api/auth/callback.
+export type AuthEmailType = 'signup' | 'recovery';
+
+export const isAuthEmailType = (value: unknown): value is AuthEmailType => {
+  return value === 'signup' || value === 'recovery';
+};
+
+// Where each link sends the user once the callback has signed them in
+export const AUTH_EMAIL_NEXT_PATHS: Record<AuthEmailType, string> = {
+  signup: '/register/confirmation',
+  recovery: '/settings/security?reset=1',
+};
+
+export const RESEND_COOLDOWN_SECONDS = 60;
+export const RESEND_HOURLY_LIMIT_PER_EMAIL = 5;
+export const RESEND_HOURLY_LIMIT_PER_IP = 20;
+
+// Seconds until another email may be sent to this address from this IP, or 0 if one may
+// be sent now. Counts are kept in auth_email_requests, which only the service role sees.
+export const getResendRetryAfter = async (
+  admin: SupabaseClient<Database>,
+  email: string,
+  ipAddress: string | null
+) => {
+  const now = Date.now();
+  const hourAgo = new Date(now - 60 * 60 * 1000).toISOString();
+
+  const { data: recent, error } = await admin
+    .from('auth_email_requests')
+    .select('created_at')
+    .eq('email', email)
+    .gte('created_at', hourAgo)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const sent = recent || [];
+
+  if (sent.length > 0) {
+    const sinceLast = (now - new Date(sent[0].created_at).getTime()) / 1000;
+    if (sinceLast < RESEND_COOLDOWN_SECONDS) return Math.ceil(RESEND_COOLDOWN_SECONDS - sinceLast);
+  }
+
+  if (sent.length >= RESEND_HOURLY_LIMIT_PER_EMAIL) {
+    // The oldest request in the window has to age out first
+    const oldest = new Date(sent[sent.length - 1].created_at).getTime();
+    return Math.max(1, Math.ceil((oldest + 60 * 60 * 1000 - now) / 1000));
+  }
+
+  if (ipAddress) {
+    const { count } = await admin
+      .from('auth_email_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('ip_address', ipAddress)
+      .gte('created_at', hourAgo);
+
+    if ((count || 0) >= RESEND_HOURLY_LIMIT_PER_IP) return 60 * 60;
+  }
+
+  return 0;
+};
@@ -0,0 +1,56 @@
+// src/lib/auth/invitations.ts
+import { SupabaseClient, User } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+
+export const INVITATION_TTL_DAYS = 7;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Gives a signed-in user without a firm profile the users row their invitation promised.
+// Runs with the service-role client because the invitee cannot see the firm's
+// invitations yet. Returns false when there is no open invitation for their address.
+export const acceptInvitation = async (admin: SupabaseClient<Database>, user: User) => {
+  const { data: profile } = await admin
+    .from('users')
+    .select('id')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (profile) return true;
+  if (!user.email) return false;
+
+  const { data: invitation } = await admin
+    .from('user_invitations')
+    .select('id, firm_id, role')
+    .eq('email', normalizeEmail(user.email))
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!invitation) return false;
+
+  const metadata = user.user_metadata || {};
+  const { error } = await admin
+    .from('users')
+    .insert({
+      id: user.id,
+      email: normalizeEmail(user.email),
+      first_name: metadata.first_name || user.email.split('@')[0],
+      last_name: metadata.last_name || '',
+      role: invitation.role,
+      firm_id: invitation.firm_id,
+      last_sign_in: user.last_sign_in_at || new Date().toISOString(),
+    });
+
+  if (error) throw error;
+
+  await admin
+    .from('user_invitations')
+    .update({ accepted_at: new Date().toISOString(), accepted_by: user.id })
+    .eq('id', invitation.id);
+
+  return true;
+};
@@ -0,0 +1,22 @@
+// src/lib/auth/mfa.ts
+import { supabase } from '@/lib/supabase';
+import { getSafeRedirectPath } from './redirects';
+
+export const MFA_CHALLENGE_PATH = '/login/mfa';
+
+export const safeNextPath = (next: string | null | undefined, fallback = '/dashboard') => {
+  return getSafeRedirectPath(next, fallback);
+};
+
+// Where to go straight after a password sign-in: the authenticator challenge when the
+// user has a verified factor, otherwise wherever they were headed.
+export const getPostSignInPath = async (next: string | null | undefined) => {
+  const destination = safeNextPath(next);
+  const { data } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+  if (data && data.nextLevel === 'aal2' && data.currentLevel !== 'aal2') {
+    return `${MFA_CHALLENGE_PATH}?next=${encodeURIComponent(destination)}`;
+  }
+
+  return destination;
+};
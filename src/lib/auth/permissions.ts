@@ -0,0 +1,70 @@
+// src/lib/auth/permissions.ts
+// What each firm role may do. The same matrix is enforced in the database by user_can()
+// in the schema, so keep the two in step.
+
+export const USER_ROLES = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'attorney', label: 'Attorney' },
+  { value: 'paralegal', label: 'Paralegal' },
+  { value: 'billing', label: 'Billing' },
+  { value: 'read_only', label: 'Read-only' },
+] as const;
+
+export type UserRole = typeof USER_ROLES[number]['value'];
+
+export type Capability =
+  | 'edit_records' // create and edit cases, parties, documents, deadlines and liens
+  | 'delete_case'
+  | 'view_financials'
+  | 'edit_financials'
+  | 'manage_templates'
+  | 'clear_conflicts'
+  | 'invite_users' // invite, deactivate and change the role of firm users
+  | 'manage_firm'
+  | 'view_audit_log'
+  | 'record_time'; // keep their own time entries and run a timer
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  edit_records: 'Create and edit cases, parties, documents and deadlines',
+  delete_case: 'Delete cases',
+  view_financials: 'See financials',
+  edit_financials: 'Record financials',
+  manage_templates: 'Manage document templates',
+  clear_conflicts: 'Clear or waive conflicts checks',
+  invite_users: 'Invite and manage users',
+  manage_firm: 'Change firm settings',
+  view_audit_log: 'View and export the audit log',
+  record_time: 'Record their own time',
+};
+
+export const ROLE_CAPABILITIES: Record<UserRole, Capability[]> = {
+  admin: [
+    'edit_records', 'delete_case', 'view_financials', 'edit_financials',
+    'manage_templates', 'clear_conflicts', 'invite_users', 'manage_firm', 'view_audit_log', 'record_time',
+  ],
+  attorney: [
+    'edit_records', 'delete_case', 'view_financials', 'edit_financials',
+    'manage_templates', 'clear_conflicts', 'view_audit_log', 'record_time',
+  ],
+  paralegal: ['edit_records', 'manage_templates', 'record_time'],
+  billing: ['view_financials', 'edit_financials'],
+  read_only: [],
+};
+
+export const isUserRole = (value: string | null | undefined): value is UserRole => {
+  return USER_ROLES.some((role) => role.value === value);
+};
+
+export const getRoleLabel = (role: string) => {
+  return USER_ROLES.find((item) => item.value === role)?.label || role;
+};
+
+// Unknown roles get no capabilities rather than an error, so a typo in users.role
+// leaves someone read-only instead of locked out
+export const hasCapability = (role: string | null | undefined, capability: Capability) => {
+  return isUserRole(role) && ROLE_CAPABILITIES[role].includes(capability);
+};
+
+export const rolesWithCapability = (capability: Capability): UserRole[] => {
+  return USER_ROLES.map((role) => role.value).filter((role) => ROLE_CAPABILITIES[role].includes(capability));
+};
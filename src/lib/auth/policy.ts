@@ -0,0 +1,53 @@
+// src/lib/auth/policy.ts
+// Per-firm security policy: mandatory MFA, session idle timeout and password strength.
+// Stored on firms; read through the current_security_policy() database function.
+
+export interface SecurityPolicy {
+  mfa_required: boolean;
+  idle_timeout_minutes: number | null;
+  password_min_length: number;
+  password_require_complexity: boolean;
+}
+
+// Applies before a firm exists (registration) and matches the column defaults
+export const DEFAULT_SECURITY_POLICY: SecurityPolicy = {
+  mfa_required: false,
+  idle_timeout_minutes: null,
+  password_min_length: 8,
+  password_require_complexity: true,
+};
+
+export const IDLE_TIMEOUT_OPTIONS = [
+  { value: '', label: 'Never' },
+  { value: '15', label: '15 minutes' },
+  { value: '30', label: '30 minutes' },
+  { value: '60', label: '1 hour' },
+  { value: '240', label: '4 hours' },
+  { value: '480', label: '8 hours' },
+];
+
+// Cookie holding the time of the last request, for the idle timeout
+export const LAST_ACTIVITY_COOKIE = 'lb_last_activity';
+
+// Every rule the password breaks, worded for display under the field
+export const getPasswordProblems = (password: string, policy: Pick<SecurityPolicy, 'password_min_length' | 'password_require_complexity'>) => {
+  const problems: string[] = [];
+
+  if (password.length < policy.password_min_length) {
+    problems.push(`Password must be at least ${policy.password_min_length} characters`);
+  }
+
+  if (policy.password_require_complexity) {
+    if (!/[A-Z]/.test(password)) problems.push('Password must contain at least 1 uppercase letter');
+    if (!/[0-9]/.test(password)) problems.push('Password must contain at least 1 number');
+    if (!/[^A-Za-z0-9]/.test(password)) problems.push('Password must contain at least 1 special character');
+  }
+
+  return problems;
+};
+
+export const describePasswordPolicy = (policy: Pick<SecurityPolicy, 'password_min_length' | 'password_require_complexity'>) => {
+  return policy.password_require_complexity
+    ? `At least ${policy.password_min_length} characters, with an uppercase letter, a number and a symbol.`
+    : `At least ${policy.password_min_length} characters.`;
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getSafeRedirectPath } from './redirects';
+
+describe('getSafeRedirectPath', () => {
+  it('keeps paths on this site', () => {
+    expect(getSafeRedirectPath('/cases/1?tab=deadlines#top', '/')).toBe('/cases/1?tab=deadlines#top');
+    expect(getSafeRedirectPath('/settings/security?reset=1', '/')).toBe('/settings/security?reset=1');
+  });
+
+  it('falls back when there is no path', () => {
+    expect(getSafeRedirectPath(null, '/dashboard')).toBe('/dashboard');
+    expect(getSafeRedirectPath('', '/dashboard')).toBe('/dashboard');
+  });
+
+  it.each([
+    'https://evil.com',
+    '//evil.com',
+    '/\\evil.com',
+    '/\\/evil.com',
+    '/\tevil.com',
+    '/\n/evil.com',
+    'evil.com',
+  ])('refuses %j', (next) => {
+    expect(getSafeRedirectPath(next, '/')).toBe('/');
+  });
+});
@@ -0,0 +1,21 @@
+// src/lib/auth/redirects.ts
+
+// Any origin will do as the base; all that matters is whether the path stays on it
+const BASE_ORIGIN = 'http://localhost';
+
+// Only paths on this site are followed, so a crafted `next` can't send people elsewhere.
+// Browsers read a backslash as a slash (`/\evil.com` is `//evil.com`), so the path is
+// resolved the way they would and refused if it lands on another origin.
+export const getSafeRedirectPath = (next: string | null | undefined, fallback: string) => {
+  if (!next || !next.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(next)) return fallback;
+
+  let url: URL;
+  try {
+    url = new URL(next, BASE_ORIGIN);
+  } catch {
+    return fallback;
+  }
+
+  if (url.origin !== BASE_ORIGIN) return fallback;
+  return `${url.pathname}${url.search}${url.hash}`;
+};
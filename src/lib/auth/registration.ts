@@ -0,0 +1,66 @@
+// src/lib/auth/registration.ts
+import { SupabaseClient, User } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { normalizeEmail } from './invitations';
+
+// Creates the firm and admin profile for someone who registered on /register, from the
+// details they entered there (kept in their auth user metadata until the email address
+// is confirmed). Runs with the service-role client because the new user has no firm for
+// RLS to go on yet. Does nothing when they already have a profile, e.g. through an
+// invitation. Returns false when there is nothing to set up from.
+export const completeRegistration = async (admin: SupabaseClient<Database>, user: User) => {
+  const { data: profile } = await admin
+    .from('users')
+    .select('id')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (profile) return true;
+
+  const metadata = user.user_metadata || {};
+  const firmName = (metadata.firm_name || '').trim();
+
+  if (!user.email || !user.email_confirmed_at || !firmName) return false;
+
+  const email = normalizeEmail(user.email);
+
+  const { data: firm, error: firmError } = await admin
+    .from('firms')
+    .insert({
+      name: firmName,
+      address: '', // These would be filled in later
+      phone: '',
+      email,
+      subscription_tier: 'basic',
+      created_by: user.id,
+    })
+    .select('id')
+    .single();
+
+  if (firmError) {
+    if (firmError.code === '23505') {
+      throw new Error('A firm is already registered with this email address');
+    }
+    throw firmError;
+  }
+
+  const { error: userError } = await admin
+    .from('users')
+    .insert({
+      id: user.id,
+      email,
+      first_name: metadata.first_name || email.split('@')[0],
+      last_name: metadata.last_name || '',
+      role: 'admin', // First user is an admin
+      firm_id: firm.id,
+      last_sign_in: user.last_sign_in_at || new Date().toISOString(),
+    });
+
+  if (userError) {
+    // Don't leave a firm behind that nobody can get into
+    await admin.from('firms').delete().eq('id', firm.id);
+    throw userError;
+  }
+
+  return true;
+};
@@ -0,0 +1,49 @@
+// src/lib/auth/route.ts
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { Database } from '@/types/supabase';
+import { Capability, hasCapability } from './permissions';
+
+// Resolves the signed-in user and their firm profile for an API route. Routes return
+// `response` as-is when it is set. Pass a capability to also refuse users whose role
+// does not have it.
+export const getRouteUser = async (capability?: Capability) => {
+  const supabase = createRouteHandlerClient<Database>({ cookies });
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return {
+      supabase,
+      user: null,
+      profile: null,
+      response: NextResponse.json({ error: 'Not authenticated' }, { status: 401 }),
+    };
+  }
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile || !profile.is_active) {
+    return {
+      supabase,
+      user,
+      profile: null,
+      response: NextResponse.json({ error: 'No active firm account' }, { status: 403 }),
+    };
+  }
+
+  if (capability && !hasCapability(profile.role, capability)) {
+    return {
+      supabase,
+      user,
+      profile: null,
+      response: NextResponse.json({ error: 'Your role does not allow this' }, { status: 403 }),
+    };
+  }
+
+  return { supabase, user, profile, response: null };
+};
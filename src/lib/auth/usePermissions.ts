@@ -0,0 +1,39 @@
+// src/lib/auth/usePermissions.ts
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { Capability, hasCapability } from './permissions';
+
+// The signed-in user's role, for hiding actions their role does not allow. This is only
+// presentation: RLS and getRouteUser enforce the same rules on the server.
+export const usePermissions = () => {
+  const [role, setRole] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchRole() {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (user) {
+        const { data } = await supabase
+          .from('users')
+          .select('role, is_active')
+          .eq('id', user.id)
+          .single();
+
+        setRole(data?.is_active ? data.role : null);
+      }
+
+      setIsLoading(false);
+    }
+
+    fetchRole();
+  }, []);
+
+  return {
+    role,
+    isLoading,
+    can: (capability: Capability) => hasCapability(role, capability),
+  };
+};
@@ -0,0 +1,61 @@
+// src/lib/cases/purge.ts
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { getStorageBackend, isFirmFilePath } from '@/lib/storage';
+import { CASE_TRASH_RETENTION_DAYS } from './trash';
+
+type CasePurge = Database['public']['Tables']['case_purges']['Row'];
+
+// Removes a trashed case and its records for good through purge_case(), then deletes its
+// stored files. The database rows go in one transaction; files are removed afterwards,
+// and one that fails to delete is only logged, since nothing refers to it any more.
+export const purgeCase = async (supabase: SupabaseClient<Database>, caseId: string) => {
+  const { data, error } = await supabase.rpc('purge_case', { p_case_id: caseId });
+
+  if (error) throw error;
+
+  const purge = data as CasePurge;
+  const storage = getStorageBackend();
+
+  for (const filePath of purge.file_paths || []) {
+    if (!isFirmFilePath(purge.firm_id, filePath)) {
+      console.error(`Not removing purged file ${filePath}: it is outside the firm's folder`);
+      continue;
+    }
+
+    try {
+      await storage.remove(filePath);
+    } catch (removeError) {
+      console.error(`Error removing purged file ${filePath}:`, removeError);
+    }
+  }
+
+  return purge;
+};
+
+// Purges every case whose retention window has passed. Run with the service-role client.
+export const purgeExpiredCases = async (admin: SupabaseClient<Database>, now = new Date()) => {
+  const cutoff = new Date(now.getTime() - CASE_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: expired, error } = await admin
+    .from('cases')
+    .select('id')
+    .not('deleted_at', 'is', null)
+    .lt('deleted_at', cutoff);
+
+  if (error) throw error;
+
+  const result = { purged: 0, failed: 0, errors: [] as string[] };
+
+  for (const caseRow of expired || []) {
+    try {
+      await purgeCase(admin, caseRow.id);
+      result.purged++;
+    } catch (purgeError: any) {
+      result.failed++;
+      result.errors.push(`${caseRow.id}: ${purgeError.message || purgeError}`);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,58 @@
+// src/lib/cases/trash.ts
+import { supabase } from '@/lib/supabase';
+import { Database } from '@/types/supabase';
+
+type CaseRow = Database['public']['Tables']['cases']['Row'];
+
+// How long a deleted case can be restored. Mirrors the interval in restore_case(); the
+// scheduled purge removes cases once it has passed.
+export const CASE_TRASH_RETENTION_DAYS = 30;
+
+// Tables purge_case counts in case_purges.record_counts
+export const CASE_RECORD_LABELS: Record<string, string> = {
+  documents: 'Documents',
+  document_chunks: 'Document passages',
+  deadlines: 'Deadlines',
+  financials: 'Financial entries',
+  time_entries: 'Time entries',
+  billing_rates: 'Billing rates',
+  security_interests: 'Liens',
+  case_parties: 'Case roles',
+};
+
+export const getPurgeDate = (deletedAt: string) => {
+  return new Date(new Date(deletedAt).getTime() + CASE_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+};
+
+export const canRestore = (deletedAt: string, now = new Date()) => getPurgeDate(deletedAt) > now;
+
+// Moves the case to the trash. Its documents, deadlines and other records stay as they
+// are and are hidden along with it; timers running on it are stopped first.
+export const deleteCase = async (caseId: string) => {
+  const { data, error } = await supabase.rpc('delete_case', { p_case_id: caseId });
+
+  if (error) throw error;
+  return data as CaseRow;
+};
+
+export const fetchTrashedCases = async () => {
+  const { data, error } = await supabase.rpc('trashed_cases');
+
+  if (error) throw error;
+  return (data || []) as CaseRow[];
+};
+
+export const restoreCase = async (caseId: string) => {
+  const { data, error } = await supabase.rpc('restore_case', { p_case_id: caseId });
+
+  if (error) throw error;
+  return data as CaseRow;
+};
+
+// Summarizes record_counts, e.g. "Documents: 3, Deadlines: 2"
+export const describeRecordCounts = (counts: unknown) => {
+  const entries = Object.entries((counts || {}) as Record<string, number>);
+  if (entries.length === 0) return 'No records';
+
+  return entries.map(([table, count]) => `${CASE_RECORD_LABELS[table] || table}: ${count}`).join(', ');
+};
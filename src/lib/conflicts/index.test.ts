@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ConflictData, ConflictParty, findConflicts } from './index';
+
+const party = (id: string, name: string): ConflictParty => ({
+  id,
+  organization_name: name,
+  is_client: false,
+});
+
+// Acme sues Smith in a foreclosure; Jones is Smith's co-defendant, Lee is Smith's
+// counsel and Park is a witness
+const baseData = (): ConflictData => ({
+  parties: [
+    party('acme', 'Acme Bank'),
+    party('smith', 'Smith Holdings'),
+    party('jones', 'Jones Partners'),
+    party('lee', 'Lee Legal'),
+    party('park', 'Park Surveyors'),
+  ],
+  cases: [
+    {
+      id: 'case',
+      title: 'Acme v. Smith',
+      case_number: 'CV-1',
+      status: 'Open',
+      client_id: 'acme',
+      opposing_party_id: 'smith',
+    },
+  ],
+  liens: [],
+  case_parties: [
+    { case_id: 'case', party_id: 'acme', role: 'plaintiff', represents_party_id: null },
+    { case_id: 'case', party_id: 'smith', role: 'defendant', represents_party_id: null },
+    { case_id: 'case', party_id: 'jones', role: 'co_defendant', represents_party_id: null },
+    { case_id: 'case', party_id: 'lee', role: 'counsel', represents_party_id: 'smith' },
+    { case_id: 'case', party_id: 'park', role: 'witness', represents_party_id: null },
+  ],
+});
+
+const hitsFor = (name: string, role: 'client' | 'opposing_party', data = baseData()) => {
+  return findConflicts([{ role, organization_name: name }], data);
+};
+
+describe('findConflicts', () => {
+  it('flags a co-defendant adverse to our client when they come in as a client', () => {
+    const hits = hitsFor('Jones Partners', 'client');
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ severity: 'conflict', party_id: 'jones', case_id: 'case', case_role: 'co_defendant' });
+  });
+
+  it('treats counsel as standing with the party they act for', () => {
+    const hits = hitsFor('Lee Legal', 'client');
+
+    expect(hits[0]).toMatchObject({ severity: 'conflict', case_role: 'counsel' });
+    expect(hits[0].reason).toContain('Counsel for Smith Holdings');
+  });
+
+  it('warns when a party on our client\'s side becomes the opposing party', () => {
+    const data = baseData();
+    data.case_parties.push({ case_id: 'case', party_id: 'jones', role: 'plaintiff', represents_party_id: null });
+    data.case_parties = data.case_parties.filter((row) => row.role !== 'co_defendant');
+
+    const hits = hitsFor('Jones Partners', 'opposing_party', data);
+
+    expect(hits[0]).toMatchObject({ severity: 'warning', case_role: 'plaintiff' });
+  });
+
+  it('reports neutral participants for the record', () => {
+    const hits = hitsFor('Park Surveyors', 'client');
+
+    expect(hits[0]).toMatchObject({ severity: 'info', case_role: 'witness' });
+  });
+
+  it('reports the primary parties once, with their case role', () => {
+    const hits = hitsFor('Smith Holdings', 'client');
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ severity: 'conflict', case_role: 'defendant' });
+  });
+
+  it('downgrades adverse participants on closed cases to warnings', () => {
+    const data = baseData();
+    data.cases[0].status = 'Closed';
+
+    expect(hitsFor('Jones Partners', 'client', data)[0].severity).toBe('warning');
+  });
+});
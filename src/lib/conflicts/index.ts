@@ -0,0 +1,322 @@
+// src/lib/conflicts/index.ts
+// Conflicts of interest engine. Matches the proposed client and opposing party of a new
+// matter against every party the firm knows, then looks at the roles the matched parties
+// hold across cases (as client, opposing party or any case_parties role) and liens.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { getCasePartyRole } from '@/lib/parties/roles';
+import { matchParty, NameFields } from './match';
+
+export type SubjectRole = 'client' | 'opposing_party';
+
+// conflict: intake needs a waiver. warning: an attorney should look. info: for the record.
+export type ConflictSeverity = 'conflict' | 'warning' | 'info';
+
+export interface ConflictSubject extends NameFields {
+  role: SubjectRole;
+  // Set when the subject is an existing party; that record always matches itself
+  party_id?: string | null;
+}
+
+export interface ConflictHit {
+  severity: ConflictSeverity;
+  subject_role: SubjectRole;
+  party_id: string;
+  party_name: string;
+  score: number;
+  matched_on: string;
+  reason: string;
+  case_id: string | null;
+  // The matched party's role in that case (case_parties.role, or lender/borrower on a
+  // lien). Not on checks recorded before roles were reported.
+  case_role?: string | null;
+}
+
+export interface ConflictParty extends NameFields {
+  id: string;
+  is_client: boolean;
+}
+
+export interface ConflictCase {
+  id: string;
+  title: string;
+  case_number: string;
+  status: string;
+  client_id: string;
+  opposing_party_id: string | null;
+}
+
+export interface ConflictLien {
+  id: string;
+  case_id: string;
+  type: string;
+  lender_id: string;
+  borrower_id: string;
+}
+
+export interface ConflictCaseParty {
+  case_id: string;
+  party_id: string;
+  role: string;
+  represents_party_id: string | null;
+}
+
+export interface ConflictData {
+  parties: ConflictParty[];
+  cases: ConflictCase[];
+  liens: ConflictLien[];
+  case_parties: ConflictCaseParty[];
+}
+
+export const CONFLICT_DECISIONS = ['cleared', 'waived'] as const;
+export type ConflictDecision = typeof CONFLICT_DECISIONS[number];
+
+const SEVERITY_ORDER: Record<ConflictSeverity, number> = { conflict: 0, warning: 1, info: 2 };
+
+const SUBJECT_LABELS: Record<SubjectRole, string> = {
+  client: 'proposed client',
+  opposing_party: 'proposed opposing party',
+};
+
+export const getPartyName = (party: NameFields) => {
+  if (party.organization_name) return party.organization_name;
+  return `${party.first_name || ''} ${party.last_name || ''}`.trim();
+};
+
+// Sides of a lawsuit, for telling whether another participant is with or against our
+// client. Roles not listed here (witnesses, lienholders, HOAs...) take no side.
+const ROLE_SIDES: Record<string, 'plaintiff' | 'defendant'> = {
+  plaintiff: 'plaintiff',
+  defendant: 'defendant',
+  co_defendant: 'defendant',
+  borrower: 'defendant',
+  co_borrower: 'defendant',
+  tenant: 'defendant',
+};
+
+type Stance = 'ours' | 'adverse' | 'neutral';
+
+const isClosed = (caseItem: ConflictCase) => caseItem.status.toLowerCase() === 'closed';
+
+// Where a case participant stands relative to our client in that case. Counsel and
+// guardians stand with the party they act for.
+const getStance = (caseItem: ConflictCase, participant: ConflictCaseParty, participants: ConflictCaseParty[]): Stance => {
+  const partyId = participant.represents_party_id || participant.party_id;
+  if (partyId === caseItem.client_id) return 'ours';
+  if (partyId === caseItem.opposing_party_id) return 'adverse';
+
+  const role = participant.represents_party_id
+    ? participants.find((row) => row.party_id === partyId && !row.represents_party_id)?.role
+    : participant.role;
+
+  if (role === 'client') return 'ours';
+  if (role === 'opposing_party') return 'adverse';
+
+  const clientSide = participants
+    .filter((row) => row.party_id === caseItem.client_id)
+    .map((row) => ROLE_SIDES[row.role])
+    .find(Boolean);
+  const side = role ? ROLE_SIDES[role] : undefined;
+
+  if (!clientSide || !side) return 'neutral';
+  return side === clientSide ? 'ours' : 'adverse';
+};
+
+export const hasBlockingConflict = (hits: ConflictHit[]) => hits.some((hit) => hit.severity === 'conflict');
+
+// Finds every conflict for the subjects in data already loaded for the firm. A closed
+// matter is reported as a warning rather than a conflict, since duties to former
+// clients only bar substantially related matters.
+export const findConflicts = (subjects: ConflictSubject[], data: ConflictData): ConflictHit[] => {
+  const hits: ConflictHit[] = [];
+  const casesById = new Map(data.cases.map((caseItem) => [caseItem.id, caseItem]));
+  const partiesById = new Map(data.parties.map((party) => [party.id, party]));
+  const participantsByCase = new Map<string, ConflictCaseParty[]>();
+  data.case_parties.forEach((participant) => {
+    participantsByCase.set(participant.case_id, [...(participantsByCase.get(participant.case_id) || []), participant]);
+  });
+
+  const client = subjects.find((subject) => subject.role === 'client');
+  const opposing = subjects.find((subject) => subject.role === 'opposing_party');
+
+  if (client?.party_id && client.party_id === opposing?.party_id) {
+    hits.push({
+      severity: 'conflict',
+      subject_role: 'opposing_party',
+      party_id: client.party_id,
+      party_name: getPartyName(client),
+      score: 1,
+      matched_on: 'same record',
+      reason: 'The same party is both the client and the opposing party',
+      case_id: null,
+      case_role: null,
+    });
+  }
+
+  subjects.forEach((subject) => {
+    const subjectName = getPartyName(subject);
+
+    data.parties.forEach((party) => {
+      const isSelf = !!subject.party_id && subject.party_id === party.id;
+      const match = isSelf ? { score: 1, matchedOn: 'same record' } : matchParty(subject, party);
+      if (!match) return;
+
+      const partyName = getPartyName(party);
+      const prefix = isSelf
+        ? partyName
+        : `${partyName} (${Math.round(match.score * 100)}% ${match.matchedOn} match for ${SUBJECT_LABELS[subject.role]} ${subjectName})`;
+
+      const add = (severity: ConflictSeverity, reason: string, caseId: string | null = null, caseRole: string | null = null) => {
+        hits.push({
+          severity,
+          subject_role: subject.role,
+          party_id: party.id,
+          party_name: partyName,
+          score: Number(match.score.toFixed(2)),
+          matched_on: match.matchedOn,
+          reason,
+          case_id: caseId,
+          case_role: caseRole,
+        });
+      };
+
+      const before = hits.length;
+
+      data.cases.forEach((caseItem) => {
+        const caseLabel = `${caseItem.title} (${caseItem.case_number})`;
+        const participants = participantsByCase.get(caseItem.id) || [];
+        const primaryRole = (fallback: string) => {
+          return participants.find((row) => row.party_id === party.id && !row.represents_party_id)?.role || fallback;
+        };
+
+        if (caseItem.client_id === party.id) {
+          if (subject.role === 'opposing_party') {
+            add(
+              isClosed(caseItem) ? 'warning' : 'conflict',
+              isClosed(caseItem)
+                ? `We represented ${prefix} in the closed case ${caseLabel}`
+                : `We represent ${prefix} in ${caseLabel}`,
+              caseItem.id,
+              primaryRole('client')
+            );
+          } else if (!isSelf) {
+            add('info', `${prefix} is our client in ${caseLabel}`, caseItem.id, primaryRole('client'));
+          }
+        }
+
+        if (caseItem.opposing_party_id === party.id) {
+          if (subject.role === 'client') {
+            add(
+              isClosed(caseItem) ? 'warning' : 'conflict',
+              isClosed(caseItem)
+                ? `${prefix} was adverse to our client in the closed case ${caseLabel}`
+                : `${prefix} is adverse to our client in ${caseLabel}`,
+              caseItem.id,
+              primaryRole('opposing_party')
+            );
+          } else if (!isSelf) {
+            add('info', `${prefix} is the opposing party in ${caseLabel}`, caseItem.id, primaryRole('opposing_party'));
+          }
+        }
+
+        // Everyone else on the case; the client and opposing party are covered above
+        if (party.id === caseItem.client_id || party.id === caseItem.opposing_party_id) return;
+
+        participants
+          .filter((participant) => participant.party_id === party.id)
+          .forEach((participant) => {
+            const role = getCasePartyRole(participant.role);
+            const represented = participant.represents_party_id ? partiesById.get(participant.represents_party_id) : undefined;
+            const asRole = `${role.label}${represented ? ` for ${getPartyName(represented)}` : ''}`;
+            const stance = getStance(caseItem, participant, participants);
+
+            if (stance === 'adverse' && subject.role === 'client') {
+              add(
+                isClosed(caseItem) ? 'warning' : 'conflict',
+                isClosed(caseItem)
+                  ? `${prefix} was adverse to our client in the closed case ${caseLabel}, as ${asRole}`
+                  : `${prefix} is adverse to our client in ${caseLabel}, as ${asRole}`,
+                caseItem.id,
+                participant.role
+              );
+            } else if (stance === 'ours' && subject.role === 'opposing_party') {
+              add(
+                isClosed(caseItem) ? 'info' : 'warning',
+                `${prefix} ${isClosed(caseItem) ? 'was' : 'is'} on our client's side in ${caseLabel}, as ${asRole}`,
+                caseItem.id,
+                participant.role
+              );
+            } else {
+              add('info', `${prefix} is listed as ${asRole} in ${caseLabel}`, caseItem.id, participant.role);
+            }
+          });
+      });
+
+      data.liens.forEach((lien) => {
+        const caseItem = casesById.get(lien.case_id);
+        if (!caseItem) return;
+
+        const caseLabel = `${caseItem.title} (${caseItem.case_number})`;
+        const lienRoles = [
+          lien.lender_id === party.id ? 'lender' : null,
+          lien.borrower_id === party.id ? 'borrower' : null,
+        ].filter(Boolean);
+
+        // Being on the same side as the client of that case is covered by the case roles
+        if (lienRoles.length === 0 || caseItem.client_id === party.id) return;
+
+        add('warning', `${prefix} is ${lienRoles.join(' and ')} on a ${lien.type} in ${caseLabel}`, caseItem.id, lienRoles.join(' and '));
+      });
+
+      // A client with no case of their own yet is still a client
+      const representedInCase = data.cases.some((caseItem) => caseItem.client_id === party.id);
+      if (party.is_client && subject.role === 'opposing_party' && !representedInCase) {
+        add('conflict', `${prefix} is a firm client`);
+      }
+
+      if (hits.length === before && !isSelf) {
+        add('info', `${prefix} is already in the parties list`);
+      }
+    });
+  });
+
+  return hits.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.score - a.score);
+};
+
+// Loads the firm's parties, cases, case participants and liens and runs findConflicts.
+// RLS limits the client to the caller's firm.
+export const runConflictCheck = async (
+  supabase: SupabaseClient<Database>,
+  firmId: string,
+  subjects: ConflictSubject[]
+) => {
+  const [partiesResult, casesResult, liensResult, casePartiesResult] = await Promise.all([
+    supabase
+      .from('parties')
+      .select('id, first_name, last_name, organization_name, email, is_client')
+      .eq('firm_id', firmId)
+      .is('merged_into', null),
+    supabase
+      .from('cases')
+      .select('id, title, case_number, status, client_id, opposing_party_id')
+      .eq('firm_id', firmId),
+    supabase
+      .from('security_interests')
+      .select('id, case_id, type, lender_id, borrower_id')
+      .eq('firm_id', firmId),
+    supabase
+      .from('case_parties')
+      .select('case_id, party_id, role, represents_party_id')
+      .eq('firm_id', firmId),
+  ]);
+
+  const error = partiesResult.error || casesResult.error || liensResult.error || casePartiesResult.error;
+  if (error) throw error;
+
+  return findConflicts(subjects, {
+    parties: partiesResult.data || [],
+    cases: casesResult.data || [],
+    liens: liensResult.data || [],
+    case_parties: casePartiesResult.data || [],
+  });
+};
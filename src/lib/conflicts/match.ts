@@ -0,0 +1,150 @@
+// src/lib/conflicts/match.ts
+// Fuzzy name and email matching for conflicts checks. Names are compared after dropping
+// punctuation, accents and corporate suffixes, so "Acme Corp." matches "ACME Corporation"
+// and "Smith, John" matches "John Smith".
+
+// Scores at or above this are reported as possible matches
+export const MATCH_THRESHOLD = 0.9;
+
+const ENTITY_SUFFIXES = new Set([
+  'the', 'inc', 'incorporated', 'llc', 'llp', 'lp', 'pllc', 'pc', 'pa', 'ltd', 'limited',
+  'corp', 'corporation', 'co', 'company', 'na', 'plc', 'trust', 'fsb',
+]);
+
+// Free mail providers, where a shared domain says nothing about the people involved
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com',
+  'msn.com', 'aol.com', 'icloud.com', 'me.com', 'protonmail.com', 'proton.me', 'comcast.net',
+]);
+
+export const normalizeName = (value: string | null | undefined) => {
+  if (!value) return '';
+
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    // Drop periods first so initialisms such as "L.L.C." and "N.A." become one word
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !ENTITY_SUFFIXES.has(word))
+    .join(' ');
+};
+
+const jaro = (a: string, b: string) => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  return (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+};
+
+const jaroWinkler = (a: string, b: string) => {
+  const score = jaro(a, b);
+  let prefix = 0;
+  while (prefix < 4 && prefix < a.length && a[prefix] === b[prefix]) prefix++;
+  return score + prefix * 0.1 * (1 - score);
+};
+
+const sortWords = (value: string) => value.split(' ').sort().join(' ');
+
+// Similarity of two names between 0 and 1. Word order is ignored.
+export const nameSimilarity = (a: string | null | undefined, b: string | null | undefined) => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  return Math.max(jaroWinkler(left, right), jaroWinkler(sortWords(left), sortWords(right)));
+};
+
+export interface NameFields {
+  first_name?: string | null;
+  last_name?: string | null;
+  organization_name?: string | null;
+  email?: string | null;
+}
+
+export interface MatchResult {
+  score: number;
+  // What matched: "name", "organization", "email" or "email domain"
+  matchedOn: string;
+}
+
+const personName = (fields: NameFields) => {
+  return `${fields.first_name || ''} ${fields.last_name || ''}`.trim();
+};
+
+const emailDomain = (email: string) => email.split('@')[1] || '';
+
+// Best match between the names and emails of two parties, or null if nothing is close.
+// A person is also compared with an organization, since sole proprietors often trade
+// under their own name.
+export const matchParty = (subject: NameFields, candidate: NameFields): MatchResult | null => {
+  let best: MatchResult | null = null;
+
+  const consider = (score: number, matchedOn: string) => {
+    if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = { score, matchedOn };
+    }
+  };
+
+  const subjectNames = [
+    { value: personName(subject), kind: 'name' },
+    { value: subject.organization_name || '', kind: 'organization' },
+  ].filter((item) => item.value);
+  const candidateNames = [personName(candidate), candidate.organization_name || ''].filter(Boolean);
+
+  subjectNames.forEach((subjectName) => {
+    candidateNames.forEach((candidateName) => {
+      consider(nameSimilarity(subjectName.value, candidateName), subjectName.kind);
+    });
+  });
+
+  const subjectEmail = subject.email?.trim().toLowerCase();
+  const candidateEmail = candidate.email?.trim().toLowerCase();
+
+  if (subjectEmail && candidateEmail) {
+    if (subjectEmail === candidateEmail) {
+      consider(1, 'email');
+    } else {
+      const domain = emailDomain(subjectEmail);
+      // A shared company domain is worth a look but isn't a match by itself
+      if (domain && domain === emailDomain(candidateEmail) && !PUBLIC_EMAIL_DOMAINS.has(domain)) {
+        consider(MATCH_THRESHOLD, 'email domain');
+      }
+    }
+  }
+
+  return best;
+};
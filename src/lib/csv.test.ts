@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines', null, 3]])).toBe('"a,b","say ""hi""","two\nlines",,3\r\n');
+  });
+
+  it('keeps text that a spreadsheet would run as a formula as text', () => {
+    expect(toCsv([['=HYPERLINK("http://evil")', '+1', '-2', '@SUM(A1)', '\tx']]))
+      .toBe('"\'=HYPERLINK(""http://evil"")",\'+1,\'-2,\'@SUM(A1),\'\tx\r\n');
+  });
+
+  it('leaves numbers alone', () => {
+    expect(toCsv([[-12.5, 0]])).toBe('-12.5,0\r\n');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['name', 'note'], ['Smith, Jane', 'said "no"\r\nthen left']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
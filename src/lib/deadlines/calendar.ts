@@ -0,0 +1,170 @@
+// src/lib/deadlines/calendar.ts
+// Date arithmetic for court deadlines. Dates are YYYY-MM-DD strings and all math is
+// done in UTC, so results never shift with the server's or browser's time zone.
+
+export interface HolidayRule {
+  name: string;
+  month: number;
+  // Fixed-date holidays set `day`; floating ones set `weekday` (0 = Sunday) and `nth`
+  // (1-5, or -1 for the last one in the month)
+  day?: number;
+  weekday?: number;
+  nth?: number;
+  // Days to shift from the computed date, e.g. 1 for the day after Thanksgiving
+  offset?: number;
+  // Fixed-date holidays on a weekend are observed on the Friday before or Monday after
+  observed?: boolean;
+}
+
+export interface HolidayCalendar {
+  id: string;
+  name: string;
+  rules: HolidayRule[];
+  // One-off closures (weather, emergencies) and any holiday the rules don't cover
+  closures?: { date: string; name: string }[];
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const toUtc = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const fromUtc = (date: Date) => date.toISOString().slice(0, 10);
+
+export const isIsoDate = (value: string) => {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && fromUtc(toUtc(value)) === value;
+};
+
+export const addDays = (date: string, days: number) => {
+  const result = toUtc(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return fromUtc(result);
+};
+
+// Adds calendar months, landing on the last day of the month when the day doesn't exist
+// (January 31 + 1 month is February 28 or 29)
+export const addMonths = (date: string, months: number) => {
+  const start = toUtc(date);
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+  return fromUtc(target);
+};
+
+export const dayOfWeek = (date: string) => toUtc(date).getUTCDay();
+
+export const weekdayName = (date: string) => WEEKDAY_NAMES[dayOfWeek(date)];
+
+export const formatCourtDate = (date: string) => {
+  return toUtc(date).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+const ruleDate = (rule: HolidayRule, year: number) => {
+  let date: string;
+
+  if (rule.day) {
+    date = fromUtc(new Date(Date.UTC(year, rule.month - 1, rule.day)));
+  } else if (rule.nth === -1) {
+    const last = new Date(Date.UTC(year, rule.month, 0));
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - (rule.weekday ?? 0) + 7) % 7));
+    date = fromUtc(last);
+  } else {
+    const first = new Date(Date.UTC(year, rule.month - 1, 1));
+    first.setUTCDate(1 + (((rule.weekday ?? 0) - first.getUTCDay() + 7) % 7) + 7 * ((rule.nth ?? 1) - 1));
+    date = fromUtc(first);
+  }
+
+  if (rule.offset) {
+    date = addDays(date, rule.offset);
+  }
+
+  if (rule.observed) {
+    const weekday = dayOfWeek(date);
+    if (weekday === 6) date = addDays(date, -1);
+    if (weekday === 0) date = addDays(date, 1);
+  }
+
+  return date;
+};
+
+export interface CourtCalendar {
+  name: string;
+  holidayName(date: string): string | null;
+  isCourtDay(date: string): boolean;
+  // Why a date is not a court day ("Saturday", "Independence Day"), or null if it is one
+  closedReason(date: string): string | null;
+  nextCourtDay(date: string): string;
+  previousCourtDay(date: string): string;
+  addCourtDays(date: string, days: number): string;
+}
+
+export const createCourtCalendar = (calendar: HolidayCalendar): CourtCalendar => {
+  const years = new Map<number, Map<string, string>>();
+
+  const holidaysFor = (year: number) => {
+    let holidays = years.get(year);
+
+    if (!holidays) {
+      holidays = new Map();
+      // A New Year's Day on Saturday is observed on December 31 of the year before
+      for (const ruleYear of [year, year + 1]) {
+        for (const rule of calendar.rules) {
+          const date = ruleDate(rule, ruleYear);
+          if (date.startsWith(`${year}-`)) holidays.set(date, rule.name);
+        }
+      }
+      for (const closure of calendar.closures || []) {
+        if (closure.date.startsWith(`${year}-`)) holidays.set(closure.date, closure.name);
+      }
+      years.set(year, holidays);
+    }
+
+    return holidays;
+  };
+
+  const holidayName = (date: string) => holidaysFor(Number(date.slice(0, 4))).get(date) || null;
+
+  const closedReason = (date: string) => {
+    const weekday = dayOfWeek(date);
+    if (weekday === 0 || weekday === 6) return WEEKDAY_NAMES[weekday];
+    return holidayName(date);
+  };
+
+  const isCourtDay = (date: string) => closedReason(date) === null;
+
+  const step = (date: string, direction: 1 | -1) => {
+    let result = date;
+    while (!isCourtDay(result)) result = addDays(result, direction);
+    return result;
+  };
+
+  return {
+    name: calendar.name,
+    holidayName,
+    isCourtDay,
+    closedReason,
+    nextCourtDay: (date) => step(date, 1),
+    previousCourtDay: (date) => step(date, -1),
+
+    // Counts court days only, starting the day after (or before) the given date
+    addCourtDays(date, days) {
+      const direction = days < 0 ? -1 : 1;
+      let result = date;
+      let remaining = Math.abs(days);
+
+      while (remaining > 0) {
+        result = addDays(result, direction);
+        if (isCourtDay(result)) remaining -= 1;
+      }
+      return result;
+    },
+  };
+};
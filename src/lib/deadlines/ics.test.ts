@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { FeedEvent, buildCalendar, parseIcs } from './ics';
+
+const now = new Date('2025-03-01T12:00:00Z');
+const encoder = new TextEncoder();
+
+const build = (events: FeedEvent[]) => buildCalendar('Deadlines', events, now);
+
+describe('buildCalendar', () => {
+  it('writes all-day events as dates ending the next day', () => {
+    const ics = build([{ uid: 'answer@legalbeacon', summary: 'Answer due', date: '2025-03-31' }]);
+
+    expect(ics).toContain('DTSTART;VALUE=DATE:20250331\r\n');
+    expect(ics).toContain('DTEND;VALUE=DATE:20250401\r\n');
+  });
+
+  it('writes timed events in UTC', () => {
+    const ics = build([{ uid: 'hearing', summary: 'Hearing', start: '2025-03-14T14:30:00Z', durationMinutes: 90 }]);
+
+    expect(ics).toContain('DTSTART:20250314T143000Z\r\n');
+    expect(ics).toContain('DTEND:20250314T160000Z\r\n');
+  });
+
+  it('escapes commas, semicolons, backslashes and newlines', () => {
+    const ics = build([{ uid: 'x', summary: 'Smith, Jones; C:\\files', description: 'Line one\nLine two', date: '2025-03-31' }]);
+
+    expect(ics).toContain('SUMMARY:Smith\\, Jones\\; C:\\\\files\r\n');
+    expect(ics).toContain('DESCRIPTION:Line one\\nLine two\r\n');
+  });
+
+  it('folds lines at 75 octets without splitting characters', () => {
+    const ics = build([{ uid: 'x', summary: `Hearing ${'é'.repeat(100)}`, date: '2025-03-31' }]);
+    const lines = ics.split('\r\n');
+    const summary = lines.findIndex((line) => line.startsWith('SUMMARY:'));
+
+    expect(lines[summary + 1].startsWith(' ')).toBe(true);
+    lines.forEach((line) => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+    expect(ics).not.toContain('\uFFFD');
+  });
+});
+
+describe('parseIcs', () => {
+  it('round-trips the events the feed writes', () => {
+    const ics = build([
+      {
+        uid: 'answer@legalbeacon',
+        summary: 'Answer due, Smith; v. Jones \\ Co',
+        description: `${'A long description that wraps. '.repeat(5)}\nSecond line`,
+        location: 'Courtroom 4, 2nd floor',
+        date: '2025-03-31',
+        alarmAt: '2025-03-28T13:00:00Z',
+      },
+      { uid: 'hearing@legalbeacon', summary: 'Hearing', start: '2025-03-14T14:30:00Z' },
+    ]);
+
+    const [answer, hearing] = parseIcs(ics, 'America/New_York');
+
+    expect(answer).toEqual({
+      uid: 'answer@legalbeacon',
+      summary: 'Answer due, Smith; v. Jones \\ Co',
+      description: `${'A long description that wraps. '.repeat(5)}\nSecond line`,
+      location: 'Courtroom 4, 2nd floor',
+      allDay: true,
+      date: '2025-03-31',
+      time: null,
+      alarmAt: '2025-03-28T13:00:00.000Z',
+    });
+    // 14:30 UTC is 10:30 in New York once DST has started
+    expect(hearing).toMatchObject({ allDay: false, date: '2025-03-14', time: '10:30', alarmAt: null });
+  });
+
+  it('reads wall times in the event\'s zone and relative alarms', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=America/Chicago:20250110T090000',
+      'SUMMARY:Deposition',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT30M',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseIcs(ics, 'America/New_York')[0]).toMatchObject({
+      date: '2025-01-10',
+      time: '10:00',
+      alarmAt: '2025-01-10T14:30:00.000Z',
+    });
+  });
+
+  it('falls back to the given zone for zones it does not know', () => {
+    const ics = 'BEGIN:VEVENT\nDTSTART;TZID=Eastern Standard Time:20250110T090000\nSUMMARY:Call\nEND:VEVENT';
+
+    expect(parseIcs(ics, 'America/New_York')[0]).toMatchObject({ date: '2025-01-10', time: '09:00' });
+  });
+
+  it('skips events without a start', () => {
+    expect(parseIcs('BEGIN:VEVENT\nSUMMARY:Nothing\nEND:VEVENT', 'UTC')).toEqual([]);
+  });
+});
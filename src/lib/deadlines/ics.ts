@@ -0,0 +1,283 @@
+// src/lib/deadlines/ics.ts
+// Reading and writing iCalendar (RFC 5545) files. Used by the per-user deadline feed on
+// the server and by .ics import in the browser, so it only relies on Intl.
+
+export interface FeedEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  // All-day events use `date` (YYYY-MM-DD); timed events use `start`, an ISO instant
+  date?: string;
+  start?: string;
+  durationMinutes?: number;
+  // When the calendar app should alert, as an ISO instant
+  alarmAt?: string | null;
+}
+
+export interface ParsedEvent {
+  uid: string | null;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  allDay: boolean;
+  // Date and time (HH:MM, null for all-day events) in the time zone passed to parseIcs
+  date: string;
+  time: string | null;
+  // Earliest alarm on the event, as an ISO instant
+  alarmAt: string | null;
+}
+
+const encoder = new TextEncoder();
+
+const escapeText = (value: string) => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+const unescapeText = (value: string) => {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+// Lines longer than 75 octets are folded onto continuation lines that start with a space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const formatUtc = (instant: Date) => instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (date: string) => date.replace(/-/g, '');
+
+const nextDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+};
+
+export const buildCalendar = (name: string, events: FeedEvent[], now = new Date()) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//LegalBeacon//Deadlines//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  events.forEach((event) => {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatUtc(now)}`);
+
+    if (event.date) {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`, `DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`);
+    } else if (event.start) {
+      const start = new Date(event.start);
+      const end = new Date(start.getTime() + (event.durationMinutes || 60) * 60 * 1000);
+      lines.push(`DTSTART:${formatUtc(start)}`, `DTEND:${formatUtc(end)}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+
+    if (event.alarmAt) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(`Reminder: ${event.summary}`)}`,
+        `TRIGGER;VALUE=DATE-TIME:${formatUtc(new Date(event.alarmAt))}`,
+        'END:VALARM'
+      );
+    }
+
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseProperty = (line: string): Property | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+// Offset of a time zone from UTC at an instant, in milliseconds
+const zoneOffset = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((item) => item.type === type)?.value);
+
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')) - instant;
+};
+
+const isValidZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Converts a wall-clock time in a zone to an instant. Zones Intl doesn't know (Outlook
+// writes Windows names such as "Eastern Standard Time") fall back to `fallbackZone`.
+const wallTimeToInstant = (value: string, timeZone: string | null, fallbackZone: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wall = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  if (utc) return new Date(wall);
+
+  const zone = timeZone && isValidZone(timeZone) ? timeZone : fallbackZone;
+  // Two passes settle on the right offset when the guess lands across a DST change
+  let instant = wall - zoneOffset(wall, zone);
+  instant = wall - zoneOffset(instant, zone);
+  return new Date(instant);
+};
+
+const parseDuration = (value: string) => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((((Number(weeks || 0) * 7 + Number(days || 0)) * 24 + Number(hours || 0)) * 60 + Number(minutes || 0)) * 60 + Number(seconds || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+const localDateTime = (instant: Date, timeZone: string) => {
+  const shifted = new Date(instant.getTime() + zoneOffset(instant.getTime(), timeZone));
+  const iso = shifted.toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+};
+
+// Reads the VEVENTs of an .ics file. Times are reported in `timeZone`, normally the
+// browser's own, so they match what the user sees in their calendar.
+export const parseIcs = (text: string, timeZone: string): ParsedEvent[] => {
+  const lines = text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const events: ParsedEvent[] = [];
+
+  let event: { props: Property[]; alarms: Property[][] } | null = null;
+  let alarm: Property[] | null = null;
+
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase();
+
+    if (upper === 'BEGIN:VEVENT') {
+      event = { props: [], alarms: [] };
+    } else if (upper === 'BEGIN:VALARM' && event) {
+      alarm = [];
+    } else if (upper === 'END:VALARM' && event && alarm) {
+      event.alarms.push(alarm);
+      alarm = null;
+    } else if (upper === 'END:VEVENT' && event) {
+      const parsed = toParsedEvent(event.props, event.alarms, timeZone);
+      if (parsed) events.push(parsed);
+      event = null;
+    } else if (event) {
+      const property = parseProperty(line);
+      if (property) (alarm || event.props).push(property);
+    }
+  }
+
+  return events;
+};
+
+const toParsedEvent = (props: Property[], alarms: Property[][], timeZone: string): ParsedEvent | null => {
+  const get = (name: string) => props.find((prop) => prop.name === name);
+  const dtstart = get('DTSTART');
+  if (!dtstart) return null;
+
+  const allDay = dtstart.params.VALUE === 'DATE' || /^\d{8}$/.test(dtstart.value);
+  let start: Date | null = null;
+  let date: string;
+  let time: string | null = null;
+
+  if (allDay) {
+    const value = dtstart.value.slice(0, 8);
+    date = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+  } else {
+    start = wallTimeToInstant(dtstart.value, dtstart.params.TZID || null, timeZone);
+    if (!start) return null;
+    ({ date, time } = localDateTime(start, timeZone));
+  }
+
+  // All-day alarms are relative to midnight at the start of the day in the user's zone
+  const anchor = start || wallTimeToInstant(`${date.replace(/-/g, '')}T000000`, null, timeZone)!;
+
+  const alarmTimes = alarms
+    .map((alarmProps) => alarmProps.find((prop) => prop.name === 'TRIGGER'))
+    .map((trigger) => {
+      if (!trigger) return null;
+      if (trigger.params.VALUE === 'DATE-TIME') return wallTimeToInstant(trigger.value, null, timeZone);
+      const offset = parseDuration(trigger.value);
+      return offset === null ? null : new Date(anchor.getTime() + offset);
+    })
+    .filter((value): value is Date => value !== null)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  return {
+    uid: get('UID')?.value || null,
+    summary: unescapeText(get('SUMMARY')?.value || 'Untitled event'),
+    description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value) : null,
+    location: get('LOCATION') ? unescapeText(get('LOCATION')!.value) : null,
+    allDay,
+    date,
+    time,
+    alarmAt: alarmTimes.length > 0 ? alarmTimes[0].toISOString() : null,
+  };
+};
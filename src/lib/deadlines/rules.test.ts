@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { HolidayCalendar } from './calendar';
+import { HOLIDAY_CALENDARS, RULE_SETS, calculateDeadlines, getCourtCalendar } from './rules';
+
+const federal = RULE_SETS.find((ruleSet) => ruleSet.id === 'federal')!;
+const calendar = getCourtCalendar(federal);
+
+const dueDate = (triggerId: string, triggerDate: string, ruleId: string, serviceMethodId: string | null = null) => {
+  return calculateDeadlines(federal, calendar, triggerId, triggerDate, serviceMethodId)
+    .find((deadline) => deadline.rule_id === ruleId)!.due_date;
+};
+
+describe('FRCP 6(a) counting', () => {
+  it('excludes the trigger day and keeps a period that ends on a court day', () => {
+    expect(dueDate('complaint_served', '2025-06-20', 'answer')).toBe('2025-07-11');
+  });
+
+  it('runs a period ending on a weekend to the next court day', () => {
+    expect(dueDate('complaint_served', '2025-03-01', 'answer')).toBe('2025-03-24');
+  });
+
+  it('runs a period ending on a legal holiday to the next court day', () => {
+    expect(dueDate('complaint_served', '2025-08-11', 'answer')).toBe('2025-09-02');
+  });
+
+  it('treats the observed date of a weekend holiday as a holiday', () => {
+    // July 4, 2026 is a Saturday, observed on Friday July 3
+    expect(dueDate('complaint_served', '2026-06-12', 'answer')).toBe('2026-07-06');
+  });
+
+  it('moves a period counted backward to the court day before', () => {
+    expect(dueDate('hearing_set', '2025-09-15', 'motion_service')).toBe('2025-08-29');
+  });
+
+  it('counts a period from another deadline after that one has rolled', () => {
+    // The response rolls from Saturday March 15 to Monday March 17
+    expect(dueDate('motion_served', '2025-03-01', 'response')).toBe('2025-03-17');
+    expect(dueDate('motion_served', '2025-03-01', 'reply')).toBe('2025-03-24');
+  });
+
+  it('ends a month period on the last day of a shorter month', () => {
+    expect(dueDate('judgment_entered', '2024-02-29', 'relief_from_judgment')).toBe('2025-02-28');
+  });
+});
+
+describe('FRCP 6(d) service extension', () => {
+  it('adds three days for mail after the period expires', () => {
+    expect(dueDate('counterclaim_served', '2025-06-20', 'reply', 'mail')).toBe('2025-07-14');
+  });
+
+  it('rolls the extended date past a holiday', () => {
+    expect(dueDate('counterclaim_served', '2025-08-08', 'reply', 'mail')).toBe('2025-09-02');
+  });
+
+  it('adds nothing for electronic service', () => {
+    expect(dueDate('counterclaim_served', '2025-06-20', 'reply', 'electronic')).toBe('2025-07-11');
+  });
+
+  it('explains each step of the count', () => {
+    const [deadline] = calculateDeadlines(federal, calendar, 'counterclaim_served', '2025-08-08', 'mail');
+    expect(deadline.explanation).toContain('plus 3 days for service by mail');
+    expect(deadline.explanation).toContain('Labor Day');
+  });
+});
+
+describe('getCourtCalendar', () => {
+  it('uses holiday calendars passed in even after the default one was built', () => {
+    const defaults = HOLIDAY_CALENDARS.find((item) => item.id === federal.holiday_calendar)!;
+    const withClosure: HolidayCalendar = {
+      ...defaults,
+      closures: [{ date: '2025-07-11', name: 'Courthouse closed' }],
+    };
+
+    expect(getCourtCalendar(federal).isCourtDay('2025-07-11')).toBe(true);
+    expect(getCourtCalendar(federal, [withClosure]).closedReason('2025-07-11')).toBe('Courthouse closed');
+    expect(getCourtCalendar(federal).isCourtDay('2025-07-11')).toBe(true);
+  });
+
+  it('throws for a calendar that is not defined', () => {
+    expect(() => getCourtCalendar(federal, [])).toThrow('is not defined');
+  });
+});
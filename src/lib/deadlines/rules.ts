@@ -0,0 +1,247 @@
+// src/lib/deadlines/rules.ts
+import {
+  CourtCalendar,
+  HolidayCalendar,
+  addDays,
+  addMonths,
+  createCourtCalendar,
+  formatCourtDate,
+  isIsoDate,
+} from './calendar';
+import federalRules from './rules/federal.json';
+import floridaRules from './rules/florida.json';
+import michiganRules from './rules/michigan.json';
+import usFederalHolidays from './holidays/us-federal.json';
+import floridaHolidays from './holidays/florida-courts.json';
+import michiganHolidays from './holidays/michigan-courts.json';
+
+export type PeriodUnit = 'calendar_days' | 'court_days' | 'months';
+
+// How a due date that lands on a weekend or holiday moves. Statutory periods such as
+// redemption usually run out on the day itself ("none").
+export type RollDirection = 'forward' | 'backward' | 'none';
+
+export interface DeadlineRule {
+  id: string;
+  title: string;
+  // Negative amounts count back from the trigger, e.g. papers due before a hearing
+  amount: number;
+  unit: PeriodUnit;
+  // Counts from another deadline of the same trigger instead of the trigger itself
+  from?: string;
+  // Adds the service method's extra days (e.g. 3 days for mail under FRCP 6(d))
+  service_extension?: boolean;
+  roll?: RollDirection;
+  priority: 'High' | 'Medium' | 'Low';
+  citation: string;
+}
+
+export interface TriggerEvent {
+  id: string;
+  label: string;
+  deadlines: DeadlineRule[];
+}
+
+export interface ServiceMethod {
+  id: string;
+  label: string;
+  extra_days: number;
+  citation?: string;
+}
+
+export interface RuleSet {
+  id: string;
+  name: string;
+  // Case-insensitive patterns. Every list present must have a pattern that matches.
+  match: { court_name?: string[]; court_location?: string[] };
+  holiday_calendar: string;
+  service_methods: ServiceMethod[];
+  triggers: TriggerEvent[];
+}
+
+export interface CalculatedDeadline {
+  rule_id: string;
+  title: string;
+  due_date: string;
+  priority: DeadlineRule['priority'];
+  citation: string;
+  // Plain-language account of how the date was reached, kept with the deadline
+  explanation: string;
+}
+
+export class RuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleError';
+  }
+}
+
+export const RULE_SETS: RuleSet[] = [
+  federalRules as RuleSet,
+  floridaRules as RuleSet,
+  michiganRules as RuleSet,
+];
+
+export const HOLIDAY_CALENDARS: HolidayCalendar[] = [
+  usFederalHolidays,
+  floridaHolidays,
+  michiganHolidays,
+];
+
+const UNIT_LABELS: Record<PeriodUnit, [string, string]> = {
+  calendar_days: ['day', 'days'],
+  court_days: ['court day', 'court days'],
+  months: ['month', 'months'],
+};
+
+const describePeriod = (amount: number, unit: PeriodUnit) => {
+  const count = Math.abs(amount);
+  return `${count} ${UNIT_LABELS[unit][count === 1 ? 0 : 1]}`;
+};
+
+// Picks the rule set whose patterns match the case's court, preferring the one that
+// matches on the most fields. Returns null when none apply.
+export const findRuleSet = (courtName: string | null, courtLocation: string | null, ruleSets = RULE_SETS) => {
+  const fields = { court_name: courtName || '', court_location: courtLocation || '' };
+  let best: RuleSet | null = null;
+  let bestScore = 0;
+
+  ruleSets.forEach((ruleSet) => {
+    const lists = Object.entries(ruleSet.match) as [keyof typeof fields, string[]][];
+    const matches = lists.every(([field, patterns]) =>
+      patterns.some((pattern) => new RegExp(pattern, 'i').test(fields[field]))
+    );
+
+    if (matches && lists.length > bestScore) {
+      best = ruleSet;
+      bestScore = lists.length;
+    }
+  });
+
+  return best as RuleSet | null;
+};
+
+// Keyed by the holiday calendar definition itself, so callers passing their own
+// calendars never get one built from another list with the same id
+const calendars = new WeakMap<HolidayCalendar, CourtCalendar>();
+
+export const getCourtCalendar = (ruleSet: RuleSet, holidayCalendars = HOLIDAY_CALENDARS) => {
+  const definition = holidayCalendars.find((item) => item.id === ruleSet.holiday_calendar);
+  if (!definition) {
+    throw new RuleError(`Holiday calendar "${ruleSet.holiday_calendar}" is not defined`);
+  }
+
+  let calendar = calendars.get(definition);
+
+  if (!calendar) {
+    calendar = createCourtCalendar(definition);
+    calendars.set(definition, calendar);
+  }
+
+  return calendar;
+};
+
+const roll = (calendar: CourtCalendar, date: string, direction: RollDirection) => {
+  if (direction === 'none' || calendar.isCourtDay(date)) {
+    return { date, note: null };
+  }
+
+  const moved = direction === 'forward' ? calendar.nextCourtDay(date) : calendar.previousCourtDay(date);
+  const holiday = calendar.holidayName(date);
+
+  return {
+    date: moved,
+    note: `the court is closed on ${formatCourtDate(date)}${holiday ? ` (${holiday})` : ''}, so it moves to ${formatCourtDate(moved)}`,
+  };
+};
+
+// Computes every deadline that follows from a trigger event. Periods are counted the way
+// FRCP 6(a) and its state counterparts do: the trigger day is excluded, a period in
+// calendar days that ends on a weekend or holiday runs to the next court day, and
+// service extensions are added after that period expires.
+export const calculateDeadlines = (
+  ruleSet: RuleSet,
+  calendar: CourtCalendar,
+  triggerId: string,
+  triggerDate: string,
+  serviceMethodId: string | null = null
+): CalculatedDeadline[] => {
+  const trigger = ruleSet.triggers.find((item) => item.id === triggerId);
+  if (!trigger) {
+    throw new RuleError(`${ruleSet.name} has no trigger event "${triggerId}"`);
+  }
+  if (!isIsoDate(triggerDate)) {
+    throw new RuleError(`"${triggerDate}" is not a valid date`);
+  }
+
+  const serviceMethod = serviceMethodId
+    ? ruleSet.service_methods.find((method) => method.id === serviceMethodId)
+    : null;
+
+  if (serviceMethodId && !serviceMethod) {
+    throw new RuleError(`${ruleSet.name} has no service method "${serviceMethodId}"`);
+  }
+
+  const results = new Map<string, CalculatedDeadline>();
+  const inProgress = new Set<string>();
+
+  const compute = (rule: DeadlineRule): CalculatedDeadline => {
+    const done = results.get(rule.id);
+    if (done) return done;
+
+    if (inProgress.has(rule.id)) {
+      throw new RuleError(`Deadline "${rule.id}" in ${ruleSet.name} depends on itself`);
+    }
+    inProgress.add(rule.id);
+
+    let startDate = triggerDate;
+    let startLabel = `${trigger.label.toLowerCase()} (${formatCourtDate(triggerDate)})`;
+
+    if (rule.from) {
+      const base = trigger.deadlines.find((item) => item.id === rule.from);
+      if (!base) {
+        throw new RuleError(`Deadline "${rule.id}" counts from unknown deadline "${rule.from}"`);
+      }
+      const baseResult = compute(base);
+      startDate = baseResult.due_date;
+      startLabel = `${baseResult.title.toLowerCase()} (${formatCourtDate(startDate)})`;
+    }
+
+    const direction = rule.roll || (rule.amount < 0 ? 'backward' : 'forward');
+    const steps = [`${describePeriod(rule.amount, rule.unit)} ${rule.amount < 0 ? 'before' : 'after'} ${startLabel}`];
+    let dueDate: string;
+
+    if (rule.unit === 'court_days') {
+      dueDate = calendar.addCourtDays(startDate, rule.amount);
+    } else {
+      dueDate = rule.unit === 'months' ? addMonths(startDate, rule.amount) : addDays(startDate, rule.amount);
+      const rolled = roll(calendar, dueDate, direction);
+      dueDate = rolled.date;
+      if (rolled.note) steps.push(rolled.note);
+    }
+
+    if (rule.service_extension && serviceMethod && serviceMethod.extra_days > 0) {
+      dueDate = addDays(dueDate, serviceMethod.extra_days);
+      steps.push(`plus ${describePeriod(serviceMethod.extra_days, 'calendar_days')} for service by ${serviceMethod.label.toLowerCase()}${serviceMethod.citation ? ` (${serviceMethod.citation})` : ''}`);
+
+      const rolled = roll(calendar, dueDate, 'forward');
+      dueDate = rolled.date;
+      if (rolled.note) steps.push(rolled.note);
+    }
+
+    const result: CalculatedDeadline = {
+      rule_id: rule.id,
+      title: rule.title,
+      due_date: dueDate,
+      priority: rule.priority,
+      citation: rule.citation,
+      explanation: `${steps.join('; ')}. ${rule.citation}.`,
+    };
+
+    inProgress.delete(rule.id);
+    results.set(rule.id, result);
+    return result;
+  };
+
+  return trigger.deadlines.map(compute);
+};
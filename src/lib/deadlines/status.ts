@@ -0,0 +1,30 @@
+// src/lib/deadlines/status.ts
+import { supabase } from '@/lib/supabase';
+
+export const DEADLINE_STATUSES = ['Pending', 'Overdue', 'Completed'] as const;
+
+export const DEADLINE_PRIORITIES = ['High', 'Medium', 'Low'] as const;
+
+// Midnight at the start of the user's day. A deadline only becomes overdue once its
+// whole due day has passed in the user's own time zone.
+export const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+// Rolls the firm's pending deadlines that are past due over to Overdue. Called before
+// deadlines are shown so nobody reads a stale Pending on a missed date.
+export const markOverdueDeadlines = async (firmId: string) => {
+  const { data, error } = await supabase.rpc('mark_overdue_deadlines', {
+    p_firm_id: firmId,
+    p_before: startOfToday().toISOString(),
+  });
+
+  if (error) {
+    console.error('Error marking overdue deadlines:', error);
+    return 0;
+  }
+
+  return data || 0;
+};
@@ -0,0 +1,214 @@
+// src/lib/documents/diff.ts
+import { TemplateFormat, readTemplateText } from '@/lib/templates/files';
+
+export type DiffType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffType;
+  value: string;
+}
+
+export interface DiffLine {
+  type: DiffType;
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+  // Word-level changes, set when a removed line was rewritten rather than deleted
+  parts?: DiffPart[];
+}
+
+export interface DocumentDiff {
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+}
+
+const BLOCK_TAG_PATTERN = /<\/?(p|div|br|li|tr|h[1-6]|blockquote|section|article|table|ul|ol)(\s[^>]*)?\/?>/gi;
+
+const decodeEntities = (value: string) => {
+  return value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+};
+
+const htmlToText = (html: string) => {
+  const text = html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(BLOCK_TAG_PATTERN, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line, index, lines) => line !== '' || (index > 0 && lines[index - 1] !== ''))
+    .join('\n')
+    .trim();
+};
+
+// Plain text of a stored file, one paragraph per line, for comparing versions
+export const readDocumentText = async (data: ArrayBuffer, format: TemplateFormat) => {
+  const text = await readTemplateText(data, format);
+  return format === 'html' ? htmlToText(text) : text.replace(/\r\n?/g, '\n');
+};
+
+// Myers' O(ND) diff. Returns the edit script from `a` to `b` as equal/removed/added steps.
+const diffSequences = <T>(a: T[], b: T[]): { type: DiffType; index: number }[] => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const frontier = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+
+  for (let d = 0; d <= max && !found; d++) {
+    // Keep only the diagonals this round can read, so memory grows with d² rather than d·(n+m)
+    trace.push(frontier.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1])
+        ? frontier[offset + k + 1]
+        : frontier[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+
+      frontier[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  const steps: { type: DiffType; index: number }[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const snapshot = trace[d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && snapshot[k - 1 + d] < snapshot[k + 1 + d]) ? k + 1 : k - 1;
+    const previousX = snapshot[previousK + d];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      x -= 1;
+      y -= 1;
+      steps.push({ type: 'equal', index: x });
+    }
+
+    if (x === previousX) {
+      y -= 1;
+      steps.push({ type: 'added', index: y });
+    } else {
+      x -= 1;
+      steps.push({ type: 'removed', index: x });
+    }
+  }
+
+  while (x > 0) {
+    x -= 1;
+    steps.push({ type: 'equal', index: x });
+  }
+
+  return steps.reverse();
+};
+
+const diffWords = (before: string, after: string): { removed: DiffPart[]; added: DiffPart[] } => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  const removed: DiffPart[] = [];
+  const added: DiffPart[] = [];
+
+  const push = (parts: DiffPart[], type: DiffType, value: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ type, value });
+    }
+  };
+
+  diffSequences(a, b).forEach((step) => {
+    if (step.type === 'equal') {
+      push(removed, 'equal', a[step.index]);
+      push(added, 'equal', a[step.index]);
+    } else if (step.type === 'removed') {
+      push(removed, 'removed', a[step.index]);
+    } else {
+      push(added, 'added', b[step.index]);
+    }
+  });
+
+  return { removed, added };
+};
+
+// Within a run of changes, removed and added lines are paired up in order and given a
+// word-level diff, which is how a rewritten paragraph reads in a redline
+const pairChangedLines = (lines: DiffLine[]) => {
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type === 'equal') {
+      index += 1;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+
+    while (index < lines.length && lines[index].type !== 'equal') {
+      (lines[index].type === 'removed' ? removed : added).push(lines[index]);
+      index += 1;
+    }
+
+    for (let pair = 0; pair < Math.min(removed.length, added.length); pair++) {
+      const words = diffWords(removed[pair].text, added[pair].text);
+      removed[pair].parts = words.removed;
+      added[pair].parts = words.added;
+    }
+  }
+};
+
+export const diffText = (before: string, after: string): DocumentDiff => {
+  const a = before === '' ? [] : before.split('\n');
+  const b = after === '' ? [] : after.split('\n');
+
+  let oldLine = 0;
+  let newLine = 0;
+  let added = 0;
+  let removed = 0;
+
+  const lines = diffSequences(a, b).map((step): DiffLine => {
+    if (step.type === 'equal') {
+      oldLine += 1;
+      newLine += 1;
+      return { type: 'equal', text: a[step.index], oldLine, newLine };
+    }
+
+    if (step.type === 'removed') {
+      oldLine += 1;
+      removed += 1;
+      return { type: 'removed', text: a[step.index], oldLine, newLine: null };
+    }
+
+    newLine += 1;
+    added += 1;
+    return { type: 'added', text: b[step.index], oldLine: null, newLine };
+  });
+
+  pairChangedLines(lines);
+
+  return { lines, added, removed };
+};
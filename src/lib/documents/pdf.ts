@@ -0,0 +1,265 @@
+// src/lib/documents/pdf.ts
+// Text of a PDF for the assistant's index (src/lib/ai/retrieval). pdf-lib only parses
+// the file, so this reads each page's content stream and keeps the strings its text
+// operators show, mapped through the font's ToUnicode table when it has one. Scanned
+// PDFs have no text operators and come back empty.
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+
+interface FontDecoder {
+  // Bytes per character code: 1 for simple fonts, usually 2 for Type0 (CID) fonts
+  codeLength: number;
+  toUnicode: Map<number, string> | null;
+}
+
+type Operand = string | number | { text: string } | Operand[];
+
+const readStream = (stream: unknown) => {
+  if (!(stream instanceof PDFRawStream)) return '';
+  return Buffer.from(decodePDFRawStream(stream).decode()).toString('latin1');
+};
+
+const utf16ToString = (hex: string) => {
+  const padded = hex.length % 4 === 0 ? hex : hex.padStart(Math.ceil(hex.length / 4) * 4, '0');
+  let text = '';
+  for (let index = 0; index < padded.length; index += 4) {
+    text += String.fromCharCode(parseInt(padded.slice(index, index + 4), 16));
+  }
+  return text;
+};
+
+// The bfchar and bfrange entries of a ToUnicode CMap
+const parseToUnicode = (cmap: string) => {
+  const map = new Map<number, string>();
+
+  for (const block of Array.from(cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g))) {
+    for (const entry of Array.from(block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g))) {
+      map.set(parseInt(entry[1], 16), utf16ToString(entry[2]));
+    }
+  }
+
+  for (const block of Array.from(cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g))) {
+    const entries = block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g);
+
+    for (const entry of Array.from(entries)) {
+      const low = parseInt(entry[1], 16);
+      const high = Math.min(parseInt(entry[2], 16), low + 0xffff);
+
+      if (entry[3].startsWith('[')) {
+        Array.from(entry[3].matchAll(/<([0-9a-fA-F]*)>/g)).forEach((target, offset) => {
+          map.set(low + offset, utf16ToString(target[1]));
+        });
+      } else {
+        const base = utf16ToString(entry[3].slice(1, -1));
+        for (let code = low; code <= high; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - low));
+        }
+      }
+    }
+  }
+
+  return map;
+};
+
+const loadFonts = (resources: PDFDict | undefined) => {
+  const fonts = new Map<string, FontDecoder>();
+  const fontDict = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+  if (!fontDict) return fonts;
+
+  for (const [name] of fontDict.entries()) {
+    const font = fontDict.lookupMaybe(name, PDFDict);
+    if (!font) continue;
+
+    const isComposite = font.lookupMaybe(PDFName.of('Subtype'), PDFName)?.asString() === '/Type0';
+    const cmap = readStream(font.lookup(PDFName.of('ToUnicode')));
+    const codeSpace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap);
+
+    fonts.set(name.asString(), {
+      codeLength: codeSpace ? codeSpace[1].length / 2 : isComposite ? 2 : 1,
+      toUnicode: cmap ? parseToUnicode(cmap) : null,
+    });
+  }
+
+  return fonts;
+};
+
+const decodeShownText = (bytes: string, font: FontDecoder | undefined) => {
+  if (!font?.toUnicode) {
+    // Simple fonts without a ToUnicode map are close enough to Latin-1 for searching
+    return font?.codeLength === 2 ? '' : bytes;
+  }
+
+  let text = '';
+  for (let index = 0; index + font.codeLength <= bytes.length; index += font.codeLength) {
+    let code = 0;
+    for (let offset = 0; offset < font.codeLength; offset++) {
+      code = code * 256 + bytes.charCodeAt(index + offset);
+    }
+    text += font.toUnicode.get(code) ?? (font.codeLength === 1 ? String.fromCharCode(code) : '');
+  }
+  return text;
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+const DELIMITERS = '()<>[]{}/%';
+
+const isWhitespace = (char: string) => char === ' ' || char === '\n' || char === '\r' || char === '\t' || char === '\f' || char === '\0';
+
+// Runs through a content stream, keeping the text shown by Tj, TJ, ' and " and starting
+// a new line whenever the text moves down the page
+const extractContentText = (content: string, fonts: Map<string, FontDecoder>) => {
+  const lines: string[] = [''];
+  const stack: Operand[][] = [[]];
+  let font: FontDecoder | undefined;
+  let lastY: number | null = null;
+  let index = 0;
+
+  const operands = () => stack[stack.length - 1];
+  const write = (text: string) => {
+    lines[lines.length - 1] += text;
+  };
+  const newLine = () => {
+    if (lines[lines.length - 1].trim()) lines.push('');
+  };
+  const show = (operand: Operand | undefined) => {
+    if (operand && typeof operand === 'object' && 'text' in operand) write(decodeShownText(operand.text, font));
+  };
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (isWhitespace(char)) {
+      index++;
+    } else if (char === '%') {
+      while (index < content.length && content[index] !== '\n' && content[index] !== '\r') index++;
+    } else if (char === '(') {
+      let depth = 1;
+      let text = '';
+      index++;
+
+      while (index < content.length && depth > 0) {
+        const current = content[index];
+
+        if (current === '\\') {
+          const next = content[index + 1];
+          if (/[0-7]/.test(next)) {
+            const octal = /^[0-7]{1,3}/.exec(content.slice(index + 1, index + 4))![0];
+            text += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            index += 1 + octal.length;
+          } else {
+            if (next !== '\n' && next !== '\r') text += ESCAPES[next] ?? next;
+            index += 2;
+          }
+          continue;
+        }
+
+        if (current === '(') depth++;
+        if (current === ')') depth--;
+        if (depth > 0) text += current;
+        index++;
+      }
+
+      operands().push({ text });
+    } else if (char === '<' && content[index + 1] === '<') {
+      index += 2;
+    } else if (char === '>' && content[index + 1] === '>') {
+      index += 2;
+    } else if (char === '<') {
+      const end = content.indexOf('>', index);
+      const hex = content.slice(index + 1, end < 0 ? content.length : end).replace(/[^0-9a-fA-F]/g, '');
+      const even = hex.length % 2 === 0 ? hex : `${hex}0`;
+      let text = '';
+      for (let offset = 0; offset < even.length; offset += 2) text += String.fromCharCode(parseInt(even.slice(offset, offset + 2), 16));
+      operands().push({ text });
+      index = end < 0 ? content.length : end + 1;
+    } else if (char === '[') {
+      stack.push([]);
+      index++;
+    } else if (char === ']') {
+      const array = stack.length > 1 ? stack.pop()! : [];
+      operands().push(array);
+      index++;
+    } else if (char === '/') {
+      let end = index + 1;
+      while (end < content.length && !isWhitespace(content[end]) && !DELIMITERS.includes(content[end])) end++;
+      operands().push(content.slice(index, end));
+      index = end;
+    } else {
+      let end = index;
+      while (end < content.length && !isWhitespace(content[end]) && !DELIMITERS.includes(content[end])) end++;
+      if (end === index) end++;
+
+      const token = content.slice(index, end);
+      index = end;
+
+      if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        operands().push(Number(token));
+        continue;
+      }
+
+      const args = operands();
+
+      switch (token) {
+        case 'Tf':
+          font = fonts.get(String(args[args.length - 2]));
+          break;
+        case 'Tj':
+          show(args[args.length - 1]);
+          break;
+        case "'":
+        case '"':
+          newLine();
+          show(args[args.length - 1]);
+          break;
+        case 'TJ': {
+          const items = args[args.length - 1];
+          if (Array.isArray(items)) {
+            items.forEach((item) => {
+              // A wide negative kern is the gap between words
+              if (typeof item === 'number' && item < -200) write(' ');
+              else show(item);
+            });
+          }
+          break;
+        }
+        case 'Td':
+        case 'TD':
+          if (Number(args[1]) !== 0) newLine();
+          break;
+        case 'T*':
+          newLine();
+          break;
+        case 'Tm': {
+          const y = Number(args[5]);
+          if (lastY !== null && y !== lastY) newLine();
+          lastY = y;
+          break;
+        }
+        case 'ID': {
+          // Inline image data runs to the next EI
+          const end = content.slice(index).search(/\sEI(\s|$)/);
+          index = end < 0 ? content.length : index + end + 3;
+          break;
+        }
+      }
+
+      stack.length = 1;
+      stack[0] = [];
+    }
+  }
+
+  return lines.map((line) => line.replace(/[\u0000-\u0008\u000b-\u001f]/g, '').replace(/\s+/g, ' ').trim()).filter(Boolean);
+};
+
+export const readPdfText = async (data: ArrayBuffer) => {
+  const pdf = await PDFDocument.load(data, { updateMetadata: false });
+
+  return pdf.getPages().map((page) => {
+    const fonts = loadFonts(page.node.Resources());
+    const contents = page.node.Contents();
+    const streams = contents instanceof PDFArray
+      ? contents.asArray().map((item) => pdf.context.lookup(item))
+      : [contents];
+
+    return extractContentText(streams.map(readStream).join('\n'), fonts).join('\n');
+  }).filter(Boolean).join('\n\n');
+};
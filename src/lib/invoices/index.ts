@@ -0,0 +1,61 @@
+// src/lib/invoices/index.ts
+// Client invoices. An invoice bills a client's unbilled fees and expenses (financials
+// rows without an invoice_id) and billable time (time_entries, see src/lib/time), and
+// payments are financials rows of type Payment that point back at it. The database keeps the totals, amount_paid and status in step
+// (guard_invoice), so pages only ever read them.
+import { Database } from '@/types/supabase';
+import { roundMoney } from '@/lib/trust';
+
+export type Invoice = Database['public']['Tables']['invoices']['Row'];
+export type InvoiceLineItem = Database['public']['Tables']['invoice_line_items']['Row'];
+
+export type InvoiceStatus = 'draft' | 'sent' | 'partially_paid' | 'paid' | 'void';
+
+export const INVOICE_STATUSES: { value: InvoiceStatus; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'partially_paid', label: 'Partially Paid' },
+  { value: 'paid', label: 'Paid' },
+  { value: 'void', label: 'Void' },
+];
+
+// Sent invoices that still have something owing
+export const OPEN_INVOICE_STATUSES: InvoiceStatus[] = ['sent', 'partially_paid'];
+
+// The financials types an invoice can bill
+export const BILLABLE_FINANCIAL_TYPES = ['Fee', 'Expense'];
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+export const getInvoiceStatusLabel = (status: string) => {
+  return INVOICE_STATUSES.find((option) => option.value === status)?.label || status;
+};
+
+export const getInvoiceBalance = (invoice: Pick<Invoice, 'total' | 'amount_paid'>) => {
+  return roundMoney(Number(invoice.total) - Number(invoice.amount_paid));
+};
+
+export const isInvoiceOpen = (invoice: Pick<Invoice, 'status'>) => {
+  return OPEN_INVOICE_STATUSES.includes(invoice.status as InvoiceStatus);
+};
+
+// today is a YYYY-MM-DD date, like due_date
+export const isInvoiceOverdue = (invoice: Pick<Invoice, 'status' | 'due_date'>, today: string) => {
+  return isInvoiceOpen(invoice) && invoice.due_date < today;
+};
+
+export const getInvoiceStatusVariant = (invoice: Pick<Invoice, 'status' | 'due_date'>, today: string) => {
+  if (isInvoiceOverdue(invoice, today)) return 'danger';
+
+  switch (invoice.status) {
+    case 'paid':
+      return 'success';
+    case 'sent':
+    case 'partially_paid':
+      return 'info';
+    case 'draft':
+      return 'warning';
+    default:
+      return 'default';
+  }
+};
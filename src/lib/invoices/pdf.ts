@@ -0,0 +1,293 @@
+// src/lib/invoices/pdf.ts
+// Renders an invoice as a Letter-size PDF with pdf-lib, headed by the firm's logo when
+// firms.logo_url points at a PNG or JPEG. Server only: the logo is fetched over HTTP.
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, degrees, rgb } from 'pdf-lib';
+import { Database } from '@/types/supabase';
+import { formatMoney } from '@/lib/trust';
+import { Invoice, InvoiceLineItem, getInvoiceBalance, getInvoiceStatusLabel } from '@/lib/invoices';
+
+type Firm = Pick<Database['public']['Tables']['firms']['Row'], 'name' | 'address' | 'phone' | 'email' | 'logo_url'>;
+type Client = Pick<
+  Database['public']['Tables']['parties']['Row'],
+  'first_name' | 'last_name' | 'organization_name' | 'email' | 'address'
+>;
+type Case = Pick<Database['public']['Tables']['cases']['Row'], 'case_number' | 'title'>;
+
+export interface InvoicePdfInput {
+  invoice: Invoice;
+  lines: InvoiceLineItem[];
+  firm: Firm;
+  client: Client;
+  caseRow: Case | null;
+}
+
+const PAGE_SIZE: [number, number] = [612, 792];
+const MARGIN = 50;
+const LOGO_MAX_WIDTH = 180;
+const LOGO_MAX_HEIGHT = 60;
+const LOGO_TIMEOUT_MS = 5000;
+
+const TEXT = rgb(0.1, 0.1, 0.1);
+const MUTED = rgb(0.4, 0.4, 0.4);
+const RULE = rgb(0.8, 0.8, 0.8);
+
+// Table columns: left edge and width
+const COLUMNS = {
+  date: { x: MARGIN, width: 70 },
+  description: { x: MARGIN + 75, width: 262 },
+  quantity: { x: MARGIN + 342, width: 40 },
+  rate: { x: MARGIN + 387, width: 60 },
+  amount: { x: MARGIN + 452, width: 60 },
+};
+
+// The standard fonts only cover Windows-1252, so accents are dropped and anything else
+// outside it becomes '?'
+const toWinAnsi = (text: string) => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\n\x20-\x7E\u00A0-\u00FF\u2013\u2014\u2018\u2019\u201C\u201D\u2022\u20AC]/g, '?');
+};
+
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number) => {
+  const lines: string[] = [];
+
+  toWinAnsi(text).split('\n').forEach((paragraph) => {
+    let line = '';
+
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth || !line) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    });
+
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+const formatDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+const formatQuantity = (quantity: number) => {
+  return Number(quantity).toLocaleString('en-US', { maximumFractionDigits: 2 });
+};
+
+// A logo that can't be fetched or isn't a PNG or JPEG is left off rather than failing
+// the invoice
+const embedLogo = async (pdf: PDFDocument, logoUrl: string | null): Promise<PDFImage | null> => {
+  if (!logoUrl || !/^https?:\/\//i.test(logoUrl)) return null;
+
+  try {
+    const response = await fetch(logoUrl, { signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) });
+    if (!response.ok) return null;
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+      return await pdf.embedPng(bytes);
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      return await pdf.embedJpg(bytes);
+    }
+  } catch (error) {
+    console.error('Error embedding firm logo:', error);
+  }
+
+  return null;
+};
+
+export const renderInvoicePdf = async ({ invoice, lines, firm, client, caseRow }: InvoicePdfInput) => {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Invoice ${invoice.invoice_number}`);
+  pdf.setAuthor(firm.name);
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const logo = await embedLogo(pdf, firm.logo_url);
+
+  let page: PDFPage = pdf.addPage(PAGE_SIZE);
+  let y = PAGE_SIZE[1] - MARGIN;
+
+  const draw = (text: string, x: number, top: number, size = 10, textFont = font, color = TEXT) => {
+    page.drawText(toWinAnsi(text), { x, y: top, size, font: textFont, color });
+  };
+
+  const drawRight = (text: string, right: number, top: number, size = 10, textFont = font, color = TEXT) => {
+    const value = toWinAnsi(text);
+    page.drawText(value, { x: right - textFont.widthOfTextAtSize(value, size), y: top, size, font: textFont, color });
+  };
+
+  const rule = (top: number) => {
+    page.drawLine({
+      start: { x: MARGIN, y: top },
+      end: { x: PAGE_SIZE[0] - MARGIN, y: top },
+      thickness: 0.5,
+      color: RULE,
+    });
+  };
+
+  const right = PAGE_SIZE[0] - MARGIN;
+
+  // Header: logo or firm name on the left, invoice details on the right
+  let leftY = y;
+  if (logo) {
+    const { width, height } = logo.scaleToFit(LOGO_MAX_WIDTH, LOGO_MAX_HEIGHT);
+    page.drawImage(logo, { x: MARGIN, y: y - height, width, height });
+    leftY = y - height - 16;
+  }
+
+  draw(firm.name, MARGIN, leftY - (logo ? 0 : 6), logo ? 11 : 16, bold);
+  leftY -= logo ? 14 : 24;
+  [...firm.address.split('\n'), firm.phone, firm.email].filter(Boolean).forEach((line) => {
+    draw(line, MARGIN, leftY, 9, font, MUTED);
+    leftY -= 12;
+  });
+
+  drawRight('INVOICE', right, y - 18, 22, bold);
+  let rightY = y - 40;
+  [
+    ['Invoice', invoice.invoice_number],
+    ['Issued', formatDate(invoice.issue_date)],
+    ['Due', formatDate(invoice.due_date)],
+  ].forEach(([label, value]) => {
+    drawRight(value, right, rightY, 10);
+    drawRight(label, right - 110, rightY, 10, bold, MUTED);
+    rightY -= 14;
+  });
+
+  y = Math.min(leftY, rightY) - 20;
+
+  // Bill to
+  draw('BILL TO', MARGIN, y, 9, bold, MUTED);
+  y -= 14;
+  const clientName = client.organization_name || `${client.first_name || ''} ${client.last_name || ''}`.trim();
+  draw(clientName, MARGIN, y, 11, bold);
+  y -= 13;
+  [...(client.address || '').split('\n'), client.email || ''].filter(Boolean).forEach((line) => {
+    draw(line, MARGIN, y, 9, font, MUTED);
+    y -= 12;
+  });
+
+  if (caseRow) {
+    y -= 6;
+    wrapText(`Re: ${caseRow.case_number}, ${caseRow.title}`, font, 10, right - MARGIN).forEach((line) => {
+      draw(line, MARGIN, y, 10);
+      y -= 13;
+    });
+  }
+
+  y -= 16;
+
+  const drawTableHeader = () => {
+    draw('DATE', COLUMNS.date.x, y, 8, bold, MUTED);
+    draw('DESCRIPTION', COLUMNS.description.x, y, 8, bold, MUTED);
+    drawRight('QTY', COLUMNS.quantity.x + COLUMNS.quantity.width, y, 8, bold, MUTED);
+    drawRight('RATE', COLUMNS.rate.x + COLUMNS.rate.width, y, 8, bold, MUTED);
+    drawRight('AMOUNT', COLUMNS.amount.x + COLUMNS.amount.width, y, 8, bold, MUTED);
+    y -= 6;
+    rule(y);
+    y -= 14;
+  };
+
+  const ensureSpace = (height: number, withHeader: boolean) => {
+    if (y - height >= MARGIN + 20) return;
+
+    page = pdf.addPage(PAGE_SIZE);
+    y = PAGE_SIZE[1] - MARGIN;
+    if (withHeader) drawTableHeader();
+  };
+
+  drawTableHeader();
+
+  lines.forEach((line) => {
+    const description = wrapText(
+      line.taxable || Number(invoice.tax_rate) === 0 ? line.description : `${line.description} (not taxed)`,
+      font,
+      9,
+      COLUMNS.description.width
+    );
+    ensureSpace(description.length * 12 + 4, true);
+
+    draw(line.service_date ? formatDate(line.service_date) : '', COLUMNS.date.x, y, 9);
+    drawRight(formatQuantity(line.quantity), COLUMNS.quantity.x + COLUMNS.quantity.width, y, 9);
+    drawRight(formatMoney(Number(line.unit_price)), COLUMNS.rate.x + COLUMNS.rate.width, y, 9);
+    drawRight(formatMoney(Number(line.amount)), COLUMNS.amount.x + COLUMNS.amount.width, y, 9);
+    description.forEach((text, index) => {
+      draw(text, COLUMNS.description.x, y - index * 12, 9);
+    });
+
+    y -= description.length * 12 + 4;
+  });
+
+  rule(y + 6);
+  y -= 10;
+
+  // Totals
+  const totals: [string, string, boolean][] = [['Subtotal', formatMoney(Number(invoice.subtotal)), false]];
+  if (Number(invoice.tax_rate) > 0) {
+    totals.push([`Tax (${Number(invoice.tax_rate)}%)`, formatMoney(Number(invoice.tax_amount)), false]);
+  }
+  totals.push(['Total', formatMoney(Number(invoice.total)), true]);
+  if (Number(invoice.amount_paid) > 0) {
+    totals.push(['Paid', formatMoney(-Number(invoice.amount_paid)), false]);
+  }
+  totals.push(['Balance Due', formatMoney(invoice.status === 'void' ? 0 : getInvoiceBalance(invoice)), true]);
+
+  ensureSpace(totals.length * 16, false);
+  totals.forEach(([label, value, isBold]) => {
+    drawRight(label, COLUMNS.rate.x + COLUMNS.rate.width, y, 10, isBold ? bold : font);
+    drawRight(value, right, y, 10, isBold ? bold : font);
+    y -= 16;
+  });
+
+  if (invoice.notes) {
+    y -= 10;
+    const notes = wrapText(invoice.notes, font, 9, right - MARGIN);
+    ensureSpace(14 + notes.length * 12, false);
+    draw('NOTES', MARGIN, y, 9, bold, MUTED);
+    y -= 14;
+    notes.forEach((line) => {
+      ensureSpace(12, false);
+      draw(line, MARGIN, y, 9);
+      y -= 12;
+    });
+  }
+
+  // Page numbers, and a stamp across void and paid invoices
+  const pages = pdf.getPages();
+  pages.forEach((current, index) => {
+    page = current;
+    drawRight(`Page ${index + 1} of ${pages.length}`, right, MARGIN - 20, 8, font, MUTED);
+
+    if (invoice.status === 'void' || invoice.status === 'paid') {
+      const label = getInvoiceStatusLabel(invoice.status).toUpperCase();
+      const size = 96;
+      const width = bold.widthOfTextAtSize(label, size);
+      current.drawText(label, {
+        x: (PAGE_SIZE[0] - width * Math.SQRT1_2) / 2,
+        y: (PAGE_SIZE[1] - width * Math.SQRT1_2) / 2,
+        size,
+        font: bold,
+        color: invoice.status === 'void' ? rgb(0.85, 0.2, 0.2) : rgb(0.2, 0.6, 0.3),
+        opacity: 0.15,
+        rotate: degrees(45),
+      });
+    }
+  });
+
+  return pdf.save();
+};
@@ -0,0 +1,200 @@
+// src/lib/parties/duplicates.ts
+// Finds parties that were entered more than once. Each pair of parties is scored on
+// name, email, phone and address; pairs at or above DUPLICATE_THRESHOLD are grouped, so
+// three spellings of the same bank come back as one group.
+import { nameSimilarity, normalizeName } from '@/lib/conflicts/match';
+
+export const DUPLICATE_THRESHOLD = 0.85;
+
+export interface DuplicateCandidate {
+  id: string;
+  created_at: string;
+  type: string;
+  first_name: string | null;
+  last_name: string | null;
+  organization_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  is_client: boolean;
+}
+
+export interface DuplicatePair {
+  a: string;
+  b: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface DuplicateGroup {
+  parties: DuplicateCandidate[];
+  pairs: DuplicatePair[];
+  score: number;
+}
+
+const ADDRESS_WORDS: Record<string, string> = {
+  street: 'st', avenue: 'ave', road: 'rd', drive: 'dr', boulevard: 'blvd', lane: 'ln',
+  court: 'ct', place: 'pl', parkway: 'pkwy', highway: 'hwy', suite: 'ste', apartment: 'apt',
+  floor: 'fl', north: 'n', south: 's', east: 'e', west: 'w', unit: 'ste', '#': 'ste',
+};
+
+export const normalizePhone = (phone: string | null | undefined) => {
+  const digits = (phone || '').replace(/\s*(x|ext\.?)\s*\d+$/i, '').replace(/\D/g, '');
+  // Compare the last ten digits so a leading country code doesn't matter
+  return digits.length >= 10 ? digits.slice(-10) : digits;
+};
+
+export const normalizeAddress = (address: string | null | undefined) => {
+  return (address || '')
+    .toLowerCase()
+    .replace(/#/g, ' # ')
+    .replace(/[.,]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ADDRESS_WORDS[word] || word)
+    .join(' ');
+};
+
+const normalizeEmail = (email: string | null | undefined) => (email || '').trim().toLowerCase();
+
+const personName = (party: DuplicateCandidate) => `${party.first_name || ''} ${party.last_name || ''}`.trim();
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Scores how likely two parties are the same, between 0 and 1. Fields only count when
+// both parties have them, so a missing email neither helps nor hurts. A shared email
+// address is strong enough on its own.
+export const scorePair = (a: DuplicateCandidate, b: DuplicateCandidate) => {
+  const reasons: string[] = [];
+  let weighted = 0;
+  let weights = 0;
+
+  const organizationScore = nameSimilarity(a.organization_name, b.organization_name);
+  const personScore = nameSimilarity(personName(a), personName(b));
+  // A sole proprietor may be entered once as a person and once as a business
+  const crossScore = Math.max(
+    nameSimilarity(personName(a), b.organization_name),
+    nameSimilarity(a.organization_name, personName(b))
+  );
+  const nameScore = Math.max(organizationScore, personScore, crossScore);
+
+  weighted += nameScore * 0.55;
+  weights += 0.55;
+
+  if (nameScore >= 0.8) {
+    const label = nameScore === organizationScore ? 'Organization names' : nameScore === personScore ? 'Names' : 'Person and organization names';
+    reasons.push(nameScore === 1 ? `${label} match` : `${label} are ${percent(nameScore)} similar`);
+  }
+
+  const emailA = normalizeEmail(a.email);
+  const emailB = normalizeEmail(b.email);
+  const sameEmail = !!emailA && emailA === emailB;
+
+  if (emailA && emailB) {
+    weighted += sameEmail ? 0.2 : 0;
+    weights += 0.2;
+    if (sameEmail) reasons.push('Same email');
+  }
+
+  const phoneA = normalizePhone(a.phone);
+  const phoneB = normalizePhone(b.phone);
+
+  if (phoneA && phoneB) {
+    const samePhone = phoneA === phoneB;
+    weighted += samePhone ? 0.15 : 0;
+    weights += 0.15;
+    if (samePhone) reasons.push('Same phone');
+  }
+
+  const addressA = normalizeAddress(a.address);
+  const addressB = normalizeAddress(b.address);
+
+  if (addressA && addressB) {
+    const addressScore = addressA === addressB ? 1 : nameSimilarity(addressA, addressB);
+    weighted += addressScore * 0.1;
+    weights += 0.1;
+    if (addressScore >= 0.9) reasons.push(addressScore === 1 ? 'Same address' : 'Similar address');
+  }
+
+  let score = weighted / weights;
+  if (sameEmail) score = Math.max(score, 0.9);
+
+  return { score: Number(score.toFixed(2)), reasons };
+};
+
+// Only parties sharing a key are compared: a name word prefix, an email or a phone number
+const blockingKeys = (party: DuplicateCandidate) => {
+  const keys = new Set<string>();
+  const words = `${normalizeName(party.organization_name)} ${normalizeName(personName(party))}`.split(' ');
+
+  words.filter((word) => word.length >= 2).forEach((word) => keys.add(`n:${word.slice(0, 3)}`));
+
+  const email = normalizeEmail(party.email);
+  if (email) keys.add(`e:${email}`);
+
+  const phone = normalizePhone(party.phone);
+  if (phone.length >= 7) keys.add(`p:${phone}`);
+
+  return keys;
+};
+
+export const findDuplicates = (parties: DuplicateCandidate[], threshold = DUPLICATE_THRESHOLD): DuplicateGroup[] => {
+  const blocks = new Map<string, number[]>();
+  parties.forEach((party, index) => {
+    blockingKeys(party).forEach((key) => {
+      const block = blocks.get(key) || [];
+      block.push(index);
+      blocks.set(key, block);
+    });
+  });
+
+  const compared = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+
+  blocks.forEach((indexes) => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const key = `${indexes[i]}:${indexes[j]}`;
+        if (compared.has(key)) continue;
+        compared.add(key);
+
+        const a = parties[indexes[i]];
+        const b = parties[indexes[j]];
+        const { score, reasons } = scorePair(a, b);
+        if (score >= threshold) pairs.push({ a: a.id, b: b.id, score, reasons });
+      }
+    }
+  });
+
+  // Union-find joins overlapping pairs into groups
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const next = parent.get(id);
+    if (!next || next === id) return id;
+    const root = find(next);
+    parent.set(id, root);
+    return root;
+  };
+  pairs.forEach((pair) => parent.set(find(pair.a), find(pair.b)));
+
+  const groups = new Map<string, DuplicateGroup>();
+  const byId = new Map(parties.map((party) => [party.id, party]));
+
+  pairs.forEach((pair) => {
+    const root = find(pair.a);
+    const group = groups.get(root) || { parties: [], pairs: [], score: 0 };
+    [pair.a, pair.b].forEach((id) => {
+      if (!group.parties.some((party) => party.id === id)) group.parties.push(byId.get(id)!);
+    });
+    group.pairs.push(pair);
+    group.score = Math.max(group.score, pair.score);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      parties: group.parties.sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    }))
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,43 @@
+// src/lib/parties/merge.ts
+import { supabase } from '@/lib/supabase';
+
+// Foreign keys that merge_parties re-points (party_reference_columns()), as recorded in
+// party_merges.moved_references
+export const PARTY_REFERENCE_LABELS: Record<string, string> = {
+  'cases.client_id': 'Cases as client',
+  'cases.opposing_party_id': 'Cases as opposing party',
+  'documents.related_party_id': 'Documents',
+  'financials.party_id': 'Financial entries',
+  'security_interests.lender_id': 'Liens as lender',
+  'security_interests.borrower_id': 'Liens as borrower',
+  'case_parties.party_id': 'Case roles',
+  'case_parties.represents_party_id': 'Represented on cases',
+};
+
+// Merges the duplicates into the survivor in a single transaction. Returns the undo log
+// rows, one per duplicate.
+export const mergeParties = async (survivorId: string, duplicateIds: string[]) => {
+  const { data, error } = await supabase.rpc('merge_parties', {
+    p_survivor_id: survivorId,
+    p_duplicate_ids: duplicateIds,
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const undoPartyMerge = async (mergeId: string) => {
+  const { data, error } = await supabase.rpc('undo_party_merge', { p_merge_id: mergeId });
+
+  if (error) throw error;
+  return data;
+};
+
+// Summarizes moved_references, e.g. "Cases as client: 2, Documents: 1"
+export const describeMovedReferences = (moved: Record<string, string[]> | null) => {
+  const parts = Object.entries(moved || {})
+    .filter(([, ids]) => ids.length > 0)
+    .map(([reference, ids]) => `${PARTY_REFERENCE_LABELS[reference] || reference}: ${ids.length}`);
+
+  return parts.length > 0 ? parts.join(', ') : 'No linked records';
+};
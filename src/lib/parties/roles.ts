@@ -0,0 +1,43 @@
+// src/lib/parties/roles.ts
+// Roles a party can hold on a case, stored in case_parties.role. `plural` is the template
+// token that lists everyone in the role, e.g. {{defendants}}.
+
+export interface CasePartyRole {
+  value: string;
+  label: string;
+  plural: string;
+  // Counsel and guardians ad litem act for another party on the case
+  actsFor?: boolean;
+}
+
+export const CASE_PARTY_ROLES: CasePartyRole[] = [
+  { value: 'plaintiff', label: 'Plaintiff', plural: 'plaintiffs' },
+  { value: 'defendant', label: 'Defendant', plural: 'defendants' },
+  { value: 'co_defendant', label: 'Co-Defendant', plural: 'co_defendants' },
+  { value: 'client', label: 'Client', plural: 'clients' },
+  { value: 'opposing_party', label: 'Opposing Party', plural: 'opposing_parties' },
+  { value: 'borrower', label: 'Borrower', plural: 'borrowers' },
+  { value: 'co_borrower', label: 'Co-Borrower', plural: 'co_borrowers' },
+  { value: 'lienholder', label: 'Lienholder', plural: 'lienholders' },
+  { value: 'hoa', label: 'HOA', plural: 'hoas' },
+  { value: 'tenant', label: 'Tenant in Possession', plural: 'tenants' },
+  { value: 'counsel', label: 'Counsel', plural: 'counsel', actsFor: true },
+  { value: 'guardian_ad_litem', label: 'Guardian ad Litem', plural: 'guardians_ad_litem', actsFor: true },
+  { value: 'witness', label: 'Witness', plural: 'witnesses' },
+  { value: 'other', label: 'Other', plural: 'other_parties' },
+];
+
+const ROLES_BY_VALUE = new Map(CASE_PARTY_ROLES.map((role) => [role.value, role]));
+
+export const getCasePartyRole = (value: string): CasePartyRole => {
+  return ROLES_BY_VALUE.get(value) || { value, label: value, plural: value };
+};
+
+// Orders roles for display: the order of CASE_PARTY_ROLES, unknown roles last
+export const compareRoles = (a: string, b: string) => {
+  const index = (value: string) => {
+    const position = CASE_PARTY_ROLES.findIndex((role) => role.value === value);
+    return position === -1 ? CASE_PARTY_ROLES.length : position;
+  };
+  return index(a) - index(b);
+};
@@ -0,0 +1,23 @@
+// src/lib/reminders/in-app.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { ChannelError, ReminderChannel } from './index';
+
+// Delivers reminders as notifications under the header bell
+export const createInAppChannel = (supabase: SupabaseClient<Database>): ReminderChannel => ({
+  name: 'in_app',
+
+  async send(message) {
+    const { error } = await supabase.from('notifications').insert({
+      firm_id: message.firm_id,
+      user_id: message.recipient.id,
+      title: message.subject,
+      body: message.text,
+      link: message.link,
+    });
+
+    if (error) {
+      throw new ChannelError(`In-app notification for ${message.recipient.email} failed: ${error.message}`);
+    }
+  },
+});
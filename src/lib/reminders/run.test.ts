@@ -0,0 +1,143 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { Database } from '@/types/supabase';
+import { createTestSinkChannel } from './email';
+import { runReminders } from './run';
+import { ScheduleOptions } from './schedule';
+
+type Row = Record<string, any>;
+
+// Just enough of the query builder for runReminders, over rows kept in memory. The .or()
+// prefilter on dates is skipped; getDueReminderKinds makes the same decision.
+const createFakeClient = (tables: Record<string, Row[]>) => {
+  let nextId = 1;
+
+  const from = (table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let upserted: Row[] | null = null;
+    let isDelete = false;
+
+    const run = () => {
+      const rows = tables[table];
+      if (upserted) return { data: upserted, error: null };
+
+      const matching = rows.filter((row) => filters.every((filter) => filter(row)));
+      if (isDelete) {
+        tables[table] = rows.filter((row) => !matching.includes(row));
+      }
+      return { data: matching, error: null };
+    };
+
+    const builder = {
+      select: () => builder,
+      or: () => builder,
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      delete: () => {
+        isDelete = true;
+        return builder;
+      },
+      upsert: (values: Row, { onConflict }: { onConflict: string }) => {
+        const keys = onConflict.split(',');
+        const exists = tables[table].some((row) => keys.every((key) => row[key] === values[key]));
+        const row = { id: `claim-${nextId++}`, ...values };
+
+        if (!exists) tables[table].push(row);
+        upserted = exists ? [] : [{ id: row.id }];
+        return builder;
+      },
+      then: (resolve: (result: ReturnType<typeof run>) => unknown) => resolve(run()),
+    };
+
+    return builder;
+  };
+
+  return { from } as unknown as SupabaseClient<Database>;
+};
+
+const options: ScheduleOptions = { timeZone: 'America/New_York', morningHour: 7 };
+const now = new Date('2025-03-13T15:00:00Z');
+
+describe('runReminders', () => {
+  let outbox: string;
+  let tables: Record<string, Row[]>;
+
+  beforeEach(async () => {
+    outbox = await mkdtemp(path.join(tmpdir(), 'reminders-'));
+    tables = {
+      deadlines: [{
+        id: 'deadline',
+        firm_id: 'firm',
+        case_id: 'case',
+        title: 'Answer due',
+        due_date: '2025-03-14T16:00:00Z',
+        reminder_date: null,
+        status: 'Pending',
+        priority: 'High',
+        assigned_to: 'paralegal',
+      }],
+      cases: [{ id: 'case', title: 'Acme v. Smith', case_number: 'CV-1', assigned_to: 'attorney', deleted_at: null }],
+      users: [
+        { id: 'paralegal', email: 'pat@example.com', first_name: 'Pat', last_name: 'Lee', is_active: true },
+        { id: 'attorney', email: 'alex@example.com', first_name: 'Alex', last_name: 'Kim', is_active: true },
+      ],
+      deadline_reminders: [],
+    };
+  });
+
+  afterEach(async () => {
+    await rm(outbox, { recursive: true, force: true });
+  });
+
+  const run = (at = now) => {
+    const channel = createTestSinkChannel(outbox, 'LegalBeacon <reminders@localhost>', 'http://localhost:3000');
+    return runReminders(createFakeClient(tables), [channel], options, at);
+  };
+
+  it('sends the due reminder to the assignee', async () => {
+    const result = await run();
+
+    expect(result).toMatchObject({ deadlines: 1, sent: 1, skipped: 0, failed: 0 });
+    expect(tables.deadline_reminders).toEqual([
+      expect.objectContaining({ user_id: 'paralegal', kind: '1_day', channel: 'email', sent_for: '2025-03-14T16:00:00Z' }),
+    ]);
+    expect(await readdir(outbox)).toHaveLength(1);
+  });
+
+  it('sends nothing on a second run', async () => {
+    await run();
+    const result = await run(new Date(now.getTime() + 60 * 60 * 1000));
+
+    expect(result).toMatchObject({ sent: 0, skipped: 1 });
+    expect(await readdir(outbox)).toHaveLength(1);
+  });
+
+  it('reminds again when the deadline is rescheduled', async () => {
+    await run();
+    tables.deadlines[0].due_date = '2025-03-14T20:00:00Z';
+    const result = await run();
+
+    expect(result).toMatchObject({ sent: 1, skipped: 0 });
+    expect(tables.deadline_reminders.map((claim) => claim.sent_for)).toEqual(['2025-03-14T16:00:00Z', '2025-03-14T20:00:00Z']);
+  });
+
+  it('leaves deadlines of trashed cases alone', async () => {
+    tables.cases[0].deleted_at = '2025-03-01T00:00:00Z';
+    const result = await run();
+
+    expect(result).toMatchObject({ deadlines: 0, sent: 0 });
+  });
+});
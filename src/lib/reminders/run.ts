@@ -0,0 +1,191 @@
+// src/lib/reminders/run.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { formatCourtDate } from '@/lib/deadlines/calendar';
+import type { ReminderChannel, ReminderMessage, ReminderRecipient } from './index';
+import { OPEN_STATUSES, ReminderKind, ScheduleOptions, getDueReminderKinds, getLocalTime } from './schedule';
+
+export interface ReminderRunResult {
+  deadlines: number;
+  sent: number;
+  // Reminders already sent by an earlier run
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+interface DeadlineRow {
+  id: string;
+  firm_id: string;
+  case_id: string;
+  title: string;
+  due_date: string;
+  reminder_date: string | null;
+  status: string;
+  priority: string;
+  assigned_to: string | null;
+}
+
+interface CaseRow {
+  id: string;
+  title: string;
+  case_number: string;
+  assigned_to: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+const buildMessage = (
+  kind: ReminderKind,
+  deadline: DeadlineRow,
+  caseRow: CaseRow | undefined,
+  recipient: ReminderRecipient,
+  assigneeName: string | null,
+  today: string,
+  dueDate: string
+): ReminderMessage => {
+  const caseLabel = caseRow ? `${caseRow.title} (${caseRow.case_number})` : 'its case';
+  const dueLabel = formatCourtDate(dueDate);
+  const days = daysBetween(today, dueDate);
+
+  const subjects: Record<ReminderKind, string> = {
+    scheduled: `Reminder: ${deadline.title} is due ${dueLabel}`,
+    '7_days': `Due in ${days} days: ${deadline.title}`,
+    '1_day': `Due tomorrow: ${deadline.title}`,
+    morning_of: `Due today: ${deadline.title}`,
+    escalation: `Overdue: ${deadline.title}`,
+  };
+
+  const text = kind === 'escalation'
+    ? `${deadline.title} on ${caseLabel} was due ${dueLabel} and is still open. ${assigneeName ? `It is assigned to ${assigneeName}.` : 'It has no assignee.'} You are receiving this as the case's responsible attorney.`
+    : `${deadline.title} on ${caseLabel} is due ${dueLabel}. Priority: ${deadline.priority}.`;
+
+  return {
+    firm_id: deadline.firm_id,
+    deadline_id: deadline.id,
+    kind,
+    recipient,
+    subject: subjects[kind],
+    text,
+    link: `/cases/${deadline.case_id}?tab=deadlines`,
+  };
+};
+
+// Sends every reminder that is due at `now` through each channel. Each reminder is
+// claimed in deadline_reminders for the date it is about before it is sent and the claim
+// is released if sending fails, so overlapping or repeated runs send each reminder at
+// most once, a failed one is retried by the next run and a rescheduled deadline gets
+// its reminders again. Needs a service-role client: it reads every firm.
+export const runReminders = async (
+  supabase: SupabaseClient<Database>,
+  channels: ReminderChannel[],
+  options: ScheduleOptions,
+  now = new Date()
+): Promise<ReminderRunResult> => {
+  const result: ReminderRunResult = { deadlines: 0, sent: 0, skipped: 0, failed: 0, errors: [] };
+
+  // Staged reminders start 7 days out and anything earlier that is still open escalates;
+  // a custom reminder_date can come sooner than either
+  const { data: deadlines, error } = await supabase
+    .from('deadlines')
+    .select('id, firm_id, case_id, title, due_date, reminder_date, status, priority, assigned_to')
+    .in('status', OPEN_STATUSES)
+    .or(`due_date.lte.${new Date(now.getTime() + 8 * DAY_MS).toISOString()},reminder_date.lte.${now.toISOString()}`);
+
+  if (error) throw error;
+
+  const due = (deadlines || [])
+    .map((deadline) => ({ deadline, kinds: getDueReminderKinds(deadline, now, options) }))
+    .filter((item) => item.kinds.length > 0);
+
+  if (due.length === 0) return result;
+
+  // Deadlines of cases in the trash are left alone
+  const { data: cases } = await supabase
+    .from('cases')
+    .select('id, title, case_number, assigned_to')
+    .in('id', Array.from(new Set(due.map((item) => item.deadline.case_id))))
+    .is('deleted_at', null);
+
+  const casesById = new Map((cases || []).map((caseRow) => [caseRow.id, caseRow]));
+  const planned = due.filter((item) => casesById.has(item.deadline.case_id));
+
+  result.deadlines = planned.length;
+  if (planned.length === 0) return result;
+
+  const userIds = new Set<string>();
+  planned.forEach(({ deadline }) => {
+    if (deadline.assigned_to) userIds.add(deadline.assigned_to);
+    const attorney = casesById.get(deadline.case_id)?.assigned_to;
+    if (attorney) userIds.add(attorney);
+  });
+
+  const { data: users } = await supabase
+    .from('users')
+    .select('id, email, first_name, last_name, is_active')
+    .in('id', Array.from(userIds));
+
+  // Deactivated users are left out; their deadlines fall back to the case attorney
+  const recipients = new Map<string, ReminderRecipient>(
+    (users || [])
+      .filter((user) => user.is_active)
+      .map((user) => [user.id, { id: user.id, email: user.email, name: `${user.first_name} ${user.last_name}` }])
+  );
+
+  const today = getLocalTime(now, options.timeZone).date;
+
+  for (const { deadline, kinds } of planned) {
+    const caseRow = casesById.get(deadline.case_id);
+    const attorney = caseRow?.assigned_to ? recipients.get(caseRow.assigned_to) : undefined;
+    const assignee = deadline.assigned_to ? recipients.get(deadline.assigned_to) : undefined;
+    const dueDate = getLocalTime(new Date(deadline.due_date), options.timeZone).date;
+
+    for (const kind of kinds) {
+      const recipient = kind === 'escalation' ? attorney : assignee || attorney;
+      if (!recipient) continue;
+
+      const message = buildMessage(kind, deadline, caseRow, recipient, assignee?.name || null, today, dueDate);
+
+      for (const channel of channels) {
+        const { data: claimed, error: claimError } = await supabase
+          .from('deadline_reminders')
+          .upsert(
+            {
+              firm_id: deadline.firm_id,
+              deadline_id: deadline.id,
+              user_id: recipient.id,
+              kind,
+              channel: channel.name,
+              sent_for: kind === 'scheduled' && deadline.reminder_date ? deadline.reminder_date : deadline.due_date,
+            },
+            { onConflict: 'deadline_id,user_id,kind,channel,sent_for', ignoreDuplicates: true }
+          )
+          .select('id');
+
+        if (claimError) {
+          result.failed += 1;
+          result.errors.push(`Could not record ${kind} reminder for deadline ${deadline.id}: ${claimError.message}`);
+          continue;
+        }
+
+        if (!claimed || claimed.length === 0) {
+          result.skipped += 1;
+          continue;
+        }
+
+        try {
+          await channel.send(message);
+          result.sent += 1;
+        } catch (sendError: any) {
+          await supabase.from('deadline_reminders').delete().eq('id', claimed[0].id);
+          result.failed += 1;
+          result.errors.push(sendError.message || `Sending ${kind} reminder for deadline ${deadline.id} failed`);
+        }
+      }
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ReminderDeadline, ScheduleOptions, getDueReminderKinds } from './schedule';
+
+const options: ScheduleOptions = { timeZone: 'America/New_York', morningHour: 7 };
+
+// Due Friday March 14, 2025; New York is on EDT (UTC-4) from March 9
+const deadline = (overrides: Partial<ReminderDeadline> = {}): ReminderDeadline => ({
+  due_date: '2025-03-14T16:00:00Z',
+  reminder_date: null,
+  status: 'Pending',
+  ...overrides,
+});
+
+const kindsAt = (instant: string, overrides: Partial<ReminderDeadline> = {}) => {
+  return getDueReminderKinds(deadline(overrides), new Date(instant), options);
+};
+
+describe('staged reminders', () => {
+  it('sends nothing more than 7 days out', () => {
+    expect(kindsAt('2025-03-06T15:00:00Z')).toEqual([]);
+  });
+
+  it('sends the 7-day reminder from 7 days out', () => {
+    expect(kindsAt('2025-03-07T15:00:00Z')).toEqual(['7_days']);
+  });
+
+  it('sends the 1-day reminder the day before', () => {
+    expect(kindsAt('2025-03-13T15:00:00Z')).toEqual(['1_day']);
+  });
+
+  it('reads the day in the firm\'s time zone', () => {
+    // 11:30 pm on March 13 in New York
+    expect(kindsAt('2025-03-14T03:30:00Z')).toEqual(['1_day']);
+  });
+
+  it('holds the morning-of reminder until the morning hour', () => {
+    expect(kindsAt('2025-03-14T10:59:00Z')).toEqual([]);
+    expect(kindsAt('2025-03-14T11:00:00Z')).toEqual(['morning_of']);
+  });
+
+  it('only escalates once the due day has passed', () => {
+    expect(kindsAt('2025-03-15T04:00:00Z')).toEqual(['escalation']);
+    expect(kindsAt('2025-03-20T15:00:00Z', { status: 'Overdue', reminder_date: '2025-03-10T13:00:00Z' })).toEqual(['escalation']);
+  });
+});
+
+describe('scheduled reminders', () => {
+  it('sends the custom reminder from its date and time', () => {
+    expect(kindsAt('2025-03-10T12:59:00Z', { reminder_date: '2025-03-10T13:00:00Z' })).toEqual(['7_days']);
+    expect(kindsAt('2025-03-10T13:00:00Z', { reminder_date: '2025-03-10T13:00:00Z' })).toEqual(['scheduled', '7_days']);
+  });
+
+  it('sends a custom reminder set further out than the staged ones', () => {
+    expect(kindsAt('2025-03-01T15:00:00Z', { reminder_date: '2025-03-01T14:00:00Z' })).toEqual(['scheduled']);
+  });
+});
+
+describe('closed deadlines', () => {
+  it('sends nothing for completed deadlines, even overdue ones', () => {
+    expect(kindsAt('2025-03-14T15:00:00Z', { status: 'Completed' })).toEqual([]);
+    expect(kindsAt('2025-03-20T15:00:00Z', { status: 'Completed' })).toEqual([]);
+  });
+});
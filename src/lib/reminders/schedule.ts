@@ -0,0 +1,72 @@
+// src/lib/reminders/schedule.ts
+// Decides which reminders a deadline is due for. Pure, so it can be tested with a fixed
+// clock and time zone.
+import { addDays } from '@/lib/deadlines/calendar';
+
+export type ReminderKind = 'scheduled' | '7_days' | '1_day' | 'morning_of' | 'escalation';
+
+export interface ReminderDeadline {
+  due_date: string;
+  reminder_date: string | null;
+  status: string;
+}
+
+export interface ScheduleOptions {
+  // IANA zone the firm works in; "today" and "morning" are read in this zone
+  timeZone: string;
+  // Hour (0-23) from which the morning-of reminder goes out
+  morningHour: number;
+}
+
+export const OPEN_STATUSES = ['Pending', 'Overdue'];
+
+// Calendar date (YYYY-MM-DD) and hour of an instant in the given time zone
+export const getLocalTime = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+
+  const part = (type: string) => parts.find((item) => item.type === type)?.value || '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: Number(part('hour')),
+  };
+};
+
+// The staged reminders each cover a window that ends where the next one begins, so a
+// deadline entered two days out gets the 1-day reminder and never a late "7 days left".
+// Once the due day has passed, an open deadline only escalates.
+export const getDueReminderKinds = (
+  deadline: ReminderDeadline,
+  now: Date,
+  { timeZone, morningHour }: ScheduleOptions
+): ReminderKind[] => {
+  if (!OPEN_STATUSES.includes(deadline.status)) return [];
+
+  const today = getLocalTime(now, timeZone);
+  const dueDate = getLocalTime(new Date(deadline.due_date), timeZone).date;
+
+  if (today.date > dueDate) return ['escalation'];
+
+  const kinds: ReminderKind[] = [];
+
+  if (deadline.reminder_date && new Date(deadline.reminder_date) <= now) {
+    kinds.push('scheduled');
+  }
+
+  if (today.date === dueDate) {
+    if (today.hour >= morningHour) kinds.push('morning_of');
+  } else if (today.date >= addDays(dueDate, -1)) {
+    kinds.push('1_day');
+  } else if (today.date >= addDays(dueDate, -7)) {
+    kinds.push('7_days');
+  }
+
+  return kinds;
+};
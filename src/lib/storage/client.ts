@@ -0,0 +1,48 @@
+// src/lib/storage/client.ts
+// Browser-side helpers for the file routes. Safe to import from client components.
+
+export interface UploadedFile {
+  file_path: string;
+  file_size: number;
+  checksum: string;
+  mime_type: string;
+}
+
+export const uploadFile = async (
+  file: Blob,
+  fileName: string,
+  folder: 'documents' | 'templates',
+  caseId?: string
+): Promise<UploadedFile> => {
+  const params = new URLSearchParams({ folder, file_name: fileName });
+  if (caseId) params.set('case_id', caseId);
+
+  const response = await fetch(`/api/files?${params.toString()}`, {
+    method: 'POST',
+    body: file,
+    headers: { 'Content-Type': file.type || 'application/octet-stream' },
+  });
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to upload file');
+  }
+
+  return result;
+};
+
+export const getDocumentFileUrl = (documentId: string, download = false) => {
+  return `/api/documents/${documentId}/file${download ? '?download=1' : ''}`;
+};
+
+export const fetchDocumentFile = async (documentId: string) => {
+  const response = await fetch(getDocumentFileUrl(documentId));
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || 'Failed to load file');
+  }
+
+  return response.arrayBuffer();
+};
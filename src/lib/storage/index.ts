@@ -0,0 +1,154 @@
+// src/lib/storage/index.ts
+import { createHash } from 'crypto';
+import { createLocalStorage } from './local';
+import { createSupabaseStorage } from './supabase';
+
+export interface StoredObject {
+  stream: ReadableStream<Uint8Array>;
+  contentType: string;
+  size: number | null;
+}
+
+export interface StorageBackend {
+  put(key: string, body: ReadableStream<Uint8Array>, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  remove(key: string): Promise<void>;
+}
+
+export interface StoredFile {
+  key: string;
+  size: number;
+  checksum: string;
+  contentType: string;
+}
+
+export class UploadError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'UploadError';
+    this.status = status;
+  }
+}
+
+// MIME types accepted for documents and templates, with the extensions each may carry
+export const ALLOWED_FILE_TYPES: Record<string, string[]> = {
+  'application/pdf': ['pdf'],
+  'application/msword': ['doc'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['docx'],
+  'application/vnd.ms-excel': ['xls'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['xlsx'],
+  'application/rtf': ['rtf'],
+  'text/plain': ['txt', 'text'],
+  'text/html': ['html', 'htm'],
+  'text/csv': ['csv'],
+  'message/rfc822': ['eml'],
+  'image/png': ['png'],
+  'image/jpeg': ['jpg', 'jpeg'],
+  'image/tiff': ['tif', 'tiff'],
+};
+
+export const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_MB || 50) * 1024 * 1024;
+
+let backend: StorageBackend | null = null;
+
+// STORAGE_BACKEND=local keeps files on disk for development and tests
+export const getStorageBackend = (): StorageBackend => {
+  if (!backend) {
+    backend = process.env.STORAGE_BACKEND === 'local'
+      ? createLocalStorage(process.env.LOCAL_STORAGE_DIR || '.storage')
+      : createSupabaseStorage(process.env.STORAGE_BUCKET || 'documents');
+  }
+  return backend;
+};
+
+const extensionOf = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+// Browsers send an empty or generic type for some files, so fall back to the extension
+export const resolveContentType = (fileName: string, contentType: string | null) => {
+  const extension = extensionOf(fileName);
+  const declared = (contentType || '').split(';')[0].trim().toLowerCase();
+
+  if (declared && declared !== 'application/octet-stream') {
+    const extensions = ALLOWED_FILE_TYPES[declared];
+
+    if (!extensions) {
+      throw new UploadError(`Files of type ${declared} are not allowed`, 415);
+    }
+    if (!extensions.includes(extension)) {
+      throw new UploadError(`A .${extension} file can't be uploaded as ${declared}`, 415);
+    }
+    return declared;
+  }
+
+  const match = Object.entries(ALLOWED_FILE_TYPES).find(([, extensions]) => extensions.includes(extension));
+
+  if (!match) {
+    throw new UploadError(`.${extension} files are not allowed`, 415);
+  }
+  return match[0];
+};
+
+export const sanitizeFileName = (fileName: string) => {
+  return fileName
+    .normalize('NFKD')
+    .replace(/[^\w.\- ]+/g, '')
+    .replace(/\s+/g, '_')
+    .slice(-120) || 'file';
+};
+
+// Stored files live under their firm's id (see /api/files). documents.file_path comes
+// from the client, so a path is checked against the firm before the service role reads
+// or removes it.
+export const isFirmFilePath = (firmId: string, filePath: string) => {
+  return filePath.startsWith(`${firmId}/`) && !filePath.split('/').includes('..');
+};
+
+// Streams the upload into storage while counting bytes and hashing it. Uploads over the
+// size limit are aborted mid-stream and whatever was written is removed.
+export const storeUpload = async (
+  key: string,
+  body: ReadableStream<Uint8Array>,
+  fileName: string,
+  contentType: string | null,
+  maxBytes = MAX_UPLOAD_BYTES
+): Promise<StoredFile> => {
+  const resolvedType = resolveContentType(fileName, contentType);
+  const hash = createHash('sha256');
+  let size = 0;
+
+  const meter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      size += chunk.byteLength;
+
+      if (size > maxBytes) {
+        controller.error(new UploadError(`Files must be smaller than ${Math.round(maxBytes / (1024 * 1024))} MB`, 413));
+        return;
+      }
+
+      hash.update(chunk);
+      controller.enqueue(chunk);
+    },
+  });
+
+  const storage = getStorageBackend();
+
+  try {
+    await storage.put(key, body.pipeThrough(meter), resolvedType);
+  } catch (error) {
+    await storage.remove(key).catch(() => undefined);
+
+    if (size > maxBytes) {
+      throw new UploadError(`Files must be smaller than ${Math.round(maxBytes / (1024 * 1024))} MB`, 413);
+    }
+    throw error;
+  }
+
+  if (size === 0) {
+    await storage.remove(key);
+    throw new UploadError('The uploaded file is empty');
+  }
+
+  return { key, size, checksum: hash.digest('hex'), contentType: resolvedType };
+};
@@ -0,0 +1,60 @@
+// src/lib/storage/local.ts
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import type { StorageBackend } from './index';
+
+// Filesystem backend for development and tests. Content types are kept in a sidecar
+// file next to each object since the filesystem has nowhere else to put them.
+export const createLocalStorage = (rootDir: string): StorageBackend => {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, body, contentType) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+
+      await pipeline(
+        Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+        createWriteStream(filePath)
+      );
+      await writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+    },
+
+    async get(key) {
+      const filePath = resolveKey(key);
+
+      try {
+        const { size } = await stat(filePath);
+        const meta = JSON.parse(await readFile(`${filePath}.meta.json`, 'utf-8').catch(() => '{}'));
+
+        return {
+          stream: Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>,
+          contentType: meta.contentType || 'application/octet-stream',
+          size,
+        };
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async remove(key) {
+      const filePath = resolveKey(key);
+      await rm(filePath, { force: true });
+      await rm(`${filePath}.meta.json`, { force: true });
+    },
+  };
+};
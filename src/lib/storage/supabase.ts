@@ -0,0 +1,41 @@
+// src/lib/storage/supabase.ts
+import { createAdminSupabaseClient } from '@/lib/supabase-admin';
+import type { StorageBackend } from './index';
+
+// Supabase Storage backend. Objects live in a private bucket and are only ever served
+// through our own routes, which check the caller's firm first.
+export const createSupabaseStorage = (bucket: string): StorageBackend => {
+  const storage = () => createAdminSupabaseClient().storage.from(bucket);
+
+  return {
+    async put(key, body, contentType) {
+      const { error } = await storage().upload(key, body, {
+        contentType,
+        upsert: false,
+        duplex: 'half',
+      });
+
+      if (error) throw error;
+    },
+
+    async get(key) {
+      const { data, error } = await storage().download(key);
+
+      if (error) {
+        if ((error as any).statusCode === '404' || /not found/i.test(error.message)) return null;
+        throw error;
+      }
+
+      return {
+        stream: data.stream() as ReadableStream<Uint8Array>,
+        contentType: data.type || 'application/octet-stream',
+        size: data.size,
+      };
+    },
+
+    async remove(key) {
+      const { error } = await storage().remove([key]);
+      if (error) throw error;
+    },
+  };
+};
@@ -0,0 +1,21 @@
+// src/lib/supabase-admin.ts
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+
+// Service-role client for server routes and scripts only. It bypasses RLS, so callers
+// must scope every query to the firm they have already authorized.
+export const createAdminSupabaseClient = () => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured');
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+};
+
+// .env.local additions for server-side features
+// SUPABASE_SERVICE_ROLE_KEY=your_service_role_key
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { extractFields, renderTemplate, validateTemplate } from './engine';
+
+describe('fields', () => {
+  it('reads nested fields by dotted path', () => {
+    expect(renderTemplate('{{lender.name}} of {{lender.address.city}}', {
+      lender: { name: 'Acme Bank', address: { city: 'Tampa' } },
+    })).toBe('Acme Bank of Tampa');
+  });
+
+  it('leaves unknown fields visible in the output', () => {
+    expect(renderTemplate('Dear {{client.salutation}},', { client: { name: 'Pat' } })).toBe('Dear {{client.salutation}},');
+  });
+
+  it('renders fields that are present but empty as nothing', () => {
+    expect(renderTemplate('[{{middle_name}}]', { middle_name: null })).toBe('[]');
+  });
+
+  it('escapes inserted values but not the template', () => {
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+    expect(renderTemplate('<b>{{name}}</b>', { name: 'Smith & <Jones>' }, { escape })).toBe('<b>Smith &amp; &lt;Jones></b>');
+  });
+
+  it('lists the top-level fields a template reads', () => {
+    expect(extractFields('{{client.name}} {{#each liens}}{{type}}{{/each}} {{#if notes}}{{notes}}{{/if}}')).toEqual([
+      'client.name', 'liens', 'notes',
+    ]);
+  });
+});
+
+describe('formatters', () => {
+  it('chains formatters left to right', () => {
+    expect(renderTemplate('{{name | lower | title}}', { name: 'JOHN SMITH' })).toBe('John Smith');
+  });
+
+  it('formats dates without shifting date-only values', () => {
+    const data = { filed_on: '2024-03-01' };
+
+    expect(renderTemplate('{{filed_on | long_date}}', data)).toBe('March 1, 2024');
+    expect(renderTemplate('{{filed_on | short_date}}', data)).toBe('03/01/2024');
+    expect(renderTemplate('{{filed_on | iso_date}}', data)).toBe('2024-03-01');
+  });
+
+  it('formats money, numbers and ordinals', () => {
+    expect(renderTemplate('{{amount | currency}}', { amount: '1,234.5' })).toBe('$1,234.50');
+    expect(renderTemplate('{{amount | number}}', { amount: 1234 })).toBe('1,234.00');
+    expect(renderTemplate('{{day | ordinal}} {{other | ordinal}}', { day: 22, other: 12 })).toBe('22nd 12th');
+  });
+
+  it('falls back to the default for missing and blank values', () => {
+    expect(renderTemplate('{{phone | default: "N/A"}}', {})).toBe('N/A');
+    expect(renderTemplate("{{phone | default: 'N/A'}}", { phone: '  ' })).toBe('N/A');
+    expect(renderTemplate('{{phone | default: "N/A"}}', { phone: '555-0100' })).toBe('555-0100');
+  });
+
+  it('rejects unknown formatters', () => {
+    expect(validateTemplate('{{name | shout}}')).toBe('Unknown formatter "shout" in {{name | shout}}');
+  });
+});
+
+describe('blocks', () => {
+  it('renders if and unless branches', () => {
+    const template = '{{#if is_client}}client{{else}}other{{/if}}/{{#unless is_client}}no{{/unless}}';
+
+    expect(renderTemplate(template, { is_client: true })).toBe('client/');
+    expect(renderTemplate(template, { is_client: false })).toBe('other/no');
+  });
+
+  it('loops with the item and its position', () => {
+    const template = '{{#each parties}}{{@number}}. {{name}}{{#unless @last}}, {{/unless}}{{/each}}';
+
+    expect(renderTemplate(template, { parties: [{ name: 'Acme' }, { name: 'Smith' }] })).toBe('1. Acme, 2. Smith');
+  });
+
+  it('reads outer fields inside a loop', () => {
+    expect(renderTemplate('{{#each items}}{{this}} for {{case_number}};{{/each}}', {
+      case_number: 'CV-1',
+      items: ['a', 'b'],
+    })).toBe('a for CV-1;b for CV-1;');
+  });
+
+  it('renders the else branch of an empty loop', () => {
+    const template = '{{#each liens}}{{type}}{{else}}No liens{{/each}}';
+
+    expect(renderTemplate(template, { liens: [] })).toBe('No liens');
+    expect(renderTemplate(template, {})).toBe('No liens');
+    expect(renderTemplate('[{{#each liens}}{{type}}{{/each}}]', { liens: [] })).toBe('[]');
+  });
+
+  it('drops the lines of block tags that stand alone', () => {
+    expect(renderTemplate('Parties:\n{{#each names}}\n- {{this}}\n{{/each}}\nEnd', { names: ['A', 'B'] })).toBe(
+      'Parties:\n- A\n- B\nEnd'
+    );
+  });
+
+  it('reports unbalanced blocks', () => {
+    expect(validateTemplate('{{#if a}}x')).toBe('{{#if a}} is never closed');
+    expect(validateTemplate('{{#if a}}x{{/each}}')).toBe('{{#if a}} is closed by {{/each}}');
+    expect(validateTemplate('x{{/if}}')).toBe('{{/if}} has no matching opening tag');
+  });
+});
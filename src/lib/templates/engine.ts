@@ -0,0 +1,410 @@
+// src/lib/templates/engine.ts
+
+// Template language used by document templates:
+//   {{field}}                         value lookup, dotted paths allowed (lender.name)
+//   {{field | upper}}                 one or more pipe formatters, some take an argument
+//   {{field | default: "N/A"}}
+//   {{#if field}}...{{else}}...{{/if}}    {{#unless field}}...{{/unless}}
+//   {{#each list}}...{{else}}...{{/each}} with {{this}}, {{@index}}, {{@number}}, {{@first}}, {{@last}}
+
+export type MergeValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | MergeValue[]
+  | { [key: string]: MergeValue };
+
+export type MergeData = Record<string, MergeValue>;
+
+interface FormatterCall {
+  name: string;
+  arg: string | null;
+}
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'field'; path: string; formatters: FormatterCall[]; raw: string }
+  | { type: 'if'; path: string; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface RenderOptions {
+  // Escapes inserted values for the output format (HTML, XML)
+  escape?: (value: string) => string;
+  // Decodes tag text before it is parsed, e.g. XML entities inside DOCX runs
+  decodeTag?: (value: string) => string;
+}
+
+type Token =
+  | { kind: 'text'; value: string }
+  | { kind: 'tag'; value: string; raw: string };
+
+interface Block {
+  type: 'if' | 'each';
+  tag: string;
+  path: string;
+  negate: boolean;
+  body: TemplateNode[];
+  otherwise: TemplateNode[];
+  inElse: boolean;
+}
+
+interface Scope {
+  value: MergeValue;
+  index?: number;
+  length?: number;
+}
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const PATH_PATTERN = /^(@index|@number|@first|@last|this|[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)*)$/;
+const BLOCK_TAG_PATTERN = /^(#(if|unless|each)\s|\/(if|unless|each)$|else$)/;
+
+// Date-only columns ("2024-03-01") are parsed as local dates so they don't shift a day
+export const toDate = (value: MergeValue): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string' || !value) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toNumber = (value: MergeValue): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+
+  const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+export const formatLongDate = (value: MergeValue) => {
+  const date = toDate(value);
+  if (!date) return stringify(value);
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+export const formatCurrency = (value: MergeValue) => {
+  const amount = toNumber(value);
+  if (amount === null) return stringify(value);
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+};
+
+const ordinal = (n: number) => {
+  const rem100 = n % 100;
+  if (rem100 >= 11 && rem100 <= 13) return `${n}th`;
+
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+};
+
+const isTruthy = (value: MergeValue) => {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim().length > 0;
+  return !!value;
+};
+
+const stringify = (value: MergeValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatLongDate(value);
+  if (Array.isArray(value)) return value.map(stringify).filter(Boolean).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+};
+
+export const FORMATTERS: Record<string, (value: MergeValue, arg: string | null) => MergeValue> = {
+  upper: (value) => stringify(value).toUpperCase(),
+  lower: (value) => stringify(value).toLowerCase(),
+  title: (value) => stringify(value).toLowerCase().replace(/\b\w/g, (c) => c.toUpperCase()),
+  long_date: (value) => formatLongDate(value),
+  short_date: (value) => {
+    const date = toDate(value);
+    return date ? date.toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' }) : stringify(value);
+  },
+  iso_date: (value) => {
+    const date = toDate(value);
+    if (!date) return stringify(value);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  },
+  currency: (value) => formatCurrency(value),
+  number: (value) => {
+    const amount = toNumber(value);
+    return amount === null ? stringify(value) : amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  },
+  ordinal: (value) => {
+    const n = toNumber(value);
+    return n === null ? stringify(value) : ordinal(Math.trunc(n));
+  },
+  count: (value) => (Array.isArray(value) ? value.length : isTruthy(value) ? 1 : 0),
+  default: (value, arg) => (isTruthy(value) ? value : arg ?? ''),
+};
+
+// A block tag alone on its line takes the whole line with it, so {{#if}}/{{/if}} lines
+// in text and HTML templates don't leave blank lines behind
+const tokenize = (source: string, decodeTag: (value: string) => string): Token[] => {
+  const tokens: Token[] = [];
+  let lastIndex = 0;
+  let atLineStart = true;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const value = decodeTag(match[1]).replace(/[\u201C\u201D]/g, '"').trim();
+
+    let textBefore = source.slice(lastIndex, start);
+    let nextIndex = end;
+    let standalone = false;
+
+    if (BLOCK_TAG_PATTERN.test(value)) {
+      const lineStart = textBefore.lastIndexOf('\n');
+      const lead = textBefore.slice(lineStart + 1);
+      const trail = source.slice(end).match(/^[ \t]*(\r?\n|$)/);
+
+      if ((lineStart !== -1 || atLineStart) && /^[ \t]*$/.test(lead) && trail) {
+        textBefore = textBefore.slice(0, textBefore.length - lead.length);
+        nextIndex = end + trail[0].length;
+        standalone = true;
+      }
+    }
+
+    if (textBefore) tokens.push({ kind: 'text', value: textBefore });
+    tokens.push({ kind: 'tag', value, raw: match[0] });
+    lastIndex = nextIndex;
+    atLineStart = standalone;
+  }
+
+  if (lastIndex < source.length) {
+    tokens.push({ kind: 'text', value: source.slice(lastIndex) });
+  }
+
+  return tokens;
+};
+
+const parsePath = (path: string, tag: string) => {
+  if (!PATH_PATTERN.test(path)) {
+    throw new Error(`Invalid field name in ${tag}`);
+  }
+  return path;
+};
+
+const parseFieldTag = (value: string, raw: string): TemplateNode => {
+  const [pathPart, ...formatterParts] = value.split('|').map((part) => part.trim());
+
+  const formatters = formatterParts.map((part) => {
+    const match = part.match(/^([a-z_]+)\s*(?::\s*(?:"([^"]*)"|'([^']*)'|(\S+)))?$/);
+    if (!match) {
+      throw new Error(`Invalid formatter "${part}" in ${raw}`);
+    }
+    if (!FORMATTERS[match[1]]) {
+      throw new Error(`Unknown formatter "${match[1]}" in ${raw}`);
+    }
+    return { name: match[1], arg: match[2] ?? match[3] ?? match[4] ?? null };
+  });
+
+  return { type: 'field', path: parsePath(pathPart, raw), formatters, raw };
+};
+
+export const parseTemplate = (source: string, options: RenderOptions = {}): TemplateNode[] => {
+  const decodeTag = options.decodeTag || ((value: string) => value);
+  const root: TemplateNode[] = [];
+  const stack: Block[] = [];
+
+  const current = () => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    return block.inElse ? block.otherwise : block.body;
+  };
+
+  tokenize(source, decodeTag).forEach((token) => {
+    if (token.kind === 'text') {
+      current().push({ type: 'text', value: token.value });
+      return;
+    }
+
+    const { value, raw } = token;
+    const open = value.match(/^#(if|unless|each)\s+(.+)$/);
+
+    if (open) {
+      stack.push({
+        type: open[1] === 'each' ? 'each' : 'if',
+        tag: open[1],
+        path: parsePath(open[2].trim(), raw),
+        negate: open[1] === 'unless',
+        body: [],
+        otherwise: [],
+        inElse: false,
+      });
+      return;
+    }
+
+    if (value === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.inElse) {
+        throw new Error('{{else}} must be inside an {{#if}}, {{#unless}} or {{#each}} block');
+      }
+      block.inElse = true;
+      return;
+    }
+
+    const close = value.match(/^\/(if|unless|each)$/);
+
+    if (close) {
+      const block = stack.pop();
+      if (!block) {
+        throw new Error(`${raw} has no matching opening tag`);
+      }
+      if (block.tag !== close[1]) {
+        throw new Error(`{{#${block.tag} ${block.path}}} is closed by ${raw}`);
+      }
+
+      const node: TemplateNode = block.type === 'each'
+        ? { type: 'each', path: block.path, body: block.body, otherwise: block.otherwise }
+        : { type: 'if', path: block.path, negate: block.negate, body: block.body, otherwise: block.otherwise };
+
+      current().push(node);
+      return;
+    }
+
+    if (value.startsWith('#') || value.startsWith('/')) {
+      throw new Error(`Unknown block tag ${raw}`);
+    }
+
+    current().push(parseFieldTag(value, raw));
+  });
+
+  if (stack.length > 0) {
+    const block = stack[stack.length - 1];
+    throw new Error(`{{#${block.tag} ${block.path}}} is never closed`);
+  }
+
+  return root;
+};
+
+// Returns a syntax error message, or null when the template parses
+export const validateTemplate = (source: string, options: RenderOptions = {}) => {
+  try {
+    parseTemplate(source, options);
+    return null;
+  } catch (error: any) {
+    return error.message as string;
+  }
+};
+
+const lookup = (scopes: Scope[], path: string): MergeValue => {
+  const scope = scopes[scopes.length - 1];
+
+  switch (path) {
+    case 'this':
+      return scope.value;
+    case '@index':
+      return scope.index;
+    case '@number':
+      return scope.index === undefined ? undefined : scope.index + 1;
+    case '@first':
+      return scope.index === 0;
+    case '@last':
+      return scope.index !== undefined && scope.index === (scope.length || 0) - 1;
+  }
+
+  const [head, ...rest] = path.split('.');
+
+  // Inner scopes (loop items) shadow outer ones
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const value = scopes[i].value;
+
+    if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) && head in value) {
+      return rest.reduce<MergeValue>((current, key) => {
+        if (current && typeof current === 'object' && !Array.isArray(current) && !(current instanceof Date)) {
+          return current[key];
+        }
+        return undefined;
+      }, value[head]);
+    }
+  }
+
+  return undefined;
+};
+
+const renderNodes = (nodes: TemplateNode[], scopes: Scope[], escape: (value: string) => string): string => {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+
+      case 'field': {
+        const value = lookup(scopes, node.path);
+        const usesDefault = node.formatters.some((formatter) => formatter.name === 'default');
+
+        // Leave unresolved tokens visible so missing data is obvious in the output
+        if (value === undefined && !usesDefault) return node.raw;
+
+        const formatted = node.formatters.reduce(
+          (current, formatter) => FORMATTERS[formatter.name](current, formatter.arg),
+          value
+        );
+        return escape(stringify(formatted));
+      }
+
+      case 'if': {
+        const truthy = isTruthy(lookup(scopes, node.path));
+        return renderNodes(truthy !== node.negate ? node.body : node.otherwise, scopes, escape);
+      }
+
+      case 'each': {
+        const value = lookup(scopes, node.path);
+        const items = Array.isArray(value) ? value : isTruthy(value) ? [value] : [];
+
+        if (items.length === 0) {
+          return renderNodes(node.otherwise, scopes, escape);
+        }
+
+        return items
+          .map((item, index) => renderNodes(node.body, [...scopes, { value: item, index, length: items.length }], escape))
+          .join('');
+      }
+    }
+  }).join('');
+};
+
+export const renderTemplate = (source: string, data: MergeData, options: RenderOptions = {}) => {
+  const nodes = parseTemplate(source, options);
+  return renderNodes(nodes, [{ value: data }], options.escape || ((value) => value));
+};
+
+// Top-level fields a template reads; fields inside {{#each}} belong to the loop items
+export const extractFields = (source: string, options: RenderOptions = {}) => {
+  const fields = new Set<string>();
+
+  const visit = (nodes: TemplateNode[]) => {
+    nodes.forEach((node) => {
+      if (node.type === 'field') {
+        if (!node.path.startsWith('@') && node.path !== 'this') fields.add(node.path);
+      } else if (node.type === 'if') {
+        fields.add(node.path);
+        visit(node.body);
+        visit(node.otherwise);
+      } else if (node.type === 'each') {
+        fields.add(node.path);
+        visit(node.otherwise);
+      }
+    });
+  };
+
+  visit(parseTemplate(source, options));
+
+  return Array.from(fields);
+};
+
+export const isFieldResolved = (data: MergeData, path: string) => {
+  return lookup([{ value: data }], path) !== undefined;
+};
@@ -0,0 +1,79 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { mergeTemplateFile, normalizeDocxRuns, readTemplateFields } from './files';
+
+const run = (text: string, bold = false) => {
+  return `<w:r>${bold ? '<w:rPr><w:b/></w:rPr>' : ''}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+};
+
+const paragraph = (...runs: string[]) => `<w:p><w:pPr><w:jc w:val="left"/></w:pPr>${runs.join('')}</w:p>`;
+
+// How Word saves "Borrower: {{borrower.name | upper}}" after a spell-check pass and a
+// bold "upper": the field is spread over four runs
+const splitField = paragraph(
+  run('Borrower: {{'),
+  run('borrower.'),
+  run('name | ', true),
+  run('upper}}')
+);
+
+const buildDocx = async (body: string) => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', '<?xml version="1.0"?><Types/>');
+  zip.file('word/document.xml', `<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`);
+  return zip.generateAsync({ type: 'arraybuffer' });
+};
+
+const readDocumentXml = async (blob: Blob) => {
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  return zip.file('word/document.xml')!.async('string');
+};
+
+describe('normalizeDocxRuns', () => {
+  it('joins a field split across runs into the first run', () => {
+    const normalized = normalizeDocxRuns(splitField);
+
+    expect(normalized).toContain('<w:t xml:space="preserve">Borrower: {{borrower.name | upper}}</w:t>');
+    expect(normalized.match(/<w:r>/g)).toHaveLength(4);
+    expect(normalized).toContain('<w:pPr><w:jc w:val="left"/></w:pPr>');
+  });
+
+  it('leaves paragraphs whose fields sit within one run alone', () => {
+    const whole = paragraph(run('{{client.name}}', true), run(' and '), run('{{opposing.name}}'));
+
+    expect(normalizeDocxRuns(whole)).toBe(whole);
+  });
+});
+
+describe('DOCX templates', () => {
+  it('reads and merges a field split across runs', async () => {
+    const data = await buildDocx(splitField + paragraph(run('Case {{case'), run('.case_number}}')));
+
+    expect(await readTemplateFields(data, 'docx')).toEqual(['borrower.name', 'case.case_number']);
+
+    const merged = await readDocumentXml(await mergeTemplateFile(data, 'docx', {
+      borrower: { name: 'Smith & Sons' },
+      case: { case_number: 'CV-1' },
+    }));
+
+    expect(merged).toContain('Borrower: SMITH &amp; SONS');
+    expect(merged).toContain('Case CV-1');
+    expect(merged).not.toContain('{{');
+  });
+
+  it('repeats whole paragraphs for a loop split across runs', async () => {
+    const data = await buildDocx(
+      paragraph(run('{{#each '), run('liens}}')) +
+      paragraph(run('{{type}}')) +
+      paragraph(run('{{/each}}'))
+    );
+
+    const merged = await readDocumentXml(await mergeTemplateFile(data, 'docx', {
+      liens: [{ type: 'Mortgage' }, { type: 'HOA lien' }],
+    }));
+
+    expect(merged.match(/<w:p>/g)).toHaveLength(2);
+    expect(merged).toContain('Mortgage');
+    expect(merged).toContain('HOA lien');
+  });
+});
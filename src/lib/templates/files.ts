@@ -0,0 +1,199 @@
+// src/lib/templates/files.ts
+import JSZip from 'jszip';
+import { MergeData, RenderOptions, extractFields, renderTemplate, validateTemplate } from './engine';
+
+export type TemplateFormat = 'text' | 'html' | 'docx';
+
+export const TEMPLATE_CONTENT_TYPES: Record<TemplateFormat, string> = {
+  text: 'text/plain',
+  html: 'text/html',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+export const TEMPLATE_EXTENSIONS: Record<TemplateFormat, string> = {
+  text: 'txt',
+  html: 'html',
+  docx: 'docx',
+};
+
+// Word parts that can carry merge fields
+const DOCX_PART_PATTERN = /^word\/(document|header\d*|footer\d*)\.xml$/;
+
+const PARAGRAPH_PATTERN = /<w:p[\s>][\s\S]*?<\/w:p>/g;
+const TEXT_NODE_PATTERN = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g;
+
+export const detectTemplateFormat = (fileName: string): TemplateFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'txt':
+    case 'text':
+      return 'text';
+    case 'html':
+    case 'htm':
+      return 'html';
+    case 'docx':
+      return 'docx';
+    default:
+      return null;
+  }
+};
+
+const escapeHtml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const escapeXml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+};
+
+const unescapeXml = (value: string) => {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+const countTokens = (text: string) => (text.match(/\{\{[\s\S]*?\}\}/g) || []).length;
+
+// Word splits text into runs wherever formatting, spell-check or revision marks change,
+// so "{{client_name}}" often arrives as "{{", "client_", "name}}". When a paragraph has a
+// token that spans runs, its text is collapsed into the first run so the token is whole.
+export const normalizeDocxRuns = (xml: string) => {
+  return xml.replace(PARAGRAPH_PATTERN, (paragraph) => {
+    const nodes = Array.from(paragraph.matchAll(TEXT_NODE_PATTERN));
+    if (nodes.length < 2) return paragraph;
+
+    const joined = nodes.map((node) => node[1]).join('');
+    if (!joined.includes('{{')) return paragraph;
+
+    const tokensWithinNodes = nodes.reduce((total, node) => total + countTokens(node[1]), 0);
+    if (tokensWithinNodes === countTokens(joined)) return paragraph;
+
+    let index = 0;
+    return paragraph.replace(TEXT_NODE_PATTERN, () => {
+      index += 1;
+      return index === 1
+        ? `<w:t xml:space="preserve">${joined}</w:t>`
+        : '<w:t></w:t>';
+    });
+  });
+};
+
+const BLOCK_PARAGRAPH_PATTERN = /^\s*\{\{\s*(#(if|unless|each)\s[^}]*|\/(if|unless|each)|else)\s*\}\}\s*$/;
+
+// A paragraph holding nothing but a block tag is replaced by the bare tag, so loops and
+// conditionals repeat or drop whole paragraphs without leaving empty ones behind
+const hoistBlockParagraphs = (xml: string) => {
+  return xml.replace(PARAGRAPH_PATTERN, (paragraph) => {
+    const text = Array.from(paragraph.matchAll(TEXT_NODE_PATTERN)).map((node) => node[1]).join('');
+    return BLOCK_PARAGRAPH_PATTERN.test(text) ? text.trim() : paragraph;
+  });
+};
+
+const docxPartText = (xml: string) => {
+  const paragraphs = xml.match(PARAGRAPH_PATTERN) || [];
+
+  return paragraphs
+    .map((paragraph) => Array.from(paragraph.matchAll(TEXT_NODE_PATTERN)).map((node) => unescapeXml(node[1])).join(''))
+    .join('\n');
+};
+
+const loadDocxParts = async (data: ArrayBuffer) => {
+  const zip = await JSZip.loadAsync(data);
+  const partNames = Object.keys(zip.files).filter((name) => DOCX_PART_PATTERN.test(name));
+
+  const parts = await Promise.all(
+    partNames.map(async (name) => ({
+      name,
+      xml: normalizeDocxRuns(await zip.file(name)!.async('string')),
+    }))
+  );
+
+  return { zip, parts };
+};
+
+const RENDER_OPTIONS: Record<TemplateFormat, RenderOptions> = {
+  text: {},
+  html: { escape: escapeHtml },
+  // Tags in DOCX sit inside XML text nodes, so their text arrives entity-encoded
+  docx: { escape: escapeXml, decodeTag: unescapeXml },
+};
+
+// Returns the template as plain text, used for previews and retrieval
+export const readTemplateText = async (data: ArrayBuffer, format: TemplateFormat) => {
+  if (format === 'docx') {
+    const { parts } = await loadDocxParts(data);
+    return parts.map((part) => docxPartText(part.xml)).join('\n');
+  }
+
+  return new TextDecoder('utf-8').decode(data);
+};
+
+const readTemplateSources = async (data: ArrayBuffer, format: TemplateFormat) => {
+  if (format === 'docx') {
+    const { parts } = await loadDocxParts(data);
+    return parts.map((part) => hoistBlockParagraphs(part.xml));
+  }
+
+  return [new TextDecoder('utf-8').decode(data)];
+};
+
+// Top-level fields the template reads, across every part of the file
+export const readTemplateFields = async (data: ArrayBuffer, format: TemplateFormat) => {
+  const sources = await readTemplateSources(data, format);
+  const fields = new Set<string>();
+
+  sources.forEach((source) => {
+    extractFields(source, RENDER_OPTIONS[format]).forEach((field) => fields.add(field));
+  });
+
+  return Array.from(fields);
+};
+
+// Returns a syntax error message, or null when every part of the template parses
+export const checkTemplateFile = async (data: ArrayBuffer, format: TemplateFormat) => {
+  const sources = await readTemplateSources(data, format);
+
+  for (const source of sources) {
+    const error = validateTemplate(source, RENDER_OPTIONS[format]);
+    if (error) return error;
+  }
+
+  return null;
+};
+
+// Produces the generated document in the same format as the template
+export const mergeTemplateFile = async (
+  data: ArrayBuffer,
+  format: TemplateFormat,
+  mergeData: MergeData
+): Promise<Blob> => {
+  const contentType = TEMPLATE_CONTENT_TYPES[format];
+
+  if (format === 'docx') {
+    const { zip, parts } = await loadDocxParts(data);
+
+    parts.forEach((part) => {
+      zip.file(part.name, renderTemplate(hoistBlockParagraphs(part.xml), mergeData, RENDER_OPTIONS.docx));
+    });
+
+    const bytes = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+    return new Blob([bytes], { type: contentType });
+  }
+
+  const text = new TextDecoder('utf-8').decode(data);
+  const merged = renderTemplate(text, mergeData, RENDER_OPTIONS[format]);
+
+  return new Blob([merged], { type: contentType });
+};
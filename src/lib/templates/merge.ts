@@ -0,0 +1,190 @@
+// src/lib/templates/merge.ts
+import { Database } from '@/types/supabase';
+import { compareRoles, getCasePartyRole } from '@/lib/parties/roles';
+import { MergeData, MergeValue, formatCurrency, isFieldResolved, toDate } from './engine';
+
+type Tables = Database['public']['Tables'];
+type CaseRow = Tables['cases']['Row'];
+type PartyRow = Tables['parties']['Row'];
+type UserRow = Tables['users']['Row'];
+type FirmRow = Tables['firms']['Row'];
+type SecurityInterestRow = Tables['security_interests']['Row'];
+type CasePartyRow = Tables['case_parties']['Row'];
+
+export interface MergeSources {
+  caseData: CaseRow;
+  client?: PartyRow | null;
+  opposingParty?: PartyRow | null;
+  attorney?: UserRow | null;
+  author?: UserRow | null;
+  firm?: FirmRow | null;
+  securityInterests?: SecurityInterestRow[];
+  // Lenders and borrowers referenced by the security interests
+  relatedParties?: PartyRow[];
+  // Everyone on the case by role; their parties go in relatedParties
+  caseParties?: CasePartyRow[];
+}
+
+export const getPartyDisplayName = (party: Pick<PartyRow, 'first_name' | 'last_name' | 'organization_name'> | null | undefined) => {
+  if (!party) return '';
+
+  if (party.organization_name) {
+    return party.organization_name;
+  }
+  return `${party.first_name || ''} ${party.last_name || ''}`.trim();
+};
+
+// Drops empty values so optional columns surface as custom fields instead of blanks
+const compact = (values: MergeData): MergeData => {
+  const result: MergeData = {};
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (value !== null && value !== undefined && value !== '') result[key] = value;
+  });
+
+  return result;
+};
+
+const partyData = (prefix: string, party: PartyRow | null | undefined): MergeData => {
+  if (!party) return {};
+
+  return compact({
+    [prefix]: getPartyDisplayName(party),
+    [`${prefix}_name`]: getPartyDisplayName(party),
+    [`${prefix}_first_name`]: party.first_name,
+    [`${prefix}_last_name`]: party.last_name,
+    [`${prefix}_organization`]: party.organization_name,
+    [`${prefix}_email`]: party.email,
+    [`${prefix}_phone`]: party.phone,
+    [`${prefix}_address`]: party.address,
+  });
+};
+
+const userData = (prefix: string, user: UserRow | null | undefined): MergeData => {
+  if (!user) return {};
+
+  return compact({
+    [prefix]: `${user.first_name} ${user.last_name}`,
+    [`${prefix}_name`]: `${user.first_name} ${user.last_name}`,
+    [`${prefix}_first_name`]: user.first_name,
+    [`${prefix}_last_name`]: user.last_name,
+    [`${prefix}_email`]: user.email,
+    [`${prefix}_phone`]: user.phone,
+  });
+};
+
+const byLienPosition = (a: SecurityInterestRow, b: SecurityInterestRow) => {
+  return (a.lien_position ?? Number.MAX_SAFE_INTEGER) - (b.lien_position ?? Number.MAX_SAFE_INTEGER);
+};
+
+// Pleadings name co-defendants alongside the defendants, so {{defendants}} lists both
+const ROLE_LIST_ALIASES: Record<string, string[]> = {
+  defendant: ['defendants'],
+  co_defendant: ['defendants', 'co_defendants'],
+};
+
+const casePartyData = (caseParties: CasePartyRow[], partiesById: Map<string, PartyRow>): MergeData => {
+  const sorted = [...caseParties].sort((a, b) => compareRoles(a.role, b.role));
+  const data: MergeData = {};
+
+  // Only roles someone holds are set, so a template asking for {{defendants}} on a case
+  // without any is flagged as unresolved instead of rendering blank
+  sorted.forEach((caseParty) => {
+    const name = getPartyDisplayName(partiesById.get(caseParty.party_id));
+    const keys = ROLE_LIST_ALIASES[caseParty.role] || [getCasePartyRole(caseParty.role).plural];
+
+    keys.forEach((key) => {
+      const names = (data[key] || (data[key] = [])) as MergeValue[];
+      if (name && !names.includes(name)) names.push(name);
+    });
+  });
+
+  data.case_parties = sorted.map((caseParty) => {
+    const party = partiesById.get(caseParty.party_id);
+
+    return compact({
+      name: getPartyDisplayName(party),
+      role: caseParty.role,
+      role_label: getCasePartyRole(caseParty.role).label,
+      email: party?.email,
+      phone: party?.phone,
+      address: party?.address,
+      represents: caseParty.represents_party_id
+        ? getPartyDisplayName(partiesById.get(caseParty.represents_party_id))
+        : null,
+    });
+  });
+
+  return data;
+};
+
+// Builds the merge data from the rows selected on the Use Template page. Dates stay
+// Date objects and amounts stay numbers so pipe formatters can work on them.
+export const buildMergeData = (sources: MergeSources): MergeData => {
+  const { caseData, firm } = sources;
+  const partiesById = new Map((sources.relatedParties || []).map((party) => [party.id, party]));
+
+  const securityInterests = [...(sources.securityInterests || [])].sort(byLienPosition);
+
+  const liens: MergeValue[] = securityInterests.map((interest) => compact({
+    type: interest.type,
+    description: interest.description,
+    property_address: interest.property_address,
+    recorded_date: toDate(interest.recorded_date),
+    amount: interest.amount,
+    lien_position: interest.lien_position,
+    lender_name: getPartyDisplayName(partiesById.get(interest.lender_id)),
+    borrower_name: getPartyDisplayName(partiesById.get(interest.borrower_id)),
+    maturity_date: toDate(interest.maturity_date),
+    interest_rate: interest.interest_rate,
+    property_value: interest.property_value,
+  }));
+
+  const data: MergeData = compact({
+    case_number: caseData.case_number,
+    case_title: caseData.title,
+    case_type: caseData.case_type,
+    case_status: caseData.status,
+    case_description: caseData.description,
+    court_name: caseData.court_name,
+    court_location: caseData.court_location,
+    judge_name: caseData.judge_name,
+    filing_date: toDate(caseData.filing_date),
+    closure_date: toDate(caseData.closure_date),
+    today: new Date(),
+    current_date: new Date(),
+    firm_name: firm?.name,
+    firm_address: firm?.address,
+    firm_phone: firm?.phone,
+    firm_email: firm?.email,
+    ...partyData('client', sources.client),
+    ...partyData('opposing_party', sources.opposingParty),
+    ...userData('attorney', sources.attorney),
+    ...userData('author', sources.author),
+  });
+
+  // Lists are always present so {{#each}} falls through to {{else}} when empty
+  data.security_interests = liens;
+
+  Object.assign(data, casePartyData(sources.caseParties || [], partiesById));
+
+  // The first-position lien is what most foreclosure pleadings refer to
+  const primaryInterest = securityInterests[0];
+
+  if (primaryInterest) {
+    Object.assign(data, compact({
+      loan_amount: formatCurrency(primaryInterest.amount),
+      security_interest_type: primaryInterest.type,
+      property_address: primaryInterest.property_address,
+      recorded_date: toDate(primaryInterest.recorded_date),
+      maturity_date: toDate(primaryInterest.maturity_date),
+      interest_rate: primaryInterest.interest_rate !== null ? `${primaryInterest.interest_rate}%` : null,
+    }));
+  }
+
+  return data;
+};
+
+export const getUnresolvedFields = (fields: string[], data: MergeData) => {
+  return fields.filter((field) => !isFieldResolved(data, field));
+};
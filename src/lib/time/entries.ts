@@ -0,0 +1,67 @@
+// src/lib/time/entries.ts
+import { supabase } from '@/lib/supabase';
+import { TimeEntry } from '@/lib/time';
+
+export interface RunningTimer extends TimeEntry {
+  case: { case_number: string; title: string } | null;
+}
+
+// The signed-in user's running timer, on whichever case it is
+export const fetchRunningTimer = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select('*, case:case_id(case_number, title)')
+    .eq('user_id', userId)
+    .is('stopped_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as RunningTimer | null;
+};
+
+// Each user has one running timer; starting a second comes back as a unique violation,
+// which is reported as such
+export const startTimer = async (firmId: string, userId: string, caseId: string) => {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .insert({ firm_id: firmId, user_id: userId, case_id: caseId, started_at: new Date().toISOString() })
+    .select()
+    .single();
+
+  if (error?.code === '23505') throw new Error('You already have a timer running; stop it first');
+  if (error) throw error;
+  return data as TimeEntry;
+};
+
+export const stopTimer = async (entryId: string, details: Pick<TimeEntry, 'activity_code' | 'narrative'>) => {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .update({ ...details, stopped_at: new Date().toISOString() })
+    .eq('id', entryId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as TimeEntry;
+};
+
+export interface TimeEntryInput {
+  case_id: string;
+  started_at: string;
+  stopped_at: string;
+  activity_code: string | null;
+  narrative: string | null;
+  is_billable: boolean;
+}
+
+// Adds time worked without a timer
+export const recordTime = async (firmId: string, userId: string, input: TimeEntryInput) => {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .insert({ ...input, firm_id: firmId, user_id: userId })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as TimeEntry;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { formatElapsed, formatHours, getActivityLabel, getElapsedSeconds, roundUpToIncrement } from './index';
+
+describe('roundUpToIncrement', () => {
+  it('rounds any part of a tenth of an hour up to the whole tenth', () => {
+    expect(roundUpToIncrement(1)).toBe(0.1);
+    expect(roundUpToIncrement(6 * 60)).toBe(0.1);
+    expect(roundUpToIncrement(6 * 60 + 1)).toBe(0.2);
+    expect(roundUpToIncrement(59 * 60)).toBe(1);
+  });
+
+  it('uses the firm\'s increment', () => {
+    expect(roundUpToIncrement(16 * 60, 15)).toBe(0.5);
+    expect(roundUpToIncrement(20 * 60, 60)).toBe(1);
+  });
+
+  it('bills nothing for no time', () => {
+    expect(roundUpToIncrement(0)).toBe(0);
+    expect(roundUpToIncrement(-30)).toBe(0);
+  });
+
+  it('keeps two decimals', () => {
+    expect(roundUpToIncrement(7 * 60 * 60 + 1, 6)).toBe(7.1);
+    expect(roundUpToIncrement(50 * 60, 10)).toBe(0.83);
+  });
+});
+
+describe('elapsed time', () => {
+  it('measures a running timer up to now and a stopped one up to its stop', () => {
+    const started = { started_at: '2025-03-14T14:00:00Z', stopped_at: null };
+
+    expect(getElapsedSeconds(started, new Date('2025-03-14T14:01:05Z'))).toBe(65);
+    expect(getElapsedSeconds({ ...started, stopped_at: '2025-03-14T15:00:00Z' }, new Date('2025-03-15T00:00:00Z'))).toBe(3600);
+  });
+
+  it('formats elapsed seconds as a clock', () => {
+    expect(formatElapsed(3909)).toBe('1:05:09');
+    expect(formatElapsed(59.9)).toBe('0:00:59');
+    expect(formatElapsed(-5)).toBe('0:00:00');
+  });
+});
+
+describe('labels', () => {
+  it('prints tenths with one decimal and quarter hours with two', () => {
+    expect(formatHours(0.3)).toBe('0.3 h');
+    expect(formatHours(0.25)).toBe('0.25 h');
+    expect(formatHours(2)).toBe('2.0 h');
+  });
+
+  it('labels activity codes, keeping unknown ones as they are', () => {
+    expect(getActivityLabel('A103')).toBe('A103 Draft/revise');
+    expect(getActivityLabel('B999')).toBe('B999');
+    expect(getActivityLabel(null)).toBe('');
+  });
+});
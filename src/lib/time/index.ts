@@ -0,0 +1,54 @@
+// src/lib/time/index.ts
+// Hourly time. A time entry is started by a timer (stopped_at NULL while it runs) or
+// entered afterwards; the database rounds the duration up to the firm's increment and
+// prices it at the applicable rate when it stops (prepare_time_entry, billing_rate_for).
+// Billable time is billed on an invoice line, like fees and expenses.
+import { Database } from '@/types/supabase';
+
+export type TimeEntry = Database['public']['Tables']['time_entries']['Row'];
+export type BillingRate = Database['public']['Tables']['billing_rates']['Row'];
+
+// UTBMS litigation activity codes
+export const ACTIVITY_CODES = [
+  { value: 'A101', label: 'A101 Plan and prepare for' },
+  { value: 'A102', label: 'A102 Research' },
+  { value: 'A103', label: 'A103 Draft/revise' },
+  { value: 'A104', label: 'A104 Review/analyze' },
+  { value: 'A105', label: 'A105 Communicate (in firm)' },
+  { value: 'A106', label: 'A106 Communicate (with client)' },
+  { value: 'A107', label: 'A107 Communicate (other outside counsel)' },
+  { value: 'A108', label: 'A108 Communicate (other external)' },
+  { value: 'A109', label: 'A109 Appear for/attend' },
+  { value: 'A110', label: 'A110 Manage data/files' },
+  { value: 'A111', label: 'A111 Other' },
+];
+
+// Mirrors the firms.time_increment_minutes default: a tenth of an hour
+export const DEFAULT_TIME_INCREMENT_MINUTES = 6;
+
+export const getActivityLabel = (code: string | null) => {
+  if (!code) return '';
+  return ACTIVITY_CODES.find((option) => option.value === code)?.label || code;
+};
+
+// The same rounding prepare_time_entry applies, for previews before an entry is saved
+export const roundUpToIncrement = (seconds: number, incrementMinutes = DEFAULT_TIME_INCREMENT_MINUTES) => {
+  const increments = Math.ceil(Math.max(seconds, 0) / (incrementMinutes * 60));
+  return Math.round(increments * incrementMinutes / 60 * 100) / 100;
+};
+
+// Elapsed time on a running timer, e.g. "1:05:09"
+export const formatElapsed = (seconds: number) => {
+  const whole = Math.max(Math.floor(seconds), 0);
+  const minutes = Math.floor(whole / 60) % 60;
+  const secs = whole % 60;
+  return `${Math.floor(whole / 3600)}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+};
+
+// Tenths print as 0.3 h, quarter hours as 0.25 h
+export const formatHours = (hours: number) => `${Number(hours).toFixed(2).replace(/0$/, '')} h`;
+
+export const getElapsedSeconds = (entry: Pick<TimeEntry, 'started_at' | 'stopped_at'>, now = new Date()) => {
+  const end = entry.stopped_at ? new Date(entry.stopped_at) : now;
+  return (end.getTime() - new Date(entry.started_at).getTime()) / 1000;
+};
@@ -0,0 +1,42 @@
+// src/lib/trust/index.ts
+// Client trust (IOLTA) accounting. Each trust account holds a sub-ledger per client in
+// trust_transactions, and the database refuses entries that would overdraw a client
+// (guard_trust_transaction). Entries are recorded from the browser through ./ledger.
+import { Database } from '@/types/supabase';
+
+export type TrustAccount = Database['public']['Tables']['trust_accounts']['Row'];
+export type TrustTransaction = Database['public']['Tables']['trust_transactions']['Row'];
+export type TrustBankStatement = Database['public']['Tables']['trust_bank_statements']['Row'];
+export type TrustBankStatementLine = Database['public']['Tables']['trust_bank_statement_lines']['Row'];
+export type TrustReconciliation = Database['public']['Tables']['trust_reconciliations']['Row'];
+
+export type TrustTransactionType = 'deposit' | 'disbursement' | 'transfer_to_operating';
+
+export const TRUST_TRANSACTION_TYPES: { value: TrustTransactionType; label: string }[] = [
+  { value: 'deposit', label: 'Deposit' },
+  { value: 'disbursement', label: 'Disbursement' },
+  { value: 'transfer_to_operating', label: 'Transfer to Operating' },
+];
+
+export interface TrustLedgerBalance {
+  client_id: string;
+  balance: number;
+  last_transaction_date: string;
+}
+
+export const getTrustTransactionTypeLabel = (type: string) => {
+  return TRUST_TRANSACTION_TYPES.find((option) => option.value === type)?.label || type;
+};
+
+// Rounds to whole cents so sums of DECIMAL(15, 2) values compare exactly
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const formatMoney = (amount: number) => {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}$${Math.abs(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+// Money into the account is positive, money out negative, as on a bank statement
+export const getSignedAmount = (entry: Pick<TrustTransaction, 'transaction_type' | 'amount'>) => {
+  return entry.transaction_type === 'deposit' ? Number(entry.amount) : -Number(entry.amount);
+};
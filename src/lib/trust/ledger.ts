@@ -0,0 +1,48 @@
+// src/lib/trust/ledger.ts
+import { supabase } from '@/lib/supabase';
+import { TrustLedgerBalance, TrustTransaction, TrustTransactionType, roundMoney } from '@/lib/trust';
+
+export const fetchTrustBalances = async (trustAccountId: string, asOf?: string) => {
+  const { data, error } = await supabase.rpc('trust_ledger_balances', {
+    p_trust_account_id: trustAccountId,
+    p_as_of: asOf || null,
+  });
+
+  if (error) throw error;
+  return ((data || []) as TrustLedgerBalance[]).map((row) => ({ ...row, balance: Number(row.balance) }));
+};
+
+export interface TrustTransactionInput {
+  trust_account_id: string;
+  client_id: string;
+  case_id?: string | null;
+  transaction_type: TrustTransactionType;
+  amount: number;
+  transaction_date: string;
+  description: string;
+  payee?: string | null;
+  reference?: string | null;
+  invoice_id?: string | null;
+}
+
+// Adds a ledger entry. An entry that would take the client below zero comes back as an
+// "Insufficient trust funds" error from the database.
+export const recordTrustTransaction = async (firmId: string, userId: string, input: TrustTransactionInput) => {
+  if (input.transaction_type === 'transfer_to_operating' && !input.invoice_id) {
+    throw new Error('A transfer to operating must name the invoice it pays');
+  }
+
+  const { data, error } = await supabase
+    .from('trust_transactions')
+    .insert({
+      ...input,
+      amount: roundMoney(input.amount),
+      firm_id: firmId,
+      recorded_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as TrustTransaction;
+};
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { TrustTransaction } from '@/lib/trust';
+import { ReconciliationClient, ReconciliationInput, summarizeTrustReconciliation } from './reconciliation';
+
+const entry = (id: string, clientId: string, type: string, amount: number): TrustTransaction => ({
+  id,
+  created_at: '2025-01-01T00:00:00Z',
+  firm_id: 'firm',
+  trust_account_id: 'account',
+  client_id: clientId,
+  case_id: null,
+  transaction_type: type,
+  amount,
+  transaction_date: '2025-01-10',
+  description: `${type} ${id}`,
+  payee: null,
+  reference: null,
+  invoice_id: null,
+  recorded_by: 'user',
+});
+
+const client = (id: string, name: string, overrides: Partial<ReconciliationClient> = {}): ReconciliationClient => ({
+  id,
+  firm_id: 'firm',
+  first_name: null,
+  last_name: null,
+  organization_name: name,
+  merged_into: null,
+  ...overrides,
+});
+
+// Client A has 700 (1000 in, 300 out), client B 500, all cleared; the bank shows 1200
+const baseInput = (): ReconciliationInput => ({
+  statement: { firm_id: 'firm', period_end: '2025-01-31', closing_balance: 1200 },
+  entries: [
+    entry('e1', 'a', 'deposit', 1000),
+    entry('e2', 'a', 'disbursement', 300),
+    entry('e3', 'b', 'deposit', 500),
+  ],
+  clearedIds: new Set(['e1', 'e2', 'e3']),
+  balances: [
+    { client_id: 'a', balance: 700, last_transaction_date: '2025-01-10' },
+    { client_id: 'b', balance: 500, last_transaction_date: '2025-01-10' },
+  ],
+  clients: [client('a', 'Acme'), client('b', 'Beta')],
+  unrecordedLines: [],
+});
+
+describe('summarizeTrustReconciliation', () => {
+  it('balances when the bank, the register and the client ledgers agree', () => {
+    const result = summarizeTrustReconciliation(baseInput());
+
+    expect(result).toMatchObject({
+      statement_balance: 1200,
+      adjusted_bank_balance: 1200,
+      book_balance: 1200,
+      client_ledger_total: 1200,
+      is_balanced: true,
+    });
+    expect(result.report.differences).toEqual([]);
+    expect(result.report.client_balances.map((row) => row.client_name)).toEqual(['Acme', 'Beta']);
+  });
+
+  it('adjusts the bank balance for entries the bank has not cleared', () => {
+    const input = baseInput();
+    input.statement.closing_balance = 1000;
+    input.entries.push(entry('e4', 'b', 'deposit', 100), entry('e5', 'b', 'disbursement', 300));
+    input.balances[1].balance = 300;
+    input.clearedIds = new Set(['e1', 'e2']);
+
+    const result = summarizeTrustReconciliation(input);
+
+    expect(result.deposits_in_transit).toBe(600);
+    expect(result.outstanding_disbursements).toBe(300);
+    expect(result.adjusted_bank_balance).toBe(1300);
+    expect(result.book_balance).toBe(1000);
+    expect(result.is_balanced).toBe(false);
+    expect(result.report.outstanding_entries.map((row) => [row.id, row.amount])).toEqual([['e3', 500], ['e4', 100], ['e5', -300]]);
+    expect(result.report.differences).toEqual(['The adjusted bank balance is $300.00 more than the account register.']);
+  });
+
+  it('mentions bank lines that have no ledger entry', () => {
+    const input = baseInput();
+    input.statement.closing_balance = 1185;
+    input.unrecordedLines = [{ id: 'fee', posted_date: '2025-01-31', amount: -15, description: 'Service fee', reference: null }];
+
+    expect(summarizeTrustReconciliation(input).report.differences).toEqual([
+      'The adjusted bank balance is $15.00 less than the account register. 1 bank line on the statement has no ledger entry.',
+    ]);
+  });
+
+  it('leaves ledgers of merged or unknown parties out of the client total and says so', () => {
+    const input = baseInput();
+    input.clients = [client('a', 'Acme'), client('b', 'Beta', { merged_into: 'a' })];
+
+    const result = summarizeTrustReconciliation(input);
+
+    expect(result.book_balance).toBe(1200);
+    expect(result.client_ledger_total).toBe(700);
+    expect(result.is_balanced).toBe(false);
+    expect(result.report.ledger_exceptions).toEqual([{ client_id: 'b', client_name: 'Beta', balance: 500, kind: 'merged_client' }]);
+    expect(result.report.differences).toEqual([
+      '$500.00 is held in the ledgers of parties merged into another party (Beta) and is left out of the client ledger total. Move it to the right client with correcting entries.',
+    ]);
+
+    input.clients = [client('a', 'Acme')];
+    expect(summarizeTrustReconciliation(input).report.ledger_exceptions).toEqual([
+      { client_id: 'b', client_name: 'Unknown client', balance: 500, kind: 'unknown_client' },
+    ]);
+  });
+
+  it('flags an overdrawn ledger even when the totals agree', () => {
+    const input = baseInput();
+    input.statement.closing_balance = 1100;
+    input.entries = [
+      entry('e1', 'a', 'deposit', 1000),
+      entry('e2', 'a', 'deposit', 200),
+      entry('e3', 'b', 'deposit', 500),
+      entry('e4', 'b', 'disbursement', 600),
+    ];
+    input.clearedIds = new Set(['e1', 'e2', 'e3', 'e4']);
+    input.balances = [
+      { client_id: 'a', balance: 1200, last_transaction_date: '2025-01-10' },
+      { client_id: 'b', balance: -100, last_transaction_date: '2025-01-10' },
+    ];
+
+    const result = summarizeTrustReconciliation(input);
+
+    expect(result.adjusted_bank_balance).toBe(1100);
+    expect(result.book_balance).toBe(1100);
+    expect(result.client_ledger_total).toBe(1100);
+    expect(result.is_balanced).toBe(false);
+    expect(result.report.differences).toEqual(['Beta\'s ledger is overdrawn by $100.00.']);
+  });
+
+  it('reports per-client balances that do not add up to the register', () => {
+    const input = baseInput();
+    input.balances[1].balance = 450;
+
+    const result = summarizeTrustReconciliation(input);
+
+    expect(result.client_ledger_total).toBe(1150);
+    expect(result.is_balanced).toBe(false);
+    expect(result.report.differences?.[0]).toContain('The client ledgers add up to $1,150.00 but the account register shows $1,200.00');
+  });
+});
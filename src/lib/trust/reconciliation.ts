@@ -0,0 +1,312 @@
+// src/lib/trust/reconciliation.ts
+// Three-way reconciliation of a trust account for a bank statement period. The bank's
+// closing balance, adjusted for entries the bank hasn't cleared yet, has to agree with
+// the book balance of the account register, and both with the total of the client
+// ledgers. The register is every entry in the account; the client leg is the per-client
+// balances, counting only ledgers of clients on file, so money sitting in the ledger of
+// an unknown or merged party shows up as a difference. Bank lines that no ledger entry
+// explains, overdrawn ledgers and the reasons the balances disagree are listed for
+// follow-up.
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/types/supabase';
+import { getPartyName } from '@/lib/conflicts';
+import {
+  TrustBankStatement,
+  TrustBankStatementLine,
+  TrustTransaction,
+  TrustLedgerBalance,
+  formatMoney,
+  getSignedAmount,
+  roundMoney,
+} from '@/lib/trust';
+
+const BATCH_SIZE = 1000;
+
+export interface ReconciliationClientBalance {
+  client_id: string;
+  client_name: string;
+  balance: number;
+}
+
+export interface ReconciliationEntry {
+  id: string;
+  transaction_date: string;
+  transaction_type: string;
+  amount: number; // Signed, as on the statement
+  description: string;
+  reference: string | null;
+  client_name: string;
+}
+
+// negative_balance: the client's ledger is overdrawn. unknown_client and merged_client:
+// the ledger belongs to a party that is not a client on file, or that has been merged
+// into another party, so its balance is left out of the client ledger total.
+export type LedgerExceptionKind = 'negative_balance' | 'unknown_client' | 'merged_client';
+
+export interface ReconciliationLedgerException extends ReconciliationClientBalance {
+  kind: LedgerExceptionKind;
+}
+
+export type ReconciliationBankLine = Pick<TrustBankStatementLine, 'id' | 'posted_date' | 'amount' | 'description' | 'reference'>;
+
+export interface ReconciliationReport {
+  client_balances: ReconciliationClientBalance[];
+  outstanding_entries: ReconciliationEntry[]; // Deposits in transit and uncleared disbursements
+  unrecorded_bank_lines: ReconciliationBankLine[];
+  // Not on reports signed off before they were recorded
+  ledger_exceptions?: ReconciliationLedgerException[];
+  differences?: string[]; // Why the balances disagree, in words
+}
+
+export interface TrustReconciliationResult {
+  period_end: string;
+  statement_balance: number;
+  deposits_in_transit: number;
+  outstanding_disbursements: number;
+  adjusted_bank_balance: number;
+  book_balance: number;
+  client_ledger_total: number;
+  is_balanced: boolean;
+  report: ReconciliationReport;
+}
+
+// Every ledger entry in the account, dated up to `through` when given
+export const fetchTrustEntries = async (
+  supabase: SupabaseClient<Database>,
+  trustAccountId: string,
+  through?: string
+) => {
+  const entries: TrustTransaction[] = [];
+
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    let query = supabase
+      .from('trust_transactions')
+      .select('*')
+      .eq('trust_account_id', trustAccountId)
+      .order('transaction_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (through) query = query.lte('transaction_date', through);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    entries.push(...(data || []));
+    if (!data || data.length < BATCH_SIZE) return entries;
+  }
+};
+
+// Ids of the ledger entries cleared by a line on any of the account's statements up to
+// and including the one ending `through`
+export const fetchClearedEntryIds = async (
+  supabase: SupabaseClient<Database>,
+  trustAccountId: string,
+  through?: string
+) => {
+  let statementQuery = supabase.from('trust_bank_statements').select('id').eq('trust_account_id', trustAccountId);
+  if (through) statementQuery = statementQuery.lte('period_end', through);
+
+  const { data: statements, error: statementError } = await statementQuery;
+  if (statementError) throw statementError;
+
+  const cleared = new Set<string>();
+  const statementIds = (statements || []).map((statement) => statement.id);
+  if (statementIds.length === 0) return cleared;
+
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('trust_bank_statement_lines')
+      .select('id, trust_transaction_id')
+      .in('statement_id', statementIds)
+      .not('trust_transaction_id', 'is', null)
+      .order('id', { ascending: true })
+      .range(offset, offset + BATCH_SIZE - 1);
+
+    if (error) throw error;
+
+    (data || []).forEach((line) => cleared.add(line.trust_transaction_id as string));
+    if (!data || data.length < BATCH_SIZE) return cleared;
+  }
+};
+
+export interface ReconciliationClient {
+  id: string;
+  firm_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  organization_name: string | null;
+  merged_into: string | null;
+}
+
+export interface ReconciliationInput {
+  statement: Pick<TrustBankStatement, 'firm_id' | 'period_end' | 'closing_balance'>;
+  entries: TrustTransaction[]; // The account register up to the end of the period
+  clearedIds: Set<string>;
+  balances: TrustLedgerBalance[]; // Per-client balances at the end of the period
+  clients: ReconciliationClient[];
+  unrecordedLines: ReconciliationBankLine[];
+}
+
+const sumMoney = (amounts: number[]) => roundMoney(amounts.reduce((sum, amount) => sum + amount, 0));
+
+const pluralize = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Works out the reconciliation from the data buildTrustReconciliation loads
+export const summarizeTrustReconciliation = ({
+  statement,
+  entries,
+  clearedIds,
+  balances,
+  clients,
+  unrecordedLines,
+}: ReconciliationInput): TrustReconciliationResult => {
+  const clientsById = new Map(clients.map((client) => [client.id, client]));
+  const getClientName = (clientId: string) => {
+    const client = clientsById.get(clientId);
+    return client ? getPartyName(client) || 'Unnamed client' : 'Unknown client';
+  };
+
+  const outstanding = entries.filter((entry) => !clearedIds.has(entry.id));
+  const depositsInTransit = sumMoney(outstanding
+    .filter((entry) => entry.transaction_type === 'deposit')
+    .map((entry) => Number(entry.amount)));
+  const outstandingDisbursements = sumMoney(outstanding
+    .filter((entry) => entry.transaction_type !== 'deposit')
+    .map((entry) => Number(entry.amount)));
+
+  const statementBalance = roundMoney(Number(statement.closing_balance));
+  const adjustedBankBalance = roundMoney(statementBalance + depositsInTransit - outstandingDisbursements);
+  const bookBalance = sumMoney(entries.map(getSignedAmount));
+
+  const clientBalances: ReconciliationClientBalance[] = [];
+  const exceptions: ReconciliationLedgerException[] = [];
+
+  balances.forEach((row) => {
+    const balance = roundMoney(Number(row.balance));
+    if (balance === 0) return;
+
+    const client = clientsById.get(row.client_id);
+    const ledger = { client_id: row.client_id, client_name: getClientName(row.client_id), balance };
+
+    if (!client || client.firm_id !== statement.firm_id) {
+      exceptions.push({ ...ledger, kind: 'unknown_client' });
+    } else if (client.merged_into) {
+      exceptions.push({ ...ledger, kind: 'merged_client' });
+    } else {
+      clientBalances.push(ledger);
+      if (balance < 0) exceptions.push({ ...ledger, kind: 'negative_balance' });
+    }
+  });
+
+  const clientLedgerTotal = sumMoney(clientBalances.map((row) => row.balance));
+  const allLedgersTotal = sumMoney(balances.map((row) => Number(row.balance)));
+  const overdrawn = exceptions.filter((exception) => exception.kind === 'negative_balance');
+
+  const differences: string[] = [];
+
+  if (adjustedBankBalance !== bookBalance) {
+    differences.push(
+      `The adjusted bank balance is ${formatMoney(Math.abs(roundMoney(adjustedBankBalance - bookBalance)))} `
+      + `${adjustedBankBalance > bookBalance ? 'more' : 'less'} than the account register.`
+      + (unrecordedLines.length > 0
+        ? ` ${pluralize(unrecordedLines.length, 'bank line')} on the statement ${unrecordedLines.length === 1 ? 'has' : 'have'} no ledger entry.`
+        : '')
+    );
+  }
+
+  if (allLedgersTotal !== bookBalance) {
+    differences.push(
+      `The client ledgers add up to ${formatMoney(allLedgersTotal)} but the account register shows `
+      + `${formatMoney(bookBalance)}; an entry was probably recorded while the report was being built.`
+    );
+  }
+
+  (['unknown_client', 'merged_client'] as const).forEach((kind) => {
+    const ledgers = exceptions.filter((exception) => exception.kind === kind);
+    if (ledgers.length === 0) return;
+
+    differences.push(
+      `${formatMoney(sumMoney(ledgers.map((ledger) => ledger.balance)))} is held in the ledgers of `
+      + `${kind === 'unknown_client' ? 'parties that are not clients on file' : 'parties merged into another party'} `
+      + `(${ledgers.map((ledger) => ledger.client_name).join(', ')}) and is left out of the client ledger total. `
+      + 'Move it to the right client with correcting entries.'
+    );
+  });
+
+  overdrawn.forEach((ledger) => {
+    differences.push(`${ledger.client_name}'s ledger is overdrawn by ${formatMoney(-ledger.balance)}.`);
+  });
+
+  return {
+    period_end: statement.period_end,
+    statement_balance: statementBalance,
+    deposits_in_transit: depositsInTransit,
+    outstanding_disbursements: outstandingDisbursements,
+    adjusted_bank_balance: adjustedBankBalance,
+    book_balance: bookBalance,
+    client_ledger_total: clientLedgerTotal,
+    is_balanced: adjustedBankBalance === bookBalance && bookBalance === clientLedgerTotal && overdrawn.length === 0,
+    report: {
+      client_balances: clientBalances.sort((a, b) => a.client_name.localeCompare(b.client_name)),
+      outstanding_entries: outstanding.map((entry) => ({
+        id: entry.id,
+        transaction_date: entry.transaction_date,
+        transaction_type: entry.transaction_type,
+        amount: getSignedAmount(entry),
+        description: entry.description,
+        reference: entry.reference,
+        client_name: getClientName(entry.client_id),
+      })),
+      unrecorded_bank_lines: unrecordedLines.map((line) => ({ ...line, amount: Number(line.amount) })),
+      ledger_exceptions: exceptions,
+      differences,
+    },
+  };
+};
+
+export const buildTrustReconciliation = async (
+  supabase: SupabaseClient<Database>,
+  statement: TrustBankStatement
+): Promise<TrustReconciliationResult> => {
+  const [entries, clearedIds, balancesResult, linesResult] = await Promise.all([
+    fetchTrustEntries(supabase, statement.trust_account_id, statement.period_end),
+    fetchClearedEntryIds(supabase, statement.trust_account_id, statement.period_end),
+    supabase.rpc('trust_ledger_balances', {
+      p_trust_account_id: statement.trust_account_id,
+      p_as_of: statement.period_end,
+    }),
+    supabase
+      .from('trust_bank_statement_lines')
+      .select('id, posted_date, amount, description, reference')
+      .eq('statement_id', statement.id)
+      .is('trust_transaction_id', null)
+      .order('posted_date', { ascending: true }),
+  ]);
+
+  if (balancesResult.error) throw balancesResult.error;
+  if (linesResult.error) throw linesResult.error;
+
+  const balances = (balancesResult.data || []) as TrustLedgerBalance[];
+  const clientIds = Array.from(new Set([
+    ...balances.map((row) => row.client_id),
+    ...entries.map((entry) => entry.client_id),
+  ]));
+
+  const { data: clients, error: clientError } = clientIds.length > 0
+    ? await supabase
+      .from('parties')
+      .select('id, firm_id, first_name, last_name, organization_name, merged_into')
+      .in('id', clientIds)
+    : { data: [], error: null };
+  if (clientError) throw clientError;
+
+  return summarizeTrustReconciliation({
+    statement,
+    entries,
+    clearedIds,
+    balances,
+    clients: clients || [],
+    unrecordedLines: linesResult.data || [],
+  });
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { TrustTransaction } from '@/lib/trust';
+import { StatementImportError, matchStatementLines, parseBankStatement } from './statements';
+
+const entry = (overrides: Partial<TrustTransaction>): TrustTransaction => ({
+  id: 'entry',
+  created_at: '2025-01-01T00:00:00Z',
+  firm_id: 'firm',
+  trust_account_id: 'account',
+  client_id: 'client',
+  case_id: null,
+  transaction_type: 'deposit',
+  amount: 100,
+  transaction_date: '2025-01-10',
+  description: 'Retainer',
+  payee: null,
+  reference: null,
+  invoice_id: null,
+  recorded_by: 'user',
+  ...overrides,
+});
+
+describe('parseBankStatement (CSV)', () => {
+  it('reads an Amount column, sorts oldest first and takes the newest running balance', () => {
+    const csv = [
+      'Posted Date,Description,Amount,Check Number,Balance',
+      '01/31/2025,"Check 1001, Smith",-250.00,1001,"1,750.00"',
+      '01/05/2025,Deposit,"$2,000.00",,"2,000.00"',
+    ].join('\r\n');
+
+    expect(parseBankStatement('january.csv', csv)).toEqual({
+      format: 'csv',
+      period_start: '2025-01-05',
+      period_end: '2025-01-31',
+      closing_balance: 1750,
+      lines: [
+        { posted_date: '2025-01-05', amount: 2000, description: 'Deposit', reference: null },
+        { posted_date: '2025-01-31', amount: -250, description: 'Check 1001, Smith', reference: '1001' },
+      ],
+    });
+  });
+
+  it('combines Debit and Credit columns and reads parenthesized amounts', () => {
+    const csv = '\uFEFFDate,Memo,Debit,Credit\n2025-02-03,Fee,(12.50),\n2025-02-01,Wire in,,500\n';
+    const statement = parseBankStatement('feb.CSV', csv);
+
+    expect(statement.closing_balance).toBeNull();
+    expect(statement.lines.map((line) => line.amount)).toEqual([500, -12.5]);
+  });
+
+  it('refuses files without the columns it needs', () => {
+    expect(() => parseBankStatement('x.csv', 'Amount\n10\n')).toThrow('needs a Date column');
+    expect(() => parseBankStatement('x.csv', 'Date,Memo\n2025-01-01,x\n')).toThrow('needs an Amount column');
+  });
+
+  it('names the row with a bad date', () => {
+    expect(() => parseBankStatement('x.csv', 'Date,Amount\n2025-01-01,5\n02/30/2025,5\n')).toThrow('Row 3 has no valid date');
+  });
+});
+
+describe('parseBankStatement (OFX)', () => {
+  it('reads SGML leaf elements, the period and the ledger balance', () => {
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST><DTSTART>20250101<DTEND>20250131120000
+<STMTTRN><TRNTYPE>CHECK<DTPOSTED>20250120<TRNAMT>-75.00<FITID>A2<CHECKNUM>1002<NAME>Court Clerk &amp; Co</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250102<TRNAMT>1000.00<FITID>A1<NAME>Deposit<MEMO>Retainer</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>925.00<DTASOF>20250131</LEDGERBAL>
+<AVAILBAL><BALAMT>900.00<DTASOF>20250131</AVAILBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+    expect(parseBankStatement('jan.qfx', ofx)).toEqual({
+      format: 'ofx',
+      period_start: '2025-01-01',
+      period_end: '2025-01-31',
+      closing_balance: 925,
+      lines: [
+        { posted_date: '2025-01-02', amount: 1000, description: 'Deposit - Retainer', reference: 'A1' },
+        { posted_date: '2025-01-20', amount: -75, description: 'Court Clerk & Co', reference: '1002' },
+      ],
+    });
+  });
+
+  it('refuses files that are not OFX or of an unknown type', () => {
+    expect(() => parseBankStatement('jan.ofx', 'Date,Amount')).toThrow(StatementImportError);
+    expect(() => parseBankStatement('jan.pdf', '')).toThrow('must be CSV, OFX or QFX');
+  });
+});
+
+describe('matchStatementLines', () => {
+  it('prefers an entry with the same reference over a closer date', () => {
+    const entries = [
+      entry({ id: 'near', transaction_type: 'disbursement', amount: 50, transaction_date: '2025-01-15' }),
+      entry({ id: 'check', transaction_type: 'disbursement', amount: 50, transaction_date: '2025-01-02', reference: '1001' }),
+    ];
+    const lines = [{ id: 'line', posted_date: '2025-01-15', amount: -50, reference: '1001' }];
+
+    expect(matchStatementLines(lines, entries)).toEqual(new Map([['line', 'check']]));
+  });
+
+  it('pairs each entry with one line, nearest date first', () => {
+    const entries = [
+      entry({ id: 'early', transaction_date: '2025-01-01' }),
+      entry({ id: 'late', transaction_date: '2025-01-20' }),
+    ];
+    const lines = [
+      { id: 'a', posted_date: '2025-01-21', amount: 100, reference: null },
+      { id: 'b', posted_date: '2025-01-22', amount: 100, reference: null },
+    ];
+
+    expect(matchStatementLines(lines, entries)).toEqual(new Map([['a', 'late'], ['b', 'early']]));
+  });
+
+  it('leaves lines unmatched when the amount, sign or date window differs', () => {
+    const entries = [
+      entry({ id: 'deposit', amount: 100, transaction_date: '2025-01-01' }),
+      entry({ id: 'old', transaction_type: 'disbursement', amount: 20, transaction_date: '2024-06-01' }),
+    ];
+    const lines = [
+      { id: 'sign', posted_date: '2025-01-02', amount: -100, reference: null },
+      { id: 'window', posted_date: '2025-01-02', amount: -20, reference: null },
+      { id: 'amount', posted_date: '2025-01-02', amount: 99.99, reference: null },
+    ];
+
+    expect(matchStatementLines(lines, entries).size).toBe(0);
+  });
+});
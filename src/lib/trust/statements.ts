@@ -0,0 +1,252 @@
+// src/lib/trust/statements.ts
+// Reads trust account bank statements exported as CSV or OFX/QFX, and matches their
+// lines to ledger entries. CSV exports differ from bank to bank, so columns are found by
+// their header names.
+import { parseCsv } from '@/lib/csv';
+import { TrustBankStatementLine, TrustTransaction, getSignedAmount, roundMoney } from '@/lib/trust';
+
+export type StatementFormat = 'csv' | 'ofx';
+
+export interface ParsedStatementLine {
+  posted_date: string; // YYYY-MM-DD
+  amount: number; // Positive for money in, negative for money out
+  description: string | null;
+  reference: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  // From the file; for CSV, the dates of the first and last transactions
+  period_start: string | null;
+  period_end: string | null;
+  closing_balance: number | null;
+  lines: ParsedStatementLine[];
+}
+
+export class StatementImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementImportError';
+  }
+}
+
+// How far apart a ledger entry and the bank line that clears it may be dated. Checks can
+// take a long time to be cashed.
+export const MATCH_WINDOW_DAYS = 90;
+
+export const getStatementFormat = (fileName: string): StatementFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  return null;
+};
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  date: ['date', 'posted date', 'posting date', 'transaction date', 'post date'],
+  amount: ['amount', 'transaction amount'],
+  debit: ['debit', 'debits', 'withdrawal', 'withdrawals', 'withdrawal amount'],
+  credit: ['credit', 'credits', 'deposit', 'deposits', 'deposit amount'],
+  description: ['description', 'payee', 'name', 'memo', 'details', 'transaction description'],
+  reference: ['reference', 'ref', 'check number', 'check #', 'check no', 'check', 'transaction id', 'fitid'],
+  balance: ['balance', 'running balance', 'ending balance'],
+};
+
+const parseStatementDate = (value: string) => {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/) || text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return toIsoDate(year, Number(match[1]), Number(match[2]));
+  }
+
+  return null;
+};
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+// Accepts "1,234.56", "$1,234.56", "-12.00" and "(12.00)"
+const parseStatementAmount = (value: string) => {
+  const text = value.trim();
+  if (!text) return null;
+
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  const amount = Number(text.replace(/[()$,\s+-]/g, ''));
+  if (!Number.isFinite(amount)) return null;
+
+  return roundMoney(negative ? -amount : amount);
+};
+
+const parseCsvStatement = (text: string): ParsedStatement => {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (rows.length < 2) throw new StatementImportError('The CSV file has no transactions');
+
+  const header = rows[0].map((name) => name.trim().toLowerCase());
+  const column = (key: string) => header.findIndex((name) => CSV_COLUMNS[key].includes(name));
+
+  const dateColumn = column('date');
+  const amountColumn = column('amount');
+  const debitColumn = column('debit');
+  const creditColumn = column('credit');
+  const descriptionColumn = column('description');
+  const referenceColumn = column('reference');
+  const balanceColumn = column('balance');
+
+  if (dateColumn < 0) throw new StatementImportError('The CSV file needs a Date column');
+  if (amountColumn < 0 && debitColumn < 0 && creditColumn < 0) {
+    throw new StatementImportError('The CSV file needs an Amount column, or Debit and Credit columns');
+  }
+
+  const lines: (ParsedStatementLine & { balance: number | null })[] = [];
+
+  rows.slice(1).forEach((row, index) => {
+    const cell = (columnIndex: number) => (columnIndex >= 0 ? (row[columnIndex] || '').trim() : '');
+    const postedDate = parseStatementDate(cell(dateColumn));
+
+    if (!postedDate) {
+      throw new StatementImportError(`Row ${index + 2} has no valid date`);
+    }
+
+    let amount: number | null;
+    if (amountColumn >= 0) {
+      amount = parseStatementAmount(cell(amountColumn));
+    } else {
+      const debit = parseStatementAmount(cell(debitColumn));
+      const credit = parseStatementAmount(cell(creditColumn));
+      amount = debit === null && credit === null ? null : roundMoney((credit || 0) - Math.abs(debit || 0));
+    }
+
+    if (amount === null) {
+      throw new StatementImportError(`Row ${index + 2} has no valid amount`);
+    }
+
+    lines.push({
+      posted_date: postedDate,
+      amount,
+      description: cell(descriptionColumn) || null,
+      reference: cell(referenceColumn) || null,
+      balance: balanceColumn >= 0 ? parseStatementAmount(cell(balanceColumn)) : null,
+    });
+  });
+
+  // Banks list newest or oldest first; the running balance of the latest row is the
+  // closing balance either way
+  const newestFirst = lines[0].posted_date > lines[lines.length - 1].posted_date;
+  const closingLine = newestFirst ? lines[0] : lines[lines.length - 1];
+  const sorted = [...lines].sort((a, b) => a.posted_date.localeCompare(b.posted_date));
+
+  return {
+    format: 'csv',
+    period_start: sorted[0].posted_date,
+    period_end: sorted[sorted.length - 1].posted_date,
+    closing_balance: closingLine.balance,
+    lines: sorted.map(({ balance, ...line }) => line),
+  };
+};
+
+// OFX 1.x is SGML, where leaf elements have no closing tag, and OFX 2.x is XML. Reading
+// each leaf as "<TAG>value" up to the next tag works for both.
+const ofxValue = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : null;
+};
+
+const decodeOfxText = (value: string | null) => {
+  if (!value) return null;
+  return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&') || null;
+};
+
+const parseOfxStatement = (text: string): ParsedStatement => {
+  if (!/<OFX>/i.test(text)) throw new StatementImportError('The file is not an OFX statement');
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  const lines = blocks.map((block, index) => {
+    const postedDate = parseStatementDate(ofxValue(block, 'DTPOSTED') || '');
+    const amount = parseStatementAmount(ofxValue(block, 'TRNAMT') || '');
+
+    if (!postedDate || amount === null) {
+      throw new StatementImportError(`Transaction ${index + 1} has no valid date or amount`);
+    }
+
+    const name = decodeOfxText(ofxValue(block, 'NAME'));
+    const memo = decodeOfxText(ofxValue(block, 'MEMO'));
+
+    return {
+      posted_date: postedDate,
+      amount,
+      description: [name, memo].filter(Boolean).join(' - ') || null,
+      reference: ofxValue(block, 'CHECKNUM') || ofxValue(block, 'FITID'),
+    };
+  });
+
+  // The ledger balance comes before the available balance, which has its own BALAMT
+  const ledgerBalance = text.split(/<LEDGERBAL>/i)[1] || '';
+
+  return {
+    format: 'ofx',
+    period_start: parseStatementDate(ofxValue(text, 'DTSTART') || ''),
+    period_end: parseStatementDate(ofxValue(text, 'DTEND') || ''),
+    closing_balance: parseStatementAmount(ofxValue(ledgerBalance, 'BALAMT') || ''),
+    lines: lines.sort((a, b) => a.posted_date.localeCompare(b.posted_date)),
+  };
+};
+
+export const parseBankStatement = (fileName: string, text: string): ParsedStatement => {
+  const format = getStatementFormat(fileName);
+
+  if (format === 'csv') return parseCsvStatement(text);
+  if (format === 'ofx') return parseOfxStatement(text);
+
+  throw new StatementImportError('Statements must be CSV, OFX or QFX files');
+};
+
+type MatchableLine = Pick<TrustBankStatementLine, 'id' | 'posted_date' | 'amount' | 'reference'>;
+
+const daysBetween = (a: string, b: string) => {
+  return Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000);
+};
+
+// Pairs bank lines with ledger entries of the same signed amount. A shared check number
+// or reference wins; otherwise the entry dated closest to the line, within
+// MATCH_WINDOW_DAYS. Each entry clears at most one line. Returns line id → entry id.
+export const matchStatementLines = (lines: MatchableLine[], entries: TrustTransaction[]) => {
+  const matches = new Map<string, string>();
+  const used = new Set<string>();
+
+  const candidates = (line: MatchableLine) => entries.filter((entry) => (
+    !used.has(entry.id)
+    && roundMoney(getSignedAmount(entry)) === roundMoney(Number(line.amount))
+    && daysBetween(entry.transaction_date, line.posted_date) <= MATCH_WINDOW_DAYS
+  ));
+
+  lines.forEach((line) => {
+    if (!line.reference) return;
+
+    const entry = candidates(line).find((candidate) => candidate.reference?.trim() === line.reference?.trim());
+    if (entry) {
+      matches.set(line.id, entry.id);
+      used.add(entry.id);
+    }
+  });
+
+  lines.forEach((line) => {
+    if (matches.has(line.id)) return;
+
+    const [entry] = candidates(line).sort(
+      (a, b) => daysBetween(a.transaction_date, line.posted_date) - daysBetween(b.transaction_date, line.posted_date)
+    );
+    if (entry) {
+      matches.set(line.id, entry.id);
+      used.add(entry.id);
+    }
+  });
+
+  return matches;
+};
@@ -0,0 +1,139 @@
+// src/middleware.ts
+import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { LAST_ACTIVITY_COOKIE, SecurityPolicy } from '@/lib/auth/policy';
+
+const PROTECTED_PREFIXES = [
+  '/dashboard',
+  '/cases',
+  '/clients',
+  '/documents',
+  '/parties',
+  '/deadlines',
+  '/invoices',
+  '/trust',
+  '/ai-assistant',
+  '/settings',
+];
+
+const AUTH_PREFIXES = ['/login', '/register', '/reset-password'];
+
+// API routes answer for themselves when signed out, but are held to the idle timeout
+const API_PREFIX = '/api';
+
+// Pages a signed-in user must still reach before they satisfy the firm's MFA policy
+const MFA_CHALLENGE_PATH = '/login/mfa';
+const MFA_ENROLL_PATH = '/settings/security';
+
+// Where a verified email address lands to finish setting up the account
+const REGISTRATION_LANDING_PATH = '/register/confirmation';
+
+const matchesPrefix = (pathname: string, prefixes: string[]) => {
+  return prefixes.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+};
+
+// Redirects that keep the refreshed session cookies the Supabase client set on `res`
+const redirectWithCookies = (url: URL, res: NextResponse) => {
+  const redirect = NextResponse.redirect(url);
+  res.cookies.getAll().forEach((cookie) => redirect.cookies.set(cookie));
+  return redirect;
+};
+
+export async function middleware(req: NextRequest) {
+  const res = NextResponse.next();
+  const supabase = createMiddlewareClient({ req, res });
+  const { pathname, search } = req.nextUrl;
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const isProtectedRoute = matchesPrefix(pathname, PROTECTED_PREFIXES);
+  const isChallengeRoute = matchesPrefix(pathname, [MFA_CHALLENGE_PATH]);
+  const isAuthRoute = matchesPrefix(pathname, AUTH_PREFIXES)
+    && !isChallengeRoute
+    && !matchesPrefix(pathname, [REGISTRATION_LANDING_PATH]);
+
+  // If user is not authenticated and is trying to access protected routes
+  if (!session && (isProtectedRoute || isChallengeRoute)) {
+    const loginUrl = new URL('/login', req.url);
+    if (isProtectedRoute) loginUrl.searchParams.set('next', pathname + search);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // If user is authenticated and is trying to access auth routes
+  if (session && isAuthRoute) {
+    return redirectWithCookies(new URL('/dashboard', req.url), res);
+  }
+
+  const isApiRoute = matchesPrefix(pathname, [API_PREFIX]);
+
+  if (!session || !(isProtectedRoute || isApiRoute)) {
+    return res;
+  }
+
+  const { data: policy } = await supabase.rpc('current_security_policy').maybeSingle<SecurityPolicy>();
+
+  // Idle timeout: the time of each request is kept in a cookie, and a session left
+  // unused for longer than the firm allows is signed out. Without the cookie the session
+  // counts as idle since it signed in, so clearing the cookie doesn't get around it.
+  const now = Date.now();
+  const lastActivity = Number(req.cookies.get(LAST_ACTIVITY_COOKIE)?.value || 0)
+    || Date.parse(session.user.last_sign_in_at || '')
+    || 0;
+
+  if (policy?.idle_timeout_minutes && now - lastActivity > policy.idle_timeout_minutes * 60 * 1000) {
+    await supabase.auth.signOut();
+
+    if (isApiRoute) {
+      const response = NextResponse.json({ error: 'Signed out after a period of inactivity' }, { status: 401 });
+      res.cookies.getAll().forEach((cookie) => response.cookies.set(cookie));
+      response.cookies.delete(LAST_ACTIVITY_COOKIE);
+      return response;
+    }
+
+    const loginUrl = new URL('/login', req.url);
+    loginUrl.searchParams.set('reason', 'idle');
+    loginUrl.searchParams.set('next', pathname + search);
+
+    const redirect = redirectWithCookies(loginUrl, res);
+    redirect.cookies.delete(LAST_ACTIVITY_COOKIE);
+    return redirect;
+  }
+
+  res.cookies.set(LAST_ACTIVITY_COOKIE, String(now), { httpOnly: true, sameSite: 'lax', path: '/' });
+
+  // API routes are not redirected to the challenge; the database already refuses a
+  // session that owes the firm's MFA challenge (current_firm_id)
+  if (isApiRoute) {
+    return res;
+  }
+
+  // MFA: anyone with a verified factor has to pass the challenge each session. Firms that
+  // require MFA send users without a factor to enroll before anything else.
+  const { data: aal } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+  if (aal && aal.currentLevel !== 'aal2') {
+    if (aal.nextLevel === 'aal2') {
+      const challengeUrl = new URL(MFA_CHALLENGE_PATH, req.url);
+      challengeUrl.searchParams.set('next', pathname + search);
+      return redirectWithCookies(challengeUrl, res);
+    }
+
+    if (policy?.mfa_required && !matchesPrefix(pathname, [MFA_ENROLL_PATH])) {
+      const enrollUrl = new URL(MFA_ENROLL_PATH, req.url);
+      enrollUrl.searchParams.set('enroll', 'required');
+      return redirectWithCookies(enrollUrl, res);
+    }
+  }
+
+  return res;
+}
+
+// Define which routes should be processed by the middleware
+export const config = {
+  matcher: [
+    '/((?!_next/static|_next/image|api/auth/callback|favicon.ico|public/).*)',
+  ],
+};
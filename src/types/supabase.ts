@@ -20,6 +20,13 @@ export interface Database {
           logo_url: string | null
           subscription_tier: string
           is_active: boolean
+          created_by: string | null
+          mfa_required: boolean
+          idle_timeout_minutes: number | null
+          password_min_length: number
+          password_require_complexity: boolean
+          default_hourly_rate: number
+          time_increment_minutes: number
         }
         Insert: {
           id?: string
@@ -31,6 +38,13 @@ export interface Database {
           logo_url?: string | null
           subscription_tier: string
           is_active?: boolean
+          created_by?: string | null
+          mfa_required?: boolean
+          idle_timeout_minutes?: number | null
+          password_min_length?: number
+          password_require_complexity?: boolean
+          default_hourly_rate?: number
+          time_increment_minutes?: number
         }
         Update: {
           id?: string
@@ -42,7 +56,15 @@ export interface Database {
           logo_url?: string | null
           subscription_tier?: string
           is_active?: boolean
+          created_by?: string | null
+          mfa_required?: boolean
+          idle_timeout_minutes?: number | null
+          password_min_length?: number
+          password_require_complexity?: boolean
+          default_hourly_rate?: number
+          time_increment_minutes?: number
         }
+        Relationships: []
       }
       users: {
         Row: {
@@ -84,6 +106,112 @@ export interface Database {
           is_active?: boolean
           last_sign_in?: string | null
         }
+        Relationships: []
+      }
+      user_invitations: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          email: string
+          role: string
+          invited_by: string | null
+          expires_at: string
+          accepted_at: string | null
+          accepted_by: string | null
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          email: string
+          role: string
+          invited_by?: string | null
+          expires_at: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          revoked_at?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          email?: string
+          role?: string
+          invited_by?: string | null
+          expires_at?: string
+          accepted_at?: string | null
+          accepted_by?: string | null
+          revoked_at?: string | null
+        }
+        Relationships: []
+      }
+      auth_email_requests: {
+        Row: {
+          id: string
+          created_at: string
+          email: string
+          type: string
+          ip_address: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          email: string
+          type: string
+          ip_address?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          email?: string
+          type?: string
+          ip_address?: string | null
+        }
+        Relationships: []
+      }
+      audit_events: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          actor_id: string | null
+          table_name: string
+          entity_id: string
+          case_id: string | null
+          action: string
+          changed_fields: string[]
+          before: Json | null
+          after: Json | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          actor_id?: string | null
+          table_name: string
+          entity_id: string
+          case_id?: string | null
+          action: string
+          changed_fields?: string[]
+          before?: Json | null
+          after?: Json | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          actor_id?: string | null
+          table_name?: string
+          entity_id?: string
+          case_id?: string | null
+          action?: string
+          changed_fields?: string[]
+          before?: Json | null
+          after?: Json | null
+        }
+        Relationships: []
       }
       cases: {
         Row: {
@@ -103,6 +231,9 @@ export interface Database {
           judge_name: string | null
           filing_date: string | null
           closure_date: string | null
+          conflict_check_id: string | null
+          deleted_at: string | null
+          deleted_by: string | null
         }
         Insert: {
           id?: string
@@ -121,6 +252,9 @@ export interface Database {
           judge_name?: string | null
           filing_date?: string | null
           closure_date?: string | null
+          conflict_check_id?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
         }
         Update: {
           id?: string
@@ -139,7 +273,53 @@ export interface Database {
           judge_name?: string | null
           filing_date?: string | null
           closure_date?: string | null
+          conflict_check_id?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
         }
+        Relationships: []
+      }
+      case_purges: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          case_id: string
+          case_number: string
+          title: string
+          deleted_at: string
+          deleted_by: string | null
+          purged_by: string | null
+          record_counts: Json
+          file_paths: string[]
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          case_id: string
+          case_number: string
+          title: string
+          deleted_at: string
+          deleted_by?: string | null
+          purged_by?: string | null
+          record_counts?: Json
+          file_paths?: string[]
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          case_id?: string
+          case_number?: string
+          title?: string
+          deleted_at?: string
+          deleted_by?: string | null
+          purged_by?: string | null
+          record_counts?: Json
+          file_paths?: string[]
+        }
+        Relationships: []
       }
       parties: {
         Row: {
@@ -155,6 +335,8 @@ export interface Database {
           address: string | null
           notes: string | null
           is_client: boolean
+          merged_into: string | null
+          merged_at: string | null
         }
         Insert: {
           id?: string
@@ -169,6 +351,8 @@ export interface Database {
           address?: string | null
           notes?: string | null
           is_client: boolean
+          merged_into?: string | null
+          merged_at?: string | null
         }
         Update: {
           id?: string
@@ -183,7 +367,124 @@ export interface Database {
           address?: string | null
           notes?: string | null
           is_client?: boolean
+          merged_into?: string | null
+          merged_at?: string | null
+        }
+        Relationships: []
+      }
+      party_changes: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          party_id: string
+          changed_by: string | null
+          action: string
+          changes: Json
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          party_id: string
+          changed_by?: string | null
+          action: string
+          changes?: Json
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          party_id?: string
+          changed_by?: string | null
+          action?: string
+          changes?: Json
         }
+        Relationships: []
+      }
+      party_merges: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          survivor_id: string
+          duplicate_id: string
+          merged_by: string | null
+          moved_references: Json
+          filled_fields: Json
+          undone_at: string | null
+          undone_by: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          survivor_id: string
+          duplicate_id: string
+          merged_by?: string | null
+          moved_references: Json
+          filled_fields?: Json
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          survivor_id?: string
+          duplicate_id?: string
+          merged_by?: string | null
+          moved_references?: Json
+          filled_fields?: Json
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Relationships: []
+      }
+      conflict_checks: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          requested_by: string
+          client_id: string
+          opposing_party_id: string | null
+          subjects: Json
+          results: Json
+          decision: string | null
+          decision_notes: string | null
+          decided_by: string | null
+          decided_at: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          requested_by: string
+          client_id: string
+          opposing_party_id?: string | null
+          subjects: Json
+          results?: Json
+          decision?: string | null
+          decision_notes?: string | null
+          decided_by?: string | null
+          decided_at?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          requested_by?: string
+          client_id?: string
+          opposing_party_id?: string | null
+          subjects?: Json
+          results?: Json
+          decision?: string | null
+          decision_notes?: string | null
+          decided_by?: string | null
+          decided_at?: string | null
+        }
+        Relationships: []
       }
       documents: {
         Row: {
@@ -195,10 +496,15 @@ export interface Database {
           document_type: string
           file_path: string
           file_size: number
+          mime_type: string | null
+          checksum: string | null
           uploaded_by: string
           version: number
           is_template: boolean
           related_party_id: string | null
+          parent_document_id: string | null
+          is_current: boolean
+          restored_from_id: string | null
         }
         Insert: {
           id?: string
@@ -209,10 +515,15 @@ export interface Database {
           document_type: string
           file_path: string
           file_size: number
+          mime_type?: string | null
+          checksum?: string | null
           uploaded_by: string
           version?: number
           is_template?: boolean
           related_party_id?: string | null
+          parent_document_id?: string | null
+          is_current?: boolean
+          restored_from_id?: string | null
         }
         Update: {
           id?: string
@@ -223,11 +534,110 @@ export interface Database {
           document_type?: string
           file_path?: string
           file_size?: number
+          mime_type?: string | null
+          checksum?: string | null
           uploaded_by?: string
           version?: number
           is_template?: boolean
           related_party_id?: string | null
+          parent_document_id?: string | null
+          is_current?: boolean
+          restored_from_id?: string | null
+        }
+        Relationships: []
+      }
+      ai_conversations: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          firm_id: string
+          case_id: string | null
+          user_id: string
+          title: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          firm_id: string
+          case_id?: string | null
+          user_id: string
+          title: string
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          firm_id?: string
+          case_id?: string | null
+          user_id?: string
+          title?: string
+        }
+        Relationships: []
+      }
+      ai_messages: {
+        Row: {
+          id: string
+          created_at: string
+          conversation_id: string
+          firm_id: string
+          role: string
+          content: string
+          sources: Json | null
+          proposals: Json | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          conversation_id: string
+          firm_id: string
+          role: string
+          content: string
+          sources?: Json | null
+          proposals?: Json | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          conversation_id?: string
+          firm_id?: string
+          role?: string
+          content?: string
+          sources?: Json | null
+          proposals?: Json | null
+        }
+        Relationships: []
+      }
+      document_chunks: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          case_id: string
+          document_id: string
+          chunk_index: number
+          content: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          case_id: string
+          document_id: string
+          chunk_index: number
+          content: string
         }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          case_id?: string
+          document_id?: string
+          chunk_index?: number
+          content?: string
+        }
+        Relationships: []
       }
       deadlines: {
         Row: {
@@ -242,6 +652,8 @@ export interface Database {
           status: string
           assigned_to: string | null
           reminder_date: string | null
+          event_type: string
+          location: string | null
         }
         Insert: {
           id?: string
@@ -255,6 +667,8 @@ export interface Database {
           status: string
           assigned_to?: string | null
           reminder_date?: string | null
+          event_type?: string
+          location?: string | null
         }
         Update: {
           id?: string
@@ -268,14 +682,228 @@ export interface Database {
           status?: string
           assigned_to?: string | null
           reminder_date?: string | null
+          event_type?: string
+          location?: string | null
+        }
+        Relationships: []
+      }
+      deadline_reminders: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          deadline_id: string
+          user_id: string
+          kind: string
+          channel: string
+          sent_for: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          deadline_id: string
+          user_id: string
+          kind: string
+          channel: string
+          sent_for: string
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          deadline_id?: string
+          user_id?: string
+          kind?: string
+          channel?: string
+          sent_for?: string
+        }
+        Relationships: []
+      }
+      calendar_feeds: {
+        Row: {
+          user_id: string
+          created_at: string
+          firm_id: string
+          token: string
+        }
+        Insert: {
+          user_id: string
+          created_at?: string
+          firm_id: string
+          token: string
         }
+        Update: {
+          user_id?: string
+          created_at?: string
+          firm_id?: string
+          token?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          user_id: string
+          title: string
+          body: string | null
+          link: string | null
+          read_at: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          user_id: string
+          title: string
+          body?: string | null
+          link?: string | null
+          read_at?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          user_id?: string
+          title?: string
+          body?: string | null
+          link?: string | null
+          read_at?: string | null
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          firm_id: string
+          client_id: string
+          case_id: string | null
+          sequence_number: number
+          invoice_number: string
+          status: string
+          issue_date: string
+          due_date: string
+          tax_rate: number
+          subtotal: number
+          tax_amount: number
+          total: number
+          amount_paid: number
+          notes: string | null
+          created_by: string
+          sent_at: string | null
+          voided_at: string | null
+          void_reason: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          firm_id: string
+          client_id: string
+          case_id?: string | null
+          sequence_number?: number
+          invoice_number?: string
+          status?: string
+          issue_date?: string
+          due_date: string
+          tax_rate?: number
+          subtotal?: number
+          tax_amount?: number
+          total?: number
+          amount_paid?: number
+          notes?: string | null
+          created_by: string
+          sent_at?: string | null
+          voided_at?: string | null
+          void_reason?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          firm_id?: string
+          client_id?: string
+          case_id?: string | null
+          sequence_number?: number
+          invoice_number?: string
+          status?: string
+          issue_date?: string
+          due_date?: string
+          tax_rate?: number
+          subtotal?: number
+          tax_amount?: number
+          total?: number
+          amount_paid?: number
+          notes?: string | null
+          created_by?: string
+          sent_at?: string | null
+          voided_at?: string | null
+          void_reason?: string | null
+        }
+        Relationships: []
+      }
+      invoice_line_items: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          invoice_id: string
+          financial_id: string | null
+          time_entry_id: string | null
+          case_id: string | null
+          line_type: string
+          service_date: string | null
+          description: string
+          quantity: number
+          unit_price: number
+          amount: number
+          taxable: boolean
+          position: number
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          invoice_id: string
+          financial_id?: string | null
+          time_entry_id?: string | null
+          case_id?: string | null
+          line_type: string
+          service_date?: string | null
+          description: string
+          quantity?: number
+          unit_price: number
+          taxable?: boolean
+          position?: number
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          invoice_id?: string
+          financial_id?: string | null
+          time_entry_id?: string | null
+          case_id?: string | null
+          line_type?: string
+          service_date?: string | null
+          description?: string
+          quantity?: number
+          unit_price?: number
+          taxable?: boolean
+          position?: number
+        }
+        Relationships: []
       }
       financials: {
         Row: {
           id: string
           created_at: string
           firm_id: string
-          case_id: string
+          case_id: string | null
           transaction_type: string
           amount: number
           description: string | null
@@ -288,7 +916,7 @@ export interface Database {
           id?: string
           created_at?: string
           firm_id: string
-          case_id: string
+          case_id?: string | null
           transaction_type: string
           amount: number
           description?: string | null
@@ -301,7 +929,7 @@ export interface Database {
           id?: string
           created_at?: string
           firm_id?: string
-          case_id?: string
+          case_id?: string | null
           transaction_type?: string
           amount?: number
           description?: string | null
@@ -310,6 +938,335 @@ export interface Database {
           invoice_id?: string | null
           party_id?: string | null
         }
+        Relationships: []
+      }
+      billing_rates: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          user_id: string | null
+          case_id: string | null
+          hourly_rate: number
+          created_by: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          user_id?: string | null
+          case_id?: string | null
+          hourly_rate: number
+          created_by?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          user_id?: string | null
+          case_id?: string | null
+          hourly_rate?: number
+          created_by?: string | null
+        }
+        Relationships: []
+      }
+      time_entries: {
+        Row: {
+          id: string
+          created_at: string
+          updated_at: string
+          firm_id: string
+          user_id: string
+          case_id: string | null
+          started_at: string
+          stopped_at: string | null
+          duration_seconds: number | null
+          billed_hours: number | null
+          hourly_rate: number | null
+          amount: number | null
+          activity_code: string | null
+          narrative: string | null
+          is_billable: boolean
+          invoice_id: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          firm_id: string
+          user_id: string
+          case_id: string | null
+          started_at: string
+          stopped_at?: string | null
+          duration_seconds?: number | null
+          billed_hours?: number | null
+          hourly_rate?: number | null
+          activity_code?: string | null
+          narrative?: string | null
+          is_billable?: boolean
+          invoice_id?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          updated_at?: string
+          firm_id?: string
+          user_id?: string
+          case_id?: string | null
+          started_at?: string
+          stopped_at?: string | null
+          duration_seconds?: number | null
+          billed_hours?: number | null
+          hourly_rate?: number | null
+          activity_code?: string | null
+          narrative?: string | null
+          is_billable?: boolean
+          invoice_id?: string | null
+        }
+        Relationships: []
+      }
+      trust_accounts: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          name: string
+          bank_name: string | null
+          account_number_last4: string | null
+          is_active: boolean
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          name: string
+          bank_name?: string | null
+          account_number_last4?: string | null
+          is_active?: boolean
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          name?: string
+          bank_name?: string | null
+          account_number_last4?: string | null
+          is_active?: boolean
+        }
+        Relationships: []
+      }
+      trust_transactions: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          trust_account_id: string
+          client_id: string
+          case_id: string | null
+          transaction_type: string
+          amount: number
+          transaction_date: string
+          description: string
+          payee: string | null
+          reference: string | null
+          invoice_id: string | null
+          recorded_by: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          trust_account_id: string
+          client_id: string
+          case_id?: string | null
+          transaction_type: string
+          amount: number
+          transaction_date: string
+          description: string
+          payee?: string | null
+          reference?: string | null
+          invoice_id?: string | null
+          recorded_by: string
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          trust_account_id?: string
+          client_id?: string
+          case_id?: string | null
+          transaction_type?: string
+          amount?: number
+          transaction_date?: string
+          description?: string
+          payee?: string | null
+          reference?: string | null
+          invoice_id?: string | null
+          recorded_by?: string
+        }
+        Relationships: []
+      }
+      trust_bank_statements: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          trust_account_id: string
+          period_start: string
+          period_end: string
+          closing_balance: number
+          file_name: string
+          file_format: string
+          imported_by: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          trust_account_id: string
+          period_start: string
+          period_end: string
+          closing_balance: number
+          file_name: string
+          file_format: string
+          imported_by: string
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          trust_account_id?: string
+          period_start?: string
+          period_end?: string
+          closing_balance?: number
+          file_name?: string
+          file_format?: string
+          imported_by?: string
+        }
+        Relationships: []
+      }
+      trust_bank_statement_lines: {
+        Row: {
+          id: string
+          firm_id: string
+          statement_id: string
+          posted_date: string
+          amount: number
+          description: string | null
+          reference: string | null
+          trust_transaction_id: string | null
+        }
+        Insert: {
+          id?: string
+          firm_id: string
+          statement_id: string
+          posted_date: string
+          amount: number
+          description?: string | null
+          reference?: string | null
+          trust_transaction_id?: string | null
+        }
+        Update: {
+          id?: string
+          firm_id?: string
+          statement_id?: string
+          posted_date?: string
+          amount?: number
+          description?: string | null
+          reference?: string | null
+          trust_transaction_id?: string | null
+        }
+        Relationships: []
+      }
+      trust_reconciliations: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          trust_account_id: string
+          statement_id: string
+          period_end: string
+          statement_balance: number
+          deposits_in_transit: number
+          outstanding_disbursements: number
+          adjusted_bank_balance: number
+          book_balance: number
+          client_ledger_total: number
+          report: Json
+          is_balanced: boolean
+          notes: string | null
+          reconciled_by: string
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          trust_account_id: string
+          statement_id: string
+          period_end: string
+          statement_balance: number
+          deposits_in_transit: number
+          outstanding_disbursements: number
+          adjusted_bank_balance: number
+          book_balance: number
+          client_ledger_total: number
+          report: Json
+          is_balanced: boolean
+          notes?: string | null
+          reconciled_by: string
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          trust_account_id?: string
+          statement_id?: string
+          period_end?: string
+          statement_balance?: number
+          deposits_in_transit?: number
+          outstanding_disbursements?: number
+          adjusted_bank_balance?: number
+          book_balance?: number
+          client_ledger_total?: number
+          report?: Json
+          is_balanced?: boolean
+          notes?: string | null
+          reconciled_by?: string
+        }
+        Relationships: []
+      }
+      case_parties: {
+        Row: {
+          id: string
+          created_at: string
+          firm_id: string
+          case_id: string
+          party_id: string
+          role: string
+          represents_party_id: string | null
+          notes: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          firm_id: string
+          case_id: string
+          party_id: string
+          role: string
+          represents_party_id?: string | null
+          notes?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          firm_id?: string
+          case_id?: string
+          party_id?: string
+          role?: string
+          represents_party_id?: string | null
+          notes?: string | null
+        }
+        Relationships: []
       }
       security_interests: {
         Row: {
@@ -363,16 +1320,129 @@ export interface Database {
           interest_rate?: number | null
           property_value?: number | null
         }
+        Relationships: []
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_document_version: {
+        Args: {
+          p_document_id: string
+          p_file_path: string
+          p_file_size: number
+          p_mime_type: string | null
+          p_checksum: string | null
+          p_restored_from_id?: string | null
+        }
+        Returns: Database['public']['Tables']['documents']['Row']
+      }
+      merge_parties: {
+        Args: {
+          p_survivor_id: string
+          p_duplicate_ids: string[]
+        }
+        Returns: Database['public']['Tables']['party_merges']['Row'][]
+      }
+      undo_party_merge: {
+        Args: {
+          p_merge_id: string
+        }
+        Returns: Database['public']['Tables']['party_merges']['Row']
+      }
+      mark_overdue_deadlines: {
+        Args: {
+          p_firm_id: string
+          p_before?: string
+        }
+        Returns: number
+      }
+      current_firm_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string | null
+      }
+      case_is_live: {
+        Args: {
+          p_case_id: string
+        }
+        Returns: boolean
+      }
+      delete_case: {
+        Args: {
+          p_case_id: string
+        }
+        Returns: Database['public']['Tables']['cases']['Row']
+      }
+      trashed_cases: {
+        Args: Record<PropertyKey, never>
+        Returns: Database['public']['Tables']['cases']['Row'][]
+      }
+      restore_case: {
+        Args: {
+          p_case_id: string
+        }
+        Returns: Database['public']['Tables']['cases']['Row']
+      }
+      purge_case: {
+        Args: {
+          p_case_id: string
+        }
+        Returns: Database['public']['Tables']['case_purges']['Row']
+      }
+      current_security_policy: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          is_active: boolean
+          mfa_required: boolean
+          idle_timeout_minutes: number | null
+          password_min_length: number
+          password_require_complexity: boolean
+        }[]
+      }
+      user_can: {
+        Args: {
+          p_capability: string
+        }
+        Returns: boolean
+      }
+      create_invoice: {
+        Args: {
+          p_client_id: string
+          p_case_id: string | null
+          p_financial_ids: string[]
+          p_time_entry_ids: string[]
+          p_due_date: string
+          p_issue_date?: string
+          p_tax_rate?: number
+          p_notes?: string | null
+        }
+        Returns: Database['public']['Tables']['invoices']['Row']
+      }
+      billing_rate_for: {
+        Args: {
+          p_user_id: string
+          p_case_id: string
+        }
+        Returns: number
+      }
+      trust_ledger_balances: {
+        Args: {
+          p_trust_account_id: string
+          p_as_of?: string | null
+        }
+        Returns: {
+          client_id: string
+          balance: number
+          last_transaction_date: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
     }
+    CompositeTypes: {
+      [_ in never]: never
+    }
   }
 }